@@ -17,9 +17,10 @@ export default function DashboardLayout({
   const pathname = usePathname();
   const [courseId, setCourseId] = useState<string | null>(null);
   const { user, isLoaded } = useUser();
-  const isCoursePage = /^\/user\/courses\/[^\/]+(?:\/chapters\/[^\/]+)?$/.test(
-    pathname
-  );
+  const isCoursePage =
+    /^\/user\/courses\/[^\/]+(?:\/chapters\/[^\/]+|\/questions)?$/.test(
+      pathname
+    );
 
   useEffect(() => {
     if (isCoursePage) {
@@ -0,0 +1,226 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useChangeUserRoleMutation,
+  useGetTeacherApplicationsQuery,
+  useReviewTeacherApplicationMutation,
+} from "@/state/api";
+import { Check, X } from "lucide-react";
+import React, { useState } from "react";
+
+const STATUSES: TeacherApplicationStatus[] = [
+  "Pending",
+  "Approved",
+  "Rejected",
+];
+const ROLES: UserRole[] = ["student", "teacher", "admin"];
+
+const ApplicationCard = ({
+  application,
+}: {
+  application: TeacherApplication;
+}) => {
+  const [reviewApplication, { isLoading }] =
+    useReviewTeacherApplicationMutation();
+  const [note, setNote] = useState("");
+
+  const handleReview = async (status: "Approved" | "Rejected") => {
+    try {
+      await reviewApplication({
+        applicationId: application.applicationId,
+        status,
+        note,
+      }).unwrap();
+    } catch (error) {
+      console.error("Failed to review application:", error);
+    }
+  };
+
+  return (
+    <div className="teacher-applications__card">
+      <div className="teacher-applications__card-header">
+        <span className="teacher-applications__name">
+          {application.userName || application.userId}
+        </span>
+        <span className="teacher-applications__meta">
+          {application.email} ·{" "}
+          {new Date(application.createdAt).toLocaleDateString()}
+        </span>
+      </div>
+      <p className="teacher-applications__text">{application.motivation}</p>
+      {application.experience && (
+        <p className="teacher-applications__text">
+          <span className="teacher-applications__label">Experience: </span>
+          {application.experience}
+        </p>
+      )}
+
+      {application.status === "Pending" ? (
+        <div className="teacher-applications__actions">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note to the applicant (optional)"
+            className="teacher-applications__input"
+          />
+          <Button
+            variant="outline"
+            disabled={isLoading}
+            onClick={() => handleReview("Rejected")}
+            className="teacher-applications__reject"
+          >
+            <X className="mr-1 h-4 w-4" />
+            Reject
+          </Button>
+          <Button
+            disabled={isLoading}
+            onClick={() => handleReview("Approved")}
+            className="teacher-applications__approve"
+          >
+            <Check className="mr-1 h-4 w-4" />
+            Approve
+          </Button>
+        </div>
+      ) : (
+        <p className="teacher-applications__meta">
+          {application.status}
+          {application.reviewedAt &&
+            ` on ${new Date(application.reviewedAt).toLocaleDateString()}`}
+          {application.reviewNote && ` — ${application.reviewNote}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const RoleChangeForm = () => {
+  const [changeUserRole, { isLoading }] = useChangeUserRoleMutation();
+  const [userId, setUserId] = useState("");
+  const [role, setRole] = useState<UserRole>("teacher");
+  const [reason, setReason] = useState("");
+
+  const handleChange = async () => {
+    try {
+      await changeUserRole({ userId: userId.trim(), role, reason }).unwrap();
+      setUserId("");
+      setReason("");
+    } catch (error) {
+      console.error("Failed to change user role:", error);
+    }
+  };
+
+  return (
+    <section className="teacher-applications__section">
+      <h2 className="teacher-applications__heading">
+        Change a User&apos;s Role
+      </h2>
+      <div className="teacher-applications__actions">
+        <Input
+          value={userId}
+          onChange={(e) => setUserId(e.target.value)}
+          placeholder="User ID"
+          className="teacher-applications__input"
+        />
+        <Select
+          value={role}
+          onValueChange={(value) => setRole(value as UserRole)}
+        >
+          <SelectTrigger className="teacher-applications__select">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ROLES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason"
+          className="teacher-applications__input"
+        />
+        <Button
+          disabled={!userId.trim() || isLoading}
+          onClick={handleChange}
+          className="teacher-applications__approve"
+        >
+          Change Role
+        </Button>
+      </div>
+    </section>
+  );
+};
+
+const TeacherApplications = () => {
+  const [status, setStatus] = useState<TeacherApplicationStatus>("Pending");
+  const {
+    data: applications,
+    isLoading,
+    isError,
+  } = useGetTeacherApplicationsQuery({ status });
+
+  return (
+    <div className="teacher-applications">
+      <Header
+        title="Teacher Applications"
+        subtitle="Review requests for teacher access. Every role change is recorded."
+        rightElement={
+          <Select
+            value={status}
+            onValueChange={(value) =>
+              setStatus(value as TeacherApplicationStatus)
+            }
+          >
+            <SelectTrigger className="teacher-applications__select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUSES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        }
+      />
+
+      <section className="teacher-applications__section">
+        {isLoading ? (
+          <Loading />
+        ) : isError || !applications ? (
+          <div>Error loading teacher applications.</div>
+        ) : applications.length === 0 ? (
+          <p className="teacher-applications__empty">
+            No {status.toLowerCase()} applications.
+          </p>
+        ) : (
+          applications.map((application) => (
+            <ApplicationCard
+              key={application.applicationId}
+              application={application}
+            />
+          ))
+        )}
+      </section>
+
+      <RoleChangeForm />
+    </div>
+  );
+};
+
+export default TeacherApplications;
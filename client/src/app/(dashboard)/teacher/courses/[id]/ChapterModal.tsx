@@ -12,16 +12,23 @@ import {
 import { Input } from "@/components/ui/input";
 import { ChapterFormData, chapterSchema } from "@/lib/schemas";
 import { addChapter, closeChapterModal, editChapter } from "@/state";
+import { useCreateQuizMutation, useGetQuizzesQuery } from "@/state/api";
 import { useAppDispatch, useAppSelector } from "@/state/redux";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { X } from "lucide-react";
-import React, { useEffect } from "react";
+import { useParams } from "next/navigation";
+import React, { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { v4 as uuidv4 } from "uuid";
 
 const ChapterModal = () => {
   const dispatch = useAppDispatch();
+  const params = useParams();
+  const courseId = params.id as string;
+  const { data: quizzes } = useGetQuizzesQuery({ courseId });
+  const [createQuiz, { isLoading: isCreatingQuiz }] = useCreateQuizMutation();
+  const [newQuizTitle, setNewQuizTitle] = useState("");
   const {
     isChapterModalOpen,
     selectedSectionIndex,
@@ -39,7 +46,9 @@ const ChapterModal = () => {
     defaultValues: {
       title: "",
       content: "",
+      type: "Content",
       video: "",
+      quizId: "",
     },
   });
 
@@ -48,17 +57,39 @@ const ChapterModal = () => {
       methods.reset({
         title: chapter.title,
         content: chapter.content,
+        type: chapter.type === "Quiz" ? "Quiz" : "Content",
         video: chapter.video || "",
+        quizId: chapter.quizId || "",
       });
     } else {
       methods.reset({
         title: "",
         content: "",
+        type: "Content",
         video: "",
+        quizId: "",
       });
     }
+    setNewQuizTitle("");
   }, [chapter, methods]);
 
+  const isQuizChapter = methods.watch("type") === "Quiz";
+
+  const handleCreateQuiz = async () => {
+    if (!newQuizTitle.trim()) return;
+
+    try {
+      const quiz = await createQuiz({
+        courseId,
+        title: newQuizTitle.trim(),
+      }).unwrap();
+      methods.setValue("quizId", quiz.quizId, { shouldValidate: true });
+      setNewQuizTitle("");
+    } catch (error) {
+      console.error("Failed to create quiz:", error);
+    }
+  };
+
   const onClose = () => {
     dispatch(closeChapterModal());
   };
@@ -66,13 +97,22 @@ const ChapterModal = () => {
   const onSubmit = (data: ChapterFormData) => {
     if (selectedSectionIndex === null) return;
 
-    const newChapter: Chapter = {
-      chapterId: chapter?.chapterId || uuidv4(),
-      title: data.title,
-      content: data.content,
-      type: data.video ? "Video" : "Text",
-      video: data.video,
-    };
+    const newChapter: Chapter =
+      data.type === "Quiz"
+        ? {
+            chapterId: chapter?.chapterId || uuidv4(),
+            title: data.title,
+            content: data.content,
+            type: "Quiz",
+            quizId: data.quizId,
+          }
+        : {
+            chapterId: chapter?.chapterId || uuidv4(),
+            title: data.title,
+            content: data.content,
+            type: data.video ? "Video" : "Text",
+            video: data.video,
+          };
 
     if (selectedChapterIndex === null) {
       dispatch(
@@ -125,44 +165,85 @@ const ChapterModal = () => {
               placeholder="Write chapter content here"
             />
 
-            <FormField
-              control={methods.control}
-              name="video"
-              render={({ field: { onChange, value } }) => (
-                <FormItem>
-                  <FormLabel className="text-customgreys-dirtyGrey text-sm">
-                    Chapter Video
-                  </FormLabel>
-                  <FormControl>
-                    <div>
-                      <Input
-                        type="file"
-                        accept="video/*"
-                        onChange={(e) => {
-                          const file = e.target.files?.[0];
-                          if (file) {
-                            onChange(file);
-                          }
-                        }}
-                        className="border-none bg-customgreys-darkGrey py-2 cursor-pointer"
-                      />
-                      {typeof value === "string" && value && (
-                        <div className="my-2 text-sm text-gray-600">
-                          Current video: {value.split("/").pop()}
-                        </div>
-                      )}
-                      {value instanceof File && (
-                        <div className="my-2 text-sm text-gray-600">
-                          Selected file: {value.name}
-                        </div>
-                      )}
-                    </div>
-                  </FormControl>
-                  <FormMessage className="text-red-400" />
-                </FormItem>
-              )}
+            <CustomFormField
+              name="type"
+              label="Chapter Type"
+              type="select"
+              options={[
+                { value: "Content", label: "Video / Text" },
+                { value: "Quiz", label: "Quiz" },
+              ]}
             />
 
+            {isQuizChapter ? (
+              <div className="chapter-modal__quiz">
+                <CustomFormField
+                  name="quizId"
+                  label="Quiz"
+                  type="select"
+                  placeholder="Select a quiz"
+                  options={(quizzes || []).map((quiz) => ({
+                    value: quiz.quizId,
+                    label: quiz.title,
+                  }))}
+                />
+                <div className="chapter-modal__new-quiz">
+                  <Input
+                    value={newQuizTitle}
+                    onChange={(e) => setNewQuizTitle(e.target.value)}
+                    placeholder="Or create a new quiz"
+                    className="chapter-modal__new-quiz-input"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleCreateQuiz}
+                    disabled={!newQuizTitle.trim() || isCreatingQuiz}
+                  >
+                    {isCreatingQuiz ? "Creating..." : "Create Quiz"}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <FormField
+                control={methods.control}
+                name="video"
+                render={({ field: { onChange, value } }) => (
+                  <FormItem>
+                    <FormLabel className="text-customgreys-dirtyGrey text-sm">
+                      Chapter Video
+                    </FormLabel>
+                    <FormControl>
+                      <div>
+                        <Input
+                          type="file"
+                          accept="video/*"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) {
+                              onChange(file);
+                            }
+                          }}
+                          className="border-none bg-customgreys-darkGrey py-2 cursor-pointer"
+                        />
+                        {typeof value === "string" && value && (
+                          <div className="my-2 text-sm text-gray-600">
+                            Current video: {value.split("/").pop()}
+                          </div>
+                        )}
+                        {value instanceof File && (
+                          <div className="my-2 text-sm text-gray-600">
+                            Selected file: {value.name}
+                          </div>
+                        )}
+                      </div>
+                    </FormControl>
+                    <FormMessage className="text-red-400" />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="chapter-modal__actions">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
@@ -0,0 +1,255 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import { cn } from "@/lib/utils";
+import { useGetCourseAnalyticsQuery } from "@/state/api";
+import { ArrowLeft } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import React from "react";
+
+const formatValue = (value: number | null, suffix = "") =>
+  value === null ? "—" : `${value}${suffix}`;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+// Vertical bars, one per day, scaled to the largest value
+const ColumnChart = ({
+  points,
+  emptyMessage,
+}: {
+  points: { date: string; value: number; label: string }[];
+  emptyMessage: string;
+}) => {
+  if (points.length === 0) {
+    return <p className="course-analytics__empty">{emptyMessage}</p>;
+  }
+
+  const max = Math.max(...points.map((point) => point.value), 1);
+  return (
+    <div className="course-analytics__columns">
+      {points.map((point) => (
+        <div
+          key={point.date}
+          title={`${formatDay(point.date)}: ${point.label}`}
+          className="course-analytics__column"
+        >
+          <div
+            className="course-analytics__column-fill"
+            style={{ height: `${(point.value / max) * 100}%` }}
+          />
+          <span className="course-analytics__column-label">
+            {formatDay(point.date)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// One labelled horizontal bar, as a share of 100
+const BarRow = ({
+  label,
+  value,
+  detail,
+  variant,
+}: {
+  label: string;
+  value: number | null;
+  detail: string;
+  variant?: "warning";
+}) => (
+  <div className="course-analytics__bar-row">
+    <span className="course-analytics__bar-label">{label}</span>
+    <div className="course-analytics__bar">
+      <div
+        className={cn(
+          "course-analytics__bar-fill",
+          variant === "warning" && "course-analytics__bar-fill--warning"
+        )}
+        style={{ width: `${value ?? 0}%` }}
+      />
+    </div>
+    <span className="course-analytics__bar-value">{detail}</span>
+  </div>
+);
+
+const CourseAnalyticsPage = () => {
+  const router = useRouter();
+  const params = useParams();
+  const courseId = params.id as string;
+  const {
+    data: analytics,
+    isLoading,
+    isError,
+  } = useGetCourseAnalyticsQuery(courseId);
+
+  if (isLoading) return <Loading />;
+  if (isError || !analytics) return <div>Error loading course analytics.</div>;
+
+  const { summary, discussion } = analytics;
+  const mostDropOffs = Math.max(
+    ...analytics.dropOffPoints.map((point) => point.students),
+    1
+  );
+
+  return (
+    <div className="course-analytics">
+      <div className="flex items-center gap-5 mb-5">
+        <button
+          className="flex items-center border border-customgreys-dirtyGrey rounded-lg p-2 gap-2 cursor-pointer hover:bg-customgreys-dirtyGrey hover:text-white-100 text-customgreys-dirtyGrey"
+          onClick={() =>
+            router.push(`/teacher/courses/${courseId}`, { scroll: false })
+          }
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Course</span>
+        </button>
+      </div>
+
+      <Header
+        title={`${analytics.title} Analytics`}
+        subtitle="Trends across everyone who has enrolled in this course"
+      />
+
+      <div className="course-analytics__stats">
+        <div className="course-analytics__stat">
+          <span className="course-analytics__stat-value">
+            {summary.students}
+          </span>
+          <span className="course-analytics__stat-label">students</span>
+        </div>
+        <div className="course-analytics__stat">
+          <span className="course-analytics__stat-value">{summary.active}</span>
+          <span className="course-analytics__stat-label">with access</span>
+        </div>
+        <div className="course-analytics__stat">
+          <span className="course-analytics__stat-value">
+            {summary.completed}
+          </span>
+          <span className="course-analytics__stat-label">completed</span>
+        </div>
+        <div className="course-analytics__stat">
+          <span className="course-analytics__stat-value">
+            {summary.dropped}
+          </span>
+          <span className="course-analytics__stat-label">left or expired</span>
+        </div>
+        <div className="course-analytics__stat">
+          <span className="course-analytics__stat-value">
+            {formatValue(summary.averageProgress, "%")}
+          </span>
+          <span className="course-analytics__stat-label">avg. progress</span>
+        </div>
+      </div>
+
+      <section className="course-analytics__section">
+        <h2 className="course-analytics__heading">Enrollments Over Time</h2>
+        <ColumnChart
+          points={analytics.enrollmentsOverTime.map((point) => ({
+            date: point.date,
+            value: point.total,
+            label: `${point.total} students (+${point.enrolled}, -${point.dropped})`,
+          }))}
+          emptyMessage="No one has enrolled yet."
+        />
+      </section>
+
+      <section className="course-analytics__section">
+        <h2 className="course-analytics__heading">Completion Funnel</h2>
+        {analytics.sections.length === 0 ? (
+          <p className="course-analytics__empty">This course has no content.</p>
+        ) : (
+          analytics.sections.map((section) => (
+            <div key={section.sectionId} className="course-analytics__group">
+              <BarRow
+                label={section.sectionTitle}
+                value={section.completionRate}
+                detail={`${section.completed} finished`}
+              />
+              {section.chapters.map((chapter) => (
+                <div
+                  key={chapter.chapterId}
+                  className="course-analytics__chapter"
+                >
+                  <BarRow
+                    label={chapter.title}
+                    value={chapter.completionRate}
+                    detail={`${formatValue(chapter.completionRate, "%")}${
+                      chapter.dropOffRate
+                        ? ` · ${chapter.dropOffRate}% drop`
+                        : ""
+                    }`}
+                  />
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </section>
+
+      <section className="course-analytics__section">
+        <h2 className="course-analytics__heading">Drop-off Points</h2>
+        {analytics.dropOffPoints.length === 0 ? (
+          <p className="course-analytics__empty">
+            No students have left this course.
+          </p>
+        ) : (
+          analytics.dropOffPoints.map((point) => (
+            <BarRow
+              key={point.chapterId}
+              label={`${point.sectionTitle} / ${point.title}`}
+              value={(point.students / mostDropOffs) * 100}
+              detail={`${point.students} ${
+                point.students === 1 ? "student" : "students"
+              } stopped here`}
+              variant="warning"
+            />
+          ))
+        )}
+      </section>
+
+      <section className="course-analytics__section">
+        <h2 className="course-analytics__heading">Average Quiz Scores</h2>
+        {analytics.quizzes.length === 0 ? (
+          <p className="course-analytics__empty">This course has no quizzes.</p>
+        ) : (
+          analytics.quizzes.map((quiz) => (
+            <BarRow
+              key={quiz.quizId}
+              label={quiz.title}
+              value={quiz.averageScore}
+              detail={`${formatValue(quiz.averageScore, "%")} · ${
+                quiz.students
+              } taken · ${formatValue(quiz.passRate, "%")} passed`}
+            />
+          ))
+        )}
+      </section>
+
+      <section className="course-analytics__section">
+        <h2 className="course-analytics__heading">
+          Discussion Activity · {discussion.total} total (
+          {discussion.byType.Comment} comments, {discussion.byType.Reply}{" "}
+          replies, {discussion.byType.Reaction} reactions,{" "}
+          {discussion.byType.Question} questions, {discussion.byType.Answer}{" "}
+          answers, {discussion.byType.Upvote} upvotes)
+        </h2>
+        <ColumnChart
+          points={discussion.overTime.map((point) => ({
+            date: point.date,
+            value: point.count,
+            label: `${point.count} activities`,
+          }))}
+          emptyMessage="No discussion activity yet."
+        />
+      </section>
+    </div>
+  );
+};
+
+export default CourseAnalyticsPage;
@@ -0,0 +1,257 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { fromLocalInput, toLocalInput } from "@/lib/utils";
+import {
+  useGetCourseQuery,
+  useGetEnrollmentRequestsQuery,
+  useReviewEnrollmentRequestMutation,
+  useUpdateEnrollmentPolicyMutation,
+} from "@/state/api";
+import { ArrowLeft, Check, X } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import React, { useEffect, useState } from "react";
+
+const MODE_LABELS: Record<EnrollmentMode, string> = {
+  Open: "Open to everyone",
+  Approval: "Teacher approval required",
+  InviteCode: "Invite code required",
+};
+
+const EnrollmentRequests = ({ courseId }: { courseId: string }) => {
+  const { data: requests, isLoading } = useGetEnrollmentRequestsQuery(courseId);
+  const [reviewRequest, { isLoading: isReviewing }] =
+    useReviewEnrollmentRequestMutation();
+
+  const pending = (requests || []).filter(
+    (request) => request.status === "Pending"
+  );
+
+  const handleReview = async (
+    userId: string,
+    status: "Approved" | "Rejected"
+  ) => {
+    try {
+      await reviewRequest({ courseId, userId, status }).unwrap();
+    } catch (error) {
+      console.error("Failed to review enrollment request:", error);
+    }
+  };
+
+  return (
+    <section className="course-enrollment__section">
+      <h2 className="course-enrollment__heading">Pending Requests</h2>
+      {isLoading ? (
+        <Loading />
+      ) : pending.length === 0 ? (
+        <p className="course-enrollment__empty">No pending requests.</p>
+      ) : (
+        pending.map((request) => (
+          <div key={request.userId} className="course-enrollment__request">
+            <div>
+              <p className="course-enrollment__request-user">
+                {request.userId}
+              </p>
+              <p className="course-enrollment__request-meta">
+                Requested {new Date(request.requestedAt).toLocaleString()}
+              </p>
+            </div>
+            <div className="course-enrollment__request-actions">
+              <Button
+                variant="outline"
+                disabled={isReviewing}
+                onClick={() => handleReview(request.userId, "Rejected")}
+                className="course-enrollment__reject"
+              >
+                <X className="mr-1 h-4 w-4" />
+                Reject
+              </Button>
+              <Button
+                disabled={isReviewing}
+                onClick={() => handleReview(request.userId, "Approved")}
+                className="course-enrollment__save"
+              >
+                <Check className="mr-1 h-4 w-4" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </section>
+  );
+};
+
+const CourseEnrollment = () => {
+  const router = useRouter();
+  const params = useParams();
+  const courseId = params.id as string;
+  const { data: course, isLoading, isError } = useGetCourseQuery(courseId);
+  const [updatePolicy, { isLoading: isSaving }] =
+    useUpdateEnrollmentPolicyMutation();
+
+  const [mode, setMode] = useState<EnrollmentMode>("Open");
+  const [inviteCode, setInviteCode] = useState("");
+  const [capacity, setCapacity] = useState("");
+  const [opensAt, setOpensAt] = useState("");
+  const [closesAt, setClosesAt] = useState("");
+  const [accessDays, setAccessDays] = useState("");
+
+  useEffect(() => {
+    const policy = course?.enrollmentPolicy;
+    if (!policy) return;
+    setMode(policy.mode);
+    setInviteCode(policy.inviteCode || "");
+    setCapacity(policy.capacity ? String(policy.capacity) : "");
+    setOpensAt(toLocalInput(policy.opensAt));
+    setClosesAt(toLocalInput(policy.closesAt));
+    setAccessDays(policy.accessDays ? String(policy.accessDays) : "");
+  }, [course]);
+
+  const handleSave = async () => {
+    try {
+      await updatePolicy({
+        courseId,
+        mode,
+        inviteCode: mode === "InviteCode" ? inviteCode : undefined,
+        capacity: capacity ? Number(capacity) : 0,
+        opensAt: fromLocalInput(opensAt),
+        closesAt: fromLocalInput(closesAt),
+        accessDays: accessDays ? Number(accessDays) : 0,
+      }).unwrap();
+    } catch (error) {
+      console.error("Failed to update enrollment policy:", error);
+    }
+  };
+
+  if (isLoading) return <Loading />;
+  if (isError || !course) return <div>Error loading course.</div>;
+
+  return (
+    <div className="course-enrollment">
+      <div className="flex items-center gap-5 mb-5">
+        <button
+          className="flex items-center border border-customgreys-dirtyGrey rounded-lg p-2 gap-2 cursor-pointer hover:bg-customgreys-dirtyGrey hover:text-white-100 text-customgreys-dirtyGrey"
+          onClick={() =>
+            router.push(`/teacher/courses/${courseId}`, { scroll: false })
+          }
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Course</span>
+        </button>
+      </div>
+
+      <Header
+        title="Enrollment"
+        subtitle={`${course.enrollmentCount || 0} students enrolled${
+          course.status === "Draft"
+            ? " · students can enroll once the course is published"
+            : ""
+        }`}
+      />
+
+      <section className="course-enrollment__section">
+        <h2 className="course-enrollment__heading">Enrollment Policy</h2>
+        <div className="course-enrollment__fields">
+          <label className="course-enrollment__field">
+            <span className="course-enrollment__label">Who can enroll</span>
+            <Select
+              value={mode}
+              onValueChange={(value) => setMode(value as EnrollmentMode)}
+            >
+              <SelectTrigger className="course-enrollment__input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MODE_LABELS) as EnrollmentMode[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {MODE_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+
+          {mode === "InviteCode" && (
+            <label className="course-enrollment__field">
+              <span className="course-enrollment__label">Invite code</span>
+              <Input
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+                className="course-enrollment__input"
+              />
+            </label>
+          )}
+
+          <label className="course-enrollment__field">
+            <span className="course-enrollment__label">
+              Capacity (empty for no limit)
+            </span>
+            <Input
+              type="number"
+              min={0}
+              value={capacity}
+              onChange={(e) => setCapacity(e.target.value)}
+              className="course-enrollment__input"
+            />
+          </label>
+
+          <label className="course-enrollment__field">
+            <span className="course-enrollment__label">Enrollment opens</span>
+            <Input
+              type="datetime-local"
+              value={opensAt}
+              onChange={(e) => setOpensAt(e.target.value)}
+              className="course-enrollment__input"
+            />
+          </label>
+
+          <label className="course-enrollment__field">
+            <span className="course-enrollment__label">Enrollment closes</span>
+            <Input
+              type="datetime-local"
+              value={closesAt}
+              onChange={(e) => setClosesAt(e.target.value)}
+              className="course-enrollment__input"
+            />
+          </label>
+
+          <label className="course-enrollment__field">
+            <span className="course-enrollment__label">
+              Days of access (empty for no expiry)
+            </span>
+            <Input
+              type="number"
+              min={0}
+              value={accessDays}
+              onChange={(e) => setAccessDays(e.target.value)}
+              className="course-enrollment__input"
+            />
+          </label>
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={isSaving || (mode === "InviteCode" && !inviteCode.trim())}
+          className="course-enrollment__save self-end"
+        >
+          {isSaving ? "Saving..." : "Save Policy"}
+        </Button>
+      </section>
+
+      <EnrollmentRequests courseId={courseId} />
+    </div>
+  );
+};
+
+export default CourseEnrollment;
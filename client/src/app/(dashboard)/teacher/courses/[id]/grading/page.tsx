@@ -0,0 +1,130 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useGetGradingQueueQuery,
+  useGradeEssayAnswerMutation,
+} from "@/state/api";
+import { ArrowLeft } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import React, { useState } from "react";
+
+const EssayGradingCard = ({ item }: { item: EssayGradingItem }) => {
+  const [gradeEssayAnswer, { isLoading }] = useGradeEssayAnswerMutation();
+  const [points, setPoints] = useState("");
+  const [feedback, setFeedback] = useState("");
+
+  const awarded = Number(points);
+  const isValid =
+    points !== "" && !isNaN(awarded) && awarded >= 0 && awarded <= item.points;
+
+  const handleGrade = async () => {
+    if (!isValid) return;
+
+    try {
+      await gradeEssayAnswer({
+        quizId: item.quizId,
+        attemptId: item.attemptId,
+        questionId: item.questionId,
+        points: awarded,
+        feedback,
+      }).unwrap();
+    } catch (error) {
+      console.error("Failed to grade essay:", error);
+    }
+  };
+
+  return (
+    <div className="essay-grading__card">
+      <div className="essay-grading__meta">
+        <span className="essay-grading__quiz">{item.quizTitle}</span>
+        <span>
+          Student {item.userId}
+          {item.submittedAt &&
+            ` · ${new Date(item.submittedAt).toLocaleString()}`}
+        </span>
+      </div>
+      <p className="essay-grading__question">{item.questionText}</p>
+      <p className="essay-grading__answer">{item.textAnswer}</p>
+      <div className="essay-grading__form">
+        <div className="essay-grading__points">
+          <Input
+            type="number"
+            min={0}
+            max={item.points}
+            step="any"
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+            className="essay-grading__points-input"
+          />
+          <span>/ {item.points} points</span>
+        </div>
+        <Textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="Feedback for the student"
+          className="essay-grading__feedback"
+        />
+        <Button
+          onClick={handleGrade}
+          disabled={!isValid || isLoading}
+          className="essay-grading__submit"
+        >
+          {isLoading ? "Saving..." : "Save Grade"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const EssayGrading = () => {
+  const router = useRouter();
+  const params = useParams();
+  const courseId = params.id as string;
+  const { data: queue, isLoading, isError } = useGetGradingQueueQuery(courseId);
+
+  if (isLoading) return <Loading />;
+  if (isError || !queue) return <div>Error loading grading queue.</div>;
+
+  return (
+    <div className="essay-grading">
+      <div className="flex items-center gap-5 mb-5">
+        <button
+          className="flex items-center border border-customgreys-dirtyGrey rounded-lg p-2 gap-2 cursor-pointer hover:bg-customgreys-dirtyGrey hover:text-white-100 text-customgreys-dirtyGrey"
+          onClick={() =>
+            router.push(`/teacher/courses/${courseId}`, { scroll: false })
+          }
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Course</span>
+        </button>
+      </div>
+
+      <Header
+        title="Essay Grading"
+        subtitle={`${queue.length} ${
+          queue.length === 1 ? "answer" : "answers"
+        } waiting for review`}
+      />
+
+      {queue.length === 0 ? (
+        <p className="essay-grading__empty">All essays have been graded.</p>
+      ) : (
+        <div className="essay-grading__list">
+          {queue.map((item) => (
+            <EssayGradingCard
+              key={`${item.attemptId}-${item.questionId}`}
+              item={item}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EssayGrading;
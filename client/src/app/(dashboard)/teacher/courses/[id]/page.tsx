@@ -14,7 +14,16 @@ import {
 } from "@/state/api";
 import { useAppDispatch, useAppSelector } from "@/state/redux";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { ArrowLeft, Plus } from "lucide-react";
+import {
+  ArrowLeft,
+  BarChart3,
+  ClipboardCheck,
+  FileUp,
+  MessageCircleQuestion,
+  Plus,
+  UserPlus,
+  Users,
+} from "lucide-react";
 import { useParams, useRouter } from "next/navigation";
 import React, { useEffect } from "react";
 import { useForm } from "react-hook-form";
@@ -40,6 +49,7 @@ const CourseEditor = () => {
       courseDescription: "",
       courseCategory: "",
       courseStatus: false,
+      courseCertificateRequiresQuizzes: false,
     },
   });
 
@@ -50,6 +60,7 @@ const CourseEditor = () => {
         courseDescription: course.description,
         courseCategory: course.category,
         courseStatus: course.status === "Published",
+        courseCertificateRequiresQuizzes: !!course.certificateRequiresQuizzes,
       });
       dispatch(setSections(course.sections || []));
     }
@@ -95,6 +106,84 @@ const CourseEditor = () => {
             subtitle="Complete all fields and save your course"
             rightElement={
               <div className="flex items-center space-x-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    router.push(`/teacher/courses/${id}/grading`, {
+                      scroll: false,
+                    })
+                  }
+                  className="border-customgreys-dirtyGrey text-customgreys-dirtyGrey hover:bg-customgreys-dirtyGrey hover:text-white-100"
+                >
+                  <ClipboardCheck className="mr-1 h-4 w-4" />
+                  Grade Essays
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    router.push(`/teacher/courses/${id}/quizzes`, {
+                      scroll: false,
+                    })
+                  }
+                  className="border-customgreys-dirtyGrey text-customgreys-dirtyGrey hover:bg-customgreys-dirtyGrey hover:text-white-100"
+                >
+                  <FileUp className="mr-1 h-4 w-4" />
+                  Quizzes
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    router.push(`/teacher/courses/${id}/enrollment`, {
+                      scroll: false,
+                    })
+                  }
+                  className="border-customgreys-dirtyGrey text-customgreys-dirtyGrey hover:bg-customgreys-dirtyGrey hover:text-white-100"
+                >
+                  <UserPlus className="mr-1 h-4 w-4" />
+                  Enrollment
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    router.push(`/teacher/courses/${id}/students`, {
+                      scroll: false,
+                    })
+                  }
+                  className="border-customgreys-dirtyGrey text-customgreys-dirtyGrey hover:bg-customgreys-dirtyGrey hover:text-white-100"
+                >
+                  <Users className="mr-1 h-4 w-4" />
+                  Students
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    router.push(`/teacher/courses/${id}/analytics`, {
+                      scroll: false,
+                    })
+                  }
+                  className="border-customgreys-dirtyGrey text-customgreys-dirtyGrey hover:bg-customgreys-dirtyGrey hover:text-white-100"
+                >
+                  <BarChart3 className="mr-1 h-4 w-4" />
+                  Analytics
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    router.push(`/teacher/courses/${id}/questions`, {
+                      scroll: false,
+                    })
+                  }
+                  className="border-customgreys-dirtyGrey text-customgreys-dirtyGrey hover:bg-customgreys-dirtyGrey hover:text-white-100"
+                >
+                  <MessageCircleQuestion className="mr-1 h-4 w-4" />
+                  Q&amp;A
+                </Button>
                 <CustomFormField
                   name="courseStatus"
                   label={methods.watch("courseStatus") ? "Published" : "Draft"}
@@ -155,6 +244,12 @@ const CourseEditor = () => {
                   ]}
                   initialValue={course?.category}
                 />
+
+                <CustomFormField
+                  name="courseCertificateRequiresQuizzes"
+                  label="Certificates require passing every quiz"
+                  type="switch"
+                />
               </div>
             </div>
 
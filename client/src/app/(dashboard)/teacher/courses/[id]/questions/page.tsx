@@ -0,0 +1,46 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import QuestionBoard from "@/components/QuestionBoard";
+import { useGetCourseQuery } from "@/state/api";
+import { useUser } from "@clerk/nextjs";
+import { ArrowLeft } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import React from "react";
+
+const CourseQuestions = () => {
+  const router = useRouter();
+  const params = useParams();
+  const courseId = params.id as string;
+  const { user } = useUser();
+  const { data: course, isLoading, isError } = useGetCourseQuery(courseId);
+
+  if (isLoading) return <Loading />;
+  if (isError || !course || !user) return <div>Error loading course.</div>;
+
+  return (
+    <div className="course-questions">
+      <div className="flex items-center gap-5 mb-5">
+        <button
+          className="flex items-center border border-customgreys-dirtyGrey rounded-lg p-2 gap-2 cursor-pointer hover:bg-customgreys-dirtyGrey hover:text-white-100 text-customgreys-dirtyGrey"
+          onClick={() =>
+            router.push(`/teacher/courses/${courseId}`, { scroll: false })
+          }
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Course</span>
+        </button>
+      </div>
+
+      <Header
+        title={`${course.title} Q&A`}
+        subtitle="Answer your students' questions and accept the best answers"
+      />
+
+      <QuestionBoard course={course} userId={user.id} />
+    </div>
+  );
+};
+
+export default CourseQuestions;
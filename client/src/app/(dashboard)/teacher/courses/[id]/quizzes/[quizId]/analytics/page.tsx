@@ -0,0 +1,187 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import { cn } from "@/lib/utils";
+import { useGetQuizAnalyticsQuery } from "@/state/api";
+import { ArrowLeft } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import React from "react";
+
+const FLAG_LABELS: Record<QuizQuestionFlag, string> = {
+  TooHard: "Too hard",
+  TooEasy: "Too easy",
+  NegativeDiscrimination: "Top scorers miss it — check the answer key",
+  LowDiscrimination: "Does not separate strong and weak students",
+  DistractorOverKey: "A wrong option is chosen more than the right one",
+};
+
+const formatValue = (value: number | null, suffix = "") =>
+  value === null ? "—" : `${value}${suffix}`;
+
+const QuestionAnalyticsCard = ({
+  question,
+  index,
+}: {
+  question: QuizQuestionAnalytics;
+  index: number;
+}) => (
+  <div
+    className={cn(
+      "quiz-analytics__question",
+      question.flags.length > 0 && "quiz-analytics__question--flagged"
+    )}
+  >
+    <div className="quiz-analytics__question-header">
+      <span className="quiz-analytics__question-meta">
+        Q{index + 1} · {question.type} · {question.points} pts
+        {question.bankId && " · from question bank"}
+      </span>
+      <div className="quiz-analytics__flags">
+        {question.flags.map((flag) => (
+          <span key={flag} className="quiz-analytics__flag">
+            {FLAG_LABELS[flag]}
+          </span>
+        ))}
+      </div>
+    </div>
+    <p className="quiz-analytics__question-text">{question.text}</p>
+
+    <div className="quiz-analytics__stats">
+      <div className="quiz-analytics__stat">
+        <span className="quiz-analytics__stat-value">
+          {formatValue(question.percentCorrect, "%")}
+        </span>
+        <span className="quiz-analytics__stat-label">correct</span>
+      </div>
+      <div className="quiz-analytics__stat">
+        <span className="quiz-analytics__stat-value">
+          {formatValue(question.discrimination)}
+        </span>
+        <span className="quiz-analytics__stat-label">discrimination</span>
+      </div>
+      <div className="quiz-analytics__stat">
+        <span className="quiz-analytics__stat-value">
+          {formatValue(question.averageTimeSpent, "s")}
+        </span>
+        <span className="quiz-analytics__stat-label">avg. time</span>
+      </div>
+      <div className="quiz-analytics__stat">
+        <span className="quiz-analytics__stat-value">{question.responses}</span>
+        <span className="quiz-analytics__stat-label">
+          responses ({question.unanswered} blank)
+        </span>
+      </div>
+    </div>
+
+    {question.options.length > 0 && (
+      <div className="quiz-analytics__options">
+        {question.options.map((option) => (
+          <div key={option.optionId} className="quiz-analytics__option">
+            <span
+              className={cn(
+                "quiz-analytics__option-text",
+                option.isCorrect && "quiz-analytics__option-text--correct"
+              )}
+            >
+              {option.isCorrect && "✓ "}
+              {option.text}
+            </span>
+            <div className="quiz-analytics__bar">
+              <div
+                className={cn(
+                  "quiz-analytics__bar-fill",
+                  option.isCorrect && "quiz-analytics__bar-fill--correct"
+                )}
+                style={{ width: `${option.percent ?? 0}%` }}
+              />
+            </div>
+            <span className="quiz-analytics__option-count">
+              {option.count} ({formatValue(option.percent, "%")})
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
+
+    {question.commonAnswers.length > 0 && (
+      <ul className="quiz-analytics__answers">
+        {question.commonAnswers.map((answer) => (
+          <li
+            key={answer.answer}
+            className={cn(
+              answer.isCorrect && "quiz-analytics__option-text--correct"
+            )}
+          >
+            {answer.answer} — {answer.count}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const QuizAnalyticsPage = () => {
+  const router = useRouter();
+  const params = useParams();
+  const courseId = params.id as string;
+  const quizId = params.quizId as string;
+  const {
+    data: analytics,
+    isLoading,
+    isError,
+  } = useGetQuizAnalyticsQuery(quizId);
+
+  if (isLoading) return <Loading />;
+  if (isError || !analytics) return <div>Error loading quiz analytics.</div>;
+
+  const flagged = analytics.questions.filter(
+    (question) => question.flags.length > 0
+  ).length;
+
+  return (
+    <div className="quiz-analytics">
+      <div className="flex items-center gap-5 mb-5">
+        <button
+          className="flex items-center border border-customgreys-dirtyGrey rounded-lg p-2 gap-2 cursor-pointer hover:bg-customgreys-dirtyGrey hover:text-white-100 text-customgreys-dirtyGrey"
+          onClick={() =>
+            router.push(`/teacher/courses/${courseId}/quizzes`, {
+              scroll: false,
+            })
+          }
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Quizzes</span>
+        </button>
+      </div>
+
+      <Header
+        title={`${analytics.title} Analytics`}
+        subtitle={`${analytics.attempts} attempts by ${
+          analytics.students
+        } students · average score ${formatValue(
+          analytics.averageScore,
+          "%"
+        )} · ${flagged} flagged ${flagged === 1 ? "question" : "questions"}`}
+      />
+
+      {analytics.attempts === 0 ? (
+        <p className="quiz-analytics__empty">
+          No students have submitted this quiz yet.
+        </p>
+      ) : (
+        <div className="quiz-analytics__list">
+          {analytics.questions.map((question, index) => (
+            <QuestionAnalyticsCard
+              key={question.questionId}
+              question={question}
+              index={index}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizAnalyticsPage;
@@ -0,0 +1,317 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useGetQuizzesQuery,
+  useImportQuizMutation,
+  useLazyExportQuizQuery,
+} from "@/state/api";
+import { ArrowLeft, BarChart3, Download, Upload } from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import React, { useState } from "react";
+
+const FORMAT_LABELS: Record<QuizFileFormat, string> = {
+  gift: "GIFT",
+  qti: "QTI 2.1",
+};
+
+const QuizExportRow = ({ quiz }: { quiz: Quiz }) => {
+  const router = useRouter();
+  const [exportQuiz, { isFetching }] = useLazyExportQuizQuery();
+
+  const handleExport = async (format: QuizFileFormat) => {
+    try {
+      const file = await exportQuiz({ quizId: quiz.quizId, format }).unwrap();
+      const url = URL.createObjectURL(
+        new Blob([file.content], { type: file.contentType })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export quiz:", error);
+    }
+  };
+
+  return (
+    <div className="quiz-transfer__row">
+      <div>
+        <p className="quiz-transfer__quiz-title">{quiz.title}</p>
+        <p className="quiz-transfer__quiz-meta">
+          {quiz.questions?.length || 0} questions
+        </p>
+      </div>
+      <div className="quiz-transfer__row-actions">
+        <Button
+          variant="outline"
+          onClick={() =>
+            router.push(
+              `/teacher/courses/${quiz.courseId}/quizzes/${quiz.quizId}/analytics`,
+              { scroll: false }
+            )
+          }
+          className="quiz-transfer__export-button"
+        >
+          <BarChart3 className="mr-1 h-4 w-4" />
+          Analytics
+        </Button>
+        {(Object.keys(FORMAT_LABELS) as QuizFileFormat[]).map((format) => (
+          <Button
+            key={format}
+            variant="outline"
+            disabled={isFetching}
+            onClick={() => handleExport(format)}
+            className="quiz-transfer__export-button"
+          >
+            <Download className="mr-1 h-4 w-4" />
+            {FORMAT_LABELS[format]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const QuizTransfer = () => {
+  const router = useRouter();
+  const params = useParams();
+  const courseId = params.id as string;
+  const {
+    data: quizzes,
+    isLoading,
+    isError,
+  } = useGetQuizzesQuery({
+    courseId,
+  });
+  const [importQuiz, { isLoading: isImporting }] = useImportQuizMutation();
+
+  const [quizId, setQuizId] = useState("");
+  const [format, setFormat] = useState<QuizFileFormat>("gift");
+  const [content, setContent] = useState("");
+  const [replace, setReplace] = useState(false);
+  const [preview, setPreview] = useState<QuizImportPreview | null>(null);
+
+  // Any change to the import makes the last preview stale
+  const resetPreview = () => setPreview(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFormat(file.name.toLowerCase().endsWith(".xml") ? "qti" : "gift");
+    setContent(await file.text());
+    resetPreview();
+  };
+
+  const handlePreview = async () => {
+    try {
+      const result = await importQuiz({
+        quizId,
+        format,
+        content,
+        preview: true,
+      }).unwrap();
+      setPreview(result as QuizImportPreview);
+    } catch (error) {
+      console.error("Failed to preview import:", error);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      await importQuiz({ quizId, format, content, replace }).unwrap();
+      setContent("");
+      resetPreview();
+    } catch (error) {
+      console.error("Failed to import quiz:", error);
+    }
+  };
+
+  if (isLoading) return <Loading />;
+  if (isError || !quizzes) return <div>Error loading quizzes.</div>;
+
+  const canImport =
+    !!preview && preview.errors.length === 0 && preview.questions.length > 0;
+
+  return (
+    <div className="quiz-transfer">
+      <div className="flex items-center gap-5 mb-5">
+        <button
+          className="flex items-center border border-customgreys-dirtyGrey rounded-lg p-2 gap-2 cursor-pointer hover:bg-customgreys-dirtyGrey hover:text-white-100 text-customgreys-dirtyGrey"
+          onClick={() =>
+            router.push(`/teacher/courses/${courseId}`, { scroll: false })
+          }
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Course</span>
+        </button>
+      </div>
+
+      <Header
+        title="Quizzes"
+        subtitle="Review how questions perform, and move them in and out of this course as Moodle GIFT or IMS QTI 2.1"
+      />
+
+      <section className="quiz-transfer__section">
+        <h2 className="quiz-transfer__heading">Analytics & Export</h2>
+        {quizzes.length === 0 ? (
+          <p className="quiz-transfer__empty">
+            This course has no quizzes yet.
+          </p>
+        ) : (
+          quizzes.map((quiz) => <QuizExportRow key={quiz.quizId} quiz={quiz} />)
+        )}
+      </section>
+
+      <section className="quiz-transfer__section">
+        <h2 className="quiz-transfer__heading">Import</h2>
+        <div className="quiz-transfer__controls">
+          <Select
+            value={quizId}
+            onValueChange={(value) => {
+              setQuizId(value);
+              resetPreview();
+            }}
+          >
+            <SelectTrigger className="quiz-transfer__select">
+              <SelectValue placeholder="Import into quiz" />
+            </SelectTrigger>
+            <SelectContent>
+              {quizzes.map((quiz) => (
+                <SelectItem key={quiz.quizId} value={quiz.quizId}>
+                  {quiz.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={format}
+            onValueChange={(value) => {
+              setFormat(value as QuizFileFormat);
+              resetPreview();
+            }}
+          >
+            <SelectTrigger className="quiz-transfer__select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FORMAT_LABELS) as QuizFileFormat[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {FORMAT_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            type="file"
+            accept=".txt,.gift,.xml"
+            onChange={handleFile}
+            className="quiz-transfer__file"
+          />
+        </div>
+
+        <Textarea
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value);
+            resetPreview();
+          }}
+          placeholder="Paste GIFT text or QTI XML, or choose a file"
+          className="quiz-transfer__content"
+        />
+
+        <div className="quiz-transfer__actions">
+          <label className="quiz-transfer__replace">
+            <Switch checked={replace} onCheckedChange={setReplace} />
+            Replace the quiz&apos;s questions and settings
+          </label>
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={!quizId || !content.trim() || isImporting}
+            className="quiz-transfer__export-button"
+          >
+            Preview
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!quizId || !canImport || isImporting}
+            className="quiz-transfer__import-button"
+          >
+            <Upload className="mr-1 h-4 w-4" />
+            {isImporting ? "Importing..." : "Import"}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="quiz-transfer__preview">
+            {preview.errors.length > 0 && (
+              <ul className="quiz-transfer__errors">
+                {preview.errors.map((error, index) => (
+                  <li key={index}>
+                    Line {error.line}: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {replace && Object.keys(preview.settings).length > 0 && (
+              <p className="quiz-transfer__settings">
+                Settings:{" "}
+                {Object.entries(preview.settings)
+                  .map(([key, value]) => `${key} ${value}`)
+                  .join(" · ")}
+              </p>
+            )}
+            <p className="quiz-transfer__summary">
+              {preview.questions.length}{" "}
+              {preview.questions.length === 1 ? "question" : "questions"} ready
+              to import
+            </p>
+            <ul className="quiz-transfer__questions">
+              {preview.questions.map((question) => (
+                <li key={question.line} className="quiz-transfer__question">
+                  <span className="quiz-transfer__question-meta">
+                    Line {question.line} · {question.type} ·{" "}
+                    {question.points || 1} pts
+                  </span>
+                  <span>{question.text}</span>
+                  {question.options && question.options.length > 0 && (
+                    <span className="quiz-transfer__question-options">
+                      {question.options
+                        .map((option) =>
+                          option.match
+                            ? `${option.text} → ${option.match}`
+                            : `${option.isCorrect ? "✓ " : ""}${option.text}`
+                        )
+                        .join(" | ")}
+                    </span>
+                  )}
+                  {question.acceptedAnswers && (
+                    <span className="quiz-transfer__question-options">
+                      Accepts: {question.acceptedAnswers.join(" | ")}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default QuizTransfer;
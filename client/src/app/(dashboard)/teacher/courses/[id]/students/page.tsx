@@ -0,0 +1,497 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { fromLocalInput, toLocalInput } from "@/lib/utils";
+import {
+  useGetCourseQuery,
+  useGetCourseRosterQuery,
+  useRemoveStudentMutation,
+  useUpdateStudentEnrollmentMutation,
+} from "@/state/api";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Ban,
+  Download,
+  RotateCcw,
+  UserMinus,
+} from "lucide-react";
+import { useParams, useRouter } from "next/navigation";
+import React, { useEffect, useMemo, useState } from "react";
+
+const PAGE_SIZE = 20;
+
+const STUDENT_STATUSES: EnrollmentStatus[] = [
+  "Active",
+  "Completed",
+  "Suspended",
+  "Dropped",
+  "Expired",
+];
+
+type SortKey =
+  | "name"
+  | "status"
+  | "overallProgress"
+  | "lastAccessedTimestamp"
+  | "quizzesPassed"
+  | "averageQuizScore"
+  | "expiresAt";
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "name", label: "Student" },
+  { key: "status", label: "Status" },
+  { key: "overallProgress", label: "Progress" },
+  { key: "lastAccessedTimestamp", label: "Last Active" },
+  { key: "quizzesPassed", label: "Quizzes Passed" },
+  { key: "averageQuizScore", label: "Avg. Quiz Score" },
+  { key: "expiresAt", label: "Access Expires" },
+];
+
+const displayName = (student: RosterStudent) =>
+  student.name || student.email || student.userId;
+
+// Students without a value sort last in either direction
+const sortValue = (student: RosterStudent, key: SortKey) => {
+  if (key === "name") return displayName(student).toLowerCase();
+  return student[key] ?? null;
+};
+
+const compareStudents = (
+  a: RosterStudent,
+  b: RosterStudent,
+  key: SortKey,
+  direction: "asc" | "desc"
+) => {
+  const left = sortValue(a, key);
+  const right = sortValue(b, key);
+  if (left === right) return 0;
+  if (left === null) return 1;
+  if (right === null) return -1;
+  const order = left < right ? -1 : 1;
+  return direction === "asc" ? order : -order;
+};
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const buildRosterCsv = (roster: CourseRoster, students: RosterStudent[]) => {
+  const header = [
+    "Name",
+    "Email",
+    "User ID",
+    "Status",
+    "Enrolled",
+    "Access Expires",
+    "Progress (%)",
+    "Last Active",
+    "Quizzes Taken",
+    "Quizzes Passed",
+    "Average Quiz Score",
+    ...roster.quizzes.map((quiz) => quiz.title),
+  ];
+  const rows = students.map((student) => [
+    student.name,
+    student.email,
+    student.userId,
+    student.status,
+    student.enrolledAt,
+    student.expiresAt,
+    student.overallProgress,
+    student.lastAccessedTimestamp,
+    student.quizzesTaken,
+    student.quizzesPassed,
+    student.averageQuizScore,
+    ...roster.quizzes.map(
+      (quiz) =>
+        student.quizResults.find((result) => result.quizId === quiz.quizId)
+          ?.score
+    ),
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map((value) => csvCell(value)).join(","))
+    .join("\n");
+};
+
+const StudentActions = ({
+  courseId,
+  student,
+}: {
+  courseId: string;
+  student: RosterStudent;
+}) => {
+  const [updateEnrollment, { isLoading: isUpdating }] =
+    useUpdateStudentEnrollmentMutation();
+  const [removeStudent, { isLoading: isRemoving }] = useRemoveStudentMutation();
+  const isBusy = isUpdating || isRemoving;
+  const { userId } = student;
+
+  const handleUpdate = async (status: "Active" | "Suspended") => {
+    try {
+      await updateEnrollment({ courseId, userId, status }).unwrap();
+    } catch (error) {
+      console.error("Failed to update enrollment:", error);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm(`Remove ${displayName(student)} from the course?`))
+      return;
+    try {
+      await removeStudent({ courseId, userId }).unwrap();
+    } catch (error) {
+      console.error("Failed to remove student:", error);
+    }
+  };
+
+  const canReinstate = ["Suspended", "Dropped", "Expired"].includes(
+    student.status
+  );
+
+  return (
+    <div className="course-roster__actions">
+      {canReinstate ? (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isBusy}
+          onClick={() => handleUpdate("Active")}
+          className="course-roster__action"
+        >
+          <RotateCcw className="mr-1 h-4 w-4" />
+          Reinstate
+        </Button>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isBusy}
+          onClick={() => handleUpdate("Suspended")}
+          className="course-roster__action"
+        >
+          <Ban className="mr-1 h-4 w-4" />
+          Suspend
+        </Button>
+      )}
+      {student.status !== "Dropped" && student.status !== "Expired" && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isBusy}
+          onClick={handleRemove}
+          className="course-roster__action"
+        >
+          <UserMinus className="mr-1 h-4 w-4" />
+          Remove
+        </Button>
+      )}
+    </div>
+  );
+};
+
+const AccessExpiry = ({
+  courseId,
+  student,
+}: {
+  courseId: string;
+  student: RosterStudent;
+}) => {
+  const [updateEnrollment] = useUpdateStudentEnrollmentMutation();
+  const [expiresAt, setExpiresAt] = useState(toLocalInput(student.expiresAt));
+
+  useEffect(() => {
+    setExpiresAt(toLocalInput(student.expiresAt));
+  }, [student.expiresAt]);
+
+  const handleBlur = async () => {
+    if (expiresAt === toLocalInput(student.expiresAt)) return;
+    try {
+      await updateEnrollment({
+        courseId,
+        userId: student.userId,
+        expiresAt: fromLocalInput(expiresAt) || null,
+      }).unwrap();
+    } catch (error) {
+      console.error("Failed to update access expiry:", error);
+      setExpiresAt(toLocalInput(student.expiresAt));
+    }
+  };
+
+  return (
+    <Input
+      type="datetime-local"
+      value={expiresAt}
+      onChange={(e) => setExpiresAt(e.target.value)}
+      onBlur={handleBlur}
+      className="course-roster__expiry"
+    />
+  );
+};
+
+const CourseRosterPage = () => {
+  const router = useRouter();
+  const params = useParams();
+  const courseId = params.id as string;
+  const { data: course } = useGetCourseQuery(courseId);
+  const {
+    data: roster,
+    isLoading,
+    isError,
+  } = useGetCourseRosterQuery(courseId);
+
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<EnrollmentStatus | "all">("all");
+  const [sortKey, setSortKey] = useState<SortKey>("name");
+  const [direction, setDirection] = useState<"asc" | "desc">("asc");
+  const [page, setPage] = useState(1);
+
+  const students = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (roster?.students || [])
+      .filter((student) => status === "all" || student.status === status)
+      .filter(
+        (student) =>
+          !query ||
+          [student.name, student.email, student.userId].some((value) =>
+            value.toLowerCase().includes(query)
+          )
+      )
+      .sort((a, b) => compareStudents(a, b, sortKey, direction));
+  }, [roster, search, status, sortKey, direction]);
+
+  const pageCount = Math.max(1, Math.ceil(students.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageStudents = students.slice(
+    (currentPage - 1) * PAGE_SIZE,
+    currentPage * PAGE_SIZE
+  );
+
+  useEffect(() => {
+    setPage(1);
+  }, [search, status, sortKey, direction]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDirection(direction === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setDirection("asc");
+    }
+  };
+
+  // Exports every student matching the filters, not just the current page
+  const handleExport = () => {
+    if (!roster) return;
+    const url = URL.createObjectURL(
+      new Blob([buildRosterCsv(roster, students)], { type: "text/csv" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${course?.title || courseId}-students.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading) return <Loading />;
+  if (isError || !roster) return <div>Error loading students.</div>;
+
+  return (
+    <div className="course-roster">
+      <div className="flex items-center gap-5 mb-5">
+        <button
+          className="flex items-center border border-customgreys-dirtyGrey rounded-lg p-2 gap-2 cursor-pointer hover:bg-customgreys-dirtyGrey hover:text-white-100 text-customgreys-dirtyGrey"
+          onClick={() =>
+            router.push(`/teacher/courses/${courseId}`, { scroll: false })
+          }
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to Course</span>
+        </button>
+      </div>
+
+      <Header
+        title="Students"
+        subtitle={`${roster.students.length} students${
+          course ? ` in ${course.title}` : ""
+        }`}
+        rightElement={
+          <Button
+            onClick={handleExport}
+            disabled={students.length === 0}
+            className="course-roster__export"
+          >
+            <Download className="mr-1 h-4 w-4" />
+            Export CSV
+          </Button>
+        }
+      />
+
+      <div className="course-roster__filters">
+        <Input
+          placeholder="Search by name or email"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="course-roster__search"
+        />
+        <Select
+          value={status}
+          onValueChange={(value) =>
+            setStatus(value as EnrollmentStatus | "all")
+          }
+        >
+          <SelectTrigger className="course-roster__select">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {STUDENT_STATUSES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Table className="course-roster__table">
+        <TableHeader className="course-roster__table-header">
+          <TableRow className="course-roster__table-header-row">
+            {COLUMNS.map((column) => (
+              <TableHead
+                key={column.key}
+                onClick={() => handleSort(column.key)}
+                className="course-roster__table-head"
+              >
+                <span className="course-roster__sort">
+                  {column.label}
+                  {sortKey === column.key &&
+                    (direction === "asc" ? (
+                      <ArrowUp className="h-3 w-3" />
+                    ) : (
+                      <ArrowDown className="h-3 w-3" />
+                    ))}
+                </span>
+              </TableHead>
+            ))}
+            <TableHead className="course-roster__table-head">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody className="course-roster__table-body">
+          {pageStudents.length === 0 ? (
+            <TableRow className="course-roster__table-row">
+              <TableCell
+                colSpan={COLUMNS.length + 1}
+                className="course-roster__table-cell text-center"
+              >
+                No students match these filters.
+              </TableCell>
+            </TableRow>
+          ) : (
+            pageStudents.map((student) => (
+              <TableRow
+                key={student.userId}
+                className="course-roster__table-row"
+              >
+                <TableCell className="course-roster__table-cell">
+                  <p className="course-roster__name">{displayName(student)}</p>
+                  {student.name && (
+                    <p className="course-roster__email">{student.email}</p>
+                  )}
+                </TableCell>
+                <TableCell className="course-roster__table-cell">
+                  <span
+                    className={`course-roster__status course-roster__status--${student.status.toLowerCase()}`}
+                  >
+                    {student.status}
+                  </span>
+                </TableCell>
+                <TableCell className="course-roster__table-cell">
+                  <div className="course-roster__progress">
+                    <div
+                      className="course-roster__progress-fill"
+                      style={{ width: `${student.overallProgress}%` }}
+                    />
+                  </div>
+                  <span className="course-roster__progress-label">
+                    {student.overallProgress}%
+                  </span>
+                </TableCell>
+                <TableCell className="course-roster__table-cell">
+                  {student.lastAccessedTimestamp
+                    ? new Date(
+                        student.lastAccessedTimestamp
+                      ).toLocaleDateString()
+                    : "Never"}
+                </TableCell>
+                <TableCell className="course-roster__table-cell">
+                  {student.quizzesPassed} / {roster.quizzes.length}
+                </TableCell>
+                <TableCell className="course-roster__table-cell">
+                  {student.averageQuizScore === null
+                    ? "—"
+                    : `${student.averageQuizScore}%`}
+                </TableCell>
+                <TableCell className="course-roster__table-cell">
+                  <AccessExpiry courseId={courseId} student={student} />
+                </TableCell>
+                <TableCell className="course-roster__table-cell">
+                  <StudentActions courseId={courseId} student={student} />
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <div className="course-roster__pagination">
+        <span>
+          Page {currentPage} of {pageCount} · {students.length} students
+        </span>
+        <div className="course-roster__pagination-buttons">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentPage <= 1}
+            onClick={() => setPage(currentPage - 1)}
+            className="course-roster__action"
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={currentPage >= pageCount}
+            onClick={() => setPage(currentPage + 1)}
+            className="course-roster__action"
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CourseRosterPage;
@@ -0,0 +1,94 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import { Button } from "@/components/ui/button";
+import { useGetMyCertificatesQuery } from "@/state/api";
+import { Award, Download, Link2 } from "lucide-react";
+import React from "react";
+import { toast } from "sonner";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+const Certificates = () => {
+  const { data: certificates, isLoading } = useGetMyCertificatesQuery();
+
+  const copyVerifyLink = async (certificateId: string) => {
+    await navigator.clipboard.writeText(
+      `${window.location.origin}/certificates/${certificateId}`
+    );
+    toast.success("Verification link copied");
+  };
+
+  if (isLoading) return <Loading />;
+
+  return (
+    <div className="user-certificates">
+      <Header
+        title="My Certificates"
+        subtitle="Certificates for the courses you have completed"
+      />
+
+      {certificates && certificates.length > 0 ? (
+        <div className="user-certificates__grid">
+          {certificates.map((certificate) => (
+            <div
+              key={certificate.certificateId}
+              className="user-certificates__card"
+            >
+              <Award className="user-certificates__icon" />
+              <h2 className="user-certificates__title">
+                {certificate.courseTitle}
+              </h2>
+              <p className="user-certificates__detail">
+                Taught by {certificate.teacherName}
+              </p>
+              <p className="user-certificates__detail">
+                Issued {formatDate(certificate.issuedAt)}
+              </p>
+              <div className="user-certificates__actions">
+                {certificate.pdfUrl && (
+                  <Button
+                    asChild
+                    size="sm"
+                    className="user-certificates__download"
+                  >
+                    <a
+                      href={certificate.pdfUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      <Download className="w-4 h-4 mr-1" />
+                      Download PDF
+                    </a>
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="user-certificates__share"
+                  onClick={() => copyVerifyLink(certificate.certificateId)}
+                >
+                  <Link2 className="w-4 h-4 mr-1" />
+                  Copy verification link
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="user-certificates__empty">
+          Finish all the chapters of a course to earn its certificate. Some
+          courses also ask you to pass every quiz.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default Certificates;
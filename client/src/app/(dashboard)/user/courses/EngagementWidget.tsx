@@ -0,0 +1,253 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  useClearWeeklyGoalMutation,
+  useGetEngagementQuery,
+  useUpdateWeeklyGoalMutation,
+} from "@/state/api";
+import { Flame, Target } from "lucide-react";
+import React, { useState } from "react";
+
+const GOAL_UNITS: Record<WeeklyGoalType, string> = {
+  Minutes: "minutes",
+  Chapters: "chapters",
+};
+
+// Shade of a heatmap cell by minutes of learning that day
+const heatLevel = (day: EngagementDay) => {
+  if (day.minutes === 0 && day.chapters === 0) return 0;
+  if (day.minutes < 15) return 1;
+  if (day.minutes < 30) return 2;
+  if (day.minutes < 60) return 3;
+  return 4;
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+const GoalForm = ({
+  userId,
+  goal,
+  onDone,
+}: {
+  userId: string;
+  goal: Engagement["goal"];
+  onDone: () => void;
+}) => {
+  const [type, setType] = useState<WeeklyGoalType>(goal?.type ?? "Minutes");
+  const [target, setTarget] = useState(String(goal?.target ?? 60));
+  const [updateWeeklyGoal, { isLoading: isSaving }] =
+    useUpdateWeeklyGoalMutation();
+  const [clearWeeklyGoal, { isLoading: isClearing }] =
+    useClearWeeklyGoalMutation();
+
+  const handleSave = async () => {
+    try {
+      await updateWeeklyGoal({
+        userId,
+        type,
+        target: Number(target),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      }).unwrap();
+      onDone();
+    } catch {
+      // The error is shown as a toast
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearWeeklyGoal(userId).unwrap();
+      onDone();
+    } catch {
+      // The error is shown as a toast
+    }
+  };
+
+  return (
+    <div className="engagement-widget__goal-form">
+      <Input
+        type="number"
+        min={1}
+        value={target}
+        onChange={(e) => setTarget(e.target.value)}
+        className="engagement-widget__goal-input"
+      />
+      <Select
+        value={type}
+        onValueChange={(value) => setType(value as WeeklyGoalType)}
+      >
+        <SelectTrigger className="engagement-widget__goal-select">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(GOAL_UNITS).map(([value, unit]) => (
+            <SelectItem key={value} value={value}>
+              {unit} a week
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        size="sm"
+        onClick={handleSave}
+        disabled={isSaving || !(Number(target) >= 1)}
+        className="engagement-widget__goal-save"
+      >
+        Save
+      </Button>
+      {goal && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={handleClear}
+          disabled={isClearing}
+          className="engagement-widget__goal-clear"
+        >
+          Remove goal
+        </Button>
+      )}
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={onDone}
+        className="engagement-widget__goal-clear"
+      >
+        Cancel
+      </Button>
+    </div>
+  );
+};
+
+/**
+ * The student's learning streak, weekly goal and the last weeks of activity
+ */
+const EngagementWidget = ({ userId }: { userId: string }) => {
+  const { data: engagement } = useGetEngagementQuery(userId);
+  const [isEditingGoal, setIsEditingGoal] = useState(false);
+
+  if (!engagement) return null;
+
+  const { streak, week, goal, heatmap } = engagement;
+  const weeks = Array.from({ length: heatmap.length / 7 }, (_, i) =>
+    heatmap.slice(i * 7, i * 7 + 7)
+  );
+
+  return (
+    <div className="engagement-widget">
+      <div className="engagement-widget__card">
+        <div className="engagement-widget__heading">
+          <Flame
+            className={cn(
+              "engagement-widget__icon",
+              streak.activeToday && "engagement-widget__icon--active"
+            )}
+          />
+          <span>Learning Streak</span>
+        </div>
+        <p className="engagement-widget__value">
+          {streak.current} {streak.current === 1 ? "day" : "days"}
+        </p>
+        <p className="engagement-widget__detail">
+          {streak.current > 0 && !streak.activeToday
+            ? "Learn today to keep your streak going. "
+            : ""}
+          Longest: {streak.longest} {streak.longest === 1 ? "day" : "days"}
+        </p>
+      </div>
+
+      <div className="engagement-widget__card">
+        <div className="engagement-widget__heading">
+          <Target className="engagement-widget__icon" />
+          <span>Weekly Goal</span>
+          {!isEditingGoal && (
+            <button
+              type="button"
+              onClick={() => setIsEditingGoal(true)}
+              className="engagement-widget__edit"
+            >
+              {goal ? "Edit" : "Set a goal"}
+            </button>
+          )}
+        </div>
+        {isEditingGoal ? (
+          <GoalForm
+            userId={userId}
+            goal={goal}
+            onDone={() => setIsEditingGoal(false)}
+          />
+        ) : goal ? (
+          <>
+            <p className="engagement-widget__value">
+              {goal.progress} / {goal.target} {GOAL_UNITS[goal.type]}
+            </p>
+            <Progress
+              value={goal.percent}
+              className="engagement-widget__progress"
+            />
+            <p className="engagement-widget__detail">
+              {goal.achieved
+                ? "Goal reached this week!"
+                : `${goal.target - goal.progress} ${
+                    GOAL_UNITS[goal.type]
+                  } to go this week`}
+            </p>
+          </>
+        ) : (
+          <p className="engagement-widget__detail">
+            This week: {week.minutes} minutes, {week.chapters} chapters
+          </p>
+        )}
+      </div>
+
+      <div className="engagement-widget__card">
+        <div className="engagement-widget__heading">
+          <span>Activity</span>
+          <span className="engagement-widget__detail">
+            {week.minutes} min this week · {week.videoMinutes} min of video
+          </span>
+        </div>
+        <div className="engagement-widget__heatmap">
+          {weeks.map((days) => (
+            <div key={days[0].date} className="engagement-widget__week">
+              {days.map((day) => (
+                <div
+                  key={day.date}
+                  title={
+                    day.future
+                      ? undefined
+                      : `${formatDay(day.date)}: ${day.minutes} min, ${
+                          day.chapters
+                        } chapters`
+                  }
+                  className={cn(
+                    "engagement-widget__day",
+                    `engagement-widget__day--level-${heatLevel(day)}`,
+                    day.future && "engagement-widget__day--future"
+                  )}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EngagementWidget;
@@ -5,12 +5,15 @@ import {
   FileText,
   CheckCircle,
   Trophy,
+  LogOut,
+  MessageCircleQuestion,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
 import { useSidebar } from "@/components/ui/sidebar";
 import Loading from "@/components/Loading";
 import { useCourseProgressData } from "@/hooks/useCourseProgressData";
+import { useUnenrollFromCourseMutation } from "@/state/api";
 
 const ChaptersSidebar = () => {
   const router = useRouter();
@@ -24,8 +27,10 @@ const ChaptersSidebar = () => {
     chapterId,
     courseId,
     isLoading,
+    accessError,
     updateChapterProgress,
   } = useCourseProgressData();
+  const [unenroll, { isLoading: isLeaving }] = useUnenrollFromCourseMutation();
 
   const sidebarRef = useRef<HTMLDivElement>(null);
 
@@ -35,6 +40,7 @@ const ChaptersSidebar = () => {
 
   if (isLoading) return <Loading />;
   if (!user) return <div>Please sign in to view course progress.</div>;
+  if (accessError) return null;
   if (!course || !userProgress) return <div>Error loading course content</div>;
 
   const toggleSection = (sectionTitle: string) => {
@@ -51,10 +57,47 @@ const ChaptersSidebar = () => {
     });
   };
 
+  const handleLeaveCourse = async () => {
+    if (
+      !window.confirm(
+        "Leave this course? Your progress is kept if you enroll again."
+      )
+    )
+      return;
+
+    try {
+      await unenroll(courseId as string).unwrap();
+      router.push("/user/courses");
+    } catch (error) {
+      console.error("Failed to leave course:", error);
+    }
+  };
+
   return (
     <div ref={sidebarRef} className="chapters-sidebar">
       <div className="chapters-sidebar__header">
         <h2 className="chapters-sidebar__title">{course.title}</h2>
+        <button
+          type="button"
+          onClick={() =>
+            router.push(`/user/courses/${courseId}/questions`, {
+              scroll: false,
+            })
+          }
+          className="chapters-sidebar__link"
+        >
+          <MessageCircleQuestion className="w-4 h-4" />
+          Q&amp;A board
+        </button>
+        <button
+          type="button"
+          disabled={isLeaving}
+          onClick={handleLeaveCourse}
+          className="chapters-sidebar__leave"
+        >
+          <LogOut className="w-4 h-4" />
+          Leave course
+        </button>
         <hr className="chapters-sidebar__divider" />
       </div>
       {course.sections.map((section, index) => (
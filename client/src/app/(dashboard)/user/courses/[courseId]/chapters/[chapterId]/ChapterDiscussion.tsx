@@ -0,0 +1,350 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  useCreateCommentMutation,
+  useDeleteCommentMutation,
+  useGetChapterCommentsQuery,
+  useModerateCommentMutation,
+  useToggleCommentReactionMutation,
+  useUpdateCommentMutation,
+} from "@/state/api";
+import { EyeOff, Pin } from "lucide-react";
+import React, { useState } from "react";
+
+const REACTIONS: { type: CommentReaction; emoji: string }[] = [
+  { type: "Like", emoji: "👍" },
+  { type: "Love", emoji: "❤️" },
+  { type: "Insightful", emoji: "💡" },
+  { type: "Funny", emoji: "😂" },
+  { type: "Confused", emoji: "😕" },
+];
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const CommentForm = ({
+  initialText = "",
+  placeholder,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: {
+  initialText?: string;
+  placeholder?: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (text: string) => Promise<void>;
+  onCancel?: () => void;
+}) => {
+  const [text, setText] = useState(initialText);
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit(text.trim());
+      setText("");
+    } catch {
+      // The error has already been shown as a toast
+    }
+  };
+
+  return (
+    <div className="chapter-discussion__form">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={placeholder}
+        className="chapter-discussion__input"
+      />
+      <div className="chapter-discussion__form-actions">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="sm"
+          className="chapter-discussion__submit"
+          disabled={!text.trim() || isSubmitting}
+          onClick={handleSubmit}
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const CommentItem = ({
+  chapter,
+  comment,
+  userId,
+  canModerate,
+}: {
+  chapter: ChapterRef;
+  comment: ChapterComment;
+  userId: string;
+  canModerate: boolean;
+}) => {
+  const [mode, setMode] = useState<"reply" | "edit" | null>(null);
+  const [createComment, { isLoading: isReplying }] = useCreateCommentMutation();
+  const [updateComment, { isLoading: isUpdating }] = useUpdateCommentMutation();
+  const [deleteComment] = useDeleteCommentMutation();
+  const [toggleReaction] = useToggleCommentReactionMutation();
+  const [moderateComment] = useModerateCommentMutation();
+
+  const { commentId } = comment;
+  const isAuthor = comment.userId === userId;
+  const isTopLevel = !comment.parentId;
+
+  const handleDelete = async () => {
+    if (!window.confirm("Delete this comment?")) return;
+    try {
+      await deleteComment({ ...chapter, commentId }).unwrap();
+    } catch {
+      // The error has already been shown as a toast
+    }
+  };
+
+  const handleModerate = async (changes: {
+    pinned?: boolean;
+    hidden?: boolean;
+  }) => {
+    try {
+      await moderateComment({ ...chapter, commentId, ...changes }).unwrap();
+    } catch {
+      // The error has already been shown as a toast
+    }
+  };
+
+  const handleReaction = async (type: CommentReaction) => {
+    try {
+      await toggleReaction({ ...chapter, commentId, type }).unwrap();
+    } catch {
+      // The error has already been shown as a toast
+    }
+  };
+
+  const showText = !comment.deleted && (!comment.hidden || canModerate);
+
+  return (
+    <div
+      className={cn(
+        "chapter-discussion__comment",
+        comment.pinned && "chapter-discussion__comment--pinned"
+      )}
+    >
+      <Avatar className="chapter-discussion__avatar">
+        <AvatarImage src={comment.userImageUrl} alt={comment.userName} />
+        <AvatarFallback className="chapter-discussion__avatar-fallback">
+          {comment.userName?.[0] ?? "?"}
+        </AvatarFallback>
+      </Avatar>
+
+      <div className="chapter-discussion__body">
+        <div className="chapter-discussion__meta">
+          {!comment.deleted && (
+            <span className="chapter-discussion__author">
+              {comment.userName || "Student"}
+            </span>
+          )}
+          <span className="chapter-discussion__time">
+            {formatTime(comment.timestamp)}
+            {comment.editedAt && !comment.deleted && " (edited)"}
+          </span>
+          {comment.pinned && (
+            <span className="chapter-discussion__badge">
+              <Pin className="chapter-discussion__badge-icon" />
+              Pinned
+            </span>
+          )}
+          {comment.hidden && canModerate && (
+            <span className="chapter-discussion__badge chapter-discussion__badge--hidden">
+              <EyeOff className="chapter-discussion__badge-icon" />
+              Hidden
+            </span>
+          )}
+        </div>
+
+        {mode === "edit" ? (
+          <CommentForm
+            initialText={comment.text}
+            submitLabel="Save"
+            isSubmitting={isUpdating}
+            onSubmit={async (text) => {
+              await updateComment({ ...chapter, commentId, text }).unwrap();
+              setMode(null);
+            }}
+            onCancel={() => setMode(null)}
+          />
+        ) : showText ? (
+          <p className="chapter-discussion__text">{comment.text}</p>
+        ) : (
+          <p className="chapter-discussion__placeholder">
+            {comment.deleted
+              ? "This comment was deleted."
+              : "This comment was hidden by the instructor."}
+          </p>
+        )}
+
+        {!comment.deleted && mode !== "edit" && (
+          <div className="chapter-discussion__actions">
+            {REACTIONS.map(({ type, emoji }) => (
+              <button
+                key={type}
+                type="button"
+                title={type}
+                onClick={() => handleReaction(type)}
+                className={cn(
+                  "chapter-discussion__reaction",
+                  comment.myReactions.includes(type) &&
+                    "chapter-discussion__reaction--active"
+                )}
+              >
+                {emoji}
+                {!!comment.reactions[type] && (
+                  <span className="chapter-discussion__reaction-count">
+                    {comment.reactions[type]}
+                  </span>
+                )}
+              </button>
+            ))}
+            {isTopLevel && (
+              <button
+                type="button"
+                className="chapter-discussion__action"
+                onClick={() => setMode(mode === "reply" ? null : "reply")}
+              >
+                Reply
+              </button>
+            )}
+            {isAuthor && (
+              <button
+                type="button"
+                className="chapter-discussion__action"
+                onClick={() => setMode("edit")}
+              >
+                Edit
+              </button>
+            )}
+            {(isAuthor || canModerate) && (
+              <button
+                type="button"
+                className="chapter-discussion__action"
+                onClick={handleDelete}
+              >
+                Delete
+              </button>
+            )}
+            {canModerate && isTopLevel && (
+              <button
+                type="button"
+                className="chapter-discussion__action"
+                onClick={() => handleModerate({ pinned: !comment.pinned })}
+              >
+                {comment.pinned ? "Unpin" : "Pin"}
+              </button>
+            )}
+            {canModerate && (
+              <button
+                type="button"
+                className="chapter-discussion__action"
+                onClick={() => handleModerate({ hidden: !comment.hidden })}
+              >
+                {comment.hidden ? "Show" : "Hide"}
+              </button>
+            )}
+          </div>
+        )}
+
+        {mode === "reply" && (
+          <CommentForm
+            placeholder="Write a reply..."
+            submitLabel="Reply"
+            isSubmitting={isReplying}
+            onSubmit={async (text) => {
+              await createComment({
+                ...chapter,
+                text,
+                parentId: commentId,
+              }).unwrap();
+              setMode(null);
+            }}
+            onCancel={() => setMode(null)}
+          />
+        )}
+
+        {comment.replies.length > 0 && (
+          <div className="chapter-discussion__replies">
+            {comment.replies.map((reply) => (
+              <CommentItem
+                key={reply.commentId}
+                chapter={chapter}
+                comment={reply}
+                userId={userId}
+                canModerate={canModerate}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ChapterDiscussion = ({
+  chapter,
+  userId,
+}: {
+  chapter: ChapterRef;
+  userId: string;
+}) => {
+  const { data: discussion, isLoading } = useGetChapterCommentsQuery(chapter);
+  const [createComment, { isLoading: isPosting }] = useCreateCommentMutation();
+
+  if (isLoading) {
+    return <p className="chapter-discussion__empty">Loading comments...</p>;
+  }
+
+  return (
+    <div className="chapter-discussion">
+      <CommentForm
+        placeholder="Ask a question or share your thoughts..."
+        submitLabel="Post"
+        isSubmitting={isPosting}
+        onSubmit={async (text) => {
+          await createComment({ ...chapter, text }).unwrap();
+        }}
+      />
+
+      {discussion && discussion.comments.length > 0 ? (
+        <div className="chapter-discussion__list">
+          {discussion.comments.map((comment) => (
+            <CommentItem
+              key={comment.commentId}
+              chapter={chapter}
+              comment={comment}
+              userId={userId}
+              canModerate={discussion.canModerate}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="chapter-discussion__empty">
+          No comments yet. Start the discussion!
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ChapterDiscussion;
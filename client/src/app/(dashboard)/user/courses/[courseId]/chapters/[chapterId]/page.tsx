@@ -1,12 +1,18 @@
 "use client";
 
-import { useRef } from "react";
+import { useRef, useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import ReactPlayer from "react-player";
 import Loading from "@/components/Loading";
 import { useCourseProgressData } from "@/hooks/useCourseProgressData";
+import { useLearningHeartbeat } from "@/hooks/useLearningHeartbeat";
+import { useGetQuizzesQuery } from "@/state/api";
+import QuizPlayer from "@/components/QuizPlayer";
+import { Button } from "@/components/ui/button";
+import { useRouter } from "next/navigation";
+import ChapterDiscussion from "./ChapterDiscussion";
 
 const Course = () => {
   const {
@@ -16,6 +22,7 @@ const Course = () => {
     currentSection,
     currentChapter,
     isLoading,
+    accessError,
     isChapterCompleted,
     updateChapterProgress,
     hasMarkedComplete,
@@ -23,11 +30,38 @@ const Course = () => {
   } = useCourseProgressData();
   console.log("currentChapter.video:", currentChapter);
 
+  const router = useRouter();
   const playerRef = useRef<ReactPlayer>(null);
+  const { trackVideoProgress } = useLearningHeartbeat(
+    accessError ? undefined : user?.id,
+    currentChapter?.chapterId
+  );
+  const [selectedQuizId, setSelectedQuizId] = useState<string | null>(null);
+
+  const { data: quizzes } = useGetQuizzesQuery(
+    { courseId: course?.courseId },
+    { skip: !course }
+  );
+  const activeQuiz =
+    quizzes?.find((quiz) => quiz.quizId === selectedQuizId) ?? quizzes?.[0];
+  const activeQuizId = activeQuiz?.quizId ?? null;
+  const chapterQuiz =
+    currentChapter?.type === "Quiz"
+      ? quizzes?.find((quiz) => quiz.quizId === currentChapter.quizId)
+      : undefined;
 
-  const handleProgress = ({ played }: { played: number }) => {
+  // Quiz chapters are completed on the server when the student passes
+  const handleProgress = ({
+    played,
+    playedSeconds,
+  }: {
+    played: number;
+    playedSeconds: number;
+  }) => {
+    trackVideoProgress(playedSeconds);
     if (
       played >= 0.8 &&
+      currentChapter?.type !== "Quiz" &&
       !hasMarkedComplete &&
       currentChapter &&
       currentSection &&
@@ -45,6 +79,20 @@ const Course = () => {
 
   if (isLoading) return <Loading />;
   if (!user) return <div>Please sign in to view this course.</div>;
+  if (accessError) {
+    return (
+      <div className="course__access-denied">
+        <h2 className="course__access-denied-title">{course?.title}</h2>
+        <p className="course__access-denied-message">{accessError}</p>
+        <Button
+          onClick={() => router.push("/user/courses")}
+          className="course__access-denied-button"
+        >
+          Back to My Courses
+        </Button>
+      </div>
+    );
+  }
   if (!course || !userProgress) return <div>Error loading course</div>;
 
   return (
@@ -73,31 +121,52 @@ const Course = () => {
           </div>
         </div>
 
-        <Card className="course__video">
-          <CardContent className="course__video-container">
-            {currentChapter?.video ? (
-              <ReactPlayer
-                ref={playerRef}
-                url={currentChapter.video as string}
-                controls
-                width="100%"
-                height="100%"
-                onProgress={handleProgress}
-                config={{
-                  file: {
-                    attributes: {
-                      controlsList: "nodownload",
+        {currentChapter?.type === "Quiz" ? (
+          <Card className="course__chapter-quiz">
+            <CardContent className="course__chapter-quiz-container">
+              {chapterQuiz ? (
+                <>
+                  <p className="course__chapter-quiz-status">
+                    {isChapterCompleted()
+                      ? "You passed this quiz. Chapter complete!"
+                      : "Pass this quiz to complete the chapter."}
+                  </p>
+                  <QuizPlayer quiz={chapterQuiz} />
+                </>
+              ) : (
+                <div className="course__no-video">
+                  The quiz for this chapter is not available.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="course__video">
+            <CardContent className="course__video-container">
+              {currentChapter?.video ? (
+                <ReactPlayer
+                  ref={playerRef}
+                  url={currentChapter.video as string}
+                  controls
+                  width="100%"
+                  height="100%"
+                  onProgress={handleProgress}
+                  config={{
+                    file: {
+                      attributes: {
+                        controlsList: "nodownload",
+                      },
                     },
-                  },
-                }}
-              />
-            ) : (
-              <div className="course__no-video">
-                No video available for this chapter.
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                  }}
+                />
+              ) : (
+                <div className="course__no-video">
+                  No video available for this chapter.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         <div className="course__content">
           <Tabs defaultValue="Notes" className="course__tabs">
@@ -111,6 +180,9 @@ const Course = () => {
               <TabsTrigger className="course__tab" value="Quiz">
                 Quiz
               </TabsTrigger>
+              <TabsTrigger className="course__tab" value="Discussion">
+                Discussion
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent className="course__tab-content" value="Notes">
@@ -141,7 +213,53 @@ const Course = () => {
                   <CardTitle>Quiz Content</CardTitle>
                 </CardHeader>
                 <CardContent className="course__tab-body">
-                  {/* Add quiz content here */}
+                  {quizzes && quizzes.length > 0 ? (
+                    <>
+                      {quizzes.length > 1 && (
+                        <div className="course__quiz-list">
+                          {quizzes.map((quiz) => (
+                            <button
+                              key={quiz.quizId}
+                              type="button"
+                              onClick={() => setSelectedQuizId(quiz.quizId)}
+                              className={`course__quiz-item ${
+                                quiz.quizId === activeQuizId
+                                  ? "course__quiz-item--active"
+                                  : ""
+                              }`}
+                            >
+                              {quiz.title}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {activeQuiz && <QuizPlayer quiz={activeQuiz} />}
+                    </>
+                  ) : (
+                    <p className="course__no-quiz">
+                      No quizzes available for this course.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent className="course__tab-content" value="Discussion">
+              <Card className="course__tab-card">
+                <CardHeader className="course__tab-header">
+                  <CardTitle>Discussion</CardTitle>
+                </CardHeader>
+                <CardContent className="course__tab-body">
+                  {currentSection && currentChapter && (
+                    <ChapterDiscussion
+                      chapter={{
+                        courseId: course.courseId,
+                        sectionId: currentSection.sectionId,
+                        chapterId: currentChapter.chapterId,
+                      }}
+                      userId={user.id}
+                    />
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
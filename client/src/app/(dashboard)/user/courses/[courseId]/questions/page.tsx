@@ -0,0 +1,35 @@
+"use client";
+
+import Header from "@/components/Header";
+import Loading from "@/components/Loading";
+import QuestionBoard from "@/components/QuestionBoard";
+import { useGetCourseQuery } from "@/state/api";
+import { useUser } from "@clerk/nextjs";
+import { useParams } from "next/navigation";
+import React from "react";
+
+const CourseQuestions = () => {
+  const { courseId } = useParams();
+  const { user } = useUser();
+  const {
+    data: course,
+    isLoading,
+    isError,
+  } = useGetCourseQuery(courseId as string);
+
+  if (isLoading) return <Loading />;
+  if (!user) return <div>Please sign in to view this course.</div>;
+  if (isError || !course) return <div>Error loading course.</div>;
+
+  return (
+    <div className="course-questions">
+      <Header
+        title={`${course.title} Q&A`}
+        subtitle="Ask questions about the course and help your classmates"
+      />
+      <QuestionBoard course={course} userId={user.id} />
+    </div>
+  );
+};
+
+export default CourseQuestions;
@@ -8,6 +8,7 @@ import Header from "@/components/Header";
 import { useUser } from "@clerk/nextjs";
 import { useState, useMemo } from "react";
 import Loading from "@/components/Loading";
+import EngagementWidget from "./EngagementWidget";
 
 const Courses = () => {
   const router = useRouter();
@@ -64,6 +65,7 @@ const Courses = () => {
   return (
     <div className="user-courses">
       <Header title="My Courses" subtitle="View your enrolled courses" />
+      <EngagementWidget userId={user.id} />
       <Toolbar
         onSearch={setSearchTerm}
         onCategoryChange={setSelectedCategory}
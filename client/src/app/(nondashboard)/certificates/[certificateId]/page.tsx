@@ -0,0 +1,69 @@
+"use client";
+
+import Loading from "@/components/Loading";
+import { useVerifyCertificateQuery } from "@/state/api";
+import { BadgeCheck, Download, ShieldX } from "lucide-react";
+import { useParams } from "next/navigation";
+import React from "react";
+
+const VerifyCertificate = () => {
+  const { certificateId } = useParams();
+  const { data: certificate, isLoading } = useVerifyCertificateQuery(
+    certificateId as string
+  );
+
+  if (isLoading) return <Loading />;
+
+  if (!certificate) {
+    return (
+      <div className="certificate-verify">
+        <ShieldX className="certificate-verify__icon certificate-verify__icon--invalid" />
+        <h1 className="certificate-verify__title">Certificate not found</h1>
+        <p className="certificate-verify__detail">
+          No certificate was issued with this ID. Check that the link is
+          complete.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="certificate-verify">
+      <BadgeCheck className="certificate-verify__icon" />
+      <h1 className="certificate-verify__title">Verified certificate</h1>
+      <p className="certificate-verify__statement">
+        <span className="certificate-verify__name">
+          {certificate.studentName}
+        </span>{" "}
+        completed{" "}
+        <span className="certificate-verify__name">
+          {certificate.courseTitle}
+        </span>
+      </p>
+      <p className="certificate-verify__detail">
+        Taught by {certificate.teacherName} · Issued{" "}
+        {new Date(certificate.issuedAt).toLocaleDateString(undefined, {
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+        })}
+      </p>
+      <p className="certificate-verify__id">
+        Certificate ID {certificate.certificateId}
+      </p>
+      {certificate.pdfUrl && (
+        <a
+          href={certificate.pdfUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="certificate-verify__download"
+        >
+          <Download className="w-4 h-4" />
+          View certificate
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default VerifyCertificate;
@@ -1,8 +1,20 @@
 import AccordionSections from "@/components/AccordionSections";
 import { Button } from "@/components/ui/button";
-import React from "react";
+import { Input } from "@/components/ui/input";
+import React, { useState } from "react";
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const SelectedCourse = ({
+  course,
+  handleEnrollNow,
+  isEnrolling,
+}: SelectedCourseProps) => {
+  const [inviteCode, setInviteCode] = useState("");
+  const policy = course.enrollmentPolicy;
+  const enrolled = course.enrollmentCount || 0;
+  const isFull = !!policy?.capacity && enrolled >= policy.capacity;
 
-const SelectedCourse = ({ course, handleEnrollNow }: SelectedCourseProps) => {
   return (
     <div className="selected-course">
       <div>
@@ -10,7 +22,8 @@ const SelectedCourse = ({ course, handleEnrollNow }: SelectedCourseProps) => {
         <p className="selected-course__author">
           By {course.teacherName} |{" "}
           <span className="selected-course__enrollment-count">
-            {course?.enrollments?.length}
+            {enrolled}
+            {!!policy?.capacity && ` / ${policy.capacity}`}
           </span>
         </p>
       </div>
@@ -23,12 +36,43 @@ const SelectedCourse = ({ course, handleEnrollNow }: SelectedCourseProps) => {
           <AccordionSections sections={course.sections} />
         </div>
 
+        {(policy?.opensAt || policy?.closesAt) && (
+          <p className="selected-course__policy">
+            Enrollment
+            {policy.opensAt && ` opens ${formatDate(policy.opensAt)}`}
+            {policy.opensAt && policy.closesAt && " and"}
+            {policy.closesAt && ` closes ${formatDate(policy.closesAt)}`}
+          </p>
+        )}
+        {policy?.mode === "Approval" && (
+          <p className="selected-course__policy">
+            The teacher approves each enrollment request.
+          </p>
+        )}
+
         <div className="selected-course__footer">
+          {policy?.mode === "InviteCode" && (
+            <Input
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              placeholder="Invite code"
+              className="selected-course__invite-code"
+            />
+          )}
           <Button
-            onClick={() => handleEnrollNow(course.courseId)}
+            onClick={() => handleEnrollNow(course.courseId, inviteCode)}
+            disabled={
+              isEnrolling ||
+              isFull ||
+              (policy?.mode === "InviteCode" && !inviteCode.trim())
+            }
             className="bg-primary-700 hover:bg-primary-600"
           >
-            Enroll Now
+            {isFull
+              ? "Course Full"
+              : policy?.mode === "Approval"
+              ? "Request to Enroll"
+              : "Enroll Now"}
           </Button>
         </div>
       </div>
@@ -1,7 +1,8 @@
 "use client";
 
 import Loading from "@/components/Loading";
-import { useGetCoursesQuery } from "@/state/api";
+import { useEnrollInCourseMutation, useGetCoursesQuery } from "@/state/api";
+import { useUser } from "@clerk/nextjs";
 import { useRouter, useSearchParams } from "next/navigation";
 import React, { useEffect, useState } from "react";
 import { motion } from "framer-motion";
@@ -14,6 +15,9 @@ const Search = () => {
   const { data: courses, isLoading, isError } = useGetCoursesQuery({});
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const router = useRouter();
+  const { isSignedIn } = useUser();
+  const [enrollInCourse, { isLoading: isEnrolling }] =
+    useEnrollInCourseMutation();
 
   useEffect(() => {
     if (courses) {
@@ -36,12 +40,23 @@ const Search = () => {
     });
   };
 
-  const handleEnrollNow = (courseId: string) => {
-    // In a real application, you would make an API call to enroll the user
-    // For now, just redirect to the course page
-    router.push(`/user/courses/${courseId}`, {
-      scroll: false,
-    });
+  const handleEnrollNow = async (courseId: string, inviteCode?: string) => {
+    if (!isSignedIn) {
+      router.push("/signin", { scroll: false });
+      return;
+    }
+
+    try {
+      const result = await enrollInCourse({ courseId, inviteCode }).unwrap();
+      // Courses that need approval leave the request with the teacher
+      if (result.status === "Enrolled") {
+        router.push(`/user/courses/${courseId}`, {
+          scroll: false,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to enroll in course:", error);
+    }
   };
 
   return (
@@ -80,6 +95,7 @@ const Search = () => {
             <SelectedCourse
               course={selectedCourse}
               handleEnrollNow={handleEnrollNow}
+              isEnrolling={isEnrolling}
             />
           </motion.div>
         )}
@@ -12,6 +12,7 @@ import {
   useSidebar,
 } from "@/components/ui/sidebar";
 import {
+  Award,
   BookOpen,
   Briefcase,
   DollarSign,
@@ -19,6 +20,7 @@ import {
   PanelLeft,
   Settings,
   User,
+  UserCheck,
 } from "lucide-react";
 import Loading from "./Loading";
 import Image from "next/image";
@@ -34,6 +36,7 @@ const AppSidebar = () => {
   const navLinks = {
     student: [
       { icon: BookOpen, label: "Courses", href: "/user/courses" },
+      { icon: Award, label: "Certificates", href: "/user/certificates" },
       { icon: Briefcase, label: "Billing", href: "/user/billing" },
       { icon: User, label: "Profile", href: "/user/profile" },
       { icon: Settings, label: "Settings", href: "/user/settings" },
@@ -45,13 +48,23 @@ const AppSidebar = () => {
       { icon: Settings, label: "Settings", href: "/teacher/settings" },
     ],
   };
+  const adminNavLinks = [
+    ...navLinks.teacher,
+    {
+      icon: UserCheck,
+      label: "Applications",
+      href: "/teacher/applications",
+    },
+  ];
 
   if (!isLoaded) return <Loading />;
   if (!user) return <div>User not found</div>;
 
   const userType =
-    (user.publicMetadata.userType as "student" | "teacher") || "student";
-  const currentNavLinks = navLinks[userType];
+    (user.publicMetadata.userType as "student" | "teacher" | "admin") ||
+    "student";
+  const currentNavLinks =
+    userType === "admin" ? adminNavLinks : navLinks[userType];
 
   return (
     <Sidebar
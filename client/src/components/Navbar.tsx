@@ -2,15 +2,19 @@
 
 import { SignedIn, SignedOut, UserButton, useUser } from "@clerk/nextjs";
 import { dark } from "@clerk/themes";
-import { Bell, BookOpen } from "lucide-react";
+import { BookOpen } from "lucide-react";
 import Link from "next/link";
 import React, { useState } from "react";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { cn } from "@/lib/utils";
+import NotificationBell from "./NotificationBell";
 
 const Navbar = ({ isCoursePage }: { isCoursePage: boolean }) => {
   const { user } = useUser();
-  const userRole = user?.publicMetadata?.userType as "student" | "teacher";
+  const userRole = user?.publicMetadata?.userType as
+    | "student"
+    | "teacher"
+    | "admin";
 
   return (
     <nav className="dashboard-navbar">
@@ -38,10 +42,7 @@ const Navbar = ({ isCoursePage }: { isCoursePage: boolean }) => {
         </div>
 
         <div className="dashboard-navbar__actions">
-          <button className="nondashboard-navbar__notification-button">
-            <span className="nondashboard-navbar__notification-indicator"></span>
-            <Bell className="nondashboard-navbar__notification-icon" />
-          </button>
+          <NotificationBell />
 
           <UserButton
             appearance={{
@@ -54,7 +55,9 @@ const Navbar = ({ isCoursePage }: { isCoursePage: boolean }) => {
             showName={true}
             userProfileMode="navigation"
             userProfileUrl={
-              userRole === "teacher" ? "/teacher/profile" : "/user/profile"
+              userRole === "teacher" || userRole === "admin"
+                ? "/teacher/profile"
+                : "/user/profile"
             }
           />
         </div>
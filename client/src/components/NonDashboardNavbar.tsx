@@ -8,7 +8,10 @@ import React from "react";
 
 const NonDashboardNavbar = () => {
   const { user } = useUser();
-  const userRole = user?.publicMetadata?.userType as "student" | "teacher";
+  const userRole = user?.publicMetadata?.userType as
+    | "student"
+    | "teacher"
+    | "admin";
 
   return (
     <nav className="nondashboard-navbar">
@@ -52,7 +55,9 @@ const NonDashboardNavbar = () => {
               showName={true}
               userProfileMode="navigation"
               userProfileUrl={
-                userRole === "teacher" ? "/teacher/profile" : "/user/profile"
+                userRole === "teacher" || userRole === "admin"
+                  ? "/teacher/profile"
+                  : "/user/profile"
               }
             />
           </SignedIn>
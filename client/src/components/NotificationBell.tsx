@@ -0,0 +1,120 @@
+"use client";
+
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import {
+  useGetNotificationsQuery,
+  useMarkAllNotificationsReadMutation,
+  useMarkNotificationReadMutation,
+} from "@/state/api";
+import { Bell } from "lucide-react";
+import { useRouter } from "next/navigation";
+import React, { useState } from "react";
+
+const POLLING_INTERVAL = 60 * 1000;
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const NotificationBell = () => {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const { data: inbox } = useGetNotificationsQuery(undefined, {
+    pollingInterval: POLLING_INTERVAL,
+  });
+  const [markRead] = useMarkNotificationReadMutation();
+  const [markAllRead, { isLoading: isMarkingAll }] =
+    useMarkAllNotificationsReadMutation();
+
+  const unreadCount = inbox?.unreadCount ?? 0;
+
+  const handleOpen = async (notification: AppNotification) => {
+    setOpen(false);
+    try {
+      if (!notification.read) {
+        await markRead(notification.notificationId).unwrap();
+      }
+    } catch {
+      // The error has already been shown as a toast
+    }
+    if (notification.link) {
+      router.push(notification.link, { scroll: false });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="nondashboard-navbar__notification-button"
+          aria-label={`Notifications${
+            unreadCount > 0 ? `, ${unreadCount} unread` : ""
+          }`}
+        >
+          {unreadCount > 0 && (
+            <span className="notification-bell__count">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <Bell className="nondashboard-navbar__notification-icon" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="notification-bell__panel">
+        <div className="notification-bell__header">
+          <span className="notification-bell__title">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              disabled={isMarkingAll}
+              onClick={() => markAllRead()}
+              className="notification-bell__mark-all"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+
+        {inbox && inbox.notifications.length > 0 ? (
+          <div className="notification-bell__list">
+            {inbox.notifications.map((notification) => (
+              <button
+                key={notification.notificationId}
+                type="button"
+                onClick={() => handleOpen(notification)}
+                className={cn(
+                  "notification-bell__item",
+                  !notification.read && "notification-bell__item--unread"
+                )}
+              >
+                <span className="notification-bell__item-title">
+                  {notification.title}
+                </span>
+                {notification.message && (
+                  <span className="notification-bell__item-message">
+                    {notification.message}
+                  </span>
+                )}
+                <span className="notification-bell__item-time">
+                  {formatTime(notification.timestamp)}
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="notification-bell__empty">You&apos;re all caught up.</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,678 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  useAcceptAnswerMutation,
+  useCreateAnswerMutation,
+  useCreateCourseQuestionMutation,
+  useDeleteAnswerMutation,
+  useDeleteCourseQuestionMutation,
+  useGetCourseQuestionQuery,
+  useGetCourseQuestionsQuery,
+  useToggleAnswerUpvoteMutation,
+  useUpdateAnswerMutation,
+  useUpdateCourseQuestionMutation,
+} from "@/state/api";
+import { ArrowLeft, CheckCircle, ChevronUp, MessageSquare } from "lucide-react";
+import React, { useState } from "react";
+
+const ALL = "all";
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+// "Section 2 / Chapter title" for questions asked about part of the course
+const describePlacement = (course: Course, question: CourseQuestion) => {
+  const section = course.sections.find(
+    (section) => section.sectionId === question.sectionId
+  );
+  if (!section) return null;
+  const chapter = section.chapters.find(
+    (chapter) => chapter.chapterId === question.chapterId
+  );
+  return chapter
+    ? `${section.sectionTitle} / ${chapter.title}`
+    : section.sectionTitle;
+};
+
+const Author = ({
+  name,
+  imageUrl,
+  timestamp,
+  editedAt,
+}: {
+  name?: string;
+  imageUrl?: string;
+  timestamp: string;
+  editedAt?: string;
+}) => (
+  <div className="question-board__author">
+    <Avatar className="question-board__avatar">
+      <AvatarImage src={imageUrl} alt={name} />
+      <AvatarFallback className="question-board__avatar-fallback">
+        {name?.[0] ?? "?"}
+      </AvatarFallback>
+    </Avatar>
+    <span className="question-board__author-name">{name || "Student"}</span>
+    <span className="question-board__time">
+      {formatTime(timestamp)}
+      {editedAt && " (edited)"}
+    </span>
+  </div>
+);
+
+// Section and chapter pickers; the chapter list follows the chosen section
+const PlacementSelects = ({
+  course,
+  sectionId,
+  chapterId,
+  onChange,
+  anyLabel,
+}: {
+  course: Course;
+  sectionId: string;
+  chapterId: string;
+  onChange: (sectionId: string, chapterId: string) => void;
+  anyLabel: string;
+}) => {
+  const section = course.sections.find(
+    (section) => section.sectionId === sectionId
+  );
+
+  return (
+    <>
+      <Select value={sectionId} onValueChange={(value) => onChange(value, ALL)}>
+        <SelectTrigger className="question-board__select">
+          <SelectValue placeholder="Section" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{anyLabel} section</SelectItem>
+          {course.sections.map((section) => (
+            <SelectItem key={section.sectionId} value={section.sectionId}>
+              {section.sectionTitle}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={chapterId}
+        disabled={!section}
+        onValueChange={(value) => onChange(sectionId, value)}
+      >
+        <SelectTrigger className="question-board__select">
+          <SelectValue placeholder="Chapter" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{anyLabel} chapter</SelectItem>
+          {section?.chapters.map((chapter) => (
+            <SelectItem key={chapter.chapterId} value={chapter.chapterId}>
+              {chapter.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+};
+
+const AskQuestionForm = ({
+  course,
+  onDone,
+}: {
+  course: Course;
+  onDone: (questionId?: string) => void;
+}) => {
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [sectionId, setSectionId] = useState(ALL);
+  const [chapterId, setChapterId] = useState(ALL);
+  const [createQuestion, { isLoading }] = useCreateCourseQuestionMutation();
+
+  const handleSubmit = async () => {
+    try {
+      const question = await createQuestion({
+        courseId: course.courseId,
+        title: title.trim(),
+        body: body.trim() || undefined,
+        sectionId: sectionId === ALL ? undefined : sectionId,
+        chapterId: chapterId === ALL ? undefined : chapterId,
+      }).unwrap();
+      onDone(question.questionId);
+    } catch {
+      // The error has already been shown as a toast
+    }
+  };
+
+  return (
+    <div className="question-board__form">
+      <Input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="What do you want to ask?"
+        className="question-board__input"
+      />
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Add details (optional)"
+        className="question-board__textarea"
+      />
+      <div className="question-board__form-row">
+        <PlacementSelects
+          course={course}
+          sectionId={sectionId}
+          chapterId={chapterId}
+          anyLabel="No"
+          onChange={(section, chapter) => {
+            setSectionId(section);
+            setChapterId(chapter);
+          }}
+        />
+        <div className="question-board__form-actions">
+          <Button variant="ghost" size="sm" onClick={() => onDone()}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="question-board__submit"
+            disabled={!title.trim() || isLoading}
+            onClick={handleSubmit}
+          >
+            Post question
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AnswerItem = ({
+  courseId,
+  question,
+  answer,
+  userId,
+  canAccept,
+  canModerate,
+}: {
+  courseId: string;
+  question: CourseQuestion;
+  answer: CourseAnswer;
+  userId: string;
+  canAccept: boolean;
+  canModerate: boolean;
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState(answer.text);
+  const [toggleUpvote] = useToggleAnswerUpvoteMutation();
+  const [acceptAnswer] = useAcceptAnswerMutation();
+  const [updateAnswer, { isLoading: isSaving }] = useUpdateAnswerMutation();
+  const [deleteAnswer] = useDeleteAnswerMutation();
+
+  const ids = {
+    courseId,
+    questionId: question.questionId,
+    answerId: answer.answerId,
+  };
+  const isAuthor = answer.userId === userId;
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch {
+      // The error has already been shown as a toast
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "question-board__answer",
+        answer.accepted && "question-board__answer--accepted"
+      )}
+    >
+      <button
+        type="button"
+        disabled={isAuthor}
+        title={isAuthor ? "You cannot upvote your own answer" : "Upvote"}
+        onClick={() => run(() => toggleUpvote(ids).unwrap())}
+        className={cn(
+          "question-board__upvote",
+          answer.upvotedByMe && "question-board__upvote--active"
+        )}
+      >
+        <ChevronUp className="question-board__upvote-icon" />
+        {answer.upvotes}
+      </button>
+
+      <div className="question-board__answer-body">
+        <Author
+          name={answer.userName}
+          imageUrl={answer.userImageUrl}
+          timestamp={answer.timestamp}
+          editedAt={answer.editedAt}
+        />
+        {answer.accepted && (
+          <span className="question-board__badge">
+            <CheckCircle className="question-board__badge-icon" />
+            Accepted answer
+          </span>
+        )}
+
+        {isEditing ? (
+          <div className="question-board__form">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="question-board__textarea"
+            />
+            <div className="question-board__form-actions">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="question-board__submit"
+                disabled={!text.trim() || isSaving}
+                onClick={() =>
+                  run(async () => {
+                    await updateAnswer({ ...ids, text: text.trim() }).unwrap();
+                    setIsEditing(false);
+                  })
+                }
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="question-board__text">{answer.text}</p>
+        )}
+
+        {!isEditing && (
+          <div className="question-board__actions">
+            {canAccept && (
+              <button
+                type="button"
+                className="question-board__action"
+                onClick={() =>
+                  run(() =>
+                    acceptAnswer({
+                      courseId,
+                      questionId: question.questionId,
+                      answerId: answer.accepted ? null : answer.answerId,
+                    }).unwrap()
+                  )
+                }
+              >
+                {answer.accepted ? "Unaccept" : "Accept"}
+              </button>
+            )}
+            {isAuthor && (
+              <button
+                type="button"
+                className="question-board__action"
+                onClick={() => setIsEditing(true)}
+              >
+                Edit
+              </button>
+            )}
+            {(isAuthor || canModerate) && (
+              <button
+                type="button"
+                className="question-board__action"
+                onClick={() => {
+                  if (!window.confirm("Delete this answer?")) return;
+                  run(() => deleteAnswer(ids).unwrap());
+                }}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const QuestionDetail = ({
+  course,
+  questionId,
+  userId,
+  canModerate,
+  onBack,
+}: {
+  course: Course;
+  questionId: string;
+  userId: string;
+  canModerate: boolean;
+  onBack: () => void;
+}) => {
+  const { courseId } = course;
+  const { data: question, isLoading } = useGetCourseQuestionQuery({
+    courseId,
+    questionId,
+  });
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [answerText, setAnswerText] = useState("");
+  const [createAnswer, { isLoading: isAnswering }] = useCreateAnswerMutation();
+  const [updateQuestion, { isLoading: isSaving }] =
+    useUpdateCourseQuestionMutation();
+  const [deleteQuestion] = useDeleteCourseQuestionMutation();
+
+  if (isLoading) {
+    return <p className="question-board__empty">Loading question...</p>;
+  }
+  if (!question) {
+    return <p className="question-board__empty">Question not found.</p>;
+  }
+
+  const isAsker = question.userId === userId;
+  const placement = describePlacement(course, question);
+
+  const handleDelete = async () => {
+    if (!window.confirm("Delete this question and its answers?")) return;
+    try {
+      await deleteQuestion({ courseId, questionId }).unwrap();
+      onBack();
+    } catch {
+      // The error has already been shown as a toast
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateQuestion({
+        courseId,
+        questionId,
+        title: title.trim(),
+        body: body.trim(),
+      }).unwrap();
+      setIsEditing(false);
+    } catch {
+      // The error has already been shown as a toast
+    }
+  };
+
+  const handleAnswer = async () => {
+    try {
+      await createAnswer({
+        courseId,
+        questionId,
+        text: answerText.trim(),
+      }).unwrap();
+      setAnswerText("");
+    } catch {
+      // The error has already been shown as a toast
+    }
+  };
+
+  return (
+    <div className="question-board__detail">
+      <button type="button" onClick={onBack} className="question-board__back">
+        <ArrowLeft className="w-4 h-4" />
+        All questions
+      </button>
+
+      {isEditing ? (
+        <div className="question-board__form">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="question-board__input"
+          />
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="question-board__textarea"
+          />
+          <div className="question-board__form-actions">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsEditing(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              className="question-board__submit"
+              disabled={!title.trim() || isSaving}
+              onClick={handleSave}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <h3 className="question-board__detail-title">{question.title}</h3>
+          {placement && (
+            <span className="question-board__placement">{placement}</span>
+          )}
+          <Author
+            name={question.userName}
+            imageUrl={question.userImageUrl}
+            timestamp={question.timestamp}
+            editedAt={question.editedAt}
+          />
+          {question.body && (
+            <p className="question-board__text">{question.body}</p>
+          )}
+          <div className="question-board__actions">
+            {isAsker && (
+              <button
+                type="button"
+                className="question-board__action"
+                onClick={() => {
+                  setTitle(question.title);
+                  setBody(question.body);
+                  setIsEditing(true);
+                }}
+              >
+                Edit
+              </button>
+            )}
+            {((isAsker && question.answerCount === 0) || canModerate) && (
+              <button
+                type="button"
+                className="question-board__action"
+                onClick={handleDelete}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      <h4 className="question-board__answers-heading">
+        {question.answerCount}{" "}
+        {question.answerCount === 1 ? "answer" : "answers"}
+      </h4>
+      <div className="question-board__answers">
+        {question.answers?.map((answer) => (
+          <AnswerItem
+            key={answer.answerId}
+            courseId={courseId}
+            question={question}
+            answer={answer}
+            userId={userId}
+            canAccept={isAsker || canModerate}
+            canModerate={canModerate}
+          />
+        ))}
+      </div>
+
+      <div className="question-board__form">
+        <Textarea
+          value={answerText}
+          onChange={(e) => setAnswerText(e.target.value)}
+          placeholder="Write an answer..."
+          className="question-board__textarea"
+        />
+        <div className="question-board__form-actions">
+          <Button
+            size="sm"
+            className="question-board__submit"
+            disabled={!answerText.trim() || isAnswering}
+            onClick={handleAnswer}
+          >
+            Post answer
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * A course's Q&A board: a filterable list of questions, each opening to its
+ * answers. Used by both students and the course's teacher.
+ */
+const QuestionBoard = ({
+  course,
+  userId,
+}: {
+  course: Course;
+  userId: string;
+}) => {
+  const [sectionId, setSectionId] = useState(ALL);
+  const [chapterId, setChapterId] = useState(ALL);
+  const [unanswered, setUnanswered] = useState(false);
+  const [isAsking, setIsAsking] = useState(false);
+  const [selectedQuestionId, setSelectedQuestionId] = useState<string | null>(
+    null
+  );
+
+  const { data: board, isLoading } = useGetCourseQuestionsQuery({
+    courseId: course.courseId,
+    sectionId: sectionId === ALL ? undefined : sectionId,
+    chapterId: chapterId === ALL ? undefined : chapterId,
+    unanswered,
+  });
+
+  if (selectedQuestionId) {
+    return (
+      <QuestionDetail
+        course={course}
+        questionId={selectedQuestionId}
+        userId={userId}
+        canModerate={!!board?.canModerate}
+        onBack={() => setSelectedQuestionId(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="question-board">
+      <div className="question-board__toolbar">
+        <PlacementSelects
+          course={course}
+          sectionId={sectionId}
+          chapterId={chapterId}
+          anyLabel="Any"
+          onChange={(section, chapter) => {
+            setSectionId(section);
+            setChapterId(chapter);
+          }}
+        />
+        <label className="question-board__toggle">
+          <Switch checked={unanswered} onCheckedChange={setUnanswered} />
+          Unanswered only
+        </label>
+        {!isAsking && (
+          <Button
+            size="sm"
+            className="question-board__ask"
+            onClick={() => setIsAsking(true)}
+          >
+            Ask a question
+          </Button>
+        )}
+      </div>
+
+      {isAsking && (
+        <AskQuestionForm
+          course={course}
+          onDone={(questionId) => {
+            setIsAsking(false);
+            if (questionId) setSelectedQuestionId(questionId);
+          }}
+        />
+      )}
+
+      {isLoading ? (
+        <p className="question-board__empty">Loading questions...</p>
+      ) : board && board.questions.length > 0 ? (
+        <div className="question-board__list">
+          {board.questions.map((question) => {
+            const placement = describePlacement(course, question);
+            return (
+              <button
+                key={question.questionId}
+                type="button"
+                onClick={() => setSelectedQuestionId(question.questionId)}
+                className="question-board__question"
+              >
+                <span className="question-board__question-title">
+                  {question.title}
+                </span>
+                <span className="question-board__question-meta">
+                  {question.userName || "Student"} ·{" "}
+                  {formatTime(question.timestamp)}
+                  {placement && ` · ${placement}`}
+                </span>
+                <span
+                  className={cn(
+                    "question-board__count",
+                    question.acceptedAnswerId &&
+                      "question-board__count--accepted"
+                  )}
+                >
+                  {question.acceptedAnswerId ? (
+                    <CheckCircle className="question-board__badge-icon" />
+                  ) : (
+                    <MessageSquare className="question-board__badge-icon" />
+                  )}
+                  {question.answerCount}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="question-board__empty">
+          {unanswered || sectionId !== ALL
+            ? "No questions match these filters."
+            : "No questions yet. Be the first to ask!"}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default QuestionBoard;
@@ -0,0 +1,554 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  CheckCircle,
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  Hourglass,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  useSaveQuizAnswersMutation,
+  useStartQuizAttemptMutation,
+  useSubmitQuizMutation,
+} from "@/state/api";
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const emptyAnswer = (questionId: string): QuizAnswer => ({
+  questionId,
+  selectedOptionIds: [],
+  textAnswer: "",
+  matches: [],
+});
+
+const scoringPolicyLabels = {
+  Best: "Your best score counts",
+  Latest: "Your latest score counts",
+  Average: "Your average score counts",
+};
+
+const QuizPlayer = ({ quiz: quizInfo }: QuizPlayerProps) => {
+  const { quizId } = quizInfo;
+  const [startAttempt, { isLoading: isStarting }] =
+    useStartQuizAttemptMutation();
+  const [saveAnswers] = useSaveQuizAnswersMutation();
+  const [submitQuiz, { isLoading: isSubmitting }] = useSubmitQuizMutation();
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [attempt, setAttempt] = useState<QuizAttemptSession | null>(null);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [result, setResult] = useState<{
+    attempt: QuizAttemptResult;
+    results: QuizQuestionResult[];
+  } | null>(null);
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  // Difference between the server clock and this browser's clock
+  const clockOffsetRef = useRef(0);
+  const hasSubmittedRef = useRef(false);
+  // Time since the last answer change is counted toward the question answered
+  const lastInteractionRef = useRef(0);
+
+  useEffect(() => {
+    setQuiz(null);
+    setAttempt(null);
+    setAnswers({});
+    setResult(null);
+    setRemainingMs(null);
+    hasSubmittedRef.current = false;
+  }, [quizId]);
+
+  const handleStart = async () => {
+    try {
+      const data = await startAttempt(quizId).unwrap();
+      clockOffsetRef.current = Date.parse(data.serverTime) - Date.now();
+      hasSubmittedRef.current = false;
+      lastInteractionRef.current = Date.now();
+      setQuiz(data.quiz);
+      setAttempt(data.attempt);
+      setResult(null);
+
+      const savedAnswers: Record<string, QuizAnswer> = Object.fromEntries(
+        (data.attempt.answers || []).map((answer) => [
+          answer.questionId,
+          answer,
+        ])
+      );
+      // Ordering questions start in the order they were delivered
+      data.quiz.questions.forEach((question) => {
+        if (
+          question.type === "Ordering" &&
+          !savedAnswers[question.questionId]?.selectedOptionIds?.length
+        ) {
+          savedAnswers[question.questionId] = {
+            ...emptyAnswer(question.questionId),
+            selectedOptionIds: (question.options || []).map(
+              (option) => option.id
+            ),
+          };
+        }
+      });
+      setAnswers(savedAnswers);
+    } catch (error) {
+      console.error("Failed to start quiz:", error);
+    }
+  };
+
+  const handleSubmit = useCallback(async () => {
+    if (!attempt || hasSubmittedRef.current) return;
+    hasSubmittedRef.current = true;
+
+    try {
+      const data = await submitQuiz({
+        quizId,
+        attemptId: attempt.attemptId,
+        answers: Object.values(answers),
+      }).unwrap();
+      setResult(data);
+      setRemainingMs(null);
+    } catch (error) {
+      hasSubmittedRef.current = false;
+      console.error("Failed to submit quiz:", error);
+    }
+  }, [answers, attempt, quizId, submitQuiz]);
+
+  // Countdown driven by the server deadline
+  useEffect(() => {
+    if (!attempt?.expiresAt || result) return;
+
+    const deadline = Date.parse(attempt.expiresAt);
+    const tick = () => {
+      const remaining = deadline - (Date.now() + clockOffsetRef.current);
+      setRemainingMs(remaining);
+      if (remaining <= 0) {
+        handleSubmit();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [attempt, result, handleSubmit]);
+
+  const getAnswer = (questionId: string) =>
+    answers[questionId] || emptyAnswer(questionId);
+
+  const updateAnswer = (
+    questionId: string,
+    changes: Partial<QuizAnswer>,
+    save = true
+  ) => {
+    if (!attempt || result) return;
+
+    const now = Date.now();
+    const previous = getAnswer(questionId);
+    const answer = {
+      ...previous,
+      ...changes,
+      timeSpent:
+        (previous.timeSpent || 0) + (now - lastInteractionRef.current) / 1000,
+    };
+    lastInteractionRef.current = now;
+    setAnswers((prev) => ({ ...prev, [questionId]: answer }));
+    if (save) {
+      saveAnswers({
+        quizId,
+        attemptId: attempt.attemptId,
+        answers: [answer],
+      });
+    }
+  };
+
+  // Written answers are saved when the student leaves the field rather than
+  // on every keystroke
+  const handleTextChange = (questionId: string, textAnswer: string) =>
+    updateAnswer(questionId, { textAnswer }, false);
+
+  const handleSaveTextAnswer = (questionId: string) =>
+    updateAnswer(questionId, {});
+
+  const handleSelectOption = (question: QuizQuestion, optionId: string) => {
+    const selected = getAnswer(question.questionId).selectedOptionIds;
+    const selectedOptionIds =
+      question.type === "MultipleSelect"
+        ? selected.includes(optionId)
+          ? selected.filter((id) => id !== optionId)
+          : [...selected, optionId]
+        : [optionId];
+    updateAnswer(question.questionId, { selectedOptionIds });
+  };
+
+  const handleMoveOption = (questionId: string, index: number, by: number) => {
+    const order = [...getAnswer(questionId).selectedOptionIds];
+    const target = index + by;
+    if (target < 0 || target >= order.length) return;
+
+    [order[index], order[target]] = [order[target], order[index]];
+    updateAnswer(questionId, { selectedOptionIds: order });
+  };
+
+  const handleMatch = (questionId: string, optionId: string, match: string) => {
+    const matches = (getAnswer(questionId).matches || []).filter(
+      (pair) => pair.optionId !== optionId
+    );
+    updateAnswer(questionId, { matches: [...matches, { optionId, match }] });
+  };
+
+  if (!quiz || !attempt) {
+    return (
+      <div className="quiz-player__intro">
+        <ul className="quiz-player__rules">
+          {quizInfo.timeLimit ? (
+            <li>Time limit: {quizInfo.timeLimit} minutes</li>
+          ) : null}
+          <li>
+            {quizInfo.maxAttempts
+              ? `${quizInfo.maxAttempts} ${
+                  quizInfo.maxAttempts === 1 ? "attempt" : "attempts"
+                } allowed`
+              : "Unlimited attempts"}
+          </li>
+          {quizInfo.cooldownMinutes ? (
+            <li>Wait {quizInfo.cooldownMinutes} minutes between attempts</li>
+          ) : null}
+          <li>{scoringPolicyLabels[quizInfo.scoringPolicy || "Best"]}</li>
+        </ul>
+        <Button
+          onClick={handleStart}
+          disabled={isStarting}
+          className="quiz-player__start"
+        >
+          {isStarting ? "Starting..." : "Start Quiz"}
+        </Button>
+      </div>
+    );
+  }
+
+  const resultsByQuestion = new Map(
+    result?.results.map((questionResult) => [
+      questionResult.questionId,
+      questionResult,
+    ])
+  );
+
+  const getOptionText = (question: QuizQuestion, optionId: string) =>
+    question.options?.find((option) => option.id === optionId)?.text;
+
+  const renderQuestionInput = (
+    question: QuizQuestion,
+    questionResult?: QuizQuestionResult
+  ) => {
+    const answer = getAnswer(question.questionId);
+
+    switch (question.type) {
+      case "Essay":
+        return (
+          <Textarea
+            value={answer.textAnswer || ""}
+            disabled={!!result}
+            placeholder="Write your answer here"
+            onChange={(e) =>
+              handleTextChange(question.questionId, e.target.value)
+            }
+            onBlur={() => handleSaveTextAnswer(question.questionId)}
+            className="quiz-player__essay"
+          />
+        );
+
+      case "ShortAnswer":
+        return (
+          <Input
+            value={answer.textAnswer || ""}
+            disabled={!!result}
+            placeholder="Type your answer"
+            onChange={(e) =>
+              handleTextChange(question.questionId, e.target.value)
+            }
+            onBlur={() => handleSaveTextAnswer(question.questionId)}
+            className="quiz-player__short-answer"
+          />
+        );
+
+      case "Ordering":
+        return (
+          <div className="quiz-player__options">
+            {answer.selectedOptionIds.map((optionId, index) => (
+              <div
+                key={optionId}
+                className={cn(
+                  "quiz-player__order-item",
+                  questionResult?.correctOptionIds[index] === optionId &&
+                    "quiz-player__option--correct"
+                )}
+              >
+                <span>
+                  {index + 1}. {getOptionText(question, optionId)}
+                </span>
+                {!result && (
+                  <div className="quiz-player__order-actions">
+                    <button
+                      type="button"
+                      aria-label="Move up"
+                      disabled={index === 0}
+                      onClick={() =>
+                        handleMoveOption(question.questionId, index, -1)
+                      }
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      aria-label="Move down"
+                      disabled={index === answer.selectedOptionIds.length - 1}
+                      onClick={() =>
+                        handleMoveOption(question.questionId, index, 1)
+                      }
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        );
+
+      case "Matching":
+        return (
+          <div className="quiz-player__options">
+            {question.options?.map((option) => {
+              const chosen = answer.matches?.find(
+                (pair) => pair.optionId === option.id
+              )?.match;
+              const correct = questionResult?.correctMatches?.find(
+                (pair) => pair.optionId === option.id
+              )?.match;
+              return (
+                <div key={option.id} className="quiz-player__match">
+                  <span className="quiz-player__match-text">{option.text}</span>
+                  <Select
+                    value={chosen || ""}
+                    disabled={!!result}
+                    onValueChange={(value) =>
+                      handleMatch(question.questionId, option.id, value)
+                    }
+                  >
+                    <SelectTrigger
+                      className={cn(
+                        "quiz-player__match-select",
+                        result &&
+                          chosen === correct &&
+                          "quiz-player__option--correct"
+                      )}
+                    >
+                      <SelectValue placeholder="Choose a match" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {question.matchChoices?.map((choice) => (
+                        <SelectItem key={choice} value={choice}>
+                          {choice}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        );
+
+      default:
+        return (
+          <div className="quiz-player__options">
+            {question.type === "MultipleSelect" && (
+              <span className="quiz-player__hint">Select all that apply</span>
+            )}
+            {question.options?.map((option) => {
+              const isSelected = answer.selectedOptionIds.includes(option.id);
+              const isCorrect = questionResult?.correctOptionIds.includes(
+                option.id
+              );
+              return (
+                <button
+                  key={option.id}
+                  type="button"
+                  disabled={!!result}
+                  onClick={() => handleSelectOption(question, option.id)}
+                  className={cn(
+                    "quiz-player__option",
+                    isSelected && "quiz-player__option--selected",
+                    result && isCorrect && "quiz-player__option--correct"
+                  )}
+                >
+                  {option.text}
+                </button>
+              );
+            })}
+          </div>
+        );
+    }
+  };
+
+  const renderFeedback = (
+    question: QuizQuestion,
+    questionResult: QuizQuestionResult
+  ) => {
+    if (questionResult.pendingReview) {
+      return (
+        <div className="quiz-player__feedback">
+          <Hourglass className="quiz-player__feedback-icon text-yellow-500" />
+          <span>Pending review by your teacher</span>
+        </div>
+      );
+    }
+
+    const isPartial =
+      !questionResult.isCorrect && questionResult.pointsAwarded > 0;
+    return (
+      <div className="quiz-player__feedback">
+        {questionResult.isCorrect ? (
+          <CheckCircle className="quiz-player__feedback-icon text-green-500" />
+        ) : (
+          <XCircle
+            className={cn(
+              "quiz-player__feedback-icon",
+              isPartial ? "text-yellow-500" : "text-red-500"
+            )}
+          />
+        )}
+        <div className="quiz-player__feedback-text">
+          <span>
+            {questionResult.correctAnswerExplanation ||
+              (questionResult.isCorrect
+                ? "Correct"
+                : isPartial
+                ? "Partially correct"
+                : "Incorrect")}
+          </span>
+          {isPartial && (
+            <span>
+              {questionResult.pointsAwarded}/{questionResult.points} points
+            </span>
+          )}
+          {!questionResult.isCorrect &&
+            question.type === "ShortAnswer" &&
+            !!questionResult.acceptedAnswers?.length && (
+              <span>
+                Accepted answers: {questionResult.acceptedAnswers.join(", ")}
+              </span>
+            )}
+          {!questionResult.isCorrect && question.type === "Ordering" && (
+            <span>
+              Correct order:{" "}
+              {questionResult.correctOptionIds
+                .map((id) => getOptionText(question, id))
+                .join(" → ")}
+            </span>
+          )}
+          {!questionResult.isCorrect && question.type === "Matching" && (
+            <span>
+              Correct matches:{" "}
+              {questionResult.correctMatches
+                ?.map(
+                  (pair) =>
+                    `${getOptionText(question, pair.optionId)} = ${pair.match}`
+                )
+                .join(", ")}
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="quiz-player">
+      <div className="quiz-player__header">
+        <h3 className="quiz-player__title">{quiz.title}</h3>
+        {remainingMs !== null && !result && (
+          <div
+            className={cn(
+              "quiz-player__timer",
+              remainingMs < 60 * 1000 && "quiz-player__timer--warning"
+            )}
+          >
+            <Clock className="w-4 h-4" />
+            <span>{formatTime(remainingMs)}</span>
+          </div>
+        )}
+      </div>
+
+      {result && (
+        <div
+          className={cn(
+            "quiz-player__summary",
+            result.attempt.pendingReview
+              ? "quiz-player__summary--pending"
+              : result.attempt.passed
+              ? "quiz-player__summary--passed"
+              : "quiz-player__summary--failed"
+          )}
+        >
+          <span>
+            Score: {result.attempt.score}% ({result.attempt.pointsEarned}/
+            {result.attempt.totalPoints} points)
+          </span>
+          <span>
+            {result.attempt.pendingReview
+              ? "Awaiting essay review"
+              : result.attempt.passed
+              ? "Passed"
+              : "Not passed"}
+          </span>
+        </div>
+      )}
+
+      <div className="quiz-player__questions">
+        {quiz.questions.map((question, index) => {
+          const questionResult = resultsByQuestion.get(question.questionId);
+          return (
+            <div key={question.questionId} className="quiz-player__question">
+              <p className="quiz-player__question-text">
+                {index + 1}. {question.text}
+              </p>
+              {renderQuestionInput(question, questionResult)}
+              {questionResult && renderFeedback(question, questionResult)}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="quiz-player__actions">
+        {result ? (
+          <Button onClick={handleStart} disabled={isStarting}>
+            Try Again
+          </Button>
+        ) : (
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Submitting..." : "Submit Quiz"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizPlayer;
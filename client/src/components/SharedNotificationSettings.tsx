@@ -27,7 +27,8 @@ const SharedNotificationSettings = ({
   const methods = useForm<NotificationSettingsFormData>({
     resolver: zodResolver(notificationSettingsSchema),
     defaultValues: {
-      courseNotifications: currentSettings.courseNotifications || false,
+      // Course notifications are on until turned off, as on the server
+      courseNotifications: currentSettings.courseNotifications ?? true,
       emailAlerts: currentSettings.emailAlerts || false,
       smsAlerts: currentSettings.smsAlerts || false,
       notificationFrequency: currentSettings.notificationFrequency || "daily",
@@ -37,10 +38,10 @@ const SharedNotificationSettings = ({
   const onSubmit = async (data: NotificationSettingsFormData) => {
     if (!user) return;
 
+    // Only settings are sent; the server rejects role changes from here
     const updatedUser = {
       userId: user.id,
       publicMetadata: {
-        ...user.publicMetadata,
         settings: {
           ...currentSettings,
           ...data,
@@ -84,12 +85,12 @@ const SharedNotificationSettings = ({
 
             <CustomFormField
               name="notificationFrequency"
-              label="Notification Frequency"
+              label="Email Frequency"
               type="select"
               options={[
                 { value: "immediate", label: "Immediate" },
-                { value: "daily", label: "Daily" },
-                { value: "weekly", label: "Weekly" },
+                { value: "daily", label: "Daily digest" },
+                { value: "weekly", label: "Weekly digest" },
               ]}
             />
           </div>
@@ -21,7 +21,7 @@ const SignUpComponent = () => {
     }
 
     const userType = user?.publicMetadata?.userType as string;
-    if (userType === "teacher") {
+    if (userType === "teacher" || userType === "admin") {
       return "/teacher/courses";
     }
     return "/user/courses";
@@ -0,0 +1,82 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  useGetMyTeacherApplicationsQuery,
+  useSubmitTeacherApplicationMutation,
+} from "@/state/api";
+import React, { useState } from "react";
+
+const TeacherApplicationForm = () => {
+  const { data: applications, isLoading } = useGetMyTeacherApplicationsQuery();
+  const [submitApplication, { isLoading: isSubmitting }] =
+    useSubmitTeacherApplicationMutation();
+  const [motivation, setMotivation] = useState("");
+  const [experience, setExperience] = useState("");
+
+  const latest = applications?.[0];
+
+  const handleSubmit = async () => {
+    try {
+      await submitApplication({ motivation, experience }).unwrap();
+      setMotivation("");
+      setExperience("");
+    } catch (error) {
+      console.error("Failed to submit teacher application:", error);
+    }
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <div className="teacher-application">
+      <h2 className="teacher-application__title">Become a Teacher</h2>
+
+      {latest && (
+        <p
+          className={cn(
+            "teacher-application__status",
+            `teacher-application__status--${latest.status.toLowerCase()}`
+          )}
+        >
+          {latest.status === "Pending"
+            ? "Your application is waiting for review."
+            : `Your last application was ${latest.status.toLowerCase()}.`}
+          {latest.reviewNote && ` ${latest.reviewNote}`}
+        </p>
+      )}
+
+      {latest?.status !== "Pending" && (
+        <>
+          <p className="teacher-application__description">
+            Tell us what you would like to teach. An admin reviews every
+            application before teacher access is granted.
+          </p>
+          <Textarea
+            value={motivation}
+            onChange={(e) => setMotivation(e.target.value)}
+            placeholder="What would you like to teach, and why?"
+            className="teacher-application__input"
+          />
+          <Textarea
+            value={experience}
+            onChange={(e) => setExperience(e.target.value)}
+            placeholder="Teaching or subject experience (optional)"
+            className="teacher-application__input"
+          />
+          <Button
+            onClick={handleSubmit}
+            disabled={!motivation.trim() || isSubmitting}
+            className="teacher-application__submit"
+          >
+            {isSubmitting ? "Submitting..." : "Apply"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TeacherApplicationForm;
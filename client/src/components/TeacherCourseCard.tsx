@@ -53,12 +53,12 @@ const TeacherCourseCard = ({
               {course.status}
             </span>
           </p>
-          {course.enrollments && (
+          {course.enrollmentCount !== undefined && (
             <p className="ml-1 mt-1 inline-block text-secondary bg-secondary/10 text-sm font-normal">
               <span className="font-bold text-white-100">
-                {course.enrollments.length}
+                {course.enrollmentCount}
               </span>{" "}
-              Student{course.enrollments.length > 1 ? "s" : ""} Enrolled
+              Student{course.enrollmentCount > 1 ? "s" : ""} Enrolled
             </p>
           )}
         </div>
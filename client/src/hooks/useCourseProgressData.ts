@@ -20,19 +20,30 @@ export const useCourseProgressData = () => {
     }
   );
 
-  const { data: userProgress, isLoading: progressLoading } =
-    useGetUserCourseProgressQuery(
-      {
-        userId: user?.id ?? "",
-        courseId: (courseId as string) ?? "",
-      },
-      {
-        skip: !isLoaded || !user || !courseId,
-      }
-    );
+  const {
+    data: userProgress,
+    isLoading: progressLoading,
+    error: progressError,
+  } = useGetUserCourseProgressQuery(
+    {
+      userId: user?.id ?? "",
+      courseId: (courseId as string) ?? "",
+    },
+    {
+      skip: !isLoaded || !user || !courseId,
+    }
+  );
 
   const isLoading = !isLoaded || courseLoading || progressLoading;
 
+  // The server refuses progress when the enrollment is suspended, dropped or
+  // expired, and says why
+  const accessError =
+    progressError && "status" in progressError && progressError.status === 403
+      ? (progressError.data as { message?: string })?.message ||
+        "You no longer have access to this course"
+      : null;
+
   const currentSection = course?.sections.find((s) =>
     s.chapters.some((c) => c.chapterId === chapterId)
   );
@@ -92,6 +103,7 @@ export const useCourseProgressData = () => {
     currentSection,
     currentChapter,
     isLoading,
+    accessError,
     isChapterCompleted,
     updateChapterProgress,
     hasMarkedComplete,
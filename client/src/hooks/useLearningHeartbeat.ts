@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useSendHeartbeatMutation } from "@/state/api";
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// onProgress fires about every second while playing, so a bigger jump in
+// playedSeconds is a seek rather than watching
+const MAX_VIDEO_STEP_SECONDS = 5;
+
+/**
+ * Send time on task for the current chapter while the page is visible. Pass
+ * ReactPlayer's playedSeconds to trackVideoProgress to count video watched.
+ */
+export const useLearningHeartbeat = (userId?: string, chapterId?: string) => {
+  const [sendHeartbeat] = useSendHeartbeatMutation();
+  const lastBeatRef = useRef(Date.now());
+  const videoSecondsRef = useRef(0);
+  const lastPlayedRef = useRef<number | null>(null);
+
+  const flush = useCallback(() => {
+    const now = Date.now();
+    const seconds = Math.round((now - lastBeatRef.current) / 1000);
+    const videoSeconds = Math.round(videoSecondsRef.current);
+    lastBeatRef.current = now;
+    videoSecondsRef.current = 0;
+    if (!userId || (seconds === 0 && videoSeconds === 0)) return;
+
+    sendHeartbeat({
+      userId,
+      seconds,
+      videoSeconds,
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+  }, [userId, sendHeartbeat]);
+
+  useEffect(() => {
+    if (!userId || !chapterId) return;
+    lastBeatRef.current = Date.now();
+    videoSecondsRef.current = 0;
+    lastPlayedRef.current = null;
+
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") flush();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    // Time while the tab is hidden does not count
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        flush();
+      } else {
+        lastBeatRef.current = Date.now();
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      if (document.visibilityState === "visible") flush();
+    };
+  }, [userId, chapterId, flush]);
+
+  const trackVideoProgress = useCallback((playedSeconds: number) => {
+    const step = playedSeconds - (lastPlayedRef.current ?? playedSeconds);
+    if (step > 0 && step <= MAX_VIDEO_STEP_SECONDS) {
+      videoSecondsRef.current += step;
+    }
+    lastPlayedRef.current = playedSeconds;
+  }, []);
+
+  return { trackVideoProgress };
+};
@@ -6,16 +6,24 @@ export const courseSchema = z.object({
   courseDescription: z.string().min(1, "Description is required"),
   courseCategory: z.string().min(1, "Category is required"),
   courseStatus: z.boolean(),
+  courseCertificateRequiresQuizzes: z.boolean(),
 });
 
 export type CourseFormData = z.infer<typeof courseSchema>;
 
 // Chapter Schemas
-export const chapterSchema = z.object({
-  title: z.string().min(2, "Title must be at least 2 characters"),
-  content: z.string().min(10, "Content must be at least 10 characters"),
-  video: z.union([z.string(), z.instanceof(File)]).optional(),
-});
+export const chapterSchema = z
+  .object({
+    title: z.string().min(2, "Title must be at least 2 characters"),
+    content: z.string().min(10, "Content must be at least 10 characters"),
+    type: z.enum(["Content", "Quiz"]),
+    video: z.union([z.string(), z.instanceof(File)]).optional(),
+    quizId: z.string().optional(),
+  })
+  .refine((data) => data.type !== "Quiz" || !!data.quizId, {
+    message: "Select or create a quiz for this chapter",
+    path: ["quizId"],
+  });
 
 export type ChapterFormData = z.infer<typeof chapterSchema>;
 
@@ -213,6 +213,18 @@ export function convertToSubCurrency(amount: number, factor = 100) {
 
 export const NAVBAR_HEIGHT = 48;
 
+// <input type="datetime-local"> works in local time without a timezone
+export const toLocalInput = (value?: string) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+export const fromLocalInput = (value: string) =>
+  value ? new Date(value).toISOString() : "";
+
 export const courseCategories = [
   { value: "technology", label: "Technology" },
   { value: "science", label: "Science" },
@@ -271,6 +283,10 @@ export const createCourseFormData = (
   formData.append("description", data.courseDescription);
   formData.append("category", data.courseCategory);
   formData.append("status", data.courseStatus ? "Published" : "Draft");
+  formData.append(
+    "certificateRequiresQuizzes",
+    String(data.courseCertificateRequiresQuizzes)
+  );
 
   const sectionsWithVideos = sections.map((section) => ({
     ...section,
@@ -3,11 +3,12 @@ import { NextResponse } from "next/server";
 
 const isStudentRoute = createRouteMatcher(["/user/(.*)"]);
 const isTeacherRoute = createRouteMatcher(["/teacher/(.*)"]);
+const isAdminRoute = createRouteMatcher(["/teacher/applications(.*)"]);
 
 export default clerkMiddleware(async (auth, req) => {
   const { sessionClaims } = await auth();
   const userRole =
-    (sessionClaims?.metadata as { userType: "student" | "teacher" })
+    (sessionClaims?.metadata as { userType: "student" | "teacher" | "admin" })
       ?.userType || "student";
 
   if (isStudentRoute(req)) {
@@ -17,12 +18,20 @@ export default clerkMiddleware(async (auth, req) => {
     }
   }
 
-  // if (isTeacherRoute(req)) {
-  //   if (userRole !== "teacher") {
-  //     const url = new URL("/user/courses", req.url);
-  //     return NextResponse.redirect(url);
-  //   }
-  // }
+  // Admins can use the teacher dashboard; the API still checks ownership
+  if (isTeacherRoute(req)) {
+    if (userRole !== "teacher" && userRole !== "admin") {
+      const url = new URL("/user/courses", req.url);
+      return NextResponse.redirect(url);
+    }
+  }
+
+  if (isAdminRoute(req)) {
+    if (userRole !== "admin") {
+      const url = new URL("/teacher/courses", req.url);
+      return NextResponse.redirect(url);
+    }
+  }
 });
 
 export const config = {
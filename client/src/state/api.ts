@@ -58,10 +58,27 @@ const customBaseQuery = async (
   }
 };
 
+const commentsUrl = ({ courseId, sectionId, chapterId }: ChapterRef) =>
+  `courses/${courseId}/sections/${sectionId}/chapters/${chapterId}/comments`;
+
 export const api = createApi({
   baseQuery: customBaseQuery,
   reducerPath: "api",
-  tagTypes: ["Courses", "Users", "UserCourseProgress"],
+  tagTypes: [
+    "Courses",
+    "Users",
+    "UserCourseProgress",
+    "Quizzes",
+    "GradingQueue",
+    "TeacherApplications",
+    "EnrollmentRequests",
+    "CourseStudents",
+    "Engagement",
+    "Comments",
+    "Questions",
+    "Notifications",
+    "Certificates",
+  ],
   endpoints: (build) => ({
     /* 
     ===============
@@ -77,6 +94,67 @@ export const api = createApi({
       invalidatesTags: ["Users"],
     }),
 
+    changeUserRole: build.mutation<
+      RoleChange,
+      { userId: string; role: UserRole; reason?: string }
+    >({
+      query: ({ userId, ...body }) => ({
+        url: `users/clerk/${userId}/role`,
+        method: "PUT",
+        body,
+      }),
+      invalidatesTags: ["Users"],
+    }),
+
+    /* 
+    ===============
+    TEACHER APPLICATIONS
+    =============== 
+    */
+    getMyTeacherApplications: build.query<TeacherApplication[], void>({
+      query: () => "teacher-applications/mine",
+      providesTags: ["TeacherApplications"],
+    }),
+
+    getTeacherApplications: build.query<
+      TeacherApplication[],
+      { status?: TeacherApplicationStatus }
+    >({
+      query: ({ status }) => ({
+        url: "teacher-applications",
+        params: { status },
+      }),
+      providesTags: ["TeacherApplications"],
+    }),
+
+    submitTeacherApplication: build.mutation<
+      TeacherApplication,
+      { motivation: string; experience?: string }
+    >({
+      query: (body) => ({
+        url: "teacher-applications",
+        method: "POST",
+        body,
+      }),
+      invalidatesTags: ["TeacherApplications"],
+    }),
+
+    reviewTeacherApplication: build.mutation<
+      TeacherApplication,
+      {
+        applicationId: string;
+        status: Exclude<TeacherApplicationStatus, "Pending">;
+        note?: string;
+      }
+    >({
+      query: ({ applicationId, ...body }) => ({
+        url: `teacher-applications/${applicationId}`,
+        method: "PUT",
+        body,
+      }),
+      invalidatesTags: ["TeacherApplications"],
+    }),
+
     /* 
     ===============
     COURSES
@@ -146,6 +224,223 @@ export const api = createApi({
       }),
     }),
 
+    /* 
+    ===============
+    ENROLLMENTS
+    =============== 
+    */
+    enrollInCourse: build.mutation<
+      EnrollmentResult,
+      { courseId: string; inviteCode?: string }
+    >({
+      query: (body) => ({
+        url: "enrollments",
+        method: "POST",
+        body,
+      }),
+      invalidatesTags: ["Courses", "UserCourseProgress"],
+    }),
+
+    unenrollFromCourse: build.mutation<Enrollment | undefined, string>({
+      query: (courseId) => ({
+        url: `enrollments/${courseId}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Courses", "UserCourseProgress"],
+    }),
+
+    updateEnrollmentPolicy: build.mutation<
+      EnrollmentPolicy,
+      { courseId: string } & EnrollmentPolicy
+    >({
+      query: ({ courseId, ...policy }) => ({
+        url: `enrollments/courses/${courseId}/policy`,
+        method: "PUT",
+        body: policy,
+      }),
+      invalidatesTags: (result, error, { courseId }) => [
+        { type: "Courses", id: courseId },
+      ],
+    }),
+
+    getEnrollmentRequests: build.query<EnrollmentRequest[], string>({
+      query: (courseId) => `enrollments/courses/${courseId}/requests`,
+      providesTags: ["EnrollmentRequests"],
+    }),
+
+    reviewEnrollmentRequest: build.mutation<
+      EnrollmentRequest | EnrollmentResult,
+      { courseId: string; userId: string; status: "Approved" | "Rejected" }
+    >({
+      query: ({ courseId, userId, status }) => ({
+        url: `enrollments/courses/${courseId}/requests/${userId}`,
+        method: "PUT",
+        body: { status },
+      }),
+      invalidatesTags: (result, error, { courseId }) => [
+        "EnrollmentRequests",
+        "CourseStudents",
+        { type: "Courses", id: courseId },
+      ],
+    }),
+
+    getCourseRoster: build.query<CourseRoster, string>({
+      query: (courseId) => `courses/${courseId}/students`,
+      providesTags: ["CourseStudents"],
+    }),
+
+    getCourseAnalytics: build.query<CourseAnalytics, string>({
+      query: (courseId) => `courses/${courseId}/analytics`,
+    }),
+
+    updateStudentEnrollment: build.mutation<
+      Enrollment,
+      {
+        courseId: string;
+        userId: string;
+        status?: "Active" | "Suspended" | "Dropped";
+        expiresAt?: string | null;
+      }
+    >({
+      query: ({ courseId, userId, ...body }) => ({
+        url: `enrollments/courses/${courseId}/students/${userId}`,
+        method: "PUT",
+        body,
+      }),
+      invalidatesTags: (result, error, { courseId }) => [
+        "CourseStudents",
+        { type: "Courses", id: courseId },
+      ],
+    }),
+
+    removeStudent: build.mutation<
+      Enrollment,
+      { courseId: string; userId: string }
+    >({
+      query: ({ courseId, userId }) => ({
+        url: `enrollments/courses/${courseId}/students/${userId}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: (result, error, { courseId }) => [
+        "CourseStudents",
+        { type: "Courses", id: courseId },
+      ],
+    }),
+
+    /* 
+    ===============
+    QUIZZES
+    =============== 
+    */
+    getQuizzes: build.query<Quiz[], { courseId?: string }>({
+      query: ({ courseId }) => ({
+        url: "quizzes",
+        params: { courseId },
+      }),
+      providesTags: ["Quizzes"],
+    }),
+
+    createQuiz: build.mutation<Quiz, { courseId: string; title: string }>({
+      query: (body) => ({
+        url: "quizzes",
+        method: "POST",
+        body,
+      }),
+      invalidatesTags: ["Quizzes"],
+    }),
+
+    exportQuiz: build.query<
+      QuizExportFile,
+      { quizId: string; format: QuizFileFormat }
+    >({
+      query: ({ quizId, format }) => ({
+        url: `quizzes/${quizId}/export`,
+        params: { format },
+      }),
+    }),
+
+    importQuiz: build.mutation<
+      QuizImportPreview | Quiz,
+      {
+        quizId: string;
+        format: QuizFileFormat;
+        content: string;
+        preview?: boolean;
+        replace?: boolean;
+      }
+    >({
+      query: ({ quizId, ...body }) => ({
+        url: `quizzes/${quizId}/import`,
+        method: "POST",
+        body,
+      }),
+      invalidatesTags: ["Quizzes"],
+    }),
+
+    getQuizAnalytics: build.query<QuizAnalytics, string>({
+      query: (quizId) => `quizzes/${quizId}/analytics`,
+    }),
+
+    startQuizAttempt: build.mutation<
+      { attempt: QuizAttemptSession; quiz: Quiz; serverTime: string },
+      string
+    >({
+      query: (quizId) => ({
+        url: `quizzes/${quizId}/attempts`,
+        method: "POST",
+      }),
+    }),
+
+    saveQuizAnswers: build.mutation<
+      { attempt: QuizAttemptSession; serverTime: string },
+      { quizId: string; attemptId: string; answers: QuizAnswer[] }
+    >({
+      query: ({ quizId, attemptId, answers }) => ({
+        url: `quizzes/${quizId}/attempts/${attemptId}/answers`,
+        method: "PUT",
+        body: { answers },
+      }),
+    }),
+
+    submitQuiz: build.mutation<
+      { attempt: QuizAttemptResult; results: QuizQuestionResult[] },
+      { quizId: string; attemptId: string; answers: QuizAnswer[] }
+    >({
+      query: ({ quizId, attemptId, answers }) => ({
+        url: `quizzes/${quizId}/submissions`,
+        method: "POST",
+        body: { attemptId, answers },
+      }),
+      // Passing a quiz can issue a certificate
+      invalidatesTags: ["UserCourseProgress", "Certificates"],
+    }),
+
+    getGradingQueue: build.query<EssayGradingItem[], string>({
+      query: (courseId) => ({
+        url: "quizzes/grading-queue",
+        params: { courseId },
+      }),
+      providesTags: ["GradingQueue"],
+    }),
+
+    gradeEssayAnswer: build.mutation<
+      QuizAttemptSession,
+      {
+        quizId: string;
+        attemptId: string;
+        questionId: string;
+        points: number;
+        feedback?: string;
+      }
+    >({
+      query: ({ quizId, attemptId, questionId, points, feedback }) => ({
+        url: `quizzes/${quizId}/attempts/${attemptId}/answers/${questionId}/grade`,
+        method: "PUT",
+        body: { points, feedback },
+      }),
+      invalidatesTags: ["GradingQueue"],
+    }),
+
     /* 
     ===============
     USER COURSE PROGRESS
@@ -180,7 +475,8 @@ export const api = createApi({
         method: "PUT",
         body: progressData,
       }),
-      invalidatesTags: ["UserCourseProgress"],
+      // Completing the course issues a certificate
+      invalidatesTags: ["UserCourseProgress", "Certificates"],
       async onQueryStarted(
         { userId, courseId, progressData },
         { dispatch, queryFulfilled }
@@ -204,18 +500,395 @@ export const api = createApi({
         }
       },
     }),
+
+    /* 
+    ===============
+    NOTIFICATIONS
+    =============== 
+    */
+    getNotifications: build.query<
+      NotificationInbox,
+      { unread?: boolean; limit?: number } | void
+    >({
+      query: (filters) => ({
+        url: "notifications",
+        params: {
+          ...(filters?.unread && { unread: true }),
+          ...(filters?.limit && { limit: filters.limit }),
+        },
+      }),
+      providesTags: ["Notifications"],
+    }),
+
+    markNotificationRead: build.mutation<AppNotification, string>({
+      query: (notificationId) => ({
+        url: `notifications/${encodeURIComponent(notificationId)}/read`,
+        method: "PUT",
+      }),
+      invalidatesTags: ["Notifications"],
+    }),
+
+    markAllNotificationsRead: build.mutation<{ updated: number }, void>({
+      query: () => ({
+        url: "notifications/read-all",
+        method: "PUT",
+      }),
+      invalidatesTags: ["Notifications"],
+    }),
+
+    /* 
+    ===============
+    CERTIFICATES
+    =============== 
+    */
+    getMyCertificates: build.query<Certificate[], void>({
+      query: () => "certificates",
+      providesTags: ["Certificates"],
+    }),
+
+    verifyCertificate: build.query<Certificate, string>({
+      query: (certificateId) => `certificates/${certificateId}/verify`,
+    }),
+
+    /* 
+    ===============
+    Q&A BOARD
+    =============== 
+    */
+    getCourseQuestions: build.query<
+      QuestionBoard,
+      { courseId: string } & QuestionFilters
+    >({
+      query: ({ courseId, sectionId, chapterId, unanswered }) => ({
+        url: `courses/${courseId}/questions`,
+        params: {
+          ...(sectionId && { sectionId }),
+          ...(chapterId && { chapterId }),
+          ...(unanswered && { unanswered: true }),
+        },
+      }),
+      providesTags: (result, error, { courseId }) => [
+        { type: "Questions", id: courseId },
+      ],
+    }),
+
+    getCourseQuestion: build.query<
+      CourseQuestion,
+      { courseId: string; questionId: string }
+    >({
+      query: ({ courseId, questionId }) =>
+        `courses/${courseId}/questions/${questionId}`,
+      providesTags: (result, error, { questionId }) => [
+        { type: "Questions", id: questionId },
+      ],
+    }),
+
+    createCourseQuestion: build.mutation<
+      CourseQuestion,
+      {
+        courseId: string;
+        title: string;
+        body?: string;
+        sectionId?: string;
+        chapterId?: string;
+      }
+    >({
+      query: ({ courseId, ...question }) => ({
+        url: `courses/${courseId}/questions`,
+        method: "POST",
+        body: question,
+      }),
+      invalidatesTags: (result, error, { courseId }) => [
+        { type: "Questions", id: courseId },
+      ],
+    }),
+
+    updateCourseQuestion: build.mutation<
+      CourseQuestion,
+      { courseId: string; questionId: string; title: string; body?: string }
+    >({
+      query: ({ courseId, questionId, title, body }) => ({
+        url: `courses/${courseId}/questions/${questionId}`,
+        method: "PUT",
+        body: { title, body },
+      }),
+      invalidatesTags: (result, error, { courseId, questionId }) => [
+        { type: "Questions", id: courseId },
+        { type: "Questions", id: questionId },
+      ],
+    }),
+
+    deleteCourseQuestion: build.mutation<
+      { questionId: string },
+      { courseId: string; questionId: string }
+    >({
+      query: ({ courseId, questionId }) => ({
+        url: `courses/${courseId}/questions/${questionId}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: (result, error, { courseId }) => [
+        { type: "Questions", id: courseId },
+      ],
+    }),
+
+    acceptAnswer: build.mutation<
+      CourseQuestion,
+      { courseId: string; questionId: string; answerId: string | null }
+    >({
+      query: ({ courseId, questionId, answerId }) => ({
+        url: `courses/${courseId}/questions/${questionId}/accepted-answer`,
+        method: "PUT",
+        body: { answerId },
+      }),
+      invalidatesTags: (result, error, { courseId, questionId }) => [
+        { type: "Questions", id: courseId },
+        { type: "Questions", id: questionId },
+      ],
+    }),
+
+    createAnswer: build.mutation<
+      CourseAnswer,
+      { courseId: string; questionId: string; text: string }
+    >({
+      query: ({ courseId, questionId, text }) => ({
+        url: `courses/${courseId}/questions/${questionId}/answers`,
+        method: "POST",
+        body: { text },
+      }),
+      invalidatesTags: (result, error, { courseId, questionId }) => [
+        { type: "Questions", id: courseId },
+        { type: "Questions", id: questionId },
+      ],
+    }),
+
+    updateAnswer: build.mutation<
+      CourseAnswer,
+      { courseId: string; questionId: string; answerId: string; text: string }
+    >({
+      query: ({ courseId, questionId, answerId, text }) => ({
+        url: `courses/${courseId}/questions/${questionId}/answers/${answerId}`,
+        method: "PUT",
+        body: { text },
+      }),
+      invalidatesTags: (result, error, { questionId }) => [
+        { type: "Questions", id: questionId },
+      ],
+    }),
+
+    deleteAnswer: build.mutation<
+      { answerId: string },
+      { courseId: string; questionId: string; answerId: string }
+    >({
+      query: ({ courseId, questionId, answerId }) => ({
+        url: `courses/${courseId}/questions/${questionId}/answers/${answerId}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: (result, error, { courseId, questionId }) => [
+        { type: "Questions", id: courseId },
+        { type: "Questions", id: questionId },
+      ],
+    }),
+
+    toggleAnswerUpvote: build.mutation<
+      CourseAnswer,
+      { courseId: string; questionId: string; answerId: string }
+    >({
+      query: ({ courseId, questionId, answerId }) => ({
+        url: `courses/${courseId}/questions/${questionId}/answers/${answerId}/upvote`,
+        method: "POST",
+      }),
+      invalidatesTags: (result, error, { questionId }) => [
+        { type: "Questions", id: questionId },
+      ],
+    }),
+
+    /* 
+    ===============
+    CHAPTER COMMENTS
+    =============== 
+    */
+    getChapterComments: build.query<ChapterDiscussion, ChapterRef>({
+      query: (chapter) => commentsUrl(chapter),
+      providesTags: (result, error, { chapterId }) => [
+        { type: "Comments", id: chapterId },
+      ],
+    }),
+
+    createComment: build.mutation<
+      ChapterComment,
+      ChapterRef & { text: string; parentId?: string }
+    >({
+      query: ({ text, parentId, ...chapter }) => ({
+        url: commentsUrl(chapter),
+        method: "POST",
+        body: { text, parentId },
+      }),
+      invalidatesTags: (result, error, { chapterId }) => [
+        { type: "Comments", id: chapterId },
+      ],
+    }),
+
+    updateComment: build.mutation<
+      ChapterComment,
+      ChapterRef & { commentId: string; text: string }
+    >({
+      query: ({ commentId, text, ...chapter }) => ({
+        url: `${commentsUrl(chapter)}/${commentId}`,
+        method: "PUT",
+        body: { text },
+      }),
+      invalidatesTags: (result, error, { chapterId }) => [
+        { type: "Comments", id: chapterId },
+      ],
+    }),
+
+    deleteComment: build.mutation<
+      { commentId: string },
+      ChapterRef & { commentId: string }
+    >({
+      query: ({ commentId, ...chapter }) => ({
+        url: `${commentsUrl(chapter)}/${commentId}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: (result, error, { chapterId }) => [
+        { type: "Comments", id: chapterId },
+      ],
+    }),
+
+    toggleCommentReaction: build.mutation<
+      ChapterComment,
+      ChapterRef & { commentId: string; type: CommentReaction }
+    >({
+      query: ({ commentId, type, ...chapter }) => ({
+        url: `${commentsUrl(chapter)}/${commentId}/reactions`,
+        method: "POST",
+        body: { type },
+      }),
+      invalidatesTags: (result, error, { chapterId }) => [
+        { type: "Comments", id: chapterId },
+      ],
+    }),
+
+    moderateComment: build.mutation<
+      ChapterComment,
+      ChapterRef & { commentId: string; pinned?: boolean; hidden?: boolean }
+    >({
+      query: ({ commentId, pinned, hidden, ...chapter }) => ({
+        url: `${commentsUrl(chapter)}/${commentId}/moderation`,
+        method: "PUT",
+        body: { pinned, hidden },
+      }),
+      invalidatesTags: (result, error, { chapterId }) => [
+        { type: "Comments", id: chapterId },
+      ],
+    }),
+
+    /* 
+    ===============
+    STUDENT ENGAGEMENT
+    =============== 
+    */
+    sendHeartbeat: build.mutation<
+      void,
+      {
+        userId: string;
+        seconds: number;
+        videoSeconds: number;
+        timeZone: string;
+      }
+    >({
+      query: ({ userId, ...heartbeat }) => ({
+        url: `progress/${userId}/heartbeat`,
+        method: "POST",
+        body: heartbeat,
+      }),
+    }),
+
+    getEngagement: build.query<Engagement, string>({
+      query: (userId) => `progress/${userId}/engagement`,
+      providesTags: ["Engagement"],
+    }),
+
+    updateWeeklyGoal: build.mutation<
+      Engagement,
+      WeeklyGoal & { userId: string; timeZone: string }
+    >({
+      query: ({ userId, ...goal }) => ({
+        url: `progress/${userId}/weekly-goal`,
+        method: "PUT",
+        body: goal,
+      }),
+      invalidatesTags: ["Engagement"],
+    }),
+
+    clearWeeklyGoal: build.mutation<Engagement, string>({
+      query: (userId) => ({
+        url: `progress/${userId}/weekly-goal`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Engagement"],
+    }),
   }),
 });
 
 export const {
   useUpdateUserMutation,
+  useChangeUserRoleMutation,
+  useGetMyTeacherApplicationsQuery,
+  useGetTeacherApplicationsQuery,
+  useSubmitTeacherApplicationMutation,
+  useReviewTeacherApplicationMutation,
   useCreateCourseMutation,
   useUpdateCourseMutation,
   useDeleteCourseMutation,
   useGetCoursesQuery,
   useGetCourseQuery,
   useGetUploadVideoUrlMutation,
+  useEnrollInCourseMutation,
+  useUnenrollFromCourseMutation,
+  useUpdateEnrollmentPolicyMutation,
+  useGetEnrollmentRequestsQuery,
+  useReviewEnrollmentRequestMutation,
+  useGetCourseRosterQuery,
+  useGetCourseAnalyticsQuery,
+  useUpdateStudentEnrollmentMutation,
+  useRemoveStudentMutation,
+  useGetQuizzesQuery,
+  useCreateQuizMutation,
+  useLazyExportQuizQuery,
+  useImportQuizMutation,
+  useGetQuizAnalyticsQuery,
+  useStartQuizAttemptMutation,
+  useSaveQuizAnswersMutation,
+  useSubmitQuizMutation,
+  useGetGradingQueueQuery,
+  useGradeEssayAnswerMutation,
   useGetUserEnrolledCoursesQuery,
   useGetUserCourseProgressQuery,
   useUpdateUserCourseProgressMutation,
+  useGetNotificationsQuery,
+  useMarkNotificationReadMutation,
+  useMarkAllNotificationsReadMutation,
+  useGetMyCertificatesQuery,
+  useVerifyCertificateQuery,
+  useGetCourseQuestionsQuery,
+  useGetCourseQuestionQuery,
+  useCreateCourseQuestionMutation,
+  useUpdateCourseQuestionMutation,
+  useDeleteCourseQuestionMutation,
+  useAcceptAnswerMutation,
+  useCreateAnswerMutation,
+  useUpdateAnswerMutation,
+  useDeleteAnswerMutation,
+  useToggleAnswerUpvoteMutation,
+  useGetChapterCommentsQuery,
+  useCreateCommentMutation,
+  useUpdateCommentMutation,
+  useDeleteCommentMutation,
+  useToggleCommentReactionMutation,
+  useModerateCommentMutation,
+  useSendHeartbeatMutation,
+  useGetEngagementQuery,
+  useUpdateWeeklyGoalMutation,
+  useClearWeeklyGoalMutation,
 } = api;
@@ -14,7 +14,7 @@ declare global {
     username?: string;
     email: string;
     publicMetadata: {
-      userType: "teacher" | "student";
+      userType: UserRole;
     };
     privateMetadata: {
       settings?: UserSettings;
@@ -26,6 +26,35 @@ declare global {
     };
   }
 
+  type UserRole = "student" | "teacher" | "admin";
+
+  type TeacherApplicationStatus = "Pending" | "Approved" | "Rejected";
+
+  interface TeacherApplication {
+    applicationId: string;
+    userId: string;
+    userName?: string;
+    email?: string;
+    motivation: string;
+    experience?: string;
+    status: TeacherApplicationStatus;
+    reviewedBy?: string;
+    reviewNote?: string;
+    reviewedAt?: string;
+    createdAt: string;
+  }
+
+  interface RoleChange {
+    roleChangeId: string;
+    userId: string;
+    previousRole?: UserRole;
+    newRole: UserRole;
+    changedBy: string;
+    reason?: string;
+    applicationId?: string;
+    createdAt: string;
+  }
+
   interface Course {
     courseId: string;
     teacherId: string;
@@ -37,9 +66,131 @@ declare global {
     level: "Beginner" | "Intermediate" | "Advanced";
     status: "Draft" | "Published";
     sections: Section[];
-    enrollments?: Array<{
-      userId: string;
-    }>;
+    enrollmentCount?: number;
+    enrollmentPolicy?: EnrollmentPolicy;
+    certificateRequiresQuizzes?: boolean;
+  }
+
+  type EnrollmentMode = "Open" | "Approval" | "InviteCode";
+
+  interface EnrollmentPolicy {
+    mode: EnrollmentMode;
+    inviteCode?: string;
+    capacity?: number;
+    opensAt?: string;
+    closesAt?: string;
+    accessDays?: number;
+  }
+
+  type EnrollmentStatus =
+    | "Active"
+    | "Completed"
+    | "Suspended"
+    | "Dropped"
+    | "Expired"
+    | "Pending"
+    | "Rejected";
+
+  interface Enrollment {
+    userId: string;
+    courseId: string;
+    status: EnrollmentStatus;
+    enrolledAt: string;
+    reviewedAt?: string;
+    expiresAt?: string;
+    endedAt?: string;
+    removedBy?: string;
+  }
+
+  interface RosterQuizResult {
+    quizId: string;
+    score: number;
+    passed: boolean;
+    attempts: number;
+  }
+
+  interface RosterStudent extends Enrollment {
+    name: string;
+    email: string;
+    overallProgress: number;
+    lastAccessedTimestamp?: string;
+    quizzesTaken: number;
+    quizzesPassed: number;
+    averageQuizScore: number | null;
+    quizResults: RosterQuizResult[];
+  }
+
+  interface CourseRoster {
+    quizzes: { quizId: string; title: string }[];
+    students: RosterStudent[];
+  }
+
+  interface ChapterFunnelStep {
+    chapterId: string;
+    title: string;
+    type: Chapter["type"];
+    completed: number;
+    completionRate: number | null;
+    dropOffRate: number | null;
+    stoppedHere: number;
+  }
+
+  interface SectionFunnelStep {
+    sectionId: string;
+    sectionTitle: string;
+    completed: number;
+    completionRate: number | null;
+    chapters: ChapterFunnelStep[];
+  }
+
+  interface CourseAnalytics {
+    courseId: string;
+    title: string;
+    summary: {
+      students: number;
+      active: number;
+      completed: number;
+      dropped: number;
+      averageProgress: number | null;
+    };
+    enrollmentsOverTime: {
+      date: string;
+      enrolled: number;
+      dropped: number;
+      total: number;
+    }[];
+    sections: SectionFunnelStep[];
+    dropOffPoints: {
+      sectionId: string;
+      sectionTitle: string;
+      chapterId: string;
+      title: string;
+      students: number;
+    }[];
+    quizzes: {
+      quizId: string;
+      title: string;
+      students: number;
+      averageScore: number | null;
+      passRate: number | null;
+    }[];
+    discussion: {
+      total: number;
+      byType: Record<DiscussionActivityType, number>;
+      overTime: { date: string; count: number }[];
+    };
+  }
+
+  interface EnrollmentRequest {
+    userId: string;
+    status: "Pending" | "Rejected";
+    requestedAt: string;
+    reviewedAt?: string;
+  }
+
+  interface EnrollmentResult {
+    status: "Enrolled" | "Pending";
+    courseProgress?: UserCourseProgress;
   }
 
   interface DateRange {
@@ -53,9 +204,57 @@ declare global {
     enrollmentDate: string;
     overallProgress: number;
     sections: SectionProgress[];
+    quizResults?: QuizResult[];
     lastAccessedTimestamp: string;
   }
 
+  type WeeklyGoalType = "Minutes" | "Chapters";
+
+  interface WeeklyGoal {
+    type: WeeklyGoalType;
+    target: number;
+  }
+
+  interface EngagementDay {
+    date: string;
+    minutes: number;
+    chapters: number;
+    future: boolean;
+  }
+
+  interface Engagement {
+    timeZone: string;
+    today: string;
+    streak: {
+      current: number;
+      longest: number;
+      activeToday: boolean;
+    };
+    week: {
+      start: string;
+      minutes: number;
+      videoMinutes: number;
+      chapters: number;
+    };
+    goal:
+      | (WeeklyGoal & {
+          progress: number;
+          percent: number;
+          achieved: boolean;
+        })
+      | null;
+    heatmap: EngagementDay[];
+  }
+
+  interface QuizResult {
+    quizId: string;
+    scoringPolicy: "Best" | "Latest" | "Average";
+    attempts: number;
+    score: number;
+    passed: boolean;
+    lastAttemptAt: string;
+  }
+
   type CreateUserArgs = Omit<User, "userId">;
   type CreateCourseArgs = Omit<Course, "courseId">;
 
@@ -71,11 +270,292 @@ declare global {
     isOwner: boolean;
   }
 
-  interface Comment {
+  interface QuizOption {
+    id: string;
+    text: string;
+    isCorrect?: boolean;
+    match?: string;
+  }
+
+  interface QuizQuestion {
+    questionId: string;
+    text: string;
+    type:
+      | "MultipleChoice"
+      | "MultipleSelect"
+      | "TrueFalse"
+      | "ShortAnswer"
+      | "Ordering"
+      | "Matching"
+      | "Essay";
+    options?: QuizOption[];
+    acceptedAnswers?: string[];
+    matchChoices?: string[];
+    points?: number;
+    correctAnswerExplanation?: string;
+  }
+
+  interface Quiz {
+    quizId: string;
+    courseId: string;
+    title: string;
+    description?: string;
+    timeLimit?: number;
+    passingScore?: number;
+    shuffleQuestions?: boolean;
+    shuffleOptions?: boolean;
+    maxAttempts?: number;
+    cooldownMinutes?: number;
+    scoringPolicy?: "Best" | "Latest" | "Average";
+    questions: QuizQuestion[];
+  }
+
+  type QuizQuestionFlag =
+    | "TooHard"
+    | "TooEasy"
+    | "NegativeDiscrimination"
+    | "LowDiscrimination"
+    | "DistractorOverKey";
+
+  interface QuizQuestionAnalytics {
+    questionId: string;
+    text: string;
+    type: QuizQuestion["type"];
+    points: number;
+    bankId?: string;
+    responses: number;
+    percentCorrect: number | null;
+    averagePoints: number | null;
+    averageTimeSpent: number | null;
+    discrimination: number | null;
+    unanswered: number;
+    options: {
+      optionId: string;
+      text: string;
+      isCorrect: boolean;
+      count: number;
+      percent: number | null;
+    }[];
+    commonAnswers: { answer: string; count: number; isCorrect: boolean }[];
+    flags: QuizQuestionFlag[];
+  }
+
+  interface QuizAnalytics {
+    quizId: string;
+    title: string;
+    attempts: number;
+    students: number;
+    averageScore: number | null;
+    questions: QuizQuestionAnalytics[];
+  }
+
+  type QuizFileFormat = "gift" | "qti";
+
+  interface QuizExportFile {
+    filename: string;
+    contentType: string;
+    content: string;
+  }
+
+  interface QuizImportIssue {
+    line: number;
+    message: string;
+  }
+
+  interface QuizImportPreview {
+    settings: Partial<Quiz>;
+    questions: (Omit<QuizQuestion, "questionId" | "options"> & {
+      options?: Omit<QuizOption, "id">[];
+      line: number;
+    })[];
+    errors: QuizImportIssue[];
+  }
+
+  interface QuizMatchPair {
+    optionId: string;
+    match?: string;
+  }
+
+  interface QuizAnswer {
+    questionId: string;
+    selectedOptionIds: string[];
+    textAnswer?: string;
+    matches?: QuizMatchPair[];
+    pendingReview?: boolean;
+    feedback?: string;
+    timeSpent?: number;
+  }
+
+  interface QuizAttemptSession {
+    attemptId: string;
+    quizId: string;
+    userId: string;
+    courseId: string;
+    status: "InProgress" | "Submitted";
+    questionOrder: string[];
+    answers: QuizAnswer[];
+    startedAt: string;
+    expiresAt?: string;
+    submittedAt?: string;
+    timeTaken?: number;
+    autoSubmitted?: boolean;
+    gradingStatus?: "Graded" | "PendingReview";
+  }
+
+  interface QuizQuestionResult extends QuizAnswer {
+    isCorrect: boolean;
+    pointsAwarded: number;
+    points: number;
+    correctOptionIds: string[];
+    correctMatches?: QuizMatchPair[];
+    acceptedAnswers?: string[];
+    correctAnswerExplanation: string;
+  }
+
+  interface QuizAttemptResult {
+    attemptId: string;
+    quizId: string;
+    courseId: string;
+    attemptTimestamp: string;
+    score: number;
+    pointsEarned: number;
+    totalPoints: number;
+    passed: boolean;
+    pendingReview?: boolean;
+    timeTaken?: number;
+  }
+
+  interface QuizPlayerProps {
+    quiz: Quiz;
+  }
+
+  interface EssayGradingItem {
+    attemptId: string;
+    quizId: string;
+    quizTitle: string;
+    userId: string;
+    questionId: string;
+    questionText: string;
+    points: number;
+    textAnswer: string;
+    submittedAt?: string;
+  }
+
+  type CommentReaction = "Like" | "Love" | "Insightful" | "Funny" | "Confused";
+
+  interface ChapterComment {
     commentId: string;
+    chapterId: string;
+    parentId?: string;
+    userId?: string;
+    userName?: string;
+    userImageUrl?: string;
+    text: string;
+    reactions: Partial<Record<CommentReaction, number>>;
+    myReactions: CommentReaction[];
+    pinned: boolean;
+    hidden: boolean;
+    deleted: boolean;
+    timestamp: string;
+    editedAt?: string;
+    replies: ChapterComment[];
+  }
+
+  interface ChapterDiscussion {
+    canModerate: boolean;
+    comments: ChapterComment[];
+  }
+
+  interface ChapterRef {
+    courseId: string;
+    sectionId: string;
+    chapterId: string;
+  }
+
+  type NotificationType =
+    | "NewChapter"
+    | "CommentReply"
+    | "EssayGraded"
+    | "EnrollmentApproved";
+
+  // Named to stay clear of the DOM's Notification
+  interface AppNotification {
     userId: string;
+    notificationId: string;
+    type: NotificationType;
+    title: string;
+    message?: string;
+    link?: string;
+    courseId?: string;
+    channels: ("InApp" | "Email" | "Sms")[];
+    read: boolean;
+    readAt?: string;
+    timestamp: string;
+  }
+
+  interface NotificationInbox {
+    unreadCount: number;
+    notifications: AppNotification[];
+  }
+
+  interface Certificate {
+    certificateId: string;
+    courseId: string;
+    studentName: string;
+    courseTitle: string;
+    teacherName: string;
+    issuedAt: string;
+    pdfUrl?: string;
+  }
+
+  type DiscussionActivityType =
+    | "Comment"
+    | "Reply"
+    | "Reaction"
+    | "Question"
+    | "Answer"
+    | "Upvote";
+
+  interface CourseAnswer {
+    answerId: string;
+    questionId: string;
+    userId: string;
+    userName?: string;
+    userImageUrl?: string;
     text: string;
+    upvotes: number;
+    upvotedByMe: boolean;
+    accepted: boolean;
+    timestamp: string;
+    editedAt?: string;
+  }
+
+  interface CourseQuestion {
+    questionId: string;
+    courseId: string;
+    sectionId?: string;
+    chapterId?: string;
+    userId: string;
+    userName?: string;
+    userImageUrl?: string;
+    title: string;
+    body: string;
+    answerCount: number;
+    acceptedAnswerId?: string;
     timestamp: string;
+    editedAt?: string;
+    answers?: CourseAnswer[];
+  }
+
+  interface QuestionBoard {
+    canModerate: boolean;
+    questions: CourseQuestion[];
+  }
+
+  interface QuestionFilters {
+    sectionId?: string;
+    chapterId?: string;
+    unanswered?: boolean;
   }
 
   interface Chapter {
@@ -85,6 +565,7 @@ declare global {
     video?: string | File;
     freePreview?: boolean;
     type: "Text" | "Quiz" | "Video";
+    quizId?: string;
   }
 
   interface ChapterProgress {
@@ -141,7 +622,8 @@ declare global {
 
   interface SelectedCourseProps {
     course: Course;
-    handleEnrollNow: (courseId: string) => void;
+    handleEnrollNow: (courseId: string, inviteCode?: string) => void;
+    isEnrolling?: boolean;
   }
 
   interface ToolbarProps {
@@ -182,6 +664,7 @@ declare global {
     courseDescription: string;
     courseCategory: string;
     courseStatus: boolean;
+    courseCertificateRequiresQuizzes: boolean;
   }
 }
 
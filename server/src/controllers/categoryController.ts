@@ -83,8 +83,6 @@ export const updateCategory = async (
   const { categoryId } = req.params;
   const updateData = { ...req.body };
 
-  // Only admin can update categories - add proper checks here if needed
-
   try {
     const category = await Category.get(categoryId);
     if (!category) {
@@ -120,8 +118,6 @@ export const deleteCategory = async (
 ): Promise<void> => {
   const { categoryId } = req.params;
 
-  // Only admin can delete categories - add proper checks here if needed
-
   try {
     const category = await Category.get(categoryId);
     if (!category) {
@@ -0,0 +1,49 @@
+import { Request, Response } from "express";
+import { getAuth } from "@clerk/express";
+import Certificate from "../models/certificateModel";
+import { listUserCertificates, toCertificateView } from "../utils/certificates";
+
+/**
+ * The signed in user's certificates, newest first
+ */
+export const listMyCertificates = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = getAuth(req);
+
+  try {
+    const certificates = await listUserCertificates(userId!);
+    res.json({
+      message: "Certificates retrieved successfully",
+      data: certificates.map(toCertificateView),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving certificates", error });
+  }
+};
+
+/**
+ * Check that a certificate was issued, for anyone given its ID or URL
+ */
+export const verifyCertificate = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { certificateId } = req.params;
+
+  try {
+    const certificate = await Certificate.get(certificateId);
+    if (!certificate) {
+      res.status(404).json({ message: "Certificate not found" });
+      return;
+    }
+
+    res.json({
+      message: "Certificate verified",
+      data: toCertificateView(certificate),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error verifying certificate", error });
+  }
+};
@@ -0,0 +1,325 @@
+import { Request, Response } from "express";
+import { getAuth } from "@clerk/express";
+import { v4 as uuidv4 } from "uuid";
+import { clerkClient } from "../index";
+import Comment from "../models/commentModel";
+import Course from "../models/courseModel";
+import { getUserRole } from "../middleware/authMiddleware";
+import {
+  COMMENT_REACTIONS,
+  buildCommentThreads,
+  findChapter,
+  listChapterComments,
+  recordCommentActivity,
+  toCommentView,
+  validateCommentText,
+} from "../utils/comments";
+import { hasDiscussionActivity } from "../utils/activityEvents";
+import { courseLink, excerpt, notifyUser } from "../utils/notifications";
+
+// The chapter a comment route is about, and whether the signed in user can
+// moderate its discussion. Responds 404 and returns null when it is missing.
+const loadChapter = async (req: Request, res: Response) => {
+  const { courseId, sectionId, chapterId } = req.params;
+  const { userId } = getAuth(req);
+
+  const course = await Course.get(courseId);
+  const chapter = findChapter(course, sectionId, chapterId);
+  if (!course || !chapter) {
+    res.status(404).json({ message: "Chapter not found" });
+    return null;
+  }
+
+  const canModerate =
+    course.teacherId === userId || (await getUserRole(req)) === "admin";
+  return { course, chapter, viewer: { userId: userId!, canModerate } };
+};
+
+// A comment on the route's chapter. Responds 404 and returns null when it is
+// missing or deleted.
+const loadComment = async (req: Request, res: Response) => {
+  const { chapterId, commentId } = req.params;
+  const comment = await Comment.get({ chapterId, commentId });
+  if (!comment || comment.deletedAt) {
+    res.status(404).json({ message: "Comment not found" });
+    return null;
+  }
+  return comment;
+};
+
+/**
+ * List a chapter's comments as threads
+ */
+export const listComments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const context = await loadChapter(req, res);
+    if (!context) return;
+
+    const comments = await listChapterComments(req.params.chapterId);
+    res.json({
+      message: "Comments retrieved successfully",
+      data: {
+        canModerate: context.viewer.canModerate,
+        comments: buildCommentThreads(comments, context.viewer),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving comments", error });
+  }
+};
+
+/**
+ * Post a comment, or a reply when parentId is given
+ */
+export const createComment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId, sectionId, chapterId } = req.params;
+  const { text, parentId } = req.body;
+
+  const validationError = validateCommentText(text);
+  if (validationError) {
+    res.status(400).json({ message: validationError });
+    return;
+  }
+
+  try {
+    const context = await loadChapter(req, res);
+    if (!context) return;
+
+    const parent = parentId
+      ? await Comment.get({ chapterId, commentId: parentId })
+      : null;
+    if (parentId && (!parent || parent.deletedAt)) {
+      res.status(404).json({ message: "Parent comment not found" });
+      return;
+    }
+
+    const { userId } = context.viewer;
+    const user = await clerkClient.users.getUser(userId);
+    const userName = [user.firstName, user.lastName].filter(Boolean).join(" ");
+    const comment = await Comment.create({
+      chapterId,
+      commentId: uuidv4(),
+      courseId,
+      sectionId,
+      parentId: parentId || undefined,
+      userId,
+      userName,
+      userImageUrl: user.imageUrl,
+      text: text.trim(),
+      timestamp: new Date().toISOString(),
+      reactions: [],
+    });
+    await recordCommentActivity(
+      comment,
+      userId,
+      parentId ? "Reply" : "Comment"
+    );
+    if (parent && parent.userId !== userId) {
+      await notifyUser(parent.userId, {
+        type: "CommentReply",
+        title: `${userName || "Someone"} replied to your comment`,
+        message: excerpt(comment.text),
+        link: courseLink(context.course, chapterId),
+        courseId,
+      });
+    }
+
+    res.status(201).json({
+      message: parentId ? "Reply posted" : "Comment posted",
+      data: { ...toCommentView(comment, context.viewer), replies: [] },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error posting comment", error });
+  }
+};
+
+/**
+ * Edit the text of one of your own comments
+ */
+export const updateComment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { text } = req.body;
+
+  const validationError = validateCommentText(text);
+  if (validationError) {
+    res.status(400).json({ message: validationError });
+    return;
+  }
+
+  try {
+    const context = await loadChapter(req, res);
+    if (!context) return;
+    const comment = await loadComment(req, res);
+    if (!comment) return;
+
+    if (comment.userId !== context.viewer.userId) {
+      res.status(403).json({ message: "You can only edit your own comments" });
+      return;
+    }
+
+    comment.text = text.trim();
+    comment.editedAt = new Date().toISOString();
+    await comment.save();
+
+    res.json({
+      message: "Comment updated",
+      data: toCommentView(comment, context.viewer),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating comment", error });
+  }
+};
+
+/**
+ * Delete a comment. Authors can delete their own comments and moderators any
+ * comment. Comments with replies stay as a placeholder so the replies keep
+ * their place in the thread.
+ */
+export const deleteComment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { chapterId, commentId } = req.params;
+
+  try {
+    const context = await loadChapter(req, res);
+    if (!context) return;
+    const comment = await loadComment(req, res);
+    if (!comment) return;
+
+    const { userId, canModerate } = context.viewer;
+    if (comment.userId !== userId && !canModerate) {
+      res
+        .status(403)
+        .json({ message: "You can only delete your own comments" });
+      return;
+    }
+
+    const comments = await listChapterComments(chapterId);
+    if (comments.some((reply: any) => reply.parentId === commentId)) {
+      comment.text = "";
+      comment.reactions = [];
+      comment.pinned = false;
+      comment.deletedAt = new Date().toISOString();
+      await comment.save();
+    } else {
+      await comment.delete();
+    }
+
+    res.json({ message: "Comment deleted", data: { commentId } });
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting comment", error });
+  }
+};
+
+/**
+ * Add a reaction of the given type to a comment, or take it back if the
+ * signed in user already added it
+ */
+export const toggleReaction = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { type } = req.body;
+  if (!COMMENT_REACTIONS.includes(type)) {
+    res.status(400).json({
+      message: `Invalid reaction type. Must be one of: ${COMMENT_REACTIONS.join(
+        ", "
+      )}`,
+    });
+    return;
+  }
+
+  try {
+    const context = await loadChapter(req, res);
+    if (!context) return;
+    const comment = await loadComment(req, res);
+    if (!comment) return;
+
+    const { userId } = context.viewer;
+    const reactions = comment.reactions || [];
+    const existing = reactions.some(
+      (reaction: any) => reaction.userId === userId && reaction.type === type
+    );
+    comment.reactions = existing
+      ? reactions.filter(
+          (reaction: any) =>
+            !(reaction.userId === userId && reaction.type === type)
+        )
+      : [...reactions, { userId, type }];
+    await comment.save();
+
+    // Only the first reaction to a comment counts towards participation, so
+    // toggling one on and off cannot inflate it
+    if (
+      !existing &&
+      !(await hasDiscussionActivity(userId, {
+        activityType: "Reaction",
+        commentId: comment.commentId,
+      }))
+    ) {
+      await recordCommentActivity(comment, userId, "Reaction");
+    }
+
+    res.json({ message: "", data: toCommentView(comment, context.viewer) });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating reaction", error });
+  }
+};
+
+/**
+ * Pin or hide a comment. Only top-level comments can be pinned.
+ */
+export const moderateComment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { pinned, hidden } = req.body;
+  if (
+    (pinned !== undefined && typeof pinned !== "boolean") ||
+    (hidden !== undefined && typeof hidden !== "boolean")
+  ) {
+    res.status(400).json({ message: "pinned and hidden must be booleans" });
+    return;
+  }
+
+  try {
+    const context = await loadChapter(req, res);
+    if (!context) return;
+    const comment = await loadComment(req, res);
+    if (!comment) return;
+
+    if (pinned && comment.parentId) {
+      res
+        .status(400)
+        .json({ message: "Only top-level comments can be pinned" });
+      return;
+    }
+
+    if (pinned !== undefined) comment.pinned = pinned;
+    if (hidden !== undefined) comment.hidden = hidden;
+    comment.moderatedBy = context.viewer.userId;
+    await comment.save();
+
+    res.json({
+      message: hidden
+        ? "Comment hidden"
+        : hidden === false
+        ? "Comment shown"
+        : pinned
+        ? "Comment pinned"
+        : "Comment unpinned",
+      data: toCommentView(comment, context.viewer),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error moderating comment", error });
+  }
+};
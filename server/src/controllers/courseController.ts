@@ -1,8 +1,13 @@
 import { Request, Response } from "express";
 import Course from "../models/courseModel";
+import Quiz from "../models/quizModel";
 import AWS from "aws-sdk";
 import { v4 as uuidv4 } from "uuid";
 import { getAuth } from "@clerk/express";
+import { toPublicCourse } from "../utils/enrollments";
+import { buildCourseRoster } from "../utils/roster";
+import { analyzeCourse } from "../utils/courseAnalytics";
+import { notifyNewChapters } from "../utils/notifications";
 
 const s3 = new AWS.S3();
 
@@ -16,7 +21,11 @@ export const listCourses = async (
       category && category !== "all"
         ? await Course.scan("category").eq(category).exec()
         : await Course.scan().exec();
-    res.json({ message: "Courses retrieved successfully", data: courses });
+    const { userId } = getAuth(req);
+    res.json({
+      message: "Courses retrieved successfully",
+      data: courses.map((course: any) => toPublicCourse(course, userId)),
+    });
   } catch (error) {
     res.status(500).json({ message: "Error retrieving courses", error });
   }
@@ -31,7 +40,11 @@ export const getCourse = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    res.json({ message: "Course retrieved successfully", data: course });
+    const { userId } = getAuth(req);
+    res.json({
+      message: "Course retrieved successfully",
+      data: toPublicCourse(course, userId),
+    });
   } catch (error) {
     res.status(500).json({ message: "Error retrieving course", error });
   }
@@ -60,7 +73,7 @@ export const createCourse = async (
       level: "Beginner",
       status: "Draft",
       sections: [],
-      enrollments: [],
+      enrollmentCount: 0,
     });
     await newCourse.save();
 
@@ -76,7 +89,9 @@ export const updateCourse = async (
 ): Promise<void> => {
   const { courseId } = req.params;
   const updateData = { ...req.body };
-  const { userId } = getAuth(req);
+  // Enrollment is managed through the enrollment endpoints
+  delete updateData.enrollmentCount;
+  delete updateData.enrollmentPolicy;
 
   try {
     const course = await Course.get(courseId);
@@ -85,13 +100,6 @@ export const updateCourse = async (
       return;
     }
 
-    if (course.teacherId !== userId) {
-      res
-        .status(403)
-        .json({ message: "Not authorized to update this course " });
-      return;
-    }
-
     if ("file" in req && req.file) {
       const file = req.file;
       const uniqueId = uuidv4();
@@ -108,6 +116,12 @@ export const updateCourse = async (
       updateData.image = `${process.env.CLOUDFRONT_DOMAIN}/${s3Key}`;
     }
 
+    // Multipart form fields arrive as strings
+    if (typeof updateData.certificateRequiresQuizzes === "string") {
+      updateData.certificateRequiresQuizzes =
+        updateData.certificateRequiresQuizzes === "true";
+    }
+
     if (updateData.sections) {
       const sectionsData =
         typeof updateData.sections === "string"
@@ -122,10 +136,32 @@ export const updateCourse = async (
           chapterId: chapter.chapterId || uuidv4(),
         })),
       }));
+
+      // Quiz chapters must link to one of this course's quizzes
+      const quizChapters = updateData.sections.flatMap((section: any) =>
+        section.chapters.filter((chapter: any) => chapter.type === "Quiz")
+      );
+      if (quizChapters.length > 0) {
+        const quizzes = await Quiz.query("courseId").eq(courseId).exec();
+        const quizIds = new Set(quizzes.map((quiz: any) => quiz.quizId));
+        const unlinked = quizChapters.find(
+          (chapter: any) => !quizIds.has(chapter.quizId)
+        );
+        if (unlinked) {
+          res.status(400).json({
+            message: `Quiz chapter "${unlinked.title}" must link to a quiz in this course`,
+          });
+          return;
+        }
+      }
     }
 
+    const previousSections = course.sections;
     Object.assign(course, updateData);
     await course.save();
+    if (updateData.sections) {
+      await notifyNewChapters(course, previousSections);
+    }
 
     res.json({ message: "Course updated successfully", data: course });
   } catch (error) {
@@ -138,7 +174,6 @@ export const deleteCourse = async (
   res: Response
 ): Promise<void> => {
   const { courseId } = req.params;
-  const { userId } = getAuth(req);
 
   try {
     const course = await Course.get(courseId);
@@ -147,13 +182,6 @@ export const deleteCourse = async (
       return;
     }
 
-    if (course.teacherId !== userId) {
-      res
-        .status(403)
-        .json({ message: "Not authorized to delete this course " });
-      return;
-    }
-
     await Course.delete(courseId);
 
     res.json({ message: "Course deleted successfully", data: course });
@@ -162,6 +190,55 @@ export const deleteCourse = async (
   }
 };
 
+/**
+ * The course's students with their enrollment status, progress and quiz
+ * results, for the course's teacher
+ */
+export const getCourseRoster = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const roster = await buildCourseRoster(courseId);
+
+    res.json({
+      message: "Course roster retrieved successfully",
+      data: roster,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving course roster", error });
+  }
+};
+
+/**
+ * Enrollment, completion, quiz and discussion trends for the course's teacher
+ */
+export const getCourseAnalytics = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    const course = await Course.get(courseId);
+    if (!course) {
+      res.status(404).json({ message: "Course not found" });
+      return;
+    }
+
+    res.json({
+      message: "Course analytics retrieved successfully",
+      data: await analyzeCourse(course),
+    });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Error retrieving course analytics", error });
+  }
+};
+
 export const getUploadVideoUrl = async (
   req: Request,
   res: Response
@@ -1,98 +1,471 @@
 import { Request, Response } from "express";
+import { getAuth } from "@clerk/express";
 import Course from "../models/courseModel";
+import Enrollment from "../models/enrollmentModel";
 import UserCourseProgress from "../models/userCourseProgressModel";
-import { v4 as uuidv4 } from "uuid";
+import {
+  ACCESS_STATUSES,
+  REQUEST_STATUSES,
+  SEATED_STATUSES,
+  checkEnrollmentPolicy,
+  getAccessExpiry,
+  refreshEnrollment,
+  setEnrollmentStatus,
+  toPublicCourse,
+  validateEnrollmentPolicy,
+} from "../utils/enrollments";
+import { courseLink, notifyUser } from "../utils/notifications";
+
+// Create the user's course progress and add them to the course. Students who
+// come back after dropping out or expiring keep their earlier progress.
+const enrollUser = async (course: any, userId: string) => {
+  const existingProgress = await UserCourseProgress.get({
+    userId,
+    courseId: course.courseId,
+  });
+  const initialProgress =
+    existingProgress ||
+    new UserCourseProgress({
+      userId,
+      courseId: course.courseId,
+      enrollmentDate: new Date().toISOString(),
+      overallProgress: 0,
+      sections: course.sections.map((section: any) => ({
+        sectionId: section.sectionId,
+        chapters: section.chapters.map((chapter: any) => ({
+          chapterId: chapter.chapterId,
+          completed: false,
+        })),
+      })),
+      lastAccessedTimestamp: new Date().toISOString(),
+    });
+  await initialProgress.save();
+
+  // Overwrites a pending request or an earlier enrollment from the same user
+  await Enrollment.create(
+    {
+      userId,
+      courseId: course.courseId,
+      status: "Active",
+      enrolledAt: new Date().toISOString(),
+      expiresAt: getAccessExpiry(course),
+    },
+    { overwrite: true }
+  );
+  await Course.update(
+    { courseId: course.courseId },
+    { $ADD: { enrollmentCount: 1 } }
+  );
+
+  return initialProgress;
+};
 
 export const listEnrollments = async (
   req: Request,
   res: Response
 ): Promise<void> => {
-  const { userId } = req.query;
+  const { userId } = getAuth(req);
 
   try {
-    // Get all courses where the user is enrolled
-    const courses = await Course.scan().exec();
-    const enrolledCourses = courses.filter((course: any) => {
-      return (
-        course.enrollments &&
-        course.enrollments.some(
-          (enrollment: any) => enrollment.userId === userId
-        )
-      );
-    });
+    const enrollments = await Enrollment.query("userId")
+      .eq(userId)
+      .using("userIndex")
+      .exec();
+    const courseIds: string[] = [];
+    for (const enrollment of enrollments) {
+      await refreshEnrollment(enrollment);
+      if (ACCESS_STATUSES.includes(enrollment.status)) {
+        courseIds.push(enrollment.courseId);
+      }
+    }
+    const courses = courseIds.length ? await Course.batchGet(courseIds) : [];
 
     res.json({
       message: "Enrollments retrieved successfully",
-      data: enrolledCourses,
+      data: courses.map((course: any) => toPublicCourse(course, userId)),
     });
   } catch (error) {
     res.status(500).json({ message: "Error retrieving enrollments", error });
   }
 };
 
+/**
+ * Enroll the signed in user in a published course, following the course's
+ * enrollment policy. Approval-required courses get a pending request instead.
+ */
 export const enrollInCourse = async (
   req: Request,
   res: Response
 ): Promise<void> => {
-  const { userId, courseId } = req.body;
+  const { userId } = getAuth(req);
+  const { courseId, inviteCode } = req.body;
+
+  if (!courseId) {
+    res.status(400).json({ message: "Course ID is required" });
+    return;
+  }
 
   try {
-    // 1. get course info
     const course = await Course.get(courseId);
-
     if (!course) {
       res.status(404).json({ message: "Course not found" });
       return;
     }
 
     // Check if user is already enrolled
-    const isAlreadyEnrolled =
-      course.enrollments &&
-      course.enrollments.some(
-        (enrollment: any) => enrollment.userId === userId
-      );
+    const existing = await refreshEnrollment(
+      await Enrollment.get({ userId: userId as string, courseId })
+    );
 
-    if (isAlreadyEnrolled) {
+    if (ACCESS_STATUSES.includes(existing?.status)) {
       res
         .status(400)
         .json({ message: "User is already enrolled in this course" });
       return;
     }
 
-    // 2. create initial course progress
-    const initialProgress = new UserCourseProgress({
-      userId,
-      courseId,
-      enrollmentDate: new Date().toISOString(),
-      overallProgress: 0,
-      sections: course.sections.map((section: any) => ({
-        sectionId: section.sectionId,
-        chapters: section.chapters.map((chapter: any) => ({
-          chapterId: chapter.chapterId,
-          completed: false,
-        })),
-      })),
-      lastAccessedTimestamp: new Date().toISOString(),
-    });
-    await initialProgress.save();
-
-    // 3. add enrollment to relevant course
-    await Course.update(
-      { courseId },
-      {
-        $ADD: {
-          enrollments: [{ userId }],
-        },
+    if (existing?.status === "Suspended") {
+      res.status(403).json({
+        message: "Your access to this course has been suspended",
+      });
+      return;
+    }
+
+    // Students the teacher removed stay out until the teacher reinstates them
+    if (existing?.removedBy) {
+      res.status(403).json({
+        message: "You were removed from this course by its teacher",
+      });
+      return;
+    }
+
+    const policyError = checkEnrollmentPolicy(course, inviteCode);
+    if (policyError) {
+      res.status(403).json({ message: policyError });
+      return;
+    }
+
+    if (course.enrollmentPolicy?.mode === "Approval") {
+      if (existing?.status === "Pending") {
+        res.status(400).json({
+          message: "Your enrollment request is waiting for approval",
+        });
+        return;
       }
-    );
+      if (existing?.status === "Rejected") {
+        res.status(403).json({
+          message: "Your enrollment request for this course was declined",
+        });
+        return;
+      }
+
+      // Dropped and expired students ask again like anyone else
+      await Enrollment.create(
+        {
+          userId,
+          courseId,
+          status: "Pending",
+          enrolledAt: new Date().toISOString(),
+        },
+        { overwrite: true }
+      );
+
+      res.status(202).json({
+        message: "Enrollment requested. The teacher will review it shortly.",
+        data: { status: "Pending" },
+      });
+      return;
+    }
+
+    const courseProgress = await enrollUser(course, userId as string);
 
     res.json({
       message: "Enrolled in course successfully",
       data: {
-        courseProgress: initialProgress,
+        status: "Enrolled",
+        courseProgress,
       },
     });
   } catch (error) {
     res.status(500).json({ message: "Error enrolling in course", error });
   }
 };
+
+export const updateEnrollmentPolicy = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId } = req.params;
+  const policy = req.body;
+
+  const validationError = validateEnrollmentPolicy(policy);
+  if (validationError) {
+    res.status(400).json({ message: validationError });
+    return;
+  }
+
+  try {
+    const course = await Course.get(courseId);
+    if (!course) {
+      res.status(404).json({ message: "Course not found" });
+      return;
+    }
+
+    course.enrollmentPolicy = {
+      mode: policy.mode || "Open",
+      inviteCode:
+        policy.mode === "InviteCode" ? String(policy.inviteCode).trim() : "",
+      capacity: policy.capacity || 0,
+      opensAt: policy.opensAt || "",
+      closesAt: policy.closesAt || "",
+      accessDays: policy.accessDays || 0,
+    };
+    await course.save();
+
+    res.json({
+      message: "Enrollment policy updated successfully",
+      data: course.enrollmentPolicy,
+    });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Error updating enrollment policy", error });
+  }
+};
+
+export const listEnrollmentRequests = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId } = req.params;
+
+  try {
+    // The courseIndex sorts by enrolledAt, so requests come oldest first
+    const enrollments = await Enrollment.query("courseId")
+      .eq(courseId)
+      .using("courseIndex")
+      .exec();
+    const requests = enrollments
+      .filter((enrollment: any) => REQUEST_STATUSES.includes(enrollment.status))
+      .map((enrollment: any) => ({
+        userId: enrollment.userId,
+        status: enrollment.status,
+        requestedAt: enrollment.enrolledAt,
+        reviewedAt: enrollment.reviewedAt,
+      }));
+
+    res.json({
+      message: "Enrollment requests retrieved successfully",
+      data: requests,
+    });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Error retrieving enrollment requests", error });
+  }
+};
+
+/**
+ * Approve or reject a pending enrollment request. Approving enrolls the
+ * student as long as the course still has room.
+ */
+export const reviewEnrollmentRequest = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId, userId } = req.params;
+  const { status } = req.body;
+
+  if (status !== "Approved" && status !== "Rejected") {
+    res
+      .status(400)
+      .json({ message: "Status must be either Approved or Rejected" });
+    return;
+  }
+
+  try {
+    const course = await Course.get(courseId);
+    if (!course) {
+      res.status(404).json({ message: "Course not found" });
+      return;
+    }
+
+    const request = await Enrollment.get({ userId, courseId });
+    if (!request || request.status !== "Pending") {
+      res.status(404).json({ message: "Enrollment request not found" });
+      return;
+    }
+
+    if (status === "Rejected") {
+      request.status = "Rejected";
+      request.reviewedAt = new Date().toISOString();
+      await request.save();
+
+      res.json({ message: "Enrollment request rejected", data: request });
+      return;
+    }
+
+    const capacity = course.enrollmentPolicy?.capacity;
+    if (capacity && (course.enrollmentCount || 0) >= capacity) {
+      res.status(400).json({ message: "This course is full" });
+      return;
+    }
+
+    const courseProgress = await enrollUser(course, userId);
+    await notifyUser(userId, {
+      type: "EnrollmentApproved",
+      title: `You're enrolled in ${course.title}`,
+      message: "Your enrollment request was approved.",
+      link: courseLink(course),
+      courseId,
+    });
+
+    res.json({
+      message: "Enrollment request approved",
+      data: { status: "Enrolled", courseProgress },
+    });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Error reviewing enrollment request", error });
+  }
+};
+
+/**
+ * Leave a course. The student's progress is kept in case they enroll again.
+ * A pending enrollment request is withdrawn instead. Suspended students
+ * cannot leave.
+ */
+export const unenrollFromCourse = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = getAuth(req);
+  const { courseId } = req.params;
+
+  try {
+    const enrollment = await Enrollment.get({
+      userId: userId as string,
+      courseId,
+    });
+
+    if (enrollment?.status === "Pending") {
+      await enrollment.delete();
+      res.json({ message: "Enrollment request withdrawn" });
+      return;
+    }
+
+    if (!enrollment || !SEATED_STATUSES.includes(enrollment.status)) {
+      res.status(404).json({ message: "You are not enrolled in this course" });
+      return;
+    }
+
+    // Leaving would end the suspension, so only the teacher can lift it
+    if (enrollment.status === "Suspended") {
+      res.status(403).json({
+        message: "Your access to this course has been suspended",
+      });
+      return;
+    }
+
+    await setEnrollmentStatus(enrollment, "Dropped");
+
+    res.json({ message: "You have left the course", data: enrollment });
+  } catch (error) {
+    res.status(500).json({ message: "Error leaving course", error });
+  }
+};
+
+const TEACHER_STATUSES = ["Active", "Suspended", "Dropped"];
+
+/**
+ * Suspend, reinstate or remove a student, or change when their access
+ * expires. Pass `expiresAt: null` to remove the expiry.
+ */
+export const updateStudentEnrollment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId: changedBy } = getAuth(req);
+  const { courseId, userId } = req.params;
+  const { status, expiresAt } = req.body;
+
+  if (status !== undefined && !TEACHER_STATUSES.includes(status)) {
+    res.status(400).json({
+      message: `Status must be one of: ${TEACHER_STATUSES.join(", ")}`,
+    });
+    return;
+  }
+
+  if (expiresAt && Number.isNaN(Date.parse(expiresAt))) {
+    res.status(400).json({ message: "Access expiry must be a valid date" });
+    return;
+  }
+
+  try {
+    const enrollment = await refreshEnrollment(
+      await Enrollment.get({ userId, courseId })
+    );
+    if (!enrollment || REQUEST_STATUSES.includes(enrollment.status)) {
+      res.status(404).json({ message: "Student not found in this course" });
+      return;
+    }
+
+    const nextStatus = status || enrollment.status;
+    const nextExpiry =
+      expiresAt === undefined ? enrollment.expiresAt : expiresAt;
+
+    // Reinstating an expired student needs a new expiry date, or none
+    if (
+      ACCESS_STATUSES.includes(nextStatus) &&
+      nextExpiry &&
+      new Date(nextExpiry) <= new Date()
+    ) {
+      res.status(400).json({
+        message: "Set an access expiry in the future to reinstate this student",
+      });
+      return;
+    }
+
+    // Reinstated students no longer carry who removed them
+    await setEnrollmentStatus(enrollment, nextStatus, {
+      expiresAt,
+      removedBy:
+        status === undefined
+          ? undefined
+          : status === "Active"
+          ? null
+          : (changedBy as string),
+    });
+
+    res.json({ message: "Student enrollment updated", data: enrollment });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Error updating student enrollment", error });
+  }
+};
+
+export const removeStudent = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId: removedBy } = getAuth(req);
+  const { courseId, userId } = req.params;
+
+  try {
+    const enrollment = await Enrollment.get({ userId, courseId });
+    if (!enrollment || !SEATED_STATUSES.includes(enrollment.status)) {
+      res.status(404).json({ message: "Student not found in this course" });
+      return;
+    }
+
+    await setEnrollmentStatus(enrollment, "Dropped", {
+      removedBy: removedBy as string,
+    });
+
+    res.json({ message: "Student removed from course", data: enrollment });
+  } catch (error) {
+    res.status(500).json({ message: "Error removing student", error });
+  }
+};
@@ -0,0 +1,111 @@
+import { Request, Response } from "express";
+import { getAuth } from "@clerk/express";
+import Notification from "../models/notificationModel";
+import {
+  countUnreadNotifications,
+  listUserNotifications,
+} from "../utils/notifications";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * The signed in user's latest notifications and how many are unread
+ */
+export const listNotifications = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = getAuth(req);
+  const { unread, limit } = req.query;
+
+  const pageSize = limit === undefined ? DEFAULT_LIMIT : Number(limit);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_LIMIT) {
+    res
+      .status(400)
+      .json({ message: `limit must be a whole number from 1 to ${MAX_LIMIT}` });
+    return;
+  }
+
+  try {
+    const [notifications, unreadCount] = await Promise.all([
+      listUserNotifications(userId!, {
+        unreadOnly: unread === "true",
+        limit: pageSize,
+      }),
+      countUnreadNotifications(userId!),
+    ]);
+
+    res.json({
+      message: "Notifications retrieved successfully",
+      data: { unreadCount, notifications },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving notifications", error });
+  }
+};
+
+/**
+ * Mark one of the signed in user's notifications as read
+ */
+export const markNotificationRead = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = getAuth(req);
+  const { notificationId } = req.params;
+
+  try {
+    const notification = await Notification.get({
+      userId: userId!,
+      notificationId,
+    });
+    if (!notification) {
+      res.status(404).json({ message: "Notification not found" });
+      return;
+    }
+
+    if (!notification.read) {
+      notification.read = true;
+      notification.readAt = new Date().toISOString();
+      await notification.save();
+    }
+
+    res.json({ message: "", data: notification });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating notification", error });
+  }
+};
+
+/**
+ * Mark all of the signed in user's notifications as read
+ */
+export const markAllNotificationsRead = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = getAuth(req);
+
+  try {
+    const unread = await listUserNotifications(userId!, {
+      unreadOnly: true,
+      limit: Infinity,
+    });
+    const readAt = new Date().toISOString();
+    await Promise.all(
+      unread.map((notification: any) =>
+        Notification.update(
+          { userId: userId!, notificationId: notification.notificationId },
+          { read: true, readAt }
+        )
+      )
+    );
+
+    res.json({
+      message: "All notifications marked as read",
+      data: { updated: unread.length },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating notifications", error });
+  }
+};
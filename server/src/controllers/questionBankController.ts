@@ -0,0 +1,264 @@
+import { Request, Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { getAuth } from "@clerk/express";
+import QuestionBank from "../models/questionBankModel";
+import { buildQuestion, validateQuestion } from "../utils/quizQuestions";
+
+export const listQuestionBanks = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId } = req.query;
+  const { userId } = getAuth(req);
+
+  try {
+    const banks = await QuestionBank.query("teacherId").eq(userId).exec();
+
+    // Banks without a course can be used in any of the teacher's courses
+    res.json({
+      message: "Question banks retrieved successfully",
+      data: courseId
+        ? banks.filter(
+            (bank: any) => !bank.courseId || bank.courseId === courseId
+          )
+        : banks,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving question banks", error });
+  }
+};
+
+export const getQuestionBank = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { bankId } = req.params;
+
+  try {
+    const bank = await QuestionBank.get(bankId);
+    if (!bank) {
+      res.status(404).json({ message: "Question bank not found" });
+      return;
+    }
+
+    res.json({ message: "Question bank retrieved successfully", data: bank });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving question bank", error });
+  }
+};
+
+export const createQuestionBank = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = getAuth(req);
+  const { title, description, courseId, questions } = req.body;
+
+  if (!title) {
+    res.status(400).json({ message: "Title is required" });
+    return;
+  }
+
+  try {
+    for (const question of questions || []) {
+      const validationError = validateQuestion(question);
+      if (validationError) {
+        res.status(400).json({ message: validationError });
+        return;
+      }
+    }
+
+    const newBank = new QuestionBank({
+      bankId: uuidv4(),
+      teacherId: userId,
+      courseId: courseId || undefined,
+      title,
+      description: description || "",
+      questions: (questions || []).map(buildQuestion),
+    });
+
+    await newBank.save();
+
+    res
+      .status(201)
+      .json({ message: "Question bank created successfully", data: newBank });
+  } catch (error) {
+    res.status(500).json({ message: "Error creating question bank", error });
+  }
+};
+
+export const updateQuestionBank = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { bankId } = req.params;
+  const { title, description, courseId, questions } = req.body;
+
+  try {
+    const bank = await QuestionBank.get(bankId);
+    if (!bank) {
+      res.status(404).json({ message: "Question bank not found" });
+      return;
+    }
+
+    if (questions) {
+      for (const question of questions) {
+        const validationError = validateQuestion(question);
+        if (validationError) {
+          res.status(400).json({ message: validationError });
+          return;
+        }
+      }
+      bank.questions = questions.map(buildQuestion);
+    }
+
+    if (title !== undefined) bank.title = title;
+    if (description !== undefined) bank.description = description;
+    if (courseId !== undefined) bank.courseId = courseId || undefined;
+
+    await bank.save();
+
+    res.json({ message: "Question bank updated successfully", data: bank });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating question bank", error });
+  }
+};
+
+export const deleteQuestionBank = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { bankId } = req.params;
+
+  try {
+    const bank = await QuestionBank.get(bankId);
+    if (!bank) {
+      res.status(404).json({ message: "Question bank not found" });
+      return;
+    }
+
+    await QuestionBank.delete(bankId);
+
+    res.json({ message: "Question bank deleted successfully", data: bank });
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting question bank", error });
+  }
+};
+
+export const addBankQuestion = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { bankId } = req.params;
+
+  try {
+    const bank = await QuestionBank.get(bankId);
+    if (!bank) {
+      res.status(404).json({ message: "Question bank not found" });
+      return;
+    }
+
+    const validationError = validateQuestion(req.body);
+    if (validationError) {
+      res.status(400).json({ message: validationError });
+      return;
+    }
+
+    const newQuestion = buildQuestion({ ...req.body, questionId: null });
+
+    if (!bank.questions) {
+      bank.questions = [];
+    }
+
+    bank.questions.push(newQuestion);
+    await bank.save();
+
+    res.status(201).json({
+      message: "Question added successfully",
+      data: newQuestion,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error adding question", error });
+  }
+};
+
+export const updateBankQuestion = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { bankId, questionId } = req.params;
+
+  try {
+    const bank = await QuestionBank.get(bankId);
+    if (!bank) {
+      res.status(404).json({ message: "Question bank not found" });
+      return;
+    }
+
+    const questionIndex = (bank.questions || []).findIndex(
+      (q: any) => q.questionId === questionId
+    );
+
+    if (questionIndex === -1) {
+      res.status(404).json({ message: "Question not found" });
+      return;
+    }
+
+    const updatedQuestion = {
+      ...bank.questions[questionIndex],
+      ...req.body,
+      questionId,
+    };
+
+    const validationError = validateQuestion(updatedQuestion);
+    if (validationError) {
+      res.status(400).json({ message: validationError });
+      return;
+    }
+
+    bank.questions[questionIndex] = buildQuestion(updatedQuestion);
+    await bank.save();
+
+    res.json({
+      message: "Question updated successfully",
+      data: bank.questions[questionIndex],
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating question", error });
+  }
+};
+
+export const deleteBankQuestion = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { bankId, questionId } = req.params;
+
+  try {
+    const bank = await QuestionBank.get(bankId);
+    if (!bank) {
+      res.status(404).json({ message: "Question bank not found" });
+      return;
+    }
+
+    const questionIndex = (bank.questions || []).findIndex(
+      (q: any) => q.questionId === questionId
+    );
+
+    if (questionIndex === -1) {
+      res.status(404).json({ message: "Question not found" });
+      return;
+    }
+
+    const deletedQuestion = bank.questions[questionIndex];
+    bank.questions.splice(questionIndex, 1);
+    await bank.save();
+
+    res.json({
+      message: "Question deleted successfully",
+      data: deletedQuestion,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting question", error });
+  }
+};
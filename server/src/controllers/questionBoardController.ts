@@ -0,0 +1,488 @@
+import { Request, Response } from "express";
+import { getAuth } from "@clerk/express";
+import { v4 as uuidv4 } from "uuid";
+import { clerkClient } from "../index";
+import CourseAnswer from "../models/courseAnswerModel";
+import CourseQuestion from "../models/courseQuestionModel";
+import Course from "../models/courseModel";
+import { getUserRole } from "../middleware/authMiddleware";
+import {
+  buildAnswerList,
+  filterQuestions,
+  listCourseQuestions,
+  listQuestionAnswers,
+  recordBoardActivity,
+  toAnswerView,
+  toQuestionView,
+  validateAnswerText,
+  validateQuestion,
+  validateQuestionPlacement,
+} from "../utils/questionBoard";
+import { hasDiscussionActivity } from "../utils/activityEvents";
+
+// The route's course, and whether the signed in user can moderate its board.
+// Responds 404 and returns null when it is missing.
+const loadCourse = async (req: Request, res: Response) => {
+  const { userId } = getAuth(req);
+  const course = await Course.get(req.params.courseId);
+  if (!course) {
+    res.status(404).json({ message: "Course not found" });
+    return null;
+  }
+
+  const canModerate =
+    course.teacherId === userId || (await getUserRole(req)) === "admin";
+  return { course, viewer: { userId: userId!, canModerate } };
+};
+
+// A question on the route's course. Responds 404 and returns null when it is
+// missing.
+const loadQuestion = async (req: Request, res: Response) => {
+  const { courseId, questionId } = req.params;
+  const question = await CourseQuestion.get({ courseId, questionId });
+  if (!question) {
+    res.status(404).json({ message: "Question not found" });
+    return null;
+  }
+  return question;
+};
+
+// An answer to the route's question. Responds 404 and returns null when it
+// is missing.
+const loadAnswer = async (req: Request, res: Response) => {
+  const { questionId, answerId } = req.params;
+  const answer = await CourseAnswer.get({ questionId, answerId });
+  if (!answer) {
+    res.status(404).json({ message: "Answer not found" });
+    return null;
+  }
+  return answer;
+};
+
+const getAuthorProfile = async (userId: string) => {
+  const user = await clerkClient.users.getUser(userId);
+  return {
+    userName: [user.firstName, user.lastName].filter(Boolean).join(" "),
+    userImageUrl: user.imageUrl,
+  };
+};
+
+/**
+ * List a course's questions, newest first
+ */
+export const listQuestions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { sectionId, chapterId, unanswered } = req.query;
+
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+
+    const questions = filterQuestions(
+      await listCourseQuestions(req.params.courseId),
+      {
+        sectionId: sectionId as string | undefined,
+        chapterId: chapterId as string | undefined,
+        unanswered: unanswered === "true",
+      }
+    );
+
+    res.json({
+      message: "Questions retrieved successfully",
+      data: {
+        canModerate: context.viewer.canModerate,
+        questions: questions.map(toQuestionView),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving questions", error });
+  }
+};
+
+/**
+ * Get a question with its answers
+ */
+export const getQuestion = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+    const question = await loadQuestion(req, res);
+    if (!question) return;
+
+    const answers = await listQuestionAnswers(question.questionId);
+    res.json({
+      message: "Question retrieved successfully",
+      data: {
+        ...toQuestionView(question),
+        answers: buildAnswerList(answers, question, context.viewer.userId),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving question", error });
+  }
+};
+
+/**
+ * Ask a question, optionally about a section or chapter of the course
+ */
+export const createQuestion = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId } = req.params;
+  const { title, body, sectionId, chapterId } = req.body;
+
+  const validationError = validateQuestion(title, body);
+  if (validationError) {
+    res.status(400).json({ message: validationError });
+    return;
+  }
+
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+
+    const placementError = validateQuestionPlacement(
+      context.course,
+      sectionId,
+      chapterId
+    );
+    if (placementError) {
+      res.status(400).json({ message: placementError });
+      return;
+    }
+
+    const { userId } = context.viewer;
+    const question = await CourseQuestion.create({
+      courseId,
+      questionId: uuidv4(),
+      sectionId: sectionId || undefined,
+      chapterId: chapterId || undefined,
+      userId,
+      ...(await getAuthorProfile(userId)),
+      title: title.trim(),
+      body: body?.trim() || undefined,
+      answerCount: 0,
+      timestamp: new Date().toISOString(),
+    });
+    await recordBoardActivity(question, userId, "Question");
+
+    res.status(201).json({
+      message: "Question posted",
+      data: { ...toQuestionView(question), answers: [] },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error posting question", error });
+  }
+};
+
+/**
+ * Edit the title and body of one of your own questions
+ */
+export const updateQuestion = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { title, body } = req.body;
+
+  const validationError = validateQuestion(title, body);
+  if (validationError) {
+    res.status(400).json({ message: validationError });
+    return;
+  }
+
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+    const question = await loadQuestion(req, res);
+    if (!question) return;
+
+    if (question.userId !== context.viewer.userId) {
+      res.status(403).json({ message: "You can only edit your own questions" });
+      return;
+    }
+
+    question.title = title.trim();
+    question.body = body?.trim() || undefined;
+    question.editedAt = new Date().toISOString();
+    await question.save();
+
+    res.json({ message: "Question updated", data: toQuestionView(question) });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating question", error });
+  }
+};
+
+/**
+ * Delete a question and its answers. Askers can only delete their question
+ * while it has no answers; moderators can delete any question.
+ */
+export const deleteQuestion = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { questionId } = req.params;
+
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+    const question = await loadQuestion(req, res);
+    if (!question) return;
+
+    const { userId, canModerate } = context.viewer;
+    const answers = await listQuestionAnswers(questionId);
+    if (!canModerate) {
+      if (question.userId !== userId) {
+        res
+          .status(403)
+          .json({ message: "You can only delete your own questions" });
+        return;
+      }
+      if (answers.length > 0) {
+        res.status(400).json({
+          message: "Questions that have been answered cannot be deleted",
+        });
+        return;
+      }
+    }
+
+    await Promise.all(answers.map((answer: any) => answer.delete()));
+    await question.delete();
+
+    res.json({ message: "Question deleted", data: { questionId } });
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting question", error });
+  }
+};
+
+/**
+ * Answer a question
+ */
+export const createAnswer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId, questionId } = req.params;
+  const { text } = req.body;
+
+  const validationError = validateAnswerText(text);
+  if (validationError) {
+    res.status(400).json({ message: validationError });
+    return;
+  }
+
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+    const question = await loadQuestion(req, res);
+    if (!question) return;
+
+    const { userId } = context.viewer;
+    const answer = await CourseAnswer.create({
+      questionId,
+      answerId: uuidv4(),
+      courseId,
+      userId,
+      ...(await getAuthorProfile(userId)),
+      text: text.trim(),
+      upvotes: [],
+      timestamp: new Date().toISOString(),
+    });
+    await CourseQuestion.update(
+      { courseId, questionId },
+      { $ADD: { answerCount: 1 } }
+    );
+    await recordBoardActivity(question, userId, "Answer", answer.answerId);
+
+    res.status(201).json({
+      message: "Answer posted",
+      data: toAnswerView(answer, question, userId),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error posting answer", error });
+  }
+};
+
+/**
+ * Edit the text of one of your own answers
+ */
+export const updateAnswer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { text } = req.body;
+
+  const validationError = validateAnswerText(text);
+  if (validationError) {
+    res.status(400).json({ message: validationError });
+    return;
+  }
+
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+    const question = await loadQuestion(req, res);
+    if (!question) return;
+    const answer = await loadAnswer(req, res);
+    if (!answer) return;
+
+    const { userId } = context.viewer;
+    if (answer.userId !== userId) {
+      res.status(403).json({ message: "You can only edit your own answers" });
+      return;
+    }
+
+    answer.text = text.trim();
+    answer.editedAt = new Date().toISOString();
+    await answer.save();
+
+    res.json({
+      message: "Answer updated",
+      data: toAnswerView(answer, question, userId),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating answer", error });
+  }
+};
+
+/**
+ * Delete an answer. Authors can delete their own answers and moderators any
+ * answer. Deleting the accepted answer leaves the question without one.
+ */
+export const deleteAnswer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId, questionId, answerId } = req.params;
+
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+    const question = await loadQuestion(req, res);
+    if (!question) return;
+    const answer = await loadAnswer(req, res);
+    if (!answer) return;
+
+    const { userId, canModerate } = context.viewer;
+    if (answer.userId !== userId && !canModerate) {
+      res.status(403).json({ message: "You can only delete your own answers" });
+      return;
+    }
+
+    await answer.delete();
+    await CourseQuestion.update(
+      { courseId, questionId },
+      question.acceptedAnswerId === answerId
+        ? { $ADD: { answerCount: -1 }, $REMOVE: ["acceptedAnswerId"] }
+        : { $ADD: { answerCount: -1 } }
+    );
+
+    res.json({ message: "Answer deleted", data: { answerId } });
+  } catch (error) {
+    res.status(500).json({ message: "Error deleting answer", error });
+  }
+};
+
+/**
+ * Upvote an answer, or take the upvote back if the signed in user already
+ * gave one. Authors cannot upvote their own answers.
+ */
+export const toggleUpvote = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+    const question = await loadQuestion(req, res);
+    if (!question) return;
+    const answer = await loadAnswer(req, res);
+    if (!answer) return;
+
+    const { userId } = context.viewer;
+    if (answer.userId === userId) {
+      res.status(400).json({ message: "You cannot upvote your own answer" });
+      return;
+    }
+
+    const upvotes: string[] = answer.upvotes || [];
+    const existing = upvotes.includes(userId);
+    answer.upvotes = existing
+      ? upvotes.filter((voterId) => voterId !== userId)
+      : [...upvotes, userId];
+    await answer.save();
+
+    // Only the first upvote of an answer counts towards participation, so
+    // toggling it on and off cannot inflate it
+    if (
+      !existing &&
+      !(await hasDiscussionActivity(userId, {
+        activityType: "Upvote",
+        answerId: answer.answerId,
+      }))
+    ) {
+      await recordBoardActivity(question, userId, "Upvote", answer.answerId);
+    }
+
+    res.json({ message: "", data: toAnswerView(answer, question, userId) });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating upvote", error });
+  }
+};
+
+/**
+ * Mark one of a question's answers as accepted, or clear the accepted answer
+ * with a null answerId. Only the asker and moderators can choose.
+ */
+export const setAcceptedAnswer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { answerId } = req.body;
+  if (answerId !== null && typeof answerId !== "string") {
+    res.status(400).json({ message: "answerId must be a string or null" });
+    return;
+  }
+
+  try {
+    const context = await loadCourse(req, res);
+    if (!context) return;
+    const question = await loadQuestion(req, res);
+    if (!question) return;
+
+    const { userId, canModerate } = context.viewer;
+    if (question.userId !== userId && !canModerate) {
+      res.status(403).json({
+        message: "Only the asker or the course's teacher can accept an answer",
+      });
+      return;
+    }
+
+    if (answerId) {
+      const answer = await CourseAnswer.get({
+        questionId: question.questionId,
+        answerId,
+      });
+      if (!answer) {
+        res.status(404).json({ message: "Answer not found" });
+        return;
+      }
+      question.acceptedAnswerId = answerId;
+    } else {
+      question.acceptedAnswerId = undefined;
+    }
+    await question.save();
+
+    res.json({
+      message: answerId ? "Answer accepted" : "Accepted answer cleared",
+      data: toQuestionView(question),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error accepting answer", error });
+  }
+};
@@ -0,0 +1,530 @@
+import { Request, Response } from "express";
+import { getAuth } from "@clerk/express";
+import { v4 as uuidv4 } from "uuid";
+import Quiz from "../models/quizModel";
+import QuizAttempt from "../models/quizAttemptModel";
+import {
+  buildDeliveryOrder,
+  checkAttemptPolicy,
+  finalizeQuizAttempt,
+  getAttemptDeadline,
+  getAttemptQuestions,
+  isAttemptExpired,
+  normalizeAnswers,
+  summarizeResults,
+  syncCourseQuizResult,
+  toStudentAttempt,
+  toStudentQuiz,
+  updateSavedQuizAttempt,
+} from "../utils/quizAttempts";
+import { assembleAttemptQuestions } from "../utils/questionBanks";
+import { buildQuizAttemptStatement, emitStatement } from "../utils/xapi";
+import { notifyEssaysGraded } from "../utils/notifications";
+import { listUserQuizAttempts } from "../utils/activityEvents";
+import { checkCourseAccess, listCourseEnrollments } from "../utils/enrollments";
+import {
+  analyzeQuiz,
+  collectAnalyzedQuestions,
+  collectQuizAttempts,
+} from "../utils/quizAnalytics";
+
+/**
+ * Start (or resume) an attempt and deliver the quiz without answer keys
+ */
+export const startQuizAttempt = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { quizId } = req.params;
+  const { userId } = getAuth(req);
+
+  if (!userId) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const quiz = await Quiz.get(quizId);
+    if (!quiz) {
+      res.status(404).json({ message: "Quiz not found" });
+      return;
+    }
+
+    // Only students with access to the course can take the quiz
+    const access = await checkCourseAccess(userId, quiz.courseId);
+    if (!access.allowed) {
+      res.status(403).json({
+        message: access.enrollment
+          ? access.message
+          : "You must be enrolled in this course to take this quiz",
+      });
+      return;
+    }
+
+    // Resume an unfinished attempt so the delivered order stays stable
+    const userAttempts = await QuizAttempt.query("userId").eq(userId).exec();
+    const openAttempt = userAttempts.find(
+      (attempt: any) =>
+        attempt.quizId === quizId && attempt.status === "InProgress"
+    );
+    if (openAttempt) {
+      if (!isAttemptExpired(openAttempt)) {
+        res.json({
+          message: "Quiz attempt resumed",
+          data: {
+            attempt: toStudentAttempt(openAttempt),
+            quiz: toStudentQuiz(quiz, openAttempt),
+            serverTime: new Date().toISOString(),
+          },
+        });
+        return;
+      }
+
+      // Time ran out on the previous attempt; submit what was saved
+      await finalizeQuizAttempt(quiz, openAttempt, openAttempt.answers, true);
+    }
+
+    // Enforce the quiz's attempt limit and cooldown
+    const policy = checkAttemptPolicy(quiz, await listUserQuizAttempts(userId));
+    if (!policy.allowed) {
+      res
+        .status(policy.status!)
+        .json({ message: policy.message, retryAt: policy.retryAt });
+      return;
+    }
+
+    // Draw this attempt's questions and keep a copy on the attempt
+    const questions = await assembleAttemptQuestions(quiz);
+    const startedAt = new Date().toISOString();
+    const attempt = new QuizAttempt({
+      attemptId: uuidv4(),
+      quizId,
+      userId,
+      courseId: quiz.courseId,
+      status: "InProgress",
+      questions,
+      ...buildDeliveryOrder({ ...quiz, questions }),
+      answers: [],
+      startedAt,
+      expiresAt: getAttemptDeadline(quiz, startedAt),
+    });
+    await attempt.save();
+
+    res.status(201).json({
+      message: "Quiz attempt started",
+      data: {
+        attempt: toStudentAttempt(attempt),
+        quiz: toStudentQuiz(quiz, attempt),
+        serverTime: startedAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error starting quiz attempt:", error);
+    res.status(500).json({ message: "Error starting quiz attempt", error });
+  }
+};
+
+/**
+ * Get an attempt with the quiz in the order it was delivered
+ */
+export const getQuizAttempt = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { quizId, attemptId } = req.params;
+  const { userId } = getAuth(req);
+
+  try {
+    const attempt = await QuizAttempt.get(attemptId);
+    if (!attempt || attempt.quizId !== quizId) {
+      res.status(404).json({ message: "Quiz attempt not found" });
+      return;
+    }
+
+    if (attempt.userId !== userId) {
+      res.status(403).json({ message: "Access denied" });
+      return;
+    }
+
+    const quiz = await Quiz.get(quizId);
+    if (!quiz) {
+      res.status(404).json({ message: "Quiz not found" });
+      return;
+    }
+
+    if (attempt.status === "InProgress" && isAttemptExpired(attempt)) {
+      await finalizeQuizAttempt(quiz, attempt, attempt.answers, true);
+    }
+
+    res.json({
+      message: "Quiz attempt retrieved successfully",
+      data: {
+        attempt: toStudentAttempt(attempt),
+        quiz: toStudentQuiz(quiz, attempt),
+        serverTime: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving quiz attempt", error });
+  }
+};
+
+/**
+ * Save answers for an in-progress attempt
+ */
+export const saveQuizAnswers = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { quizId, attemptId } = req.params;
+  const { answers } = req.body;
+  const { userId } = getAuth(req);
+
+  if (!Array.isArray(answers)) {
+    res.status(400).json({ message: "Answers must be an array" });
+    return;
+  }
+
+  try {
+    const attempt = await QuizAttempt.get(attemptId);
+    if (!attempt || attempt.quizId !== quizId) {
+      res.status(404).json({ message: "Quiz attempt not found" });
+      return;
+    }
+
+    if (attempt.userId !== userId) {
+      res.status(403).json({ message: "Access denied" });
+      return;
+    }
+
+    if (attempt.status !== "InProgress") {
+      res
+        .status(409)
+        .json({ message: "This attempt has already been submitted" });
+      return;
+    }
+
+    if (isAttemptExpired(attempt)) {
+      const quiz = await Quiz.get(quizId);
+      if (!quiz) {
+        res.status(404).json({ message: "Quiz not found" });
+        return;
+      }
+
+      const result = await finalizeQuizAttempt(
+        quiz,
+        attempt,
+        attempt.answers,
+        true
+      );
+      res.status(409).json({
+        message: "Time limit reached. Your saved answers were submitted",
+        data: result,
+      });
+      return;
+    }
+
+    // Merge so answers can be saved one question at a time
+    const merged = new Map<string, any>(
+      (attempt.answers || []).map((answer: any) => [answer.questionId, answer])
+    );
+    const elapsed = Math.round(
+      (Date.now() - new Date(attempt.startedAt).getTime()) / 1000
+    );
+    for (const answer of normalizeAnswers(
+      answers,
+      attempt.questionOrder,
+      elapsed
+    )) {
+      merged.set(answer.questionId, answer);
+    }
+    attempt.answers = Array.from(merged.values());
+    await attempt.save();
+
+    res.json({
+      message: "",
+      data: {
+        attempt: toStudentAttempt(attempt),
+        serverTime: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error saving answers", error });
+  }
+};
+
+/**
+ * Grade a student's answers on the server and record the attempt
+ */
+export const submitQuiz = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { quizId } = req.params;
+  const { attemptId, answers } = req.body;
+  const { userId } = getAuth(req);
+
+  if (!userId) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+
+  if (!attemptId || !Array.isArray(answers)) {
+    res
+      .status(400)
+      .json({ message: "Attempt ID and an array of answers are required" });
+    return;
+  }
+
+  try {
+    const quiz = await Quiz.get(quizId);
+    if (!quiz) {
+      res.status(404).json({ message: "Quiz not found" });
+      return;
+    }
+
+    const quizAttempt = await QuizAttempt.get(attemptId);
+    if (!quizAttempt || quizAttempt.quizId !== quizId) {
+      res.status(404).json({ message: "Quiz attempt not found" });
+      return;
+    }
+
+    if (quizAttempt.userId !== userId) {
+      res.status(403).json({ message: "Access denied" });
+      return;
+    }
+
+    if (quizAttempt.status !== "InProgress") {
+      res
+        .status(409)
+        .json({ message: "This attempt has already been submitted" });
+      return;
+    }
+
+    // Answers sent after the deadline are rejected in favour of the ones
+    // saved while time was still running
+    const expired = isAttemptExpired(quizAttempt);
+    const result = await finalizeQuizAttempt(
+      quiz,
+      quizAttempt,
+      expired ? quizAttempt.answers : answers,
+      expired
+    );
+
+    res.status(201).json({
+      message: expired
+        ? "Time limit reached. Your saved answers were submitted"
+        : "Quiz submitted successfully",
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error submitting quiz:", error);
+    res.status(500).json({ message: "Error submitting quiz", error });
+  }
+};
+
+/**
+ * List essay answers waiting to be graded in a course
+ */
+export const listGradingQueue = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { courseId } = req.query;
+
+  if (!courseId) {
+    res.status(400).json({ message: "Course ID is required" });
+    return;
+  }
+
+  try {
+    const [attempts, quizzes] = await Promise.all([
+      QuizAttempt.query("courseId").eq(courseId).exec(),
+      Quiz.query("courseId").eq(courseId).exec(),
+    ]);
+    const quizzesById = new Map<string, any>(
+      quizzes.map((quiz: any) => [quiz.quizId, quiz])
+    );
+
+    const queue = attempts
+      .filter((attempt: any) => attempt.gradingStatus === "PendingReview")
+      .flatMap((attempt: any) => {
+        const quiz = quizzesById.get(attempt.quizId);
+        return (attempt.answers || [])
+          .filter((answer: any) => answer.pendingReview)
+          .map((answer: any) => {
+            const question = getAttemptQuestions(quiz || {}, attempt).find(
+              (q: any) => q.questionId === answer.questionId
+            );
+            return {
+              attemptId: attempt.attemptId,
+              quizId: attempt.quizId,
+              quizTitle: quiz?.title || "",
+              userId: attempt.userId,
+              questionId: answer.questionId,
+              questionText: question?.text || "",
+              points: question?.points ?? 1,
+              textAnswer: answer.textAnswer,
+              submittedAt: attempt.submittedAt,
+            };
+          });
+      })
+      .sort((a: any, b: any) =>
+        (a.submittedAt || "").localeCompare(b.submittedAt || "")
+      );
+
+    res.json({
+      message: "Grading queue retrieved successfully",
+      data: queue,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving grading queue", error });
+  }
+};
+
+/**
+ * Award points and feedback for an essay answer. The attempt score and
+ * pass/fail are recomputed once no essays are left to review.
+ */
+export const gradeEssayAnswer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { quizId, attemptId, questionId } = req.params;
+  const { points, feedback } = req.body;
+  const { userId } = getAuth(req);
+
+  try {
+    const quiz = await Quiz.get(quizId);
+    if (!quiz) {
+      res.status(404).json({ message: "Quiz not found" });
+      return;
+    }
+
+    const attempt = await QuizAttempt.get(attemptId);
+    if (!attempt || attempt.quizId !== quizId) {
+      res.status(404).json({ message: "Quiz attempt not found" });
+      return;
+    }
+
+    if (attempt.status !== "Submitted") {
+      res
+        .status(409)
+        .json({ message: "This attempt has not been submitted yet" });
+      return;
+    }
+
+    const questions = getAttemptQuestions(quiz, attempt);
+    const question = questions.find((q: any) => q.questionId === questionId);
+    const answer = attempt.answers?.find(
+      (a: any) => a.questionId === questionId
+    );
+    if (!question || !answer || question.type !== "Essay") {
+      res.status(404).json({ message: "Essay answer not found" });
+      return;
+    }
+
+    const maxPoints = question.points ?? 1;
+    const awarded = Number(points);
+    if (!Number.isFinite(awarded) || awarded < 0 || awarded > maxPoints) {
+      res
+        .status(400)
+        .json({ message: `Points must be between 0 and ${maxPoints}` });
+      return;
+    }
+
+    Object.assign(answer, {
+      pointsAwarded: awarded,
+      isCorrect: awarded === maxPoints,
+      pendingReview: false,
+      feedback: feedback || "",
+      gradedBy: userId,
+      gradedAt: new Date().toISOString(),
+    });
+
+    const summary = summarizeResults(
+      quiz,
+      attempt.answers.map((a: any) => ({
+        points:
+          questions.find((q: any) => q.questionId === a.questionId)?.points ??
+          1,
+        pointsAwarded: a.pointsAwarded,
+        pendingReview: a.pendingReview,
+      }))
+    );
+    attempt.score = summary.score;
+    attempt.pointsEarned = summary.pointsEarned;
+    attempt.totalPoints = summary.totalPoints;
+    attempt.passed = summary.passed;
+    attempt.gradingStatus = summary.pendingReview ? "PendingReview" : "Graded";
+    await attempt.save();
+
+    const attempts = await updateSavedQuizAttempt(attempt.userId, attemptId, {
+      score: summary.score,
+      pointsEarned: summary.pointsEarned,
+      totalPoints: summary.totalPoints,
+      passed: summary.passed,
+      pendingReview: summary.pendingReview,
+      answers: attempt.answers.map((a: any) => ({
+        questionId: a.questionId,
+        selectedOptionIds: a.selectedOptionIds,
+        textAnswer: a.textAnswer,
+        matches: a.matches,
+        isCorrect: a.isCorrect,
+        pointsAwarded: a.pointsAwarded,
+        pendingReview: a.pendingReview,
+        feedback: a.feedback,
+      })),
+    });
+    if (attempts) {
+      await syncCourseQuizResult(attempt.userId, quiz, attempts);
+      if (!summary.pendingReview) {
+        const graded = attempts.find((a: any) => a.attemptId === attemptId);
+        await emitStatement(
+          buildQuizAttemptStatement(attempt.userId, graded, quiz.title)
+        );
+        await notifyEssaysGraded(attempt.userId, quiz, summary);
+      }
+    }
+
+    res.json({ message: "Essay graded successfully", data: attempt });
+  } catch (error) {
+    res.status(500).json({ message: "Error grading essay", error });
+  }
+};
+
+/**
+ * Item analysis for the teacher of a quiz's course
+ */
+export const getQuizAnalytics = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { quizId } = req.params;
+
+  try {
+    const quiz = await Quiz.get(quizId);
+    if (!quiz) {
+      res.status(404).json({ message: "Quiz not found" });
+      return;
+    }
+
+    const enrollments = await listCourseEnrollments(quiz.courseId);
+    const attempts = await collectQuizAttempts(
+      quiz,
+      enrollments.map((enrollment: any) => enrollment.userId)
+    );
+    const questions = await collectAnalyzedQuestions(quiz, attempts);
+
+    res.json({
+      message: "Quiz analytics retrieved successfully",
+      data: {
+        quizId,
+        title: quiz.title,
+        ...analyzeQuiz(questions, attempts),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving quiz analytics", error });
+  }
+};
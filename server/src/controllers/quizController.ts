@@ -3,17 +3,45 @@ import Quiz from "../models/quizModel";
 import { v4 as uuidv4 } from "uuid";
 import { getAuth } from "@clerk/express";
 import Course from "../models/courseModel";
+import { toStudentQuiz } from "../utils/quizAttempts";
+import {
+  buildQuestion,
+  processOptions,
+  validateQuestion,
+} from "../utils/quizQuestions";
+import { processQuestionPools } from "../utils/questionBanks";
+import {
+  QUIZ_FORMATS,
+  exportQuizFile,
+  parseQuizFile,
+} from "../utils/quizFormats";
 
 export const listQuizzes = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   const { courseId } = req.query;
+  const { userId } = getAuth(req);
   try {
     const quizzes = courseId
       ? await Quiz.scan("courseId").eq(courseId).exec()
       : await Quiz.scan().exec();
-    res.json({ message: "Quizzes retrieved successfully", data: quizzes });
+
+    // Only the teacher who owns a course sees the answer keys
+    const courseIds = [...new Set(quizzes.map((quiz: any) => quiz.courseId))];
+    const courses = courseIds.length ? await Course.batchGet(courseIds) : [];
+    const ownedCourseIds = new Set(
+      courses
+        .filter((course: any) => userId && course.teacherId === userId)
+        .map((course: any) => course.courseId)
+    );
+
+    res.json({
+      message: "Quizzes retrieved successfully",
+      data: quizzes.map((quiz: any) =>
+        ownedCourseIds.has(quiz.courseId) ? quiz : toStudentQuiz(quiz)
+      ),
+    });
   } catch (error) {
     res.status(500).json({ message: "Error retrieving quizzes", error });
   }
@@ -21,6 +49,7 @@ export const listQuizzes = async (
 
 export const getQuiz = async (req: Request, res: Response): Promise<void> => {
   const { quizId } = req.params;
+  const { userId } = getAuth(req);
   try {
     const quiz = await Quiz.get(quizId);
     if (!quiz) {
@@ -28,7 +57,14 @@ export const getQuiz = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    res.json({ message: "Quiz retrieved successfully", data: quiz });
+    // Teachers who own the course get the full authoring view
+    const course = await Course.get(quiz.courseId);
+    const isOwner = !!userId && course?.teacherId === userId;
+
+    res.json({
+      message: "Quiz retrieved successfully",
+      data: isOwner ? quiz : toStudentQuiz(quiz),
+    });
   } catch (error) {
     res.status(500).json({ message: "Error retrieving quiz", error });
   }
@@ -39,7 +75,6 @@ export const createQuiz = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { userId } = getAuth(req);
     const {
       courseId,
       title,
@@ -47,6 +82,11 @@ export const createQuiz = async (
       timeLimit,
       passingScore,
       shuffleQuestions,
+      shuffleOptions,
+      maxAttempts,
+      cooldownMinutes,
+      scoringPolicy,
+      questionPools,
     } = req.body;
 
     if (!courseId || !title) {
@@ -54,17 +94,17 @@ export const createQuiz = async (
       return;
     }
 
-    // Verify the course exists and the user is the teacher of the course
     const course = await Course.get(courseId);
     if (!course) {
       res.status(404).json({ message: "Course not found" });
       return;
     }
 
-    if (course.teacherId !== userId) {
-      res
-        .status(403)
-        .json({ message: "Not authorized to create quizzes for this course" });
+    const pools = questionPools
+      ? await processQuestionPools(questionPools, course.teacherId, courseId)
+      : { pools: [] };
+    if (pools.error) {
+      res.status(400).json({ message: pools.error });
       return;
     }
 
@@ -77,7 +117,12 @@ export const createQuiz = async (
       passingScore: passingScore !== undefined ? passingScore : 70,
       shuffleQuestions:
         shuffleQuestions !== undefined ? shuffleQuestions : false,
+      shuffleOptions: shuffleOptions !== undefined ? shuffleOptions : false,
+      maxAttempts: maxAttempts !== undefined ? maxAttempts : 0,
+      cooldownMinutes: cooldownMinutes !== undefined ? cooldownMinutes : 0,
+      scoringPolicy: scoringPolicy || "Best",
       questions: [],
+      questionPools: pools.pools,
     });
 
     await newQuiz.save();
@@ -96,7 +141,6 @@ export const updateQuiz = async (
 ): Promise<void> => {
   const { quizId } = req.params;
   const updateData = { ...req.body };
-  const { userId } = getAuth(req);
 
   try {
     const quiz = await Quiz.get(quizId);
@@ -105,32 +149,40 @@ export const updateQuiz = async (
       return;
     }
 
-    // Verify the user is the teacher of the course
-    const course = await Course.get(quiz.courseId);
-    if (!course) {
-      res.status(404).json({ message: "Course not found" });
-      return;
-    }
-
-    if (course.teacherId !== userId) {
-      res.status(403).json({ message: "Not authorized to update this quiz" });
-      return;
-    }
-
     // Process questions and options if they exist in the update data
     if (updateData.questions) {
+      for (const question of updateData.questions) {
+        const validationError = validateQuestion(question);
+        if (validationError) {
+          res.status(400).json({ message: validationError });
+          return;
+        }
+      }
+
       updateData.questions = updateData.questions.map((question: any) => {
         return {
           ...question,
           questionId: question.questionId || uuidv4(),
-          options: question.options?.map((option: any) => ({
-            ...option,
-            id: option.id || uuidv4(),
-          })),
+          options: question.options && processOptions(question.options),
         };
       });
     }
 
+    if (updateData.questionPools) {
+      // Pools draw from the course teacher's banks, also when an admin edits
+      const course = await Course.get(quiz.courseId);
+      const pools = await processQuestionPools(
+        updateData.questionPools,
+        course?.teacherId ?? null,
+        quiz.courseId
+      );
+      if (pools.error) {
+        res.status(400).json({ message: pools.error });
+        return;
+      }
+      updateData.questionPools = pools.pools;
+    }
+
     Object.assign(quiz, updateData);
     await quiz.save();
 
@@ -145,7 +197,6 @@ export const deleteQuiz = async (
   res: Response
 ): Promise<void> => {
   const { quizId } = req.params;
-  const { userId } = getAuth(req);
 
   try {
     const quiz = await Quiz.get(quizId);
@@ -154,15 +205,15 @@ export const deleteQuiz = async (
       return;
     }
 
-    // Verify the user is the teacher of the course
+    // Quiz chapters must keep linking to a quiz, so they are changed first
     const course = await Course.get(quiz.courseId);
-    if (!course) {
-      res.status(404).json({ message: "Course not found" });
-      return;
-    }
-
-    if (course.teacherId !== userId) {
-      res.status(403).json({ message: "Not authorized to delete this quiz" });
+    const linkedChapter = (course?.sections || [])
+      .flatMap((section: any) => section.chapters || [])
+      .find((chapter: any) => chapter.quizId === quizId);
+    if (linkedChapter) {
+      res.status(409).json({
+        message: `Quiz chapter "${linkedChapter.title}" still links to this quiz. Remove the chapter or link it to another quiz first`,
+      });
       return;
     }
 
@@ -179,8 +230,14 @@ export const addQuestion = async (
   res: Response
 ): Promise<void> => {
   const { quizId } = req.params;
-  const { text, type, options, points, correctAnswerExplanation } = req.body;
-  const { userId } = getAuth(req);
+  const {
+    text,
+    type,
+    options,
+    acceptedAnswers,
+    points,
+    correctAnswerExplanation,
+  } = req.body;
 
   try {
     const quiz = await Quiz.get(quizId);
@@ -189,44 +246,21 @@ export const addQuestion = async (
       return;
     }
 
-    // Verify the user is the teacher of the course
-    const course = await Course.get(quiz.courseId);
-    if (!course) {
-      res.status(404).json({ message: "Course not found" });
-      return;
-    }
-
-    if (course.teacherId !== userId) {
-      res.status(403).json({ message: "Not authorized to modify this quiz" });
-      return;
-    }
-
-    if (!text || !type) {
-      res.status(400).json({ message: "Question text and type are required" });
-      return;
-    }
-
-    // For multiple choice questions, options are required
-    if (type === "MultipleChoice" && (!options || options.length < 2)) {
-      res.status(400).json({
-        message: "Multiple choice questions require at least 2 options",
-      });
+    const validationError = validateQuestion(req.body);
+    if (validationError) {
+      res.status(400).json({ message: validationError });
       return;
     }
 
     // Process options to ensure they have IDs
-    const processedOptions = options
-      ? options.map((option: any) => ({
-          ...option,
-          id: option.id || uuidv4(),
-        }))
-      : [];
+    const processedOptions = options ? processOptions(options) : [];
 
     const newQuestion = {
       questionId: uuidv4(),
       text,
       type,
       options: processedOptions,
+      acceptedAnswers: type === "ShortAnswer" ? acceptedAnswers : undefined,
       points: points || 1,
       correctAnswerExplanation: correctAnswerExplanation || "",
     };
@@ -253,7 +287,6 @@ export const updateQuestion = async (
 ): Promise<void> => {
   const { quizId, questionId } = req.params;
   const updateData = { ...req.body };
-  const { userId } = getAuth(req);
 
   try {
     const quiz = await Quiz.get(quizId);
@@ -262,25 +295,13 @@ export const updateQuestion = async (
       return;
     }
 
-    // Verify the user is the teacher of the course
-    const course = await Course.get(quiz.courseId);
-    if (!course) {
-      res.status(404).json({ message: "Course not found" });
-      return;
-    }
-
-    if (course.teacherId !== userId) {
-      res.status(403).json({ message: "Not authorized to modify this quiz" });
-      return;
-    }
-
     if (!quiz.questions) {
       res.status(404).json({ message: "Question not found" });
       return;
     }
 
     const questionIndex = quiz.questions.findIndex(
-      (q) => q.questionId === questionId
+      (q: any) => q.questionId === questionId
     );
 
     if (questionIndex === -1) {
@@ -290,18 +311,24 @@ export const updateQuestion = async (
 
     // Process options if they exist in the update data
     if (updateData.options) {
-      updateData.options = updateData.options.map((option: any) => ({
-        ...option,
-        id: option.id || uuidv4(),
-      }));
+      updateData.options = processOptions(updateData.options);
     }
 
-    // Update the question
-    quiz.questions[questionIndex] = {
+    const updatedQuestion = {
       ...quiz.questions[questionIndex],
       ...updateData,
+      questionId,
     };
 
+    const validationError = validateQuestion(updatedQuestion);
+    if (validationError) {
+      res.status(400).json({ message: validationError });
+      return;
+    }
+
+    // Update the question
+    quiz.questions[questionIndex] = updatedQuestion;
+
     await quiz.save();
 
     res.json({
@@ -318,7 +345,6 @@ export const deleteQuestion = async (
   res: Response
 ): Promise<void> => {
   const { quizId, questionId } = req.params;
-  const { userId } = getAuth(req);
 
   try {
     const quiz = await Quiz.get(quizId);
@@ -327,25 +353,13 @@ export const deleteQuestion = async (
       return;
     }
 
-    // Verify the user is the teacher of the course
-    const course = await Course.get(quiz.courseId);
-    if (!course) {
-      res.status(404).json({ message: "Course not found" });
-      return;
-    }
-
-    if (course.teacherId !== userId) {
-      res.status(403).json({ message: "Not authorized to modify this quiz" });
-      return;
-    }
-
     if (!quiz.questions) {
       res.status(404).json({ message: "Question not found" });
       return;
     }
 
     const questionIndex = quiz.questions.findIndex(
-      (q) => q.questionId === questionId
+      (q: any) => q.questionId === questionId
     );
 
     if (questionIndex === -1) {
@@ -366,3 +380,107 @@ export const deleteQuestion = async (
     res.status(500).json({ message: "Error deleting question", error });
   }
 };
+
+export const exportQuiz = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { quizId } = req.params;
+  const { format = "gift" } = req.query;
+
+  if (!QUIZ_FORMATS.includes(format as string)) {
+    res
+      .status(400)
+      .json({ message: `Format must be one of: ${QUIZ_FORMATS.join(", ")}` });
+    return;
+  }
+
+  try {
+    const quiz = await Quiz.get(quizId);
+    if (!quiz) {
+      res.status(404).json({ message: "Quiz not found" });
+      return;
+    }
+
+    res.json({
+      message: "Quiz exported successfully",
+      data: exportQuizFile(quiz, format as string),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error exporting quiz", error });
+  }
+};
+
+export const importQuiz = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { quizId } = req.params;
+  const { format, content, preview, replace } = req.body;
+
+  if (!QUIZ_FORMATS.includes(format)) {
+    res
+      .status(400)
+      .json({ message: `Format must be one of: ${QUIZ_FORMATS.join(", ")}` });
+    return;
+  }
+
+  if (typeof content !== "string" || !content.trim()) {
+    res.status(400).json({ message: "Import content is required" });
+    return;
+  }
+
+  try {
+    const quiz = await Quiz.get(quizId);
+    if (!quiz) {
+      res.status(404).json({ message: "Quiz not found" });
+      return;
+    }
+
+    const result = parseQuizFile(format, content);
+
+    // A preview reports what would be imported without saving anything
+    if (preview) {
+      res.json({ message: "", data: result });
+      return;
+    }
+
+    if (result.errors.length > 0) {
+      res.status(400).json({
+        message: `Import has ${result.errors.length} ${
+          result.errors.length === 1 ? "error" : "errors"
+        }, starting on line ${result.errors[0].line}`,
+        errors: result.errors,
+      });
+      return;
+    }
+
+    if (result.questions.length === 0) {
+      res.status(400).json({ message: "No questions found to import" });
+      return;
+    }
+
+    const questions = result.questions.map(({ line, ...question }: any) =>
+      buildQuestion(question)
+    );
+
+    // Replacing also takes the quiz settings from the file
+    if (replace) {
+      Object.assign(quiz, result.settings);
+      quiz.questions = questions;
+    } else {
+      quiz.questions = [...(quiz.questions || []), ...questions];
+    }
+
+    await quiz.save();
+
+    res.json({
+      message: `${questions.length} ${
+        questions.length === 1 ? "question" : "questions"
+      } imported successfully`,
+      data: quiz,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error importing quiz", error });
+  }
+};
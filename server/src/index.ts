@@ -14,13 +14,22 @@ import {
 } from "@clerk/express";
 /* ROUTE IMPORTS */
 import courseRoutes from "./routes/courseRoutes";
+import commentRoutes from "./routes/commentRoutes";
+import questionBoardRoutes from "./routes/questionBoardRoutes";
 import userClerkRoutes from "./routes/userClerkRoutes";
 import enrollmentRoutes from "./routes/enrollmentRoutes";
 import userCourseProgressRoutes from "./routes/userCourseProgressRoutes";
 import categoryRoutes from "./routes/categoryRoutes";
 import quizRoutes from "./routes/quizRoutes";
 import studentProgressRoutes from "./routes/studentProgressRoutes";
+import questionBankRoutes from "./routes/questionBankRoutes";
+import teacherApplicationRoutes from "./routes/teacherApplicationRoutes";
+import xapiRoutes from "./routes/xapiRoutes";
+import notificationRoutes from "./routes/notificationRoutes";
+import certificateRoutes from "./routes/certificateRoutes";
 import { specs, swaggerUi } from "./config/swagger";
+import { deliverPendingStatements } from "./utils/xapi";
+import { sendEmailDigests } from "./utils/emailDigests";
 
 /* CONFIGURATIONS */
 dotenv.config();
@@ -55,6 +64,12 @@ app.use(
   swaggerUi.setup(specs, { explorer: true })
 );
 
+app.use(
+  "/courses/:courseId/sections/:sectionId/chapters/:chapterId/comments",
+  requireAuth(),
+  commentRoutes
+);
+app.use("/courses/:courseId/questions", requireAuth(), questionBoardRoutes);
 app.use("/courses", courseRoutes);
 app.use("/users/clerk", requireAuth(), userClerkRoutes);
 app.use("/enrollments", requireAuth(), enrollmentRoutes);
@@ -62,13 +77,34 @@ app.use("/users/course-progress", requireAuth(), userCourseProgressRoutes);
 app.use("/categories", categoryRoutes);
 app.use("/quizzes", quizRoutes);
 app.use("/progress", requireAuth(), studentProgressRoutes);
+app.use("/question-banks", questionBankRoutes);
+app.use("/teacher-applications", requireAuth(), teacherApplicationRoutes);
+app.use("/xapi", requireAuth(), xapiRoutes);
+app.use("/notifications", requireAuth(), notificationRoutes);
+app.use("/certificates", certificateRoutes);
 
 /* SERVER */
 const port = process.env.PORT || 3000;
+const XAPI_DELIVERY_INTERVAL_MS = 60 * 1000;
+const EMAIL_DIGEST_INTERVAL_MS = 60 * 1000;
 if (!isProduction) {
   app.listen(port, () => {
     console.log(`Server running on port ${port}`);
   });
+
+  // Retry xAPI statements the LRS has not accepted yet
+  setInterval(() => {
+    deliverPendingStatements().catch((error) =>
+      console.error("Error delivering xAPI statements:", error)
+    );
+  }, XAPI_DELIVERY_INTERVAL_MS);
+
+  // Send the notification emails that are due
+  setInterval(() => {
+    sendEmailDigests().catch((error) =>
+      console.error("Error sending email digests:", error)
+    );
+  }, EMAIL_DIGEST_INTERVAL_MS);
 }
 
 // aws production environment
@@ -80,6 +116,20 @@ export const handler = async (event: any, context: any) => {
       statusCode: 200,
       body: JSON.stringify({ message: "Data seeded successfully" }),
     };
+  } else if (event.action === "deliverXapiStatements") {
+    // Invoked by a scheduled rule, e.g. every few minutes
+    const result = await deliverPendingStatements();
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: "xAPI statements delivered", ...result }),
+    };
+  } else if (event.action === "sendEmailDigests") {
+    // Invoked by a scheduled rule, e.g. every 15 minutes
+    const result = await sendEmailDigests();
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: "Email digests sent", ...result }),
+    };
   } else {
     return serverlessApp(event, context);
   }
@@ -0,0 +1,237 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { getAuth } from "@clerk/express";
+import { clerkClient } from "../index";
+import Course from "../models/courseModel";
+import Quiz from "../models/quizModel";
+import QuestionBank from "../models/questionBankModel";
+import { checkCourseAccess } from "../utils/enrollments";
+
+export const USER_ROLES = ["student", "teacher", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Roles are looked up once per request
+const roleCache = new WeakMap<Request, Promise<UserRole>>();
+
+const loadUserRole = async (req: Request): Promise<UserRole> => {
+  const { userId, sessionClaims } = getAuth(req);
+  if (!userId) return "student";
+
+  // The session token carries publicMetadata when the Clerk session template
+  // includes it. Otherwise ask Clerk for the user.
+  const claimed = (sessionClaims?.metadata as { userType?: string })?.userType;
+  const userType =
+    claimed ??
+    ((await clerkClient.users.getUser(userId)).publicMetadata
+      ?.userType as string);
+
+  return USER_ROLES.includes(userType as UserRole)
+    ? (userType as UserRole)
+    : "student";
+};
+
+// The Clerk publicMetadata.userType of the signed in user, "student" when unset
+export const getUserRole = (req: Request): Promise<UserRole> => {
+  let role = roleCache.get(req);
+  if (!role) {
+    role = loadUserRole(req);
+    roleCache.set(req, role);
+  }
+  return role;
+};
+
+/**
+ * Allow only signed in users with one of the given roles. Admins are always
+ * allowed.
+ */
+export const requireRole =
+  (...roles: UserRole[]): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    try {
+      const role = await getUserRole(req);
+      if (role !== "admin" && !roles.includes(role)) {
+        res.status(403).json({
+          message: `This action requires the ${roles.join(" or ")} role`,
+        });
+        return;
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Error checking user role", error });
+    }
+  };
+
+/**
+ * Allow only the user a request is about, e.g. /progress/:userId, or an admin
+ */
+export const requireSelf =
+  (
+    getUserId: (req: Request) => unknown = (req) => req.params.userId
+  ): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    try {
+      if (getUserId(req) !== userId && (await getUserRole(req)) !== "admin") {
+        res.status(403).json({ message: "Access denied" });
+        return;
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Error checking user role", error });
+    }
+  };
+
+const ownedResources = {
+  course: {
+    label: "Course",
+    param: "courseId",
+    findOwnerId: async (id: string) => (await Course.get(id))?.teacherId,
+  },
+  quiz: {
+    label: "Quiz",
+    param: "quizId",
+    findOwnerId: async (id: string) => {
+      const quiz = await Quiz.get(id);
+      if (!quiz) return undefined;
+      return (await Course.get(quiz.courseId))?.teacherId;
+    },
+  },
+  questionBank: {
+    label: "Question bank",
+    param: "bankId",
+    findOwnerId: async (id: string) => (await QuestionBank.get(id))?.teacherId,
+  },
+};
+
+/**
+ * Allow only the teacher who owns a resource, or an admin. Courses are owned
+ * by their teacher, quizzes by the teacher of their course. The resource ID is
+ * read from the route params unless `getId` says otherwise; requests without
+ * one are passed on for the controller to validate.
+ */
+export const requireOwner =
+  (
+    resource: keyof typeof ownedResources,
+    getId?: (req: Request) => unknown
+  ): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { label, param, findOwnerId } = ownedResources[resource];
+    const id = getId ? getId(req) : req.params[param];
+    const { userId } = getAuth(req);
+
+    if (!userId) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    if (!id) {
+      next();
+      return;
+    }
+
+    try {
+      const ownerId = await findOwnerId(String(id));
+      if (!ownerId) {
+        res.status(404).json({ message: `${label} not found` });
+        return;
+      }
+
+      if (ownerId !== userId && (await getUserRole(req)) !== "admin") {
+        res.status(403).json({
+          message: `Not authorized to manage this ${label.toLowerCase()}`,
+        });
+        return;
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Error checking ownership", error });
+    }
+  };
+
+/**
+ * Allow only students whose enrollment in the course lets them open it, i.e.
+ * Active or Completed and not past its expiry. Admins are always allowed.
+ * The student and course are read from the route params by default.
+ */
+export const requireCourseAccess =
+  (
+    getUserId: (req: Request) => unknown = (req) => req.params.userId,
+    getCourseId: (req: Request) => unknown = (req) => req.params.courseId
+  ): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    try {
+      if ((await getUserRole(req)) === "admin") {
+        next();
+        return;
+      }
+
+      const access = await checkCourseAccess(
+        String(getUserId(req) ?? userId),
+        String(getCourseId(req))
+      );
+      if (!access.allowed) {
+        res.status(403).json({
+          message: access.message,
+          enrollmentStatus: access.enrollment?.status,
+        });
+        return;
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Error checking course access", error });
+    }
+  };
+
+/**
+ * Allow the people taking part in a course: its teacher, students who can
+ * open it, and admins. The course is read from the route params.
+ */
+export const requireCourseMember =
+  (): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { userId } = getAuth(req);
+    if (!userId) {
+      res.status(401).json({ message: "Unauthorized" });
+      return;
+    }
+
+    try {
+      const course = await Course.get(req.params.courseId);
+      if (!course) {
+        res.status(404).json({ message: "Course not found" });
+        return;
+      }
+      if (course.teacherId === userId || (await getUserRole(req)) === "admin") {
+        next();
+        return;
+      }
+
+      const access = await checkCourseAccess(userId, course.courseId);
+      if (!access.allowed) {
+        res.status(403).json({
+          message: access.message,
+          enrollmentStatus: access.enrollment?.status,
+        });
+        return;
+      }
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Error checking course access", error });
+    }
+  };
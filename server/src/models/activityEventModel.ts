@@ -0,0 +1,215 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ActivityEvent:
+ *       type: object
+ *       required:
+ *         - userId
+ *         - eventId
+ *         - type
+ *         - courseId
+ *         - timestamp
+ *       properties:
+ *         userId:
+ *           type: string
+ *           description: ID of the student
+ *         eventId:
+ *           type: string
+ *           description: The event timestamp followed by a unique suffix, so a student's events sort by time
+ *         type:
+ *           type: string
+ *           enum: [LessonAccess, QuizAttempt, DiscussionActivity]
+ *         courseId:
+ *           type: string
+ *           description: ID of the course
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *           description: When the event happened
+ *         sectionId:
+ *           type: string
+ *         chapterId:
+ *           type: string
+ *         quizId:
+ *           type: string
+ *           description: ID of the quiz, for quiz attempts
+ *         attemptId:
+ *           type: string
+ *           description: ID of the attempt, for quiz attempts
+ *         quizAttempt:
+ *           $ref: '#/components/schemas/QuizAttempt'
+ *         activityType:
+ *           type: string
+ *           enum: [Comment, Reply, Reaction, Question, Answer, Upvote]
+ *           description: Kind of discussion activity
+ *         commentId:
+ *           type: string
+ *         questionId:
+ *           type: string
+ *           description: ID of the Q&A board question, for board activity
+ *         answerId:
+ *           type: string
+ *           description: ID of the answer posted or upvoted
+ */
+
+const matchPairSchema = new Schema({
+  optionId: {
+    type: String,
+    required: true,
+  },
+  match: {
+    type: String,
+  },
+});
+
+const quizAnswerSchema = new Schema({
+  questionId: {
+    type: String,
+    required: true,
+  },
+  selectedOptionIds: {
+    type: Array,
+    schema: [String],
+  },
+  textAnswer: {
+    type: String,
+  },
+  matches: {
+    type: Array,
+    schema: [matchPairSchema],
+  },
+  isCorrect: {
+    type: Boolean,
+  },
+  pointsAwarded: {
+    type: Number,
+  },
+  pendingReview: {
+    type: Boolean,
+  },
+  feedback: {
+    type: String,
+  },
+  timeSpent: {
+    type: Number,
+  },
+});
+
+const quizAttemptSchema = new Schema({
+  attemptId: {
+    type: String,
+  },
+  quizId: {
+    type: String,
+    required: true,
+  },
+  courseId: {
+    type: String,
+    required: true,
+  },
+  attemptTimestamp: {
+    type: String,
+    required: true,
+  },
+  score: {
+    type: Number,
+    required: true,
+  },
+  pointsEarned: {
+    type: Number,
+  },
+  totalPoints: {
+    type: Number,
+  },
+  passed: {
+    type: Boolean,
+  },
+  pendingReview: {
+    type: Boolean,
+  },
+  answers: {
+    type: Array,
+    schema: [quizAnswerSchema],
+  },
+  timeTaken: {
+    type: Number,
+  },
+  completed: {
+    type: Boolean,
+    default: true,
+  },
+});
+
+// Events are only ever added. The one exception is a quiz attempt's result,
+// which is updated in place when a teacher grades its essay answers.
+const activityEventSchema = new Schema(
+  {
+    userId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    eventId: {
+      type: String,
+      rangeKey: true,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ["LessonAccess", "QuizAttempt", "DiscussionActivity"],
+      required: true,
+    },
+    courseId: {
+      type: String,
+      required: true,
+      // Events by course, in the order they happened
+      index: {
+        name: "courseIndex",
+        type: "global",
+        rangeKey: "timestamp",
+      },
+    },
+    timestamp: {
+      type: String,
+      required: true,
+    },
+    sectionId: {
+      type: String,
+    },
+    chapterId: {
+      type: String,
+    },
+    quizId: {
+      type: String,
+    },
+    attemptId: {
+      type: String,
+    },
+    quizAttempt: {
+      type: Object,
+      schema: quizAttemptSchema,
+    },
+    activityType: {
+      type: String,
+      enum: ["Comment", "Reply", "Reaction", "Question", "Answer", "Upvote"],
+    },
+    commentId: {
+      type: String,
+    },
+    questionId: {
+      type: String,
+    },
+    answerId: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const ActivityEvent = model("ActivityEvent", activityEventSchema);
+export default ActivityEvent;
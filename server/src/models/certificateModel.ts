@@ -0,0 +1,91 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Certificate:
+ *       type: object
+ *       required:
+ *         - certificateId
+ *         - userId
+ *         - courseId
+ *         - studentName
+ *         - courseTitle
+ *         - teacherName
+ *         - issuedAt
+ *       properties:
+ *         certificateId:
+ *           type: string
+ *           description: Derived from the student and course, so each pair has one certificate
+ *         userId:
+ *           type: string
+ *           description: ID of the student who completed the course
+ *         courseId:
+ *           type: string
+ *         studentName:
+ *           type: string
+ *           description: The student's name when the certificate was issued
+ *         courseTitle:
+ *           type: string
+ *         teacherName:
+ *           type: string
+ *         issuedAt:
+ *           type: string
+ *           format: date-time
+ *         pdfUrl:
+ *           type: string
+ *           description: CloudFront URL of the certificate PDF
+ */
+
+const certificateSchema = new Schema(
+  {
+    certificateId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      // A student's certificates, in the order they were earned
+      index: {
+        name: "userIndex",
+        type: "global",
+        rangeKey: "issuedAt",
+      },
+    },
+    courseId: {
+      type: String,
+      required: true,
+    },
+    studentName: {
+      type: String,
+      required: true,
+    },
+    courseTitle: {
+      type: String,
+      required: true,
+    },
+    teacherName: {
+      type: String,
+      required: true,
+    },
+    issuedAt: {
+      type: String,
+      required: true,
+    },
+    pdfKey: {
+      type: String,
+    },
+    pdfUrl: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Certificate = model("Certificate", certificateSchema);
+export default Certificate;
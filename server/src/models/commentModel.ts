@@ -0,0 +1,151 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Comment:
+ *       type: object
+ *       required:
+ *         - chapterId
+ *         - commentId
+ *         - courseId
+ *         - sectionId
+ *         - userId
+ *         - timestamp
+ *       properties:
+ *         chapterId:
+ *           type: string
+ *           description: ID of the chapter the comment is on
+ *         commentId:
+ *           type: string
+ *         courseId:
+ *           type: string
+ *         sectionId:
+ *           type: string
+ *         parentId:
+ *           type: string
+ *           description: ID of the comment this replies to, unset for top-level comments
+ *         userId:
+ *           type: string
+ *           description: ID of the author
+ *         userName:
+ *           type: string
+ *           description: The author's name when they posted
+ *         userImageUrl:
+ *           type: string
+ *         text:
+ *           type: string
+ *           description: Empty once the comment is deleted
+ *         reactions:
+ *           type: object
+ *           additionalProperties:
+ *             type: integer
+ *           description: Number of reactions of each type
+ *         myReactions:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Reaction types the signed in user added
+ *         pinned:
+ *           type: boolean
+ *           description: Pinned comments are listed first. Only the course's teacher can pin.
+ *         hidden:
+ *           type: boolean
+ *           description: Hidden by the course's teacher. Only the teacher sees the text.
+ *         deleted:
+ *           type: boolean
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *           description: When the comment was posted
+ *         editedAt:
+ *           type: string
+ *           format: date-time
+ *         replies:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Comment'
+ */
+
+const reactionSchema = new Schema({
+  userId: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: ["Like", "Love", "Insightful", "Funny", "Confused"],
+    required: true,
+  },
+});
+
+const commentSchema = new Schema(
+  {
+    chapterId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    commentId: {
+      type: String,
+      rangeKey: true,
+      required: true,
+    },
+    courseId: {
+      type: String,
+      required: true,
+    },
+    sectionId: {
+      type: String,
+      required: true,
+    },
+    parentId: {
+      type: String,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    userName: {
+      type: String,
+    },
+    userImageUrl: {
+      type: String,
+    },
+    text: {
+      type: String,
+    },
+    timestamp: {
+      type: String,
+      required: true,
+    },
+    reactions: {
+      type: Array,
+      schema: [reactionSchema],
+    },
+    pinned: {
+      type: Boolean,
+      default: false,
+    },
+    hidden: {
+      type: Boolean,
+      default: false,
+    },
+    moderatedBy: {
+      type: String,
+    },
+    editedAt: {
+      type: String,
+    },
+    deletedAt: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Comment = model("Comment", commentSchema);
+export default Comment;
@@ -0,0 +1,99 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CourseAnswer:
+ *       type: object
+ *       required:
+ *         - questionId
+ *         - answerId
+ *         - courseId
+ *         - userId
+ *         - text
+ *         - timestamp
+ *       properties:
+ *         questionId:
+ *           type: string
+ *         answerId:
+ *           type: string
+ *         courseId:
+ *           type: string
+ *         userId:
+ *           type: string
+ *           description: ID of the author
+ *         userName:
+ *           type: string
+ *           description: The author's name when they answered
+ *         userImageUrl:
+ *           type: string
+ *         text:
+ *           type: string
+ *         upvotes:
+ *           type: integer
+ *           description: Number of upvotes
+ *         upvotedByMe:
+ *           type: boolean
+ *           description: Whether the signed in user upvoted the answer
+ *         accepted:
+ *           type: boolean
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *           description: When the answer was posted
+ *         editedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+const courseAnswerSchema = new Schema(
+  {
+    questionId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    answerId: {
+      type: String,
+      rangeKey: true,
+      required: true,
+    },
+    courseId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    userName: {
+      type: String,
+    },
+    userImageUrl: {
+      type: String,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+    // IDs of the users who upvoted the answer
+    upvotes: {
+      type: Array,
+      schema: [String],
+    },
+    timestamp: {
+      type: String,
+      required: true,
+    },
+    editedAt: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const CourseAnswer = model("CourseAnswer", courseAnswerSchema);
+export default CourseAnswer;
@@ -1,24 +1,5 @@
 import { Schema, model } from "dynamoose";
 
-const commentSchema = new Schema({
-  commentId: {
-    type: String,
-    required: true,
-  },
-  userId: {
-    type: String,
-    required: true,
-  },
-  text: {
-    type: String,
-    required: true,
-  },
-  timestamp: {
-    type: String,
-    required: true,
-  },
-});
-
 const chapterSchema = new Schema({
   chapterId: {
     type: String,
@@ -37,10 +18,6 @@ const chapterSchema = new Schema({
     type: String,
     required: true,
   },
-  comments: {
-    type: Array,
-    schema: [commentSchema],
-  },
   video: {
     type: String,
   },
@@ -51,6 +28,9 @@ const chapterSchema = new Schema({
     type: String,
     enum: ["docx", "pdf", "ppt", "xlsx"],
   },
+  quizId: {
+    type: String,
+  },
 });
 
 const sectionSchema = new Schema({
@@ -71,6 +51,33 @@ const sectionSchema = new Schema({
   },
 });
 
+const enrollmentPolicySchema = new Schema({
+  mode: {
+    type: String,
+    enum: ["Open", "Approval", "InviteCode"],
+    default: "Open",
+  },
+  inviteCode: {
+    type: String,
+  },
+  // 0 means no limit
+  capacity: {
+    type: Number,
+    default: 0,
+  },
+  opensAt: {
+    type: String,
+  },
+  closesAt: {
+    type: String,
+  },
+  // Days of access from enrollment, 0 means access does not expire
+  accessDays: {
+    type: Number,
+    default: 0,
+  },
+});
+
 const courseSchema = new Schema(
   {
     courseId: {
@@ -114,16 +121,19 @@ const courseSchema = new Schema(
       type: Array,
       schema: [sectionSchema],
     },
-    enrollments: {
-      type: Array,
-      schema: [
-        new Schema({
-          userId: {
-            type: String,
-            required: true,
-          },
-        }),
-      ],
+    // Active enrollments live in the Enrollment table; this is their count
+    enrollmentCount: {
+      type: Number,
+      default: 0,
+    },
+    enrollmentPolicy: {
+      type: Object,
+      schema: enrollmentPolicySchema,
+    },
+    // Certificates also need every quiz in the course passed
+    certificateRequiresQuizzes: {
+      type: Boolean,
+      default: false,
     },
   },
   {
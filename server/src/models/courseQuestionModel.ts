@@ -0,0 +1,114 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CourseQuestion:
+ *       type: object
+ *       required:
+ *         - courseId
+ *         - questionId
+ *         - userId
+ *         - title
+ *         - timestamp
+ *       properties:
+ *         courseId:
+ *           type: string
+ *         questionId:
+ *           type: string
+ *         sectionId:
+ *           type: string
+ *           description: ID of the section the question is about, if any
+ *         chapterId:
+ *           type: string
+ *           description: ID of the chapter the question is about, if any
+ *         userId:
+ *           type: string
+ *           description: ID of the student or teacher who asked
+ *         userName:
+ *           type: string
+ *           description: The asker's name when they asked
+ *         userImageUrl:
+ *           type: string
+ *         title:
+ *           type: string
+ *         body:
+ *           type: string
+ *         answerCount:
+ *           type: integer
+ *         acceptedAnswerId:
+ *           type: string
+ *           description: ID of the answer the asker or the course's teacher accepted
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *           description: When the question was asked
+ *         editedAt:
+ *           type: string
+ *           format: date-time
+ *         answers:
+ *           type: array
+ *           description: Only included when a single question is fetched
+ *           items:
+ *             $ref: '#/components/schemas/CourseAnswer'
+ */
+
+const courseQuestionSchema = new Schema(
+  {
+    courseId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    questionId: {
+      type: String,
+      rangeKey: true,
+      required: true,
+    },
+    sectionId: {
+      type: String,
+    },
+    chapterId: {
+      type: String,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    userName: {
+      type: String,
+    },
+    userImageUrl: {
+      type: String,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    body: {
+      type: String,
+    },
+    // Kept up to date with $ADD as answers are posted and deleted
+    answerCount: {
+      type: Number,
+      default: 0,
+    },
+    acceptedAnswerId: {
+      type: String,
+    },
+    timestamp: {
+      type: String,
+      required: true,
+    },
+    editedAt: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const CourseQuestion = model("CourseQuestion", courseQuestionSchema);
+export default CourseQuestion;
@@ -0,0 +1,72 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DailyActivity:
+ *       type: object
+ *       required:
+ *         - userId
+ *         - date
+ *       properties:
+ *         userId:
+ *           type: string
+ *           description: ID of the student
+ *         date:
+ *           type: string
+ *           format: date
+ *           description: Day in the student's time zone, YYYY-MM-DD
+ *         activeSeconds:
+ *           type: number
+ *           description: Time spent on chapter pages, from heartbeats
+ *         videoSeconds:
+ *           type: number
+ *           description: Seconds of chapter video watched
+ *         chaptersCompleted:
+ *           type: number
+ *           description: Chapters completed that day
+ *         lastHeartbeatAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the day's last heartbeat was counted
+ */
+
+// Totals are only ever incremented, so concurrent updates add up instead of
+// overwriting each other. Heartbeats are credited against lastHeartbeatAt so
+// that several tabs together cannot count more time than has passed.
+const dailyActivitySchema = new Schema(
+  {
+    userId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    date: {
+      type: String,
+      rangeKey: true,
+      required: true,
+    },
+    activeSeconds: {
+      type: Number,
+      default: 0,
+    },
+    videoSeconds: {
+      type: Number,
+      default: 0,
+    },
+    chaptersCompleted: {
+      type: Number,
+      default: 0,
+    },
+    lastHeartbeatAt: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const DailyActivity = model("DailyActivity", dailyActivitySchema);
+export default DailyActivity;
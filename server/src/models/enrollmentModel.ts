@@ -0,0 +1,105 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Enrollment:
+ *       type: object
+ *       required:
+ *         - userId
+ *         - courseId
+ *         - status
+ *       properties:
+ *         userId:
+ *           type: string
+ *           description: ID of the enrolled student
+ *         courseId:
+ *           type: string
+ *           description: ID of the course
+ *         status:
+ *           type: string
+ *           enum: [Active, Completed, Suspended, Dropped, Expired, Pending, Rejected]
+ *           description: Active and Completed students can open the course. Suspended students keep their seat but lose access until reinstated. Dropped and Expired enrollments have ended. Pending and Rejected are enrollment requests for courses that require approval.
+ *         enrolledAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the student was enrolled, or when they asked to be
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the teacher approved or rejected the request
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: When access to the course ends, unset for no expiry
+ *         endedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the student left, was removed, or their access expired
+ *         removedBy:
+ *           type: string
+ *           description: ID of the teacher or admin who removed or suspended the student
+ */
+
+const enrollmentSchema = new Schema(
+  {
+    userId: {
+      type: String,
+      hashKey: true,
+      required: true,
+      // Courses by user, in the order the user joined them
+      index: {
+        name: "userIndex",
+        type: "global",
+        rangeKey: "enrolledAt",
+      },
+    },
+    courseId: {
+      type: String,
+      rangeKey: true,
+      required: true,
+      // Students by course
+      index: {
+        name: "courseIndex",
+        type: "global",
+        rangeKey: "enrolledAt",
+      },
+    },
+    status: {
+      type: String,
+      enum: [
+        "Active",
+        "Completed",
+        "Suspended",
+        "Dropped",
+        "Expired",
+        "Pending",
+        "Rejected",
+      ],
+      default: "Active",
+    },
+    enrolledAt: {
+      type: String,
+      required: true,
+    },
+    reviewedAt: {
+      type: String,
+    },
+    expiresAt: {
+      type: String,
+    },
+    endedAt: {
+      type: String,
+    },
+    removedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Enrollment = model("Enrollment", enrollmentSchema);
+export default Enrollment;
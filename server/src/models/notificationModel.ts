@@ -0,0 +1,123 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Notification:
+ *       type: object
+ *       required:
+ *         - userId
+ *         - notificationId
+ *         - type
+ *         - title
+ *         - timestamp
+ *       properties:
+ *         userId:
+ *           type: string
+ *           description: ID of the recipient
+ *         notificationId:
+ *           type: string
+ *           description: The creation timestamp followed by a unique suffix, so a user's notifications sort by time
+ *         type:
+ *           type: string
+ *           enum: [NewChapter, CommentReply, EssayGraded, EnrollmentApproved]
+ *         title:
+ *           type: string
+ *         message:
+ *           type: string
+ *         link:
+ *           type: string
+ *           description: Client path to open when the notification is clicked
+ *         courseId:
+ *           type: string
+ *         channels:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [InApp, Email, Sms]
+ *           description: Where the recipient asked to be told, from their notification settings when it was created
+ *         emailStatus:
+ *           type: string
+ *           enum: [Pending, Sent, Skipped]
+ *           description: Whether the notification went out in an email digest. Skipped when email alerts were turned off or the user has no email address by the time the digest was due.
+ *         emailedAt:
+ *           type: string
+ *           format: date-time
+ *         read:
+ *           type: boolean
+ *         readAt:
+ *           type: string
+ *           format: date-time
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ */
+
+const notificationSchema = new Schema(
+  {
+    userId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    notificationId: {
+      type: String,
+      rangeKey: true,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ["NewChapter", "CommentReply", "EssayGraded", "EnrollmentApproved"],
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+    },
+    link: {
+      type: String,
+    },
+    courseId: {
+      type: String,
+    },
+    channels: {
+      type: Array,
+      schema: [String],
+    },
+    // Unset when the user did not want email
+    emailStatus: {
+      type: String,
+      enum: ["Pending", "Sent", "Skipped"],
+      // Notifications waiting for a digest, oldest first
+      index: {
+        name: "emailIndex",
+        type: "global",
+        rangeKey: "timestamp",
+      },
+    },
+    emailedAt: {
+      type: String,
+    },
+    read: {
+      type: Boolean,
+      default: false,
+    },
+    readAt: {
+      type: String,
+    },
+    timestamp: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Notification = model("Notification", notificationSchema);
+export default Notification;
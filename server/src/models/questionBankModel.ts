@@ -0,0 +1,85 @@
+import { Schema, model } from "dynamoose";
+import { questionSchema } from "./quizModel";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     QuestionBank:
+ *       type: object
+ *       required:
+ *         - bankId
+ *         - teacherId
+ *         - title
+ *       properties:
+ *         bankId:
+ *           type: string
+ *           description: Unique identifier for the question bank
+ *         teacherId:
+ *           type: string
+ *           description: ID of the teacher who owns the bank
+ *         courseId:
+ *           type: string
+ *           description: Course the bank is scoped to. Banks without a course can be used in any of the teacher's courses.
+ *         title:
+ *           type: string
+ *           description: Title of the question bank
+ *         description:
+ *           type: string
+ *           description: Description of the question bank
+ *         questions:
+ *           type: array
+ *           description: Questions in the bank
+ *           items:
+ *             $ref: '#/components/schemas/Question'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date and time when the bank was created
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date and time when the bank was last updated
+ */
+
+const questionBankSchema = new Schema(
+  {
+    bankId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    teacherId: {
+      type: String,
+      required: true,
+      index: {
+        name: "teacherIndex",
+        type: "global",
+      },
+    },
+    courseId: {
+      type: String,
+      index: {
+        name: "courseIndex",
+        type: "global",
+      },
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+    },
+    questions: {
+      type: Array,
+      schema: [questionSchema],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const QuestionBank = model("QuestionBank", questionBankSchema);
+export default QuestionBank;
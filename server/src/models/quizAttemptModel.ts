@@ -0,0 +1,312 @@
+import { Schema, model } from "dynamoose";
+import { questionSchema } from "./quizModel";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DeliveredOptionOrder:
+ *       type: object
+ *       required:
+ *         - questionId
+ *       properties:
+ *         questionId:
+ *           type: string
+ *           description: ID of the question
+ *         optionIds:
+ *           type: array
+ *           description: Option IDs in the order they were delivered
+ *           items:
+ *             type: string
+ *
+ *     MatchPair:
+ *       type: object
+ *       required:
+ *         - optionId
+ *       properties:
+ *         optionId:
+ *           type: string
+ *           description: ID of the option being matched
+ *         match:
+ *           type: string
+ *           description: The item chosen to pair with the option
+ *
+ *     SavedAnswer:
+ *       type: object
+ *       required:
+ *         - questionId
+ *       properties:
+ *         questionId:
+ *           type: string
+ *           description: ID of the answered question
+ *         selectedOptionIds:
+ *           type: array
+ *           description: IDs of the options selected so far
+ *           items:
+ *             type: string
+ *         textAnswer:
+ *           type: string
+ *           description: Written response for short-answer and essay questions
+ *         matches:
+ *           type: array
+ *           description: Chosen pairs for matching questions
+ *           items:
+ *             $ref: '#/components/schemas/MatchPair'
+ *         isCorrect:
+ *           type: boolean
+ *           description: Whether the answer was graded as correct
+ *         pointsAwarded:
+ *           type: number
+ *           description: Points awarded once graded
+ *         pendingReview:
+ *           type: boolean
+ *           description: Whether the answer is waiting for a teacher to grade it
+ *         feedback:
+ *           type: string
+ *           description: Written feedback from the teacher
+ *         timeSpent:
+ *           type: number
+ *           description: Seconds the student spent on the question
+ *         gradedBy:
+ *           type: string
+ *           description: ID of the teacher who graded the answer
+ *         gradedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the answer was graded by a teacher
+ *
+ *     QuizAttemptSession:
+ *       type: object
+ *       required:
+ *         - attemptId
+ *         - quizId
+ *         - userId
+ *         - courseId
+ *         - status
+ *       properties:
+ *         attemptId:
+ *           type: string
+ *           description: Unique identifier for the attempt
+ *         quizId:
+ *           type: string
+ *           description: ID of the quiz being attempted
+ *         userId:
+ *           type: string
+ *           description: ID of the student taking the quiz
+ *         courseId:
+ *           type: string
+ *           description: ID of the course the quiz belongs to
+ *         status:
+ *           type: string
+ *           enum: [InProgress, Submitted]
+ *           description: Current state of the attempt
+ *         questions:
+ *           type: array
+ *           description: Snapshot of the questions delivered for this attempt, including any drawn from question banks. Not returned to students.
+ *           items:
+ *             $ref: '#/components/schemas/Question'
+ *         questionOrder:
+ *           type: array
+ *           description: Question IDs in the order they were delivered
+ *           items:
+ *             type: string
+ *         optionOrder:
+ *           type: array
+ *           description: Option order delivered for each question
+ *           items:
+ *             $ref: '#/components/schemas/DeliveredOptionOrder'
+ *         answers:
+ *           type: array
+ *           description: Answers saved while the attempt is in progress
+ *           items:
+ *             $ref: '#/components/schemas/SavedAnswer'
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the attempt was started (server time)
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: Server deadline for timed quizzes
+ *         submittedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the attempt was submitted
+ *         timeTaken:
+ *           type: number
+ *           description: Time taken in seconds, computed by the server
+ *         autoSubmitted:
+ *           type: boolean
+ *           description: Whether the server submitted the attempt when time ran out
+ *         gradingStatus:
+ *           type: string
+ *           enum: [Graded, PendingReview]
+ *           description: Whether essay answers are still waiting for review
+ *         score:
+ *           type: number
+ *           description: Score achieved (percentage)
+ *         pointsEarned:
+ *           type: number
+ *           description: Points earned across all questions
+ *         totalPoints:
+ *           type: number
+ *           description: Maximum points available in the attempt
+ *         passed:
+ *           type: boolean
+ *           description: Whether the attempt met the quiz passing score
+ */
+
+const optionOrderSchema = new Schema({
+  questionId: {
+    type: String,
+    required: true,
+  },
+  optionIds: {
+    type: Array,
+    schema: [String],
+  },
+});
+
+const matchPairSchema = new Schema({
+  optionId: {
+    type: String,
+    required: true,
+  },
+  match: {
+    type: String,
+  },
+});
+
+const savedAnswerSchema = new Schema({
+  questionId: {
+    type: String,
+    required: true,
+  },
+  selectedOptionIds: {
+    type: Array,
+    schema: [String],
+  },
+  textAnswer: {
+    type: String,
+  },
+  matches: {
+    type: Array,
+    schema: [matchPairSchema],
+  },
+  isCorrect: {
+    type: Boolean,
+  },
+  pointsAwarded: {
+    type: Number,
+  },
+  pendingReview: {
+    type: Boolean,
+  },
+  feedback: {
+    type: String,
+  },
+  timeSpent: {
+    type: Number,
+  },
+  gradedBy: {
+    type: String,
+  },
+  gradedAt: {
+    type: String,
+  },
+});
+
+const quizAttemptSchema = new Schema(
+  {
+    attemptId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    quizId: {
+      type: String,
+      required: true,
+      index: {
+        name: "quizIndex",
+        type: "global",
+      },
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: {
+        name: "userIndex",
+        type: "global",
+      },
+    },
+    courseId: {
+      type: String,
+      required: true,
+      index: {
+        name: "courseIndex",
+        type: "global",
+      },
+    },
+    status: {
+      type: String,
+      enum: ["InProgress", "Submitted"],
+      default: "InProgress",
+    },
+    questions: {
+      type: Array,
+      schema: [questionSchema],
+    },
+    questionOrder: {
+      type: Array,
+      schema: [String],
+    },
+    optionOrder: {
+      type: Array,
+      schema: [optionOrderSchema],
+    },
+    answers: {
+      type: Array,
+      schema: [savedAnswerSchema],
+      default: [],
+    },
+    startedAt: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: String,
+    },
+    submittedAt: {
+      type: String,
+    },
+    timeTaken: {
+      type: Number,
+    },
+    autoSubmitted: {
+      type: Boolean,
+      default: false,
+    },
+    gradingStatus: {
+      type: String,
+      enum: ["Graded", "PendingReview"],
+    },
+    score: {
+      type: Number,
+    },
+    pointsEarned: {
+      type: Number,
+    },
+    totalPoints: {
+      type: Number,
+    },
+    passed: {
+      type: Boolean,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const QuizAttempt = model("QuizAttempt", quizAttemptSchema);
+export default QuizAttempt;
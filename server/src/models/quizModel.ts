@@ -19,6 +19,9 @@ import { Schema, model } from "dynamoose";
  *         isCorrect:
  *           type: boolean
  *           description: Whether this option is correct
+ *         match:
+ *           type: string
+ *           description: The item this option pairs with in matching questions
  *
  *     Question:
  *       type: object
@@ -35,13 +38,18 @@ import { Schema, model } from "dynamoose";
  *           description: The question text
  *         type:
  *           type: string
- *           enum: [MultipleChoice, Essay]
+ *           enum: [MultipleChoice, MultipleSelect, TrueFalse, ShortAnswer, Ordering, Matching, Essay]
  *           description: Type of question
  *         options:
  *           type: array
- *           description: Options for multiple-choice questions
+ *           description: Options for choice, ordering and matching questions. Ordering questions list options in the correct order.
  *           items:
  *             $ref: '#/components/schemas/Option'
+ *         acceptedAnswers:
+ *           type: array
+ *           description: Accepted answers for short-answer questions, compared ignoring case and whitespace
+ *           items:
+ *             type: string
  *         points:
  *           type: number
  *           description: Points assigned to this question
@@ -49,6 +57,43 @@ import { Schema, model } from "dynamoose";
  *         correctAnswerExplanation:
  *           type: string
  *           description: Explanation of the correct answer
+ *         tags:
+ *           type: array
+ *           description: Topic tags used to draw questions from a question bank
+ *           items:
+ *             type: string
+ *         difficulty:
+ *           type: string
+ *           enum: [Easy, Medium, Hard]
+ *           description: Difficulty used to draw questions from a question bank
+ *
+ *     QuestionPool:
+ *       type: object
+ *       required:
+ *         - bankId
+ *         - count
+ *       properties:
+ *         poolId:
+ *           type: string
+ *           description: Unique identifier for the pool
+ *         bankId:
+ *           type: string
+ *           description: Question bank to draw from
+ *         count:
+ *           type: number
+ *           description: Number of questions drawn for each attempt
+ *         tags:
+ *           type: array
+ *           description: Only draw questions that have all of these tags
+ *           items:
+ *             type: string
+ *         difficulty:
+ *           type: string
+ *           enum: [Easy, Medium, Hard]
+ *           description: Only draw questions of this difficulty
+ *         points:
+ *           type: number
+ *           description: Points for each drawn question, overriding the bank's points
  *
  *     Quiz:
  *       type: object
@@ -81,11 +126,33 @@ import { Schema, model } from "dynamoose";
  *           type: boolean
  *           description: Whether to shuffle questions for each attempt
  *           default: false
+ *         shuffleOptions:
+ *           type: boolean
+ *           description: Whether to shuffle answer options for each attempt
+ *           default: false
+ *         maxAttempts:
+ *           type: number
+ *           description: Maximum attempts per student (0 means unlimited)
+ *           default: 0
+ *         cooldownMinutes:
+ *           type: number
+ *           description: Minutes a student must wait between attempts
+ *           default: 0
+ *         scoringPolicy:
+ *           type: string
+ *           enum: [Best, Latest, Average]
+ *           description: Which attempts count toward the student's quiz score
+ *           default: Best
  *         questions:
  *           type: array
  *           description: List of questions in the quiz
  *           items:
  *             $ref: '#/components/schemas/Question'
+ *         questionPools:
+ *           type: array
+ *           description: Questions drawn at random from question banks for each attempt, in addition to the quiz's own questions
+ *           items:
+ *             $ref: '#/components/schemas/QuestionPool'
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -138,9 +205,12 @@ const optionSchema = new Schema({
     type: Boolean,
     default: false,
   },
+  match: {
+    type: String,
+  },
 });
 
-const questionSchema = new Schema({
+export const questionSchema = new Schema({
   questionId: {
     type: String,
     required: true,
@@ -151,13 +221,25 @@ const questionSchema = new Schema({
   },
   type: {
     type: String,
-    enum: ["MultipleChoice", "Essay"],
+    enum: [
+      "MultipleChoice",
+      "MultipleSelect",
+      "TrueFalse",
+      "ShortAnswer",
+      "Ordering",
+      "Matching",
+      "Essay",
+    ],
     required: true,
   },
   options: {
     type: Array,
     schema: [optionSchema],
   },
+  acceptedAnswers: {
+    type: Array,
+    schema: [String],
+  },
   points: {
     type: Number,
     default: 1,
@@ -165,6 +247,40 @@ const questionSchema = new Schema({
   correctAnswerExplanation: {
     type: String,
   },
+  tags: {
+    type: Array,
+    schema: [String],
+  },
+  difficulty: {
+    type: String,
+    enum: ["Easy", "Medium", "Hard"],
+  },
+});
+
+const questionPoolSchema = new Schema({
+  poolId: {
+    type: String,
+    required: true,
+  },
+  bankId: {
+    type: String,
+    required: true,
+  },
+  count: {
+    type: Number,
+    required: true,
+  },
+  tags: {
+    type: Array,
+    schema: [String],
+  },
+  difficulty: {
+    type: String,
+    enum: ["Easy", "Medium", "Hard"],
+  },
+  points: {
+    type: Number,
+  },
 });
 
 const quizSchema = new Schema(
@@ -201,10 +317,31 @@ const quizSchema = new Schema(
       type: Boolean,
       default: false,
     },
+    shuffleOptions: {
+      type: Boolean,
+      default: false,
+    },
+    maxAttempts: {
+      type: Number,
+      default: 0, // 0 means unlimited attempts
+    },
+    cooldownMinutes: {
+      type: Number,
+      default: 0,
+    },
+    scoringPolicy: {
+      type: String,
+      enum: ["Best", "Latest", "Average"],
+      default: "Best",
+    },
     questions: {
       type: Array,
       schema: [questionSchema],
     },
+    questionPools: {
+      type: Array,
+      schema: [questionPoolSchema],
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,85 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RoleChange:
+ *       type: object
+ *       required:
+ *         - roleChangeId
+ *         - userId
+ *         - newRole
+ *         - changedBy
+ *       properties:
+ *         roleChangeId:
+ *           type: string
+ *           description: Unique identifier for the audit record
+ *         userId:
+ *           type: string
+ *           description: ID of the user whose role changed
+ *         previousRole:
+ *           type: string
+ *           enum: [student, teacher, admin]
+ *           description: Role before the change
+ *         newRole:
+ *           type: string
+ *           enum: [student, teacher, admin]
+ *           description: Role after the change
+ *         changedBy:
+ *           type: string
+ *           description: ID of the admin who made the change
+ *         reason:
+ *           type: string
+ *           description: Why the role was changed
+ *         applicationId:
+ *           type: string
+ *           description: Teacher application that led to the change, if any
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date and time of the change
+ */
+
+const roleChangeSchema = new Schema(
+  {
+    roleChangeId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: {
+        name: "userIndex",
+        type: "global",
+      },
+    },
+    previousRole: {
+      type: String,
+      enum: ["student", "teacher", "admin"],
+    },
+    newRole: {
+      type: String,
+      required: true,
+      enum: ["student", "teacher", "admin"],
+    },
+    changedBy: {
+      type: String,
+      required: true,
+    },
+    reason: {
+      type: String,
+    },
+    applicationId: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const RoleChange = model("RoleChange", roleChangeSchema);
+export default RoleChange;
@@ -25,6 +25,43 @@ import { Schema, model } from "dynamoose";
  *           type: string
  *           description: Timestamp when the lesson was accessed
  *
+ *     QuizAnswer:
+ *       type: object
+ *       required:
+ *         - questionId
+ *       properties:
+ *         questionId:
+ *           type: string
+ *           description: ID of the answered question
+ *         selectedOptionIds:
+ *           type: array
+ *           description: IDs of the options selected by the student
+ *           items:
+ *             type: string
+ *         isCorrect:
+ *           type: boolean
+ *           description: Whether the answer was graded as correct
+ *         textAnswer:
+ *           type: string
+ *           description: Written response for short-answer and essay questions
+ *         matches:
+ *           type: array
+ *           description: Chosen pairs for matching questions
+ *           items:
+ *             $ref: '#/components/schemas/MatchPair'
+ *         pointsAwarded:
+ *           type: number
+ *           description: Points awarded for this answer
+ *         pendingReview:
+ *           type: boolean
+ *           description: Whether the answer is waiting for a teacher to grade it
+ *         feedback:
+ *           type: string
+ *           description: Written feedback from the teacher
+ *         timeSpent:
+ *           type: number
+ *           description: Seconds the student spent on the question
+ *
  *     QuizAttempt:
  *       type: object
  *       required:
@@ -33,6 +70,9 @@ import { Schema, model } from "dynamoose";
  *         - attemptTimestamp
  *         - score
  *       properties:
+ *         attemptId:
+ *           type: string
+ *           description: Unique identifier for the attempt
  *         quizId:
  *           type: string
  *           description: ID of the quiz
@@ -45,6 +85,23 @@ import { Schema, model } from "dynamoose";
  *         score:
  *           type: number
  *           description: Score achieved in the quiz (percentage)
+ *         pointsEarned:
+ *           type: number
+ *           description: Points earned across all questions
+ *         totalPoints:
+ *           type: number
+ *           description: Maximum points available in the quiz
+ *         passed:
+ *           type: boolean
+ *           description: Whether the score met the quiz passing score
+ *         pendingReview:
+ *           type: boolean
+ *           description: Whether essay answers are still waiting for review
+ *         answers:
+ *           type: array
+ *           description: Graded answers submitted for this attempt
+ *           items:
+ *             $ref: '#/components/schemas/QuizAnswer'
  *         timeTaken:
  *           type: number
  *           description: Time taken to complete the quiz (in seconds)
@@ -70,17 +127,24 @@ import { Schema, model } from "dynamoose";
  *           description: ID of the chapter (if applicable)
  *         activityType:
  *           type: string
- *           enum: [Comment, Reply, Reaction]
- *           description: Type of discussion activity
+ *           enum: [Comment, Reply, Reaction, Question, Answer, Upvote]
+ *           description: Type of discussion activity. Question, Answer and Upvote come from the course Q&A board.
  *         commentId:
  *           type: string
  *           description: ID of the comment (if applicable)
+ *         questionId:
+ *           type: string
+ *           description: ID of the Q&A board question (if applicable)
+ *         answerId:
+ *           type: string
+ *           description: ID of the Q&A board answer (if applicable)
  *         timestamp:
  *           type: string
  *           description: Timestamp of the activity
  *
  *     StudentProgress:
  *       type: object
+ *       description: A student's activity history. Only userId and lastActive are stored on the StudentProgress item; the histories are read from the student's ActivityEvent records.
  *       required:
  *         - userId
  *       properties:
@@ -105,78 +169,27 @@ import { Schema, model } from "dynamoose";
  *         lastActive:
  *           type: string
  *           description: Last activity timestamp
+ *         timeZone:
+ *           type: string
+ *           description: IANA time zone the student's days are counted in
+ *         weeklyGoal:
+ *           $ref: '#/components/schemas/WeeklyGoal'
+ *
+ *     WeeklyGoal:
+ *       type: object
+ *       required:
+ *         - type
+ *         - target
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [Minutes, Chapters]
+ *           description: Whether the goal counts minutes of learning or completed chapters
+ *         target:
+ *           type: number
+ *           description: Minutes or chapters to reach each week, starting Monday
  */
 
-const lessonAccessSchema = new Schema({
-  courseId: {
-    type: String,
-    required: true,
-  },
-  sectionId: {
-    type: String,
-    required: true,
-  },
-  chapterId: {
-    type: String,
-    required: true,
-  },
-  accessTimestamp: {
-    type: String,
-    required: true,
-  },
-});
-
-const quizAttemptSchema = new Schema({
-  quizId: {
-    type: String,
-    required: true,
-  },
-  courseId: {
-    type: String,
-    required: true,
-  },
-  attemptTimestamp: {
-    type: String,
-    required: true,
-  },
-  score: {
-    type: Number,
-    required: true,
-  },
-  timeTaken: {
-    type: Number,
-  },
-  completed: {
-    type: Boolean,
-    default: true,
-  },
-});
-
-const discussionActivitySchema = new Schema({
-  courseId: {
-    type: String,
-    required: true,
-  },
-  sectionId: {
-    type: String,
-  },
-  chapterId: {
-    type: String,
-  },
-  activityType: {
-    type: String,
-    enum: ["Comment", "Reply", "Reaction"],
-    required: true,
-  },
-  commentId: {
-    type: String,
-  },
-  timestamp: {
-    type: String,
-    required: true,
-  },
-});
-
 const studentProgressSchema = new Schema(
   {
     userId: {
@@ -184,25 +197,27 @@ const studentProgressSchema = new Schema(
       hashKey: true,
       required: true,
     },
-    lessonAccessHistory: {
-      type: Array,
-      schema: [lessonAccessSchema],
-      default: [],
-    },
-    quizAttempts: {
-      type: Array,
-      schema: [quizAttemptSchema],
-      default: [],
-    },
-    discussionActivities: {
-      type: Array,
-      schema: [discussionActivitySchema],
-      default: [],
-    },
     lastActive: {
       type: String,
       required: true,
     },
+    timeZone: {
+      type: String,
+    },
+    weeklyGoal: {
+      type: Object,
+      schema: {
+        type: {
+          type: String,
+          enum: ["Minutes", "Chapters"],
+          required: true,
+        },
+        target: {
+          type: Number,
+          required: true,
+        },
+      },
+    },
   },
   {
     timestamps: true,
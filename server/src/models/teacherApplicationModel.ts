@@ -0,0 +1,112 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TeacherApplication:
+ *       type: object
+ *       required:
+ *         - applicationId
+ *         - userId
+ *         - status
+ *       properties:
+ *         applicationId:
+ *           type: string
+ *           description: Unique identifier for the application
+ *         userId:
+ *           type: string
+ *           description: ID of the user applying to teach
+ *         userName:
+ *           type: string
+ *           description: Name of the applicant when they applied
+ *         email:
+ *           type: string
+ *           description: Email of the applicant when they applied
+ *         motivation:
+ *           type: string
+ *           description: What the applicant wants to teach and why
+ *         experience:
+ *           type: string
+ *           description: The applicant's teaching or subject experience
+ *         status:
+ *           type: string
+ *           enum: [Pending, Approved, Rejected]
+ *           description: Review status of the application
+ *         reviewedBy:
+ *           type: string
+ *           description: ID of the admin who reviewed the application
+ *         reviewNote:
+ *           type: string
+ *           description: Note from the reviewing admin to the applicant
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date and time when the application was reviewed
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date and time when the application was submitted
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Date and time when the application was last updated
+ */
+
+const teacherApplicationSchema = new Schema(
+  {
+    applicationId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: {
+        name: "userIndex",
+        type: "global",
+      },
+    },
+    userName: {
+      type: String,
+    },
+    email: {
+      type: String,
+    },
+    motivation: {
+      type: String,
+      required: true,
+    },
+    experience: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ["Pending", "Approved", "Rejected"],
+      default: "Pending",
+      index: {
+        name: "statusIndex",
+        type: "global",
+      },
+    },
+    reviewedBy: {
+      type: String,
+    },
+    reviewNote: {
+      type: String,
+    },
+    reviewedAt: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const TeacherApplication = model(
+  "TeacherApplication",
+  teacherApplicationSchema
+);
+export default TeacherApplication;
@@ -22,6 +22,29 @@ const sectionProgressSchema = new Schema({
   },
 });
 
+const quizResultSchema = new Schema({
+  quizId: {
+    type: String,
+    required: true,
+  },
+  scoringPolicy: {
+    type: String,
+    enum: ["Best", "Latest", "Average"],
+  },
+  attempts: {
+    type: Number,
+  },
+  score: {
+    type: Number,
+  },
+  passed: {
+    type: Boolean,
+  },
+  lastAttemptAt: {
+    type: String,
+  },
+});
+
 const userCourseProgressSchema = new Schema(
   {
     userId: {
@@ -46,6 +69,10 @@ const userCourseProgressSchema = new Schema(
       type: Array,
       schema: [sectionProgressSchema],
     },
+    quizResults: {
+      type: Array,
+      schema: [quizResultSchema],
+    },
     lastAccessedTimestamp: {
       type: String,
       required: true,
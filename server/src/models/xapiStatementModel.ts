@@ -0,0 +1,111 @@
+import { Schema, model } from "dynamoose";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     XapiStatement:
+ *       type: object
+ *       description: An xAPI statement as returned by GET /xapi/statements
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         actor:
+ *           type: object
+ *           description: The student, identified by their user ID as an account
+ *         verb:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uri
+ *             display:
+ *               type: object
+ *         object:
+ *           type: object
+ *           description: The chapter, quiz, comment, question or answer the statement is about
+ *         result:
+ *           type: object
+ *           description: Score, success and duration, for quiz attempts
+ *         context:
+ *           type: object
+ *           description: The course the object belongs to
+ *         timestamp:
+ *           type: string
+ *           format: date-time
+ *         stored:
+ *           type: string
+ *           format: date-time
+ *         version:
+ *           type: string
+ */
+
+const xapiStatementSchema = new Schema(
+  {
+    statementId: {
+      type: String,
+      hashKey: true,
+      required: true,
+    },
+    actorId: {
+      type: String,
+      required: true,
+      // Statements by student, in the order they were stored
+      index: {
+        name: "actorIndex",
+        type: "global",
+        rangeKey: "stored",
+      },
+    },
+    verbId: {
+      type: String,
+      required: true,
+    },
+    activityId: {
+      type: String,
+      required: true,
+    },
+    // The full statement as JSON
+    statement: {
+      type: String,
+      required: true,
+    },
+    stored: {
+      type: String,
+      required: true,
+    },
+    // Outbox state. Local statements are not sent because no LRS was
+    // configured when they were stored.
+    deliveryStatus: {
+      type: String,
+      enum: ["Pending", "Delivered", "Failed", "Local"],
+      required: true,
+      // Statements waiting to be sent, oldest retry first
+      index: {
+        name: "deliveryIndex",
+        type: "global",
+        rangeKey: "nextAttemptAt",
+      },
+    },
+    deliveryAttempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: String,
+    },
+    deliveredAt: {
+      type: String,
+    },
+    lastError: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const XapiStatement = model("XapiStatement", xapiStatementSchema);
+export default XapiStatement;
@@ -6,7 +6,7 @@ import {
   listCategories,
   updateCategory,
 } from "../controllers/categoryController";
-import { requireAuth } from "@clerk/express";
+import { requireRole } from "../middleware/authMiddleware";
 
 const router = express.Router();
 
@@ -114,10 +114,12 @@ router.get("/:categoryId", getCategory);
  *         description: Category created successfully
  *       400:
  *         description: Invalid input or duplicate slug
+ *       403:
+ *         description: Admin role required
  *       500:
  *         description: Server error
  */
-router.post("/", requireAuth(), createCategory);
+router.post("/", requireRole("admin"), createCategory);
 
 /**
  * @swagger
@@ -161,12 +163,14 @@ router.post("/", requireAuth(), createCategory);
  *         description: Category updated successfully
  *       400:
  *         description: Invalid input or duplicate slug
+ *       403:
+ *         description: Admin role required
  *       404:
  *         description: Category not found
  *       500:
  *         description: Server error
  */
-router.put("/:categoryId", requireAuth(), updateCategory);
+router.put("/:categoryId", requireRole("admin"), updateCategory);
 
 /**
  * @swagger
@@ -186,11 +190,13 @@ router.put("/:categoryId", requireAuth(), updateCategory);
  *     responses:
  *       200:
  *         description: Category deleted successfully
+ *       403:
+ *         description: Admin role required
  *       404:
  *         description: Category not found
  *       500:
  *         description: Server error
  */
-router.delete("/:categoryId", requireAuth(), deleteCategory);
+router.delete("/:categoryId", requireRole("admin"), deleteCategory);
 
 export default router;
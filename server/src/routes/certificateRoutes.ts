@@ -0,0 +1,73 @@
+import express from "express";
+import { requireAuth } from "@clerk/express";
+import {
+  listMyCertificates,
+  verifyCertificate,
+} from "../controllers/certificateController";
+
+/**
+ * @swagger
+ * tags:
+ *   name: Certificates
+ *   description: Certificates of completion, issued when a student finishes a course
+ */
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /certificates:
+ *   get:
+ *     summary: List your certificates
+ *     description: Newest first. A certificate is issued once every chapter of a course is complete, and for courses with certificateRequiresQuizzes once every quiz in the course is passed as well.
+ *     tags: [Certificates]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Your certificates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Certificate'
+ */
+router.get("/", requireAuth(), listMyCertificates);
+
+/**
+ * @swagger
+ * /certificates/{certificateId}/verify:
+ *   get:
+ *     summary: Verify a certificate
+ *     description: Public, so that anyone given a certificate's ID can check it was issued
+ *     tags: [Certificates]
+ *     parameters:
+ *       - in: path
+ *         name: certificateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The certificate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Certificate'
+ *       404:
+ *         description: Certificate not found
+ */
+router.get("/:certificateId/verify", verifyCertificate);
+
+export default router;
@@ -0,0 +1,262 @@
+import express from "express";
+import {
+  createComment,
+  deleteComment,
+  listComments,
+  moderateComment,
+  toggleReaction,
+  updateComment,
+} from "../controllers/commentController";
+import {
+  requireCourseMember,
+  requireOwner,
+  requireRole,
+} from "../middleware/authMiddleware";
+
+/**
+ * @swagger
+ * tags:
+ *   name: Comments
+ *   description: Threaded discussions on course chapters
+ *
+ * components:
+ *   parameters:
+ *     commentCourseId:
+ *       in: path
+ *       name: courseId
+ *       required: true
+ *       schema:
+ *         type: string
+ *     commentSectionId:
+ *       in: path
+ *       name: sectionId
+ *       required: true
+ *       schema:
+ *         type: string
+ *     commentChapterId:
+ *       in: path
+ *       name: chapterId
+ *       required: true
+ *       schema:
+ *         type: string
+ *     commentId:
+ *       in: path
+ *       name: commentId
+ *       required: true
+ *       schema:
+ *         type: string
+ */
+
+// Mounted under /courses/:courseId/sections/:sectionId/chapters/:chapterId
+const router = express.Router({ mergeParams: true });
+
+router.use(requireCourseMember());
+
+/**
+ * @swagger
+ * /courses/{courseId}/sections/{sectionId}/chapters/{chapterId}/comments:
+ *   get:
+ *     summary: List a chapter's comments as threads
+ *     description: Open to the course's teacher, students who can open the course, and admins. Pinned comments come first.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/commentCourseId'
+ *       - $ref: '#/components/parameters/commentSectionId'
+ *       - $ref: '#/components/parameters/commentChapterId'
+ *     responses:
+ *       200:
+ *         description: The chapter's comments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     canModerate:
+ *                       type: boolean
+ *                     comments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Comment'
+ *       403:
+ *         description: Not a member of the course
+ *       404:
+ *         description: Course or chapter not found
+ *   post:
+ *     summary: Post a comment or a reply
+ *     description: Records a Comment or Reply discussion activity for the author.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/commentCourseId'
+ *       - $ref: '#/components/parameters/commentSectionId'
+ *       - $ref: '#/components/parameters/commentChapterId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 maxLength: 5000
+ *               parentId:
+ *                 type: string
+ *                 description: ID of the comment to reply to
+ *     responses:
+ *       201:
+ *         description: Comment posted
+ *       400:
+ *         description: Missing or too long text
+ *       403:
+ *         description: Not a member of the course
+ *       404:
+ *         description: Chapter or parent comment not found
+ */
+router.get("/", listComments);
+router.post("/", createComment);
+
+/**
+ * @swagger
+ * /courses/{courseId}/sections/{sectionId}/chapters/{chapterId}/comments/{commentId}:
+ *   put:
+ *     summary: Edit one of your own comments
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/commentCourseId'
+ *       - $ref: '#/components/parameters/commentSectionId'
+ *       - $ref: '#/components/parameters/commentChapterId'
+ *       - $ref: '#/components/parameters/commentId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Comment updated
+ *       400:
+ *         description: Missing or too long text
+ *       403:
+ *         description: Not the author
+ *       404:
+ *         description: Comment not found
+ *   delete:
+ *     summary: Delete a comment
+ *     description: Authors can delete their own comments, the course's teacher any comment. A comment with replies is kept as a placeholder.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/commentCourseId'
+ *       - $ref: '#/components/parameters/commentSectionId'
+ *       - $ref: '#/components/parameters/commentChapterId'
+ *       - $ref: '#/components/parameters/commentId'
+ *     responses:
+ *       200:
+ *         description: Comment deleted
+ *       403:
+ *         description: Not the author or the course's teacher
+ *       404:
+ *         description: Comment not found
+ */
+router.put("/:commentId", updateComment);
+router.delete("/:commentId", deleteComment);
+
+/**
+ * @swagger
+ * /courses/{courseId}/sections/{sectionId}/chapters/{chapterId}/comments/{commentId}/reactions:
+ *   post:
+ *     summary: Add or take back a reaction
+ *     description: Toggles the signed in user's reaction of the given type. Adding one records a Reaction discussion activity.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/commentCourseId'
+ *       - $ref: '#/components/parameters/commentSectionId'
+ *       - $ref: '#/components/parameters/commentChapterId'
+ *       - $ref: '#/components/parameters/commentId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [Like, Love, Insightful, Funny, Confused]
+ *     responses:
+ *       200:
+ *         description: The comment with updated reactions
+ *       400:
+ *         description: Invalid reaction type
+ *       404:
+ *         description: Comment not found
+ */
+router.post("/:commentId/reactions", toggleReaction);
+
+/**
+ * @swagger
+ * /courses/{courseId}/sections/{sectionId}/chapters/{chapterId}/comments/{commentId}/moderation:
+ *   put:
+ *     summary: Pin or hide a comment
+ *     description: Only the course's teacher can moderate. Only top-level comments can be pinned.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/commentCourseId'
+ *       - $ref: '#/components/parameters/commentSectionId'
+ *       - $ref: '#/components/parameters/commentChapterId'
+ *       - $ref: '#/components/parameters/commentId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               pinned:
+ *                 type: boolean
+ *               hidden:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: The moderated comment
+ *       400:
+ *         description: Invalid values, or pinning a reply
+ *       403:
+ *         description: Not the course's teacher
+ *       404:
+ *         description: Comment not found
+ */
+router.put(
+  "/:commentId/moderation",
+  requireRole("teacher"),
+  requireOwner("course"),
+  moderateComment
+);
+
+export default router;
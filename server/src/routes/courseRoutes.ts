@@ -4,13 +4,19 @@ import {
   createCourse,
   deleteCourse,
   getCourse,
+  getCourseAnalytics,
+  getCourseRoster,
   listCourses,
   updateCourse,
   getUploadVideoUrl,
   getUploadImageUrl,
   getUploadDocumentUrl,
 } from "../controllers/courseController";
-import { requireAuth } from "@clerk/express";
+import {
+  requireOwner,
+  requireRole,
+  requireSelf,
+} from "../middleware/authMiddleware";
 
 /**
  * @swagger
@@ -54,7 +60,12 @@ router.get("/", listCourses);
  *       201:
  *         description: Course created successfully
  */
-router.post("/", requireAuth(), createCourse);
+router.post(
+  "/",
+  requireRole("teacher"),
+  requireSelf((req) => req.body.teacherId),
+  createCourse
+);
 
 /**
  * @swagger
@@ -74,8 +85,77 @@ router.post("/", requireAuth(), createCourse);
  */
 router.get("/:courseId", getCourse);
 
-router.put("/:courseId", requireAuth(), upload.single("image"), updateCourse);
-router.delete("/:courseId", requireAuth(), deleteCourse);
+router.put(
+  "/:courseId",
+  requireRole("teacher"),
+  requireOwner("course"),
+  upload.single("image"),
+  updateCourse
+);
+router.delete(
+  "/:courseId",
+  requireRole("teacher"),
+  requireOwner("course"),
+  deleteCourse
+);
+
+/**
+ * @swagger
+ * /courses/{courseId}/students:
+ *   get:
+ *     summary: Get the course roster
+ *     description: Current and former students of the course with their enrollment status, overall progress, last access and the counted result of each quiz. Only the course's teacher can see it.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The course's quizzes and students
+ *       403:
+ *         description: Not the course's teacher
+ *       404:
+ *         description: Course not found
+ */
+router.get(
+  "/:courseId/students",
+  requireRole("teacher"),
+  requireOwner("course"),
+  getCourseRoster
+);
+
+/**
+ * @swagger
+ * /courses/{courseId}/analytics:
+ *   get:
+ *     summary: Get course analytics
+ *     description: Aggregates every current and former student of the course. Returns enrollments per day, a completion funnel per section and chapter, the chapters where departed students stopped, counted quiz scores per quiz and discussion activity. Only the course's teacher can see it.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Course analytics
+ *       404:
+ *         description: Course not found
+ */
+router.get(
+  "/:courseId/analytics",
+  requireRole("teacher"),
+  requireOwner("course"),
+  getCourseAnalytics
+);
 
 /**
  * @swagger
@@ -111,7 +191,8 @@ router.delete("/:courseId", requireAuth(), deleteCourse);
  */
 router.post(
   "/:courseId/get-upload-image-url",
-  requireAuth(),
+  requireRole("teacher"),
+  requireOwner("course"),
   getUploadImageUrl
 );
 
@@ -159,7 +240,8 @@ router.post(
  */
 router.post(
   "/:courseId/sections/:sectionId/chapters/:chapterId/get-upload-url",
-  requireAuth(),
+  requireRole("teacher"),
+  requireOwner("course"),
   getUploadVideoUrl
 );
 
@@ -229,7 +311,8 @@ router.post(
  */
 router.post(
   "/:courseId/sections/:sectionId/chapters/:chapterId/get-document-upload-url",
-  requireAuth(),
+  requireRole("teacher"),
+  requireOwner("course"),
   getUploadDocumentUrl
 );
 
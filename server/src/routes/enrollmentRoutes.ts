@@ -1,12 +1,287 @@
 import express from "express";
 import {
   enrollInCourse,
+  listEnrollmentRequests,
   listEnrollments,
+  removeStudent,
+  reviewEnrollmentRequest,
+  unenrollFromCourse,
+  updateEnrollmentPolicy,
+  updateStudentEnrollment,
 } from "../controllers/enrollmentController";
+import { requireOwner, requireRole } from "../middleware/authMiddleware";
 
 const router = express.Router();
 
+/**
+ * @swagger
+ * tags:
+ *   name: Enrollments
+ *   description: Enrolling in courses and managing enrollment policies
+ */
+
+/**
+ * @swagger
+ * /enrollments:
+ *   get:
+ *     summary: Get the courses the signed-in user is enrolled in
+ *     description: Only Active and Completed enrollments that have not expired
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrolled courses
+ */
 router.get("/", listEnrollments);
+
+/**
+ * @swagger
+ * /enrollments:
+ *   post:
+ *     summary: Enroll the signed-in user in a course
+ *     description: Follows the course's enrollment policy. Courses that require approval get a pending request and respond with 202.
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - courseId
+ *             properties:
+ *               courseId:
+ *                 type: string
+ *               inviteCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Enrolled
+ *       202:
+ *         description: Enrollment requested and waiting for approval
+ *       403:
+ *         description: The course is a draft, full, outside its enrollment window, or the invite code is wrong, or the student is suspended or was removed by the teacher
+ */
 router.post("/", enrollInCourse);
 
+/**
+ * @swagger
+ * /enrollments/{courseId}:
+ *   delete:
+ *     summary: Leave a course
+ *     description: Marks the signed-in user's enrollment as Dropped and frees their seat. Progress is kept in case they enroll again. A pending request is withdrawn instead.
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Left the course
+ *       403:
+ *         description: The student is suspended from the course
+ *       404:
+ *         description: Not enrolled in this course
+ */
+router.delete("/:courseId", unenrollFromCourse);
+
+/**
+ * @swagger
+ * /enrollments/courses/{courseId}/policy:
+ *   put:
+ *     summary: Set how students can enroll in a course
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [Open, Approval, InviteCode]
+ *               inviteCode:
+ *                 type: string
+ *               capacity:
+ *                 type: integer
+ *                 description: Maximum number of students, 0 for no limit
+ *               opensAt:
+ *                 type: string
+ *                 format: date-time
+ *               closesAt:
+ *                 type: string
+ *                 format: date-time
+ *               accessDays:
+ *                 type: integer
+ *                 description: Days of access from enrollment, 0 for no expiry
+ *     responses:
+ *       200:
+ *         description: Enrollment policy updated
+ */
+router.put(
+  "/courses/:courseId/policy",
+  requireRole("teacher"),
+  requireOwner("course"),
+  updateEnrollmentPolicy
+);
+
+/**
+ * @swagger
+ * /enrollments/courses/{courseId}/requests:
+ *   get:
+ *     summary: Get enrollment requests for a course
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Enrollment requests, oldest first
+ */
+router.get(
+  "/courses/:courseId/requests",
+  requireRole("teacher"),
+  requireOwner("course"),
+  listEnrollmentRequests
+);
+
+/**
+ * @swagger
+ * /enrollments/courses/{courseId}/requests/{userId}:
+ *   put:
+ *     summary: Approve or reject an enrollment request
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [Approved, Rejected]
+ *     responses:
+ *       200:
+ *         description: Request reviewed
+ *       404:
+ *         description: No pending request from this user
+ */
+router.put(
+  "/courses/:courseId/requests/:userId",
+  requireRole("teacher"),
+  requireOwner("course"),
+  reviewEnrollmentRequest
+);
+
+/**
+ * @swagger
+ * /enrollments/courses/{courseId}/students/{userId}:
+ *   put:
+ *     summary: Suspend, reinstate or remove a student, or change their access expiry
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [Active, Suspended, Dropped]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: When access ends, null for no expiry
+ *     responses:
+ *       200:
+ *         description: Enrollment updated
+ *       404:
+ *         description: The user is not a student of this course
+ *   delete:
+ *     summary: Remove a student from a course
+ *     tags: [Enrollments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Student removed
+ *       404:
+ *         description: The user is not enrolled in this course
+ */
+router.put(
+  "/courses/:courseId/students/:userId",
+  requireRole("teacher"),
+  requireOwner("course"),
+  updateStudentEnrollment
+);
+router.delete(
+  "/courses/:courseId/students/:userId",
+  requireRole("teacher"),
+  requireOwner("course"),
+  removeStudent
+);
+
 export default router;
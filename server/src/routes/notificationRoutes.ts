@@ -0,0 +1,100 @@
+import express from "express";
+import {
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "../controllers/notificationController";
+
+/**
+ * @swagger
+ * tags:
+ *   name: Notifications
+ *   description: The signed in user's notification inbox
+ */
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /notifications:
+ *   get:
+ *     summary: List your notifications
+ *     description: Newest first. Which notifications are created follows each user's notification settings; course updates such as new chapters are skipped when courseNotifications is off.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *         description: Only unread notifications
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Your notifications
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     unreadCount:
+ *                       type: integer
+ *                     notifications:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Notification'
+ *       400:
+ *         description: Invalid limit
+ */
+router.get("/", listNotifications);
+
+/**
+ * @swagger
+ * /notifications/read-all:
+ *   put:
+ *     summary: Mark all your notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked as read
+ */
+router.put("/read-all", markAllNotificationsRead);
+
+/**
+ * @swagger
+ * /notifications/{notificationId}/read:
+ *   put:
+ *     summary: Mark a notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: notificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: URL-encoded, as IDs contain a "#"
+ *     responses:
+ *       200:
+ *         description: The notification
+ *       404:
+ *         description: Notification not found
+ */
+router.put("/:notificationId/read", markNotificationRead);
+
+export default router;
@@ -0,0 +1,345 @@
+import express from "express";
+import {
+  createQuestionBank,
+  deleteQuestionBank,
+  getQuestionBank,
+  listQuestionBanks,
+  updateQuestionBank,
+  addBankQuestion,
+  updateBankQuestion,
+  deleteBankQuestion,
+} from "../controllers/questionBankController";
+import { requireOwner, requireRole } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Question Banks
+ *   description: Reusable questions that quizzes draw from
+ */
+
+/**
+ * @swagger
+ * /question-banks:
+ *   get:
+ *     summary: Get the signed-in teacher's question banks
+ *     tags: [Question Banks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: courseId
+ *         schema:
+ *           type: string
+ *         description: Only banks usable in this course (scoped to it or to no course)
+ *     responses:
+ *       200:
+ *         description: List of question banks
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Question banks retrieved successfully
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/QuestionBank'
+ */
+router.get("/", requireRole("teacher"), listQuestionBanks);
+
+/**
+ * @swagger
+ * /question-banks/{bankId}:
+ *   get:
+ *     summary: Get a question bank by ID
+ *     tags: [Question Banks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bankId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Question bank ID
+ *     responses:
+ *       200:
+ *         description: Question bank details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Question bank retrieved successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/QuestionBank'
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Question bank not found
+ */
+router.get(
+  "/:bankId",
+  requireRole("teacher"),
+  requireOwner("questionBank"),
+  getQuestionBank
+);
+
+/**
+ * @swagger
+ * /question-banks:
+ *   post:
+ *     summary: Create a new question bank
+ *     tags: [Question Banks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 description: Title of the question bank
+ *               description:
+ *                 type: string
+ *                 description: Description of the question bank
+ *               courseId:
+ *                 type: string
+ *                 description: Scope the bank to one of the teacher's courses
+ *               questions:
+ *                 type: array
+ *                 description: Initial questions
+ *                 items:
+ *                   $ref: '#/components/schemas/Question'
+ *     responses:
+ *       201:
+ *         description: Question bank created successfully
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Course not found
+ */
+router.post(
+  "/",
+  requireRole("teacher"),
+  requireOwner("course", (req) => req.body.courseId),
+  createQuestionBank
+);
+
+/**
+ * @swagger
+ * /question-banks/{bankId}:
+ *   put:
+ *     summary: Update a question bank
+ *     tags: [Question Banks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bankId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Question bank ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 description: Title of the question bank
+ *               description:
+ *                 type: string
+ *                 description: Description of the question bank
+ *               courseId:
+ *                 type: string
+ *                 description: Scope the bank to one of the teacher's courses, or an empty string for none
+ *               questions:
+ *                 type: array
+ *                 description: Replaces all questions in the bank
+ *                 items:
+ *                   $ref: '#/components/schemas/Question'
+ *     responses:
+ *       200:
+ *         description: Question bank updated successfully
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Question bank not found
+ */
+router.put(
+  "/:bankId",
+  requireRole("teacher"),
+  requireOwner("questionBank"),
+  requireOwner("course", (req) => req.body.courseId),
+  updateQuestionBank
+);
+
+/**
+ * @swagger
+ * /question-banks/{bankId}:
+ *   delete:
+ *     summary: Delete a question bank
+ *     tags: [Question Banks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bankId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Question bank ID
+ *     responses:
+ *       200:
+ *         description: Question bank deleted successfully
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Question bank not found
+ */
+router.delete(
+  "/:bankId",
+  requireRole("teacher"),
+  requireOwner("questionBank"),
+  deleteQuestionBank
+);
+
+/**
+ * @swagger
+ * /question-banks/{bankId}/questions:
+ *   post:
+ *     summary: Add a question to a question bank
+ *     tags: [Question Banks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bankId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Question bank ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Question'
+ *     responses:
+ *       201:
+ *         description: Question added successfully
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Question bank not found
+ */
+router.post(
+  "/:bankId/questions",
+  requireRole("teacher"),
+  requireOwner("questionBank"),
+  addBankQuestion
+);
+
+/**
+ * @swagger
+ * /question-banks/{bankId}/questions/{questionId}:
+ *   put:
+ *     summary: Update a question in a question bank
+ *     tags: [Question Banks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bankId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Question bank ID
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Question ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Question'
+ *     responses:
+ *       200:
+ *         description: Question updated successfully
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Question bank or question not found
+ */
+router.put(
+  "/:bankId/questions/:questionId",
+  requireRole("teacher"),
+  requireOwner("questionBank"),
+  updateBankQuestion
+);
+
+/**
+ * @swagger
+ * /question-banks/{bankId}/questions/{questionId}:
+ *   delete:
+ *     summary: Delete a question from a question bank
+ *     tags: [Question Banks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bankId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Question bank ID
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Question ID
+ *     responses:
+ *       200:
+ *         description: Question deleted successfully
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Question bank or question not found
+ */
+router.delete(
+  "/:bankId/questions/:questionId",
+  requireRole("teacher"),
+  requireOwner("questionBank"),
+  deleteBankQuestion
+);
+
+export default router;
@@ -0,0 +1,369 @@
+import express from "express";
+import {
+  createAnswer,
+  createQuestion,
+  deleteAnswer,
+  deleteQuestion,
+  getQuestion,
+  listQuestions,
+  setAcceptedAnswer,
+  toggleUpvote,
+  updateAnswer,
+  updateQuestion,
+} from "../controllers/questionBoardController";
+import { requireCourseMember } from "../middleware/authMiddleware";
+
+/**
+ * @swagger
+ * tags:
+ *   name: Q&A Board
+ *   description: Course-wide questions with upvoted and accepted answers
+ *
+ * components:
+ *   parameters:
+ *     boardCourseId:
+ *       in: path
+ *       name: courseId
+ *       required: true
+ *       schema:
+ *         type: string
+ *     boardQuestionId:
+ *       in: path
+ *       name: questionId
+ *       required: true
+ *       schema:
+ *         type: string
+ *     boardAnswerId:
+ *       in: path
+ *       name: answerId
+ *       required: true
+ *       schema:
+ *         type: string
+ */
+
+// Mounted under /courses/:courseId/questions
+const router = express.Router({ mergeParams: true });
+
+router.use(requireCourseMember());
+
+/**
+ * @swagger
+ * /courses/{courseId}/questions:
+ *   get:
+ *     summary: List a course's questions
+ *     description: Open to the course's teacher, students who can open the course, and admins. Newest questions come first.
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *       - in: query
+ *         name: sectionId
+ *         schema:
+ *           type: string
+ *         description: Only questions about this section
+ *       - in: query
+ *         name: chapterId
+ *         schema:
+ *           type: string
+ *         description: Only questions about this chapter
+ *       - in: query
+ *         name: unanswered
+ *         schema:
+ *           type: boolean
+ *         description: Only questions without any answers
+ *     responses:
+ *       200:
+ *         description: The course's questions, without their answers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     canModerate:
+ *                       type: boolean
+ *                     questions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CourseQuestion'
+ *       403:
+ *         description: Not a member of the course
+ *       404:
+ *         description: Course not found
+ *   post:
+ *     summary: Ask a question
+ *     description: Records a Question discussion activity for the asker.
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 maxLength: 200
+ *               body:
+ *                 type: string
+ *                 maxLength: 10000
+ *               sectionId:
+ *                 type: string
+ *               chapterId:
+ *                 type: string
+ *                 description: Requires sectionId
+ *     responses:
+ *       201:
+ *         description: Question posted
+ *       400:
+ *         description: Missing or too long text, or a section or chapter that is not in the course
+ *       403:
+ *         description: Not a member of the course
+ */
+router.get("/", listQuestions);
+router.post("/", createQuestion);
+
+/**
+ * @swagger
+ * /courses/{courseId}/questions/{questionId}:
+ *   get:
+ *     summary: Get a question with its answers
+ *     description: The accepted answer comes first, then the most upvoted.
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *       - $ref: '#/components/parameters/boardQuestionId'
+ *     responses:
+ *       200:
+ *         description: The question
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/CourseQuestion'
+ *       404:
+ *         description: Question not found
+ *   put:
+ *     summary: Edit one of your own questions
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *       - $ref: '#/components/parameters/boardQuestionId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *             properties:
+ *               title:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Question updated
+ *       400:
+ *         description: Missing or too long text
+ *       403:
+ *         description: Not the asker
+ *       404:
+ *         description: Question not found
+ *   delete:
+ *     summary: Delete a question and its answers
+ *     description: Askers can delete their question until it is answered. The course's teacher can delete any question.
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *       - $ref: '#/components/parameters/boardQuestionId'
+ *     responses:
+ *       200:
+ *         description: Question deleted
+ *       400:
+ *         description: The question has answers
+ *       403:
+ *         description: Not the asker or the course's teacher
+ *       404:
+ *         description: Question not found
+ */
+router.get("/:questionId", getQuestion);
+router.put("/:questionId", updateQuestion);
+router.delete("/:questionId", deleteQuestion);
+
+/**
+ * @swagger
+ * /courses/{courseId}/questions/{questionId}/accepted-answer:
+ *   put:
+ *     summary: Accept an answer
+ *     description: Only the asker and the course's teacher can accept an answer. A null answerId clears it.
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *       - $ref: '#/components/parameters/boardQuestionId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - answerId
+ *             properties:
+ *               answerId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: The question with its accepted answer
+ *       403:
+ *         description: Not the asker or the course's teacher
+ *       404:
+ *         description: Question or answer not found
+ */
+router.put("/:questionId/accepted-answer", setAcceptedAnswer);
+
+/**
+ * @swagger
+ * /courses/{courseId}/questions/{questionId}/answers:
+ *   post:
+ *     summary: Answer a question
+ *     description: Records an Answer discussion activity for the author.
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *       - $ref: '#/components/parameters/boardQuestionId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 maxLength: 10000
+ *     responses:
+ *       201:
+ *         description: Answer posted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/CourseAnswer'
+ *       400:
+ *         description: Missing or too long text
+ *       404:
+ *         description: Question not found
+ */
+router.post("/:questionId/answers", createAnswer);
+
+/**
+ * @swagger
+ * /courses/{courseId}/questions/{questionId}/answers/{answerId}:
+ *   put:
+ *     summary: Edit one of your own answers
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *       - $ref: '#/components/parameters/boardQuestionId'
+ *       - $ref: '#/components/parameters/boardAnswerId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Answer updated
+ *       400:
+ *         description: Missing or too long text
+ *       403:
+ *         description: Not the author
+ *       404:
+ *         description: Question or answer not found
+ *   delete:
+ *     summary: Delete an answer
+ *     description: Authors can delete their own answers, the course's teacher any answer.
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *       - $ref: '#/components/parameters/boardQuestionId'
+ *       - $ref: '#/components/parameters/boardAnswerId'
+ *     responses:
+ *       200:
+ *         description: Answer deleted
+ *       403:
+ *         description: Not the author or the course's teacher
+ *       404:
+ *         description: Question or answer not found
+ */
+router.put("/:questionId/answers/:answerId", updateAnswer);
+router.delete("/:questionId/answers/:answerId", deleteAnswer);
+
+/**
+ * @swagger
+ * /courses/{courseId}/questions/{questionId}/answers/{answerId}/upvote:
+ *   post:
+ *     summary: Upvote an answer or take the upvote back
+ *     description: Toggles the signed in user's upvote. Adding one records an Upvote discussion activity.
+ *     tags: [Q&A Board]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/boardCourseId'
+ *       - $ref: '#/components/parameters/boardQuestionId'
+ *       - $ref: '#/components/parameters/boardAnswerId'
+ *     responses:
+ *       200:
+ *         description: The answer with its updated upvotes
+ *       400:
+ *         description: Upvoting your own answer
+ *       404:
+ *         description: Question or answer not found
+ */
+router.post("/:questionId/answers/:answerId/upvote", toggleUpvote);
+
+export default router;
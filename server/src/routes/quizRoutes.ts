@@ -8,8 +8,20 @@ import {
   addQuestion,
   updateQuestion,
   deleteQuestion,
+  exportQuiz,
+  importQuiz,
 } from "../controllers/quizController";
+import {
+  getQuizAnalytics,
+  getQuizAttempt,
+  gradeEssayAnswer,
+  listGradingQueue,
+  saveQuizAnswers,
+  startQuizAttempt,
+  submitQuiz,
+} from "../controllers/quizAttemptController";
 import { requireAuth } from "@clerk/express";
+import { requireOwner, requireRole } from "../middleware/authMiddleware";
 
 const router = express.Router();
 
@@ -50,11 +62,76 @@ const router = express.Router();
  */
 router.get("/", listQuizzes);
 
+/**
+ * @swagger
+ * /quizzes/grading-queue:
+ *   get:
+ *     summary: List essay answers waiting to be graded in a course
+ *     tags: [Quizzes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Course ID
+ *     responses:
+ *       200:
+ *         description: Ungraded essay answers, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Grading queue retrieved successfully
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       attemptId:
+ *                         type: string
+ *                       quizId:
+ *                         type: string
+ *                       quizTitle:
+ *                         type: string
+ *                       userId:
+ *                         type: string
+ *                       questionId:
+ *                         type: string
+ *                       questionText:
+ *                         type: string
+ *                       points:
+ *                         type: number
+ *                       textAnswer:
+ *                         type: string
+ *                       submittedAt:
+ *                         type: string
+ *                         format: date-time
+ *       400:
+ *         description: Course ID is required
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Course not found
+ */
+router.get(
+  "/grading-queue",
+  requireRole("teacher"),
+  requireOwner("course", (req) => req.query.courseId),
+  listGradingQueue
+);
+
 /**
  * @swagger
  * /quizzes/{quizId}:
  *   get:
  *     summary: Get a quiz by ID
+ *     description: Teachers who own the course receive the full quiz. Everyone else receives a student view without correct answers or explanations.
  *     tags: [Quizzes]
  *     parameters:
  *       - in: path
@@ -117,6 +194,24 @@ router.get("/:quizId", getQuiz);
  *               shuffleQuestions:
  *                 type: boolean
  *                 description: Whether to shuffle questions for each attempt
+ *               shuffleOptions:
+ *                 type: boolean
+ *                 description: Whether to shuffle answer options for each attempt
+ *               maxAttempts:
+ *                 type: number
+ *                 description: Maximum attempts per student (0 means unlimited)
+ *               cooldownMinutes:
+ *                 type: number
+ *                 description: Minutes a student must wait between attempts
+ *               scoringPolicy:
+ *                 type: string
+ *                 enum: [Best, Latest, Average]
+ *                 description: Which attempts count toward the student's quiz score
+ *               questionPools:
+ *                 type: array
+ *                 description: Draw questions at random from the teacher's question banks for each attempt
+ *                 items:
+ *                   $ref: '#/components/schemas/QuestionPool'
  *     responses:
  *       201:
  *         description: Quiz created successfully
@@ -127,7 +222,12 @@ router.get("/:quizId", getQuiz);
  *       404:
  *         description: Course not found
  */
-router.post("/", requireAuth(), createQuiz);
+router.post(
+  "/",
+  requireRole("teacher"),
+  requireOwner("course", (req) => req.body.courseId),
+  createQuiz
+);
 
 /**
  * @swagger
@@ -166,6 +266,24 @@ router.post("/", requireAuth(), createQuiz);
  *               shuffleQuestions:
  *                 type: boolean
  *                 description: Whether to shuffle questions for each attempt
+ *               shuffleOptions:
+ *                 type: boolean
+ *                 description: Whether to shuffle answer options for each attempt
+ *               maxAttempts:
+ *                 type: number
+ *                 description: Maximum attempts per student (0 means unlimited)
+ *               cooldownMinutes:
+ *                 type: number
+ *                 description: Minutes a student must wait between attempts
+ *               scoringPolicy:
+ *                 type: string
+ *                 enum: [Best, Latest, Average]
+ *                 description: Which attempts count toward the student's quiz score
+ *               questionPools:
+ *                 type: array
+ *                 description: Draw questions at random from the teacher's question banks for each attempt
+ *                 items:
+ *                   $ref: '#/components/schemas/QuestionPool'
  *               questions:
  *                 type: array
  *                 description: List of questions
@@ -181,7 +299,12 @@ router.post("/", requireAuth(), createQuiz);
  *       404:
  *         description: Quiz not found
  */
-router.put("/:quizId", requireAuth(), updateQuiz);
+router.put(
+  "/:quizId",
+  requireRole("teacher"),
+  requireOwner("quiz"),
+  updateQuiz
+);
 
 /**
  * @swagger
@@ -205,8 +328,155 @@ router.put("/:quizId", requireAuth(), updateQuiz);
  *         description: Not authorized
  *       404:
  *         description: Quiz not found
+ *       409:
+ *         description: A quiz chapter still links to the quiz
+ */
+router.delete(
+  "/:quizId",
+  requireRole("teacher"),
+  requireOwner("quiz"),
+  deleteQuiz
+);
+
+/**
+ * @swagger
+ * /quizzes/{quizId}/export:
+ *   get:
+ *     summary: Export a quiz's settings and questions as GIFT or QTI 2.1
+ *     tags: [Quizzes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: quizId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Quiz ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [gift, qti]
+ *           default: gift
+ *         description: File format to export
+ *     responses:
+ *       200:
+ *         description: Exported file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     filename:
+ *                       type: string
+ *                     contentType:
+ *                       type: string
+ *                     content:
+ *                       type: string
+ *       400:
+ *         description: Unknown format
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Quiz not found
+ */
+router.get(
+  "/:quizId/export",
+  requireRole("teacher"),
+  requireOwner("quiz"),
+  exportQuiz
+);
+
+/**
+ * @swagger
+ * /quizzes/{quizId}/analytics:
+ *   get:
+ *     summary: Per-question item analysis for a quiz
+ *     description: For each question, the share of correct answers, how often each option was chosen, average time spent and a discrimination index comparing the top and bottom 27% of attempts. Questions that look too hard or broken are flagged.
+ *     tags: [Quizzes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: quizId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Quiz ID
+ *     responses:
+ *       200:
+ *         description: Quiz analytics
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Quiz not found
  */
-router.delete("/:quizId", requireAuth(), deleteQuiz);
+router.get(
+  "/:quizId/analytics",
+  requireRole("teacher"),
+  requireOwner("quiz"),
+  getQuizAnalytics
+);
+
+/**
+ * @swagger
+ * /quizzes/{quizId}/import:
+ *   post:
+ *     summary: Import questions into a quiz from GIFT or QTI 2.1
+ *     tags: [Quizzes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: quizId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Quiz ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - format
+ *               - content
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [gift, qti]
+ *               content:
+ *                 type: string
+ *                 description: Text of the file to import
+ *               preview:
+ *                 type: boolean
+ *                 description: Only parse and validate the file, without saving
+ *               replace:
+ *                 type: boolean
+ *                 description: Replace the quiz's questions and settings instead of appending questions
+ *     responses:
+ *       200:
+ *         description: Questions imported, or the preview with its settings, questions and line-level errors
+ *       400:
+ *         description: The file has errors or no questions
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Quiz not found
+ */
+router.post(
+  "/:quizId/import",
+  requireRole("teacher"),
+  requireOwner("quiz"),
+  importQuiz
+);
 
 /**
  * @swagger
@@ -238,13 +508,18 @@ router.delete("/:quizId", requireAuth(), deleteQuiz);
  *                 description: Question text
  *               type:
  *                 type: string
- *                 enum: [MultipleChoice, Essay]
+ *                 enum: [MultipleChoice, MultipleSelect, TrueFalse, ShortAnswer, Ordering, Matching, Essay]
  *                 description: Type of question
  *               options:
  *                 type: array
- *                 description: Options for multiple-choice questions
+ *                 description: Options for choice, ordering and matching questions. Ordering questions list options in the correct order; matching options each need a match.
  *                 items:
  *                   $ref: '#/components/schemas/Option'
+ *               acceptedAnswers:
+ *                 type: array
+ *                 description: Accepted answers for short-answer questions
+ *                 items:
+ *                   type: string
  *               points:
  *                 type: number
  *                 description: Points assigned to this question
@@ -261,7 +536,12 @@ router.delete("/:quizId", requireAuth(), deleteQuiz);
  *       404:
  *         description: Quiz not found
  */
-router.post("/:quizId/questions", requireAuth(), addQuestion);
+router.post(
+  "/:quizId/questions",
+  requireRole("teacher"),
+  requireOwner("quiz"),
+  addQuestion
+);
 
 /**
  * @swagger
@@ -296,13 +576,18 @@ router.post("/:quizId/questions", requireAuth(), addQuestion);
  *                 description: Question text
  *               type:
  *                 type: string
- *                 enum: [MultipleChoice, Essay]
+ *                 enum: [MultipleChoice, MultipleSelect, TrueFalse, ShortAnswer, Ordering, Matching, Essay]
  *                 description: Type of question
  *               options:
  *                 type: array
- *                 description: Options for multiple-choice questions
+ *                 description: Options for choice, ordering and matching questions. Ordering questions list options in the correct order; matching options each need a match.
  *                 items:
  *                   $ref: '#/components/schemas/Option'
+ *               acceptedAnswers:
+ *                 type: array
+ *                 description: Accepted answers for short-answer questions
+ *                 items:
+ *                   type: string
  *               points:
  *                 type: number
  *                 description: Points assigned to this question
@@ -319,7 +604,12 @@ router.post("/:quizId/questions", requireAuth(), addQuestion);
  *       404:
  *         description: Quiz or question not found
  */
-router.put("/:quizId/questions/:questionId", requireAuth(), updateQuestion);
+router.put(
+  "/:quizId/questions/:questionId",
+  requireRole("teacher"),
+  requireOwner("quiz"),
+  updateQuestion
+);
 
 /**
  * @swagger
@@ -350,6 +640,330 @@ router.put("/:quizId/questions/:questionId", requireAuth(), updateQuestion);
  *       404:
  *         description: Quiz or question not found
  */
-router.delete("/:quizId/questions/:questionId", requireAuth(), deleteQuestion);
+router.delete(
+  "/:quizId/questions/:questionId",
+  requireRole("teacher"),
+  requireOwner("quiz"),
+  deleteQuestion
+);
+
+/**
+ * @swagger
+ * /quizzes/{quizId}/attempts:
+ *   post:
+ *     summary: Start or resume a quiz attempt
+ *     description: Returns the quiz without answer keys, with questions and options in the order delivered for this attempt. Timed quizzes get a server deadline (expiresAt); an expired unfinished attempt is submitted automatically before a new one starts. New attempts are subject to the quiz's maxAttempts and cooldownMinutes.
+ *     tags: [Quizzes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: quizId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Quiz ID
+ *     responses:
+ *       200:
+ *         description: Unfinished attempt resumed
+ *       201:
+ *         description: Quiz attempt started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Quiz attempt started
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attempt:
+ *                       $ref: '#/components/schemas/QuizAttemptSession'
+ *                     quiz:
+ *                       $ref: '#/components/schemas/Quiz'
+ *                     serverTime:
+ *                       type: string
+ *                       format: date-time
+ *                       description: Current server time, for countdown clocks
+ *       403:
+ *         description: Not enrolled in the course, or no attempts left
+ *       404:
+ *         description: Quiz not found
+ *       429:
+ *         description: Cooldown between attempts has not passed (see retryAt)
+ */
+router.post("/:quizId/attempts", requireAuth(), startQuizAttempt);
+
+/**
+ * @swagger
+ * /quizzes/{quizId}/attempts/{attemptId}:
+ *   get:
+ *     summary: Get a quiz attempt with its delivered question order
+ *     tags: [Quizzes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: quizId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Quiz ID
+ *       - in: path
+ *         name: attemptId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Attempt ID
+ *     responses:
+ *       200:
+ *         description: Quiz attempt details
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Quiz or attempt not found
+ */
+router.get("/:quizId/attempts/:attemptId", requireAuth(), getQuizAttempt);
+
+/**
+ * @swagger
+ * /quizzes/{quizId}/attempts/{attemptId}/answers:
+ *   put:
+ *     summary: Save answers for an in-progress attempt
+ *     description: Answers are merged per question. Once the time limit has passed, the attempt is submitted with the previously saved answers and new answers are rejected.
+ *     tags: [Quizzes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: quizId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Quiz ID
+ *       - in: path
+ *         name: attemptId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Attempt ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - answers
+ *             properties:
+ *               answers:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/SavedAnswer'
+ *     responses:
+ *       200:
+ *         description: Answers saved
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Quiz or attempt not found
+ *       409:
+ *         description: Attempt already submitted or time limit reached
+ */
+router.put(
+  "/:quizId/attempts/:attemptId/answers",
+  requireAuth(),
+  saveQuizAnswers
+);
+
+/**
+ * @swagger
+ * /quizzes/{quizId}/attempts/{attemptId}/answers/{questionId}/grade:
+ *   put:
+ *     summary: Grade an essay answer
+ *     description: Awards partial or full points with written feedback. Once every essay in the attempt is graded, its score and pass/fail are recomputed.
+ *     tags: [Quizzes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: quizId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Quiz ID
+ *       - in: path
+ *         name: attemptId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Attempt ID
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Question ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - points
+ *             properties:
+ *               points:
+ *                 type: number
+ *                 description: Points to award, up to the question's points
+ *               feedback:
+ *                 type: string
+ *                 description: Written feedback for the student
+ *     responses:
+ *       200:
+ *         description: Essay graded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Essay graded successfully
+ *                 data:
+ *                   $ref: '#/components/schemas/QuizAttemptSession'
+ *       400:
+ *         description: Invalid points
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Quiz, attempt or essay answer not found
+ *       409:
+ *         description: Attempt not submitted yet
+ */
+router.put(
+  "/:quizId/attempts/:attemptId/answers/:questionId/grade",
+  requireRole("teacher"),
+  requireOwner("quiz"),
+  gradeEssayAnswer
+);
+
+/**
+ * @swagger
+ * /quizzes/{quizId}/submissions:
+ *   post:
+ *     summary: Submit answers for grading
+ *     description: Answers are graded on the server and the time taken is measured by the server. If the time limit has passed, the answers saved before the deadline are graded instead. Per-question correctness and explanations are only returned after submission.
+ *     tags: [Quizzes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: quizId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Quiz ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - attemptId
+ *               - answers
+ *             properties:
+ *               attemptId:
+ *                 type: string
+ *                 description: ID of the attempt being submitted
+ *               answers:
+ *                 type: array
+ *                 description: Answers per question
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - questionId
+ *                   properties:
+ *                     questionId:
+ *                       type: string
+ *                     selectedOptionIds:
+ *                       type: array
+ *                       description: Selected option IDs, or every option ID in the chosen order for ordering questions
+ *                       items:
+ *                         type: string
+ *                     textAnswer:
+ *                       type: string
+ *                       description: Written response for short-answer and essay questions
+ *                     matches:
+ *                       type: array
+ *                       description: Chosen pairs for matching questions
+ *                       items:
+ *                         $ref: '#/components/schemas/MatchPair'
+ *     responses:
+ *       201:
+ *         description: Quiz submitted and graded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Quiz submitted successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attempt:
+ *                       $ref: '#/components/schemas/QuizAttempt'
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           questionId:
+ *                             type: string
+ *                           selectedOptionIds:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                           isCorrect:
+ *                             type: boolean
+ *                           pointsAwarded:
+ *                             type: number
+ *                           points:
+ *                             type: number
+ *                           correctOptionIds:
+ *                             type: array
+ *                             description: Correct option IDs, in the correct order for ordering questions
+ *                             items:
+ *                               type: string
+ *                           correctMatches:
+ *                             type: array
+ *                             items:
+ *                               $ref: '#/components/schemas/MatchPair'
+ *                           acceptedAnswers:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                           pendingReview:
+ *                             type: boolean
+ *                             description: Essay waiting for a teacher to grade it
+ *                           correctAnswerExplanation:
+ *                             type: string
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Quiz or attempt not found
+ *       409:
+ *         description: Attempt already submitted
+ */
+router.post("/:quizId/submissions", requireAuth(), submitQuiz);
 
 export default router;
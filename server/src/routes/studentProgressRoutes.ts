@@ -2,10 +2,14 @@ import express from "express";
 import {
   getStudentProgress,
   recordLessonAccess,
-  recordQuizAttempt,
   recordDiscussionActivity,
   getStudentStatistics,
+  recordHeartbeat,
+  getEngagement,
+  updateWeeklyGoal,
+  clearWeeklyGoal,
 } from "../controllers/studentProgressController";
+import { requireSelf } from "../middleware/authMiddleware";
 
 /**
  * @swagger
@@ -48,7 +52,7 @@ const router = express.Router();
  *       500:
  *         description: Server error
  */
-router.get("/:userId", getStudentProgress);
+router.get("/:userId", requireSelf(), getStudentProgress);
 
 /**
  * @swagger
@@ -92,61 +96,14 @@ router.get("/:userId", getStudentProgress);
  *       500:
  *         description: Server error
  */
-router.post("/:userId/lesson-access", recordLessonAccess);
-
-/**
- * @swagger
- * /api/progress/{userId}/quiz-attempt:
- *   post:
- *     summary: Record a quiz attempt
- *     tags: [Student Progress]
- *     security:
- *       - clerkAuth: []
- *     parameters:
- *       - in: path
- *         name: userId
- *         required: true
- *         schema:
- *           type: string
- *         description: The ID of the student
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - quizId
- *               - courseId
- *               - score
- *             properties:
- *               quizId:
- *                 type: string
- *               courseId:
- *                 type: string
- *               score:
- *                 type: number
- *               timeTaken:
- *                 type: number
- *               completed:
- *                 type: boolean
- *     responses:
- *       200:
- *         description: Quiz attempt recorded successfully
- *       400:
- *         description: Missing required fields
- *       403:
- *         description: Access denied
- *       500:
- *         description: Server error
- */
-router.post("/:userId/quiz-attempt", recordQuizAttempt);
+router.post("/:userId/lesson-access", requireSelf(), recordLessonAccess);
 
 /**
  * @swagger
  * /api/progress/{userId}/discussion-activity:
  *   post:
  *     summary: Record a discussion activity
+ *     description: Posting and reacting through the chapter comment routes, and asking, answering and upvoting on the course Q&A board, record this automatically.
  *     tags: [Student Progress]
  *     security:
  *       - clerkAuth: []
@@ -175,9 +132,13 @@ router.post("/:userId/quiz-attempt", recordQuizAttempt);
  *                 type: string
  *               activityType:
  *                 type: string
- *                 enum: [Comment, Reply, Reaction]
+ *                 enum: [Comment, Reply, Reaction, Question, Answer, Upvote]
  *               commentId:
  *                 type: string
+ *               questionId:
+ *                 type: string
+ *               answerId:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Discussion activity recorded successfully
@@ -188,7 +149,11 @@ router.post("/:userId/quiz-attempt", recordQuizAttempt);
  *       500:
  *         description: Server error
  */
-router.post("/:userId/discussion-activity", recordDiscussionActivity);
+router.post(
+  "/:userId/discussion-activity",
+  requireSelf(),
+  recordDiscussionActivity
+);
 
 /**
  * @swagger
@@ -228,6 +193,28 @@ router.post("/:userId/discussion-activity", recordDiscussionActivity);
  *                       type: integer
  *                     averageQuizScore:
  *                       type: number
+ *                       description: Average of each quiz's counted score under its scoring policy
+ *                     quizzesPassed:
+ *                       type: integer
+ *                     quizResults:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           quizId:
+ *                             type: string
+ *                           scoringPolicy:
+ *                             type: string
+ *                             enum: [Best, Latest, Average]
+ *                           attempts:
+ *                             type: integer
+ *                           score:
+ *                             type: number
+ *                           passed:
+ *                             type: boolean
+ *                           lastAttemptAt:
+ *                             type: string
+ *                             format: date-time
  *                     totalDiscussionActivities:
  *                       type: integer
  *                     discussionBreakdown:
@@ -239,6 +226,12 @@ router.post("/:userId/discussion-activity", recordDiscussionActivity);
  *                           type: integer
  *                         reactions:
  *                           type: integer
+ *                         questions:
+ *                           type: integer
+ *                         answers:
+ *                           type: integer
+ *                         upvotes:
+ *                           type: integer
  *                     mostAccessedCourses:
  *                       type: array
  *                       items:
@@ -258,6 +251,216 @@ router.post("/:userId/discussion-activity", recordDiscussionActivity);
  *       500:
  *         description: Server error
  */
-router.get("/:userId/statistics", getStudentStatistics);
+router.get("/:userId/statistics", requireSelf(), getStudentStatistics);
+
+/**
+ * @swagger
+ * /api/progress/{userId}/heartbeat:
+ *   post:
+ *     summary: Record time on task from a chapter page
+ *     description: Sent about every 30 seconds while a chapter page is visible. At most 60 seconds of learning and 120 seconds of video count per heartbeat.
+ *     tags: [Student Progress]
+ *     security:
+ *       - clerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the student
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - seconds
+ *             properties:
+ *               seconds:
+ *                 type: number
+ *                 description: Seconds since the previous heartbeat
+ *               videoSeconds:
+ *                 type: number
+ *                 description: Seconds of video watched since the previous heartbeat
+ *               timeZone:
+ *                 type: string
+ *                 description: IANA time zone of the student, e.g. Europe/Berlin
+ *     responses:
+ *       200:
+ *         description: The student's totals for today
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/DailyActivity'
+ *       400:
+ *         description: Invalid seconds
+ *       403:
+ *         description: Access denied
+ *       500:
+ *         description: Server error
+ */
+router.post("/:userId/heartbeat", requireSelf(), recordHeartbeat);
+
+/**
+ * @swagger
+ * /api/progress/{userId}/engagement:
+ *   get:
+ *     summary: Get a student's learning streak, weekly goal progress and daily activity
+ *     description: Days and weeks are counted in the student's time zone. Weeks start on Monday. The heatmap covers the last 12 weeks.
+ *     tags: [Student Progress]
+ *     security:
+ *       - clerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the student
+ *     responses:
+ *       200:
+ *         description: Engagement retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/Engagement'
+ *       403:
+ *         description: Access denied
+ *       500:
+ *         description: Server error
+ *
+ * components:
+ *   schemas:
+ *     Engagement:
+ *       type: object
+ *       properties:
+ *         timeZone:
+ *           type: string
+ *         today:
+ *           type: string
+ *           format: date
+ *         streak:
+ *           type: object
+ *           properties:
+ *             current:
+ *               type: integer
+ *               description: Consecutive active days up to today, or up to yesterday when today has no activity yet
+ *             longest:
+ *               type: integer
+ *             activeToday:
+ *               type: boolean
+ *         week:
+ *           type: object
+ *           properties:
+ *             start:
+ *               type: string
+ *               format: date
+ *             minutes:
+ *               type: integer
+ *             videoMinutes:
+ *               type: integer
+ *             chapters:
+ *               type: integer
+ *         goal:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             type:
+ *               type: string
+ *               enum: [Minutes, Chapters]
+ *             target:
+ *               type: integer
+ *             progress:
+ *               type: integer
+ *             percent:
+ *               type: integer
+ *             achieved:
+ *               type: boolean
+ *         heatmap:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               minutes:
+ *                 type: integer
+ *               chapters:
+ *                 type: integer
+ *               future:
+ *                 type: boolean
+ */
+router.get("/:userId/engagement", requireSelf(), getEngagement);
+
+/**
+ * @swagger
+ * /api/progress/{userId}/weekly-goal:
+ *   put:
+ *     summary: Set a student's weekly goal
+ *     tags: [Student Progress]
+ *     security:
+ *       - clerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the student
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/WeeklyGoal'
+ *               - type: object
+ *                 properties:
+ *                   timeZone:
+ *                     type: string
+ *     responses:
+ *       200:
+ *         description: Weekly goal updated, with the updated engagement
+ *       400:
+ *         description: Invalid goal type or target
+ *       403:
+ *         description: Access denied
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Remove a student's weekly goal
+ *     tags: [Student Progress]
+ *     security:
+ *       - clerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the student
+ *     responses:
+ *       200:
+ *         description: Weekly goal removed, with the updated engagement
+ *       403:
+ *         description: Access denied
+ *       500:
+ *         description: Server error
+ */
+router.put("/:userId/weekly-goal", requireSelf(), updateWeeklyGoal);
+router.delete("/:userId/weekly-goal", requireSelf(), clearWeeklyGoal);
 
 export default router;
@@ -0,0 +1,136 @@
+import express from "express";
+import {
+  listMyTeacherApplications,
+  listTeacherApplications,
+  reviewTeacherApplication,
+  submitTeacherApplication,
+} from "../controllers/teacherApplicationController";
+import { requireRole } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Teacher Applications
+ *   description: Students applying for the teacher role and admins reviewing them
+ */
+
+/**
+ * @swagger
+ * /teacher-applications:
+ *   post:
+ *     summary: Apply for the teacher role
+ *     tags: [Teacher Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - motivation
+ *             properties:
+ *               motivation:
+ *                 type: string
+ *               experience:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Application submitted
+ *       400:
+ *         description: Already a teacher or already has a pending application
+ */
+router.post("/", submitTeacherApplication);
+
+/**
+ * @swagger
+ * /teacher-applications/mine:
+ *   get:
+ *     summary: Get the signed-in user's teacher applications
+ *     tags: [Teacher Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Applications, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TeacherApplication'
+ */
+router.get("/mine", listMyTeacherApplications);
+
+/**
+ * @swagger
+ * /teacher-applications:
+ *   get:
+ *     summary: Get teacher applications to review
+ *     tags: [Teacher Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [Pending, Approved, Rejected]
+ *           default: Pending
+ *     responses:
+ *       200:
+ *         description: Applications, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TeacherApplication'
+ *       403:
+ *         description: Admin role required
+ */
+router.get("/", requireRole("admin"), listTeacherApplications);
+
+/**
+ * @swagger
+ * /teacher-applications/{applicationId}:
+ *   put:
+ *     summary: Approve or reject a teacher application
+ *     description: Approving grants the teacher role and records a RoleChange.
+ *     tags: [Teacher Applications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: applicationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [Approved, Rejected]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Application reviewed
+ *       403:
+ *         description: Admin role required
+ *       404:
+ *         description: Application not found
+ */
+router.put("/:applicationId", requireRole("admin"), reviewTeacherApplication);
+
+export default router;
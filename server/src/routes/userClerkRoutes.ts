@@ -1,8 +1,102 @@
 import express from "express";
-import { updateUser } from "../controllers/userClerkController";
+import {
+  changeUserRole,
+  listRoleChanges,
+  updateUser,
+} from "../controllers/userClerkController";
+import { requireRole, requireSelf } from "../middleware/authMiddleware";
 
 const router = express.Router();
 
-router.put("/:userId", updateUser);
+/**
+ * @swagger
+ * /users/clerk/{userId}:
+ *   put:
+ *     summary: Update the signed-in user's settings
+ *     description: Roles cannot be changed here. Students apply through /teacher-applications and admins use the role endpoint.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: User updated successfully
+ *       403:
+ *         description: Not the signed-in user, or the body tries to change the role
+ */
+router.put("/:userId", requireSelf(), updateUser);
+
+/**
+ * @swagger
+ * /users/clerk/{userId}/role:
+ *   put:
+ *     summary: Change a user's role
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [student, teacher, admin]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Role changed and recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RoleChange'
+ *       403:
+ *         description: Admin role required
+ */
+router.put("/:userId/role", requireRole("admin"), changeUserRole);
+
+/**
+ * @swagger
+ * /users/clerk/{userId}/role-changes:
+ *   get:
+ *     summary: Get the audit trail of a user's role changes
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role changes, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/RoleChange'
+ *       403:
+ *         description: Admin role required
+ */
+router.get("/:userId/role-changes", requireRole("admin"), listRoleChanges);
 
 export default router;
@@ -4,11 +4,22 @@ import {
   getUserEnrolledCourses,
   updateUserCourseProgress,
 } from "../controllers/userCourseProgressController";
+import { requireCourseAccess, requireSelf } from "../middleware/authMiddleware";
 
 const router = express.Router();
 
-router.get("/:userId/enrolled-courses", getUserEnrolledCourses);
-router.get("/:userId/courses/:courseId", getUserCourseProgress);
-router.put("/:userId/courses/:courseId", updateUserCourseProgress);
+router.get("/:userId/enrolled-courses", requireSelf(), getUserEnrolledCourses);
+router.get(
+  "/:userId/courses/:courseId",
+  requireSelf(),
+  requireCourseAccess(),
+  getUserCourseProgress
+);
+router.put(
+  "/:userId/courses/:courseId",
+  requireSelf(),
+  requireCourseAccess(),
+  updateUserCourseProgress
+);
 
 export default router;
@@ -0,0 +1,88 @@
+import express from "express";
+import { getStatements } from "../controllers/xapiController";
+import { requireRole } from "../middleware/authMiddleware";
+
+/**
+ * @swagger
+ * tags:
+ *   name: xAPI
+ *   description: Learning activity recorded as xAPI statements
+ */
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /xapi/statements:
+ *   get:
+ *     summary: Query stored xAPI statements
+ *     description: A minimal read-only version of the LRS statements resource, for checking statements without an external LRS. Returns a single statement when statementId is given, otherwise a StatementResult, newest first.
+ *     tags: [xAPI]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: statementId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: agent
+ *         schema:
+ *           type: string
+ *         description: 'Agent JSON, e.g. {"account":{"name":"user_123"}}'
+ *       - in: query
+ *         name: verb
+ *         schema:
+ *           type: string
+ *         description: Verb IRI
+ *       - in: query
+ *         name: activity
+ *         schema:
+ *           type: string
+ *         description: Activity IRI of the statement object
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: until
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 500
+ *       - in: query
+ *         name: ascending
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Matching statements
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 statements:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/XapiStatement'
+ *                 more:
+ *                   type: string
+ *       400:
+ *         description: Invalid agent filter
+ *       403:
+ *         description: Admins only
+ *       404:
+ *         description: Statement not found
+ *       500:
+ *         description: Server error
+ */
+router.get("/statements", requireRole("admin"), getStatements);
+
+export default router;
@@ -0,0 +1,153 @@
+import {
+  AttributeValue,
+  DynamoDBClient,
+  ScanCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import dynamoose from "dynamoose";
+import ActivityEvent from "../models/activityEventModel";
+import dotenv from "dotenv";
+
+dotenv.config();
+let client: DynamoDBClient;
+
+/* DynamoDB Configuration */
+const isProduction = process.env.NODE_ENV === "production";
+
+if (!isProduction) {
+  dynamoose.aws.ddb.local();
+  client = new DynamoDBClient({
+    endpoint: "http://localhost:8000",
+    region: "us-east-2",
+    credentials: {
+      accessKeyId: "dummyKey123",
+      secretAccessKey: "dummyKey123",
+    },
+  });
+} else {
+  client = new DynamoDBClient({
+    region: process.env.AWS_REGION || "us-east-2",
+  });
+}
+
+const STUDENT_PROGRESS_TABLE = "StudentProgress";
+
+// The StudentProgress schema no longer has the history arrays, so the old
+// attributes are read and removed with the plain DynamoDB client
+async function scanStudentProgress() {
+  const records: Record<string, AttributeValue>[] = [];
+  let lastKey: Record<string, AttributeValue> | undefined;
+
+  do {
+    const page = await client.send(
+      new ScanCommand({
+        TableName: STUDENT_PROGRESS_TABLE,
+        ProjectionExpression:
+          "userId, lessonAccessHistory, quizAttempts, discussionActivities",
+        ExclusiveStartKey: lastKey,
+      })
+    );
+    records.push(...(page.Items || []));
+    lastKey = page.LastEvaluatedKey;
+  } while (lastKey);
+
+  return records;
+}
+
+// Event ids are derived from the old array positions, so events that already
+// exist are left alone and the script can be re-run
+async function createEvent(item: any) {
+  try {
+    await ActivityEvent.create(item);
+    return true;
+  } catch (error: any) {
+    if (error.name === "ConditionalCheckFailedException") return false;
+    throw error;
+  }
+}
+
+const toEvents = (userId: string, progress: any) => [
+  ...(progress.lessonAccessHistory || []).map((access: any, index: number) => ({
+    userId,
+    eventId: `${access.accessTimestamp}#lesson-${index}`,
+    type: "LessonAccess",
+    courseId: access.courseId,
+    timestamp: access.accessTimestamp,
+    sectionId: access.sectionId,
+    chapterId: access.chapterId,
+  })),
+  ...(progress.quizAttempts || []).map((attempt: any, index: number) => ({
+    userId,
+    eventId: `${attempt.attemptTimestamp}#${
+      attempt.attemptId || `quiz-${index}`
+    }`,
+    type: "QuizAttempt",
+    courseId: attempt.courseId,
+    timestamp: attempt.attemptTimestamp,
+    quizId: attempt.quizId,
+    attemptId: attempt.attemptId,
+    quizAttempt: attempt,
+  })),
+  ...(progress.discussionActivities || []).map(
+    (activity: any, index: number) => ({
+      userId,
+      eventId: `${activity.timestamp}#discussion-${index}`,
+      type: "DiscussionActivity",
+      courseId: activity.courseId,
+      timestamp: activity.timestamp,
+      sectionId: activity.sectionId,
+      chapterId: activity.chapterId,
+      activityType: activity.activityType,
+      commentId: activity.commentId,
+    })
+  ),
+];
+
+async function migrateStudent(record: Record<string, AttributeValue>) {
+  const progress = dynamoose.aws.converter().unmarshall(record);
+  const userId = progress.userId as string;
+  const events = toEvents(userId, progress);
+  let created = 0;
+
+  for (const event of events) {
+    const isNew = await createEvent(event);
+    if (isNew) created++;
+  }
+
+  await client.send(
+    new UpdateItemCommand({
+      TableName: STUDENT_PROGRESS_TABLE,
+      Key: { userId: { S: userId } },
+      UpdateExpression:
+        "REMOVE lessonAccessHistory, quizAttempts, discussionActivities",
+    })
+  );
+
+  console.log(
+    `Migrated student ${userId}: ${created} new events of ${events.length}`
+  );
+}
+
+export default async function migrateActivityEvents() {
+  const records = await scanStudentProgress();
+  console.log(`Migrating activity history for ${records.length} students`);
+
+  for (const record of records) {
+    try {
+      await migrateStudent(record);
+    } catch (error: any) {
+      console.error(
+        `Error migrating student ${record.userId?.S}:`,
+        error.message
+      );
+    }
+  }
+
+  console.log("\x1b[32m%s\x1b[0m", "Activity event migration finished");
+}
+
+if (require.main === module) {
+  migrateActivityEvents().catch((error) => {
+    console.error("Failed to run activity event migration:", error);
+  });
+}
@@ -0,0 +1,142 @@
+import {
+  AttributeValue,
+  DynamoDBClient,
+  ScanCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import dynamoose from "dynamoose";
+import Comment from "../models/commentModel";
+import dotenv from "dotenv";
+
+dotenv.config();
+let client: DynamoDBClient;
+
+/* DynamoDB Configuration */
+const isProduction = process.env.NODE_ENV === "production";
+
+if (!isProduction) {
+  dynamoose.aws.ddb.local();
+  client = new DynamoDBClient({
+    endpoint: "http://localhost:8000",
+    region: "us-east-2",
+    credentials: {
+      accessKeyId: "dummyKey123",
+      secretAccessKey: "dummyKey123",
+    },
+  });
+} else {
+  client = new DynamoDBClient({
+    region: process.env.AWS_REGION || "us-east-2",
+  });
+}
+
+const COURSE_TABLE = "Course";
+
+// The chapter schema no longer has comments, so the old attribute is read
+// and removed with the plain DynamoDB client
+async function scanCourses() {
+  const courses: Record<string, AttributeValue>[] = [];
+  let lastKey: Record<string, AttributeValue> | undefined;
+
+  do {
+    const page = await client.send(
+      new ScanCommand({
+        TableName: COURSE_TABLE,
+        ProjectionExpression: "courseId, sections",
+        ExclusiveStartKey: lastKey,
+      })
+    );
+    courses.push(...(page.Items || []));
+    lastKey = page.LastEvaluatedKey;
+  } while (lastKey);
+
+  return courses;
+}
+
+// Comments keep their IDs, so ones that were already copied are left alone
+// and the script can be re-run
+async function createComment(item: any) {
+  try {
+    await Comment.create(item);
+    return true;
+  } catch (error: any) {
+    if (error.name === "ConditionalCheckFailedException") return false;
+    throw error;
+  }
+}
+
+async function migrateCourse(record: Record<string, AttributeValue>) {
+  const { courseId, sections = [] } = dynamoose.aws
+    .converter()
+    .unmarshall(record);
+  let found = 0;
+  let created = 0;
+
+  for (const section of sections) {
+    for (const chapter of section.chapters || []) {
+      for (const comment of chapter.comments || []) {
+        found++;
+        const isNew = await createComment({
+          chapterId: chapter.chapterId,
+          commentId: comment.commentId,
+          courseId,
+          sectionId: section.sectionId,
+          userId: comment.userId,
+          text: comment.text,
+          timestamp: comment.timestamp,
+          reactions: [],
+        });
+        if (isNew) created++;
+      }
+    }
+  }
+  if (found === 0) return;
+
+  const cleanedSections = sections.map((section: any) => ({
+    ...section,
+    chapters: (section.chapters || []).map(
+      ({ comments, ...chapter }: any) => chapter
+    ),
+  }));
+  await client.send(
+    new UpdateItemCommand({
+      TableName: COURSE_TABLE,
+      Key: { courseId: { S: courseId } },
+      UpdateExpression: "SET sections = :sections",
+      ExpressionAttributeValues: dynamoose.aws.converter().marshall(
+        { ":sections": cleanedSections },
+        {
+          removeUndefinedValues: true,
+        }
+      ),
+    })
+  );
+
+  console.log(
+    `Migrated course ${courseId}: ${created} new comments of ${found}`
+  );
+}
+
+export default async function migrateComments() {
+  const courses = await scanCourses();
+  console.log(`Migrating chapter comments for ${courses.length} courses`);
+
+  for (const course of courses) {
+    try {
+      await migrateCourse(course);
+    } catch (error: any) {
+      console.error(
+        `Error migrating course ${course.courseId?.S}:`,
+        error.message
+      );
+    }
+  }
+
+  console.log("\x1b[32m%s\x1b[0m", "Comment migration finished");
+}
+
+if (require.main === module) {
+  migrateComments().catch((error) => {
+    console.error("Failed to run comment migration:", error);
+  });
+}
@@ -0,0 +1,166 @@
+import {
+  AttributeValue,
+  DynamoDBClient,
+  ScanCommand,
+  UpdateItemCommand,
+} from "@aws-sdk/client-dynamodb";
+import dynamoose from "dynamoose";
+import Enrollment from "../models/enrollmentModel";
+import UserCourseProgress from "../models/userCourseProgressModel";
+import { SEATED_STATUSES } from "../utils/enrollments";
+import dotenv from "dotenv";
+
+dotenv.config();
+let client: DynamoDBClient;
+
+/* DynamoDB Configuration */
+const isProduction = process.env.NODE_ENV === "production";
+
+if (!isProduction) {
+  dynamoose.aws.ddb.local();
+  client = new DynamoDBClient({
+    endpoint: "http://localhost:8000",
+    region: "us-east-2",
+    credentials: {
+      accessKeyId: "dummyKey123",
+      secretAccessKey: "dummyKey123",
+    },
+  });
+} else {
+  client = new DynamoDBClient({
+    region: process.env.AWS_REGION || "us-east-2",
+  });
+}
+
+const COURSE_TABLE = "Course";
+
+// The Course schema no longer has enrollments or enrollmentRequests, so the
+// old attributes are read and removed with the plain DynamoDB client
+const readList = (value?: AttributeValue) =>
+  (value?.L || []).map((item) => {
+    const fields = item.M || {};
+    return {
+      userId: fields.userId?.S,
+      status: fields.status?.S,
+      requestedAt: fields.requestedAt?.S,
+      reviewedAt: fields.reviewedAt?.S,
+    };
+  });
+
+async function scanCourses() {
+  const courses: Record<string, AttributeValue>[] = [];
+  let lastKey: Record<string, AttributeValue> | undefined;
+
+  do {
+    const page = await client.send(
+      new ScanCommand({
+        TableName: COURSE_TABLE,
+        ProjectionExpression: "courseId, enrollments, enrollmentRequests",
+        ExclusiveStartKey: lastKey,
+      })
+    );
+    courses.push(...(page.Items || []));
+    lastKey = page.LastEvaluatedKey;
+  } while (lastKey);
+
+  return courses;
+}
+
+// Enrollments that already exist are left alone, so the script can be re-run
+async function createEnrollment(item: any) {
+  try {
+    await Enrollment.create(item);
+    return true;
+  } catch (error: any) {
+    if (error.name === "ConditionalCheckFailedException") return false;
+    throw error;
+  }
+}
+
+async function migrateCourse(course: Record<string, AttributeValue>) {
+  const courseId = course.courseId.S as string;
+  if (!course.enrollments && !course.enrollmentRequests) {
+    console.log(`Skipped course ${courseId}: already migrated`);
+    return;
+  }
+
+  const enrollments = readList(course.enrollments);
+  const requests = readList(course.enrollmentRequests);
+  // Status of each student's enrollment, from the first record written for
+  // them, as later ones for the same student are not stored
+  const statuses = new Map<string, string>();
+  let created = 0;
+
+  for (const { userId } of enrollments) {
+    if (!userId) continue;
+    // The progress record was created on enrollment, so it has the date
+    const progress = await UserCourseProgress.get({ userId, courseId });
+    const isNew = await createEnrollment({
+      userId,
+      courseId,
+      status: "Active",
+      enrolledAt: progress?.enrollmentDate || new Date().toISOString(),
+    });
+    if (isNew) created++;
+    if (!statuses.has(userId)) statuses.set(userId, "Active");
+  }
+
+  for (const request of requests) {
+    if (!request.userId) continue;
+    const status = request.status || "Pending";
+    const isNew = await createEnrollment({
+      userId: request.userId,
+      courseId,
+      status,
+      enrolledAt: request.requestedAt || new Date().toISOString(),
+      reviewedAt: request.reviewedAt,
+    });
+    if (isNew) created++;
+    if (!statuses.has(request.userId)) statuses.set(request.userId, status);
+  }
+
+  // Seats are counted the way setEnrollmentStatus keeps them
+  const enrollmentCount = [...statuses.values()].filter((status) =>
+    SEATED_STATUSES.includes(status)
+  ).length;
+
+  await client.send(
+    new UpdateItemCommand({
+      TableName: COURSE_TABLE,
+      Key: { courseId: { S: courseId } },
+      UpdateExpression:
+        "SET enrollmentCount = :count REMOVE enrollments, enrollmentRequests",
+      ExpressionAttributeValues: {
+        ":count": { N: String(enrollmentCount) },
+      },
+    })
+  );
+
+  console.log(
+    `Migrated course ${courseId}: ${created} new enrollments, ${enrollmentCount} seated`
+  );
+}
+
+export default async function migrateEnrollments() {
+  const courses = await scanCourses();
+  console.log(`Migrating enrollments for ${courses.length} courses`);
+
+  for (const course of courses) {
+    try {
+      await migrateCourse(course);
+    } catch (error: any) {
+      console.error(
+        `Error migrating course ${course.courseId?.S}:`,
+        error.message
+      );
+    }
+  }
+
+  console.log("\x1b[32m%s\x1b[0m", "Enrollment migration finished");
+}
+
+if (require.main === module) {
+  migrateEnrollments().catch((error) => {
+    console.error("Failed to run enrollment migration:", error);
+  });
+}
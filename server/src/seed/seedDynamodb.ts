@@ -9,6 +9,8 @@ import dynamoose from "dynamoose";
 import pluralize from "pluralize";
 import Course from "../models/courseModel";
 import UserCourseProgress from "../models/userCourseProgressModel";
+import Enrollment from "../models/enrollmentModel";
+import Comment from "../models/commentModel";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -44,7 +46,7 @@ console.warn = (message, ...args) => {
 };
 
 async function createTables() {
-  const models = [UserCourseProgress, Course];
+  const models = [UserCourseProgress, Course, Enrollment, Comment];
 
   for (const model of models) {
     const tableName = model.name;
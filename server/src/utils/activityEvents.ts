@@ -0,0 +1,139 @@
+import { v4 as uuidv4 } from "uuid";
+import ActivityEvent from "../models/activityEventModel";
+import StudentProgress from "../models/studentProgressModel";
+import { buildActivityEventStatement, emitStatement } from "./xapi";
+
+export const DISCUSSION_ACTIVITY_TYPES = [
+  "Comment",
+  "Reply",
+  "Reaction",
+  "Question",
+  "Answer",
+  "Upvote",
+];
+
+// Append an event to a student's history, bump their lastActive and emit its
+// xAPI statement. `id` only needs to be unique for the student.
+export const recordActivityEvent = async (
+  userId: string,
+  event: Record<string, any> & { type: string; courseId: string },
+  timestamp = new Date().toISOString(),
+  id: string = uuidv4()
+) => {
+  const created = await ActivityEvent.create({
+    ...event,
+    userId,
+    eventId: `${timestamp}#${id}`,
+    timestamp,
+  });
+  await StudentProgress.update({ userId }, { lastActive: timestamp });
+  await emitStatement(buildActivityEventStatement(userId, event, timestamp));
+  return created;
+};
+
+// Every event of a student, oldest first. Reads are consistent so an event
+// that was just recorded is included.
+export const listUserEvents = async (userId: string, type?: string) => {
+  let query = ActivityEvent.query("userId").eq(userId);
+  if (type) query = query.where("type").eq(type);
+  return query.consistent().all().exec();
+};
+
+// Whether a student already has a discussion event matching every field,
+// e.g. a reaction to one comment
+export const hasDiscussionActivity = async (
+  userId: string,
+  fields: Record<string, string>
+) => {
+  let query = ActivityEvent.query("userId")
+    .eq(userId)
+    .where("type")
+    .eq("DiscussionActivity");
+  for (const [field, value] of Object.entries(fields)) {
+    query = query.where(field).eq(value);
+  }
+  const events = await query.consistent().all().exec();
+  return events.length > 0;
+};
+
+// Every event in a course, oldest first
+export const listCourseEvents = async (courseId: string, type?: string) => {
+  let query = ActivityEvent.query("courseId").eq(courseId).using("courseIndex");
+  if (type) query = query.where("type").eq(type);
+  return query.all().exec();
+};
+
+const toLessonAccess = (event: any) => ({
+  courseId: event.courseId,
+  sectionId: event.sectionId,
+  chapterId: event.chapterId,
+  accessTimestamp: event.timestamp,
+});
+
+const toDiscussionActivity = (event: any) => ({
+  courseId: event.courseId,
+  sectionId: event.sectionId,
+  chapterId: event.chapterId,
+  activityType: event.activityType,
+  commentId: event.commentId,
+  questionId: event.questionId,
+  answerId: event.answerId,
+  timestamp: event.timestamp,
+});
+
+export const listUserQuizAttempts = async (userId: string) =>
+  (await listUserEvents(userId, "QuizAttempt")).map(
+    (event: any) => event.quizAttempt
+  );
+
+// Submitted attempts at a course's quizzes, each with the student's userId
+export const listCourseQuizAttempts = async (courseId: string) =>
+  (await listCourseEvents(courseId, "QuizAttempt")).map((event: any) => ({
+    ...event.quizAttempt,
+    userId: event.userId,
+  }));
+
+export const listCourseDiscussionActivities = async (courseId: string) =>
+  (await listCourseEvents(courseId, "DiscussionActivity")).map(
+    (event: any) => ({ ...toDiscussionActivity(event), userId: event.userId })
+  );
+
+/**
+ * A student's progress in the shape StudentProgress had when it stored the
+ * histories itself, assembled from their events
+ */
+export const buildStudentProgress = async (progress: any) => {
+  const events = await listUserEvents(progress.userId);
+  const ofType = (type: string) =>
+    events.filter((event: any) => event.type === type);
+
+  return {
+    userId: progress.userId,
+    lessonAccessHistory: ofType("LessonAccess").map(toLessonAccess),
+    quizAttempts: ofType("QuizAttempt").map((event: any) => event.quizAttempt),
+    discussionActivities:
+      ofType("DiscussionActivity").map(toDiscussionActivity),
+    lastActive: progress.lastActive,
+    createdAt: progress.createdAt,
+    updatedAt: progress.updatedAt,
+  };
+};
+
+// Apply changes to the stored result of one attempt, e.g. after essay grading
+export const updateQuizAttemptEvent = async (
+  userId: string,
+  attemptId: string,
+  changes: Record<string, any>
+) => {
+  const [event] = await ActivityEvent.query("userId")
+    .eq(userId)
+    .where("attemptId")
+    .eq(attemptId)
+    .all()
+    .exec();
+  if (!event) return null;
+
+  event.quizAttempt = { ...event.quizAttempt, ...changes };
+  await event.save();
+  return event;
+};
@@ -0,0 +1,230 @@
+// Landscape US Letter, in points
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const TEXT_WIDTH = 640;
+
+type Font = "Helvetica" | "Helvetica-Bold";
+
+// Resource names of the fonts in the page
+const FONT_NAMES: Record<Font, string> = {
+  Helvetica: "F1",
+  "Helvetica-Bold": "F2",
+};
+
+// Advance widths of the printable ASCII characters (32 to 126) from the
+// standard Type 1 font metrics, in thousandths of the font size
+// prettier-ignore
+const FONT_WIDTHS: Record<Font, number[]> = {
+  Helvetica: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+    278, ...Array(10).fill(556), 278, 278, 584, 584, 584, 556, 1015, 667, 667,
+    722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778,
+    722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333,
+    556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  "Helvetica-Bold": [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+    278, ...Array(10).fill(556), 333, 333, 584, 584, 584, 611, 975, 722, 722,
+    722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778,
+    722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333,
+    556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+const DEFAULT_WIDTH = 556;
+
+// Characters WinAnsiEncoding places outside of Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+// Character codes in the fonts' WinAnsiEncoding. Anything it cannot show
+// becomes a question mark.
+const toWinAnsi = (text: string) =>
+  Array.from(text).map((char) => {
+    if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+    const code = char.codePointAt(0)!;
+    return (code >= 32 && code <= 126) || (code >= 160 && code <= 255)
+      ? code
+      : 63;
+  });
+
+// A PDF string literal, kept to ASCII with octal escapes
+const pdfString = (text: string) =>
+  `(${toWinAnsi(text)
+    .map((code) =>
+      code === 40 || code === 41 || code === 92
+        ? `\\${String.fromCharCode(code)}`
+        : code > 126
+        ? `\\${code.toString(8).padStart(3, "0")}`
+        : String.fromCharCode(code)
+    )
+    .join("")})`;
+
+const textWidth = (text: string, font: Font, size: number) =>
+  (toWinAnsi(text).reduce(
+    (width, code) =>
+      width +
+      (code >= 32 && code <= 126
+        ? FONT_WIDTHS[font][code - 32]
+        : DEFAULT_WIDTH),
+    0
+  ) *
+    size) /
+  1000;
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+// Centered text, shrunk to fit the text width when it is too long
+const centeredText = (
+  text: string,
+  font: Font,
+  size: number,
+  y: number,
+  color: [number, number, number] = [0.2, 0.2, 0.22]
+) => {
+  const fitted = Math.min(
+    size,
+    (size * TEXT_WIDTH) / textWidth(text, font, size)
+  );
+  const x = (PAGE_WIDTH - textWidth(text, font, fitted)) / 2;
+  return [
+    `${color.map(num).join(" ")} rg`,
+    `BT /${FONT_NAMES[font]} ${num(fitted)} Tf ${num(x)} ${num(
+      y
+    )} Td ${pdfString(text)} Tj ET`,
+  ].join("\n");
+};
+
+const line = (x1: number, y1: number, x2: number, y2: number) =>
+  `${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`;
+
+// A signature line with the value above it and a label below
+const signature = (value: string, label: string, centerX: number) => {
+  const valueSize = Math.min(
+    14,
+    (14 * 220) / textWidth(value, "Helvetica-Bold", 14)
+  );
+  return [
+    "0.2 0.2 0.22 rg",
+    `BT /F2 ${num(valueSize)} Tf ${num(
+      centerX - textWidth(value, "Helvetica-Bold", valueSize) / 2
+    )} 152 Td ${pdfString(value)} Tj ET`,
+    "0.6 0.6 0.65 RG 0.75 w",
+    line(centerX - 120, 144, centerX + 120, 144),
+    "0.45 0.45 0.5 rg",
+    `BT /F1 10 Tf ${num(
+      centerX - textWidth(label, "Helvetica", 10) / 2
+    )} 130 Td ${pdfString(label)} Tj ET`,
+  ].join("\n");
+};
+
+// Wrap a content stream in a one-page PDF that uses the standard fonts
+const buildPdf = (content: string, title: string) => {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    `<< /Title ${pdfString(title)} /Producer (EduFlip) >>`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>`,
+    "startxref",
+    String(xrefOffset),
+    "%%EOF",
+    "",
+  ].join("\n");
+
+  // Everything above is ASCII, so string lengths are byte offsets
+  return Buffer.from(pdf, "ascii");
+};
+
+/**
+ * A one-page certificate of completion as a PDF
+ */
+export const renderCertificatePdf = (certificate: {
+  certificateId: string;
+  studentName: string;
+  courseTitle: string;
+  teacherName: string;
+  issuedAt: string;
+  verifyUrl: string;
+}) => {
+  const issuedOn = new Date(certificate.issuedAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  const content = [
+    // Double border
+    "0.31 0.27 0.9 RG 4 w",
+    `24 24 ${PAGE_WIDTH - 48} ${PAGE_HEIGHT - 48} re S`,
+    "0.75 w",
+    `34 34 ${PAGE_WIDTH - 68} ${PAGE_HEIGHT - 68} re S`,
+    centeredText(
+      "CERTIFICATE OF COMPLETION",
+      "Helvetica-Bold",
+      30,
+      480,
+      [0.31, 0.27, 0.9]
+    ),
+    centeredText("This certifies that", "Helvetica", 14, 420),
+    centeredText(
+      certificate.studentName,
+      "Helvetica-Bold",
+      34,
+      365,
+      [0.1, 0.1, 0.12]
+    ),
+    "0.6 0.6 0.65 RG 0.75 w",
+    line(196, 350, PAGE_WIDTH - 196, 350),
+    centeredText("has successfully completed the course", "Helvetica", 14, 310),
+    centeredText(
+      certificate.courseTitle,
+      "Helvetica-Bold",
+      24,
+      270,
+      [0.1, 0.1, 0.12]
+    ),
+    signature(issuedOn, "Date", 220),
+    signature(certificate.teacherName, "Instructor", PAGE_WIDTH - 220),
+    centeredText(
+      `Certificate ID ${certificate.certificateId}. Verify at ${certificate.verifyUrl}`,
+      "Helvetica",
+      9,
+      56,
+      [0.45, 0.45, 0.5]
+    ),
+  ].join("\n");
+
+  return buildPdf(
+    content,
+    `${certificate.courseTitle} - Certificate of Completion`
+  );
+};
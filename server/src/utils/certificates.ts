@@ -0,0 +1,141 @@
+import AWS from "aws-sdk";
+import { v5 as uuidv5 } from "uuid";
+import { clerkClient } from "../index";
+import Certificate from "../models/certificateModel";
+import Quiz from "../models/quizModel";
+import { renderCertificatePdf } from "./certificatePdf";
+import { clientUrl } from "./utils";
+
+const s3 = new AWS.S3();
+
+// Client page that checks a certificate through the public verify route
+export const certificateLink = (certificateId: string) =>
+  `/certificates/${certificateId}`;
+
+// Namespace for certificate IDs, which are derived from the student and the
+// course so that each pair can only ever have one certificate
+const CERTIFICATE_NAMESPACE = "6f0c1c9e-3b8d-4d7a-9a53-2f4e8b1d5c07";
+
+export const certificateIdFor = (userId: string, courseId: string) =>
+  uuidv5(`${userId}:${courseId}`, CERTIFICATE_NAMESPACE);
+
+// Store a certificate unless one was already issued for its student and
+// course, and return whichever is stored
+const createCertificate = async (certificate: any) => {
+  try {
+    return await Certificate.create(certificate);
+  } catch (error: any) {
+    if (error.name !== "ConditionalCheckFailedException") throw error;
+    return Certificate.get(certificate.certificateId);
+  }
+};
+
+// A student's certificates, newest first
+export const listUserCertificates = (userId: string) =>
+  Certificate.query("userId")
+    .eq(userId)
+    .using("userIndex")
+    .sort("descending")
+    .all()
+    .exec();
+
+/**
+ * Why a student cannot have a certificate for a course yet, or null when they
+ * can. Courses with certificateRequiresQuizzes also need every one of their
+ * quizzes passed under the quiz's scoring policy.
+ */
+export const checkCertificateEligibility = async (
+  course: any,
+  progress: any
+): Promise<string | null> => {
+  if (!progress || progress.overallProgress < 100) {
+    return "Complete every chapter of the course first";
+  }
+
+  if (course.certificateRequiresQuizzes) {
+    const quizzes = await Quiz.query("courseId").eq(course.courseId).exec();
+    const passed = new Set(
+      (progress.quizResults || [])
+        .filter((result: any) => result.passed)
+        .map((result: any) => result.quizId)
+    );
+    if (quizzes.some((quiz: any) => !passed.has(quiz.quizId))) {
+      return "Pass every quiz in the course first";
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Issue a student's certificate for a course once they are eligible, with
+ * its PDF uploaded to S3. Returns the existing certificate when there is one.
+ * The record is written first, so concurrent progress updates agree on a
+ * single certificate, and a PDF that failed to upload is retried by the next
+ * one. Failures are logged rather than thrown.
+ */
+export const issueCertificate = async (
+  userId: string,
+  course: any,
+  progress: any
+) => {
+  try {
+    const certificateId = certificateIdFor(userId, course.courseId);
+    let certificate = await Certificate.get(certificateId);
+
+    if (!certificate) {
+      if (await checkCertificateEligibility(course, progress)) return null;
+
+      const user = await clerkClient.users.getUser(userId);
+      certificate = await createCertificate({
+        certificateId,
+        userId,
+        courseId: course.courseId,
+        studentName:
+          [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+          user.username ||
+          "Student",
+        courseTitle: course.title,
+        teacherName: course.teacherName,
+        issuedAt: new Date().toISOString(),
+      });
+    }
+    if (!certificate || certificate.pdfKey) return certificate;
+
+    const pdfKey = `certificates/${course.courseId}/${certificateId}.pdf`;
+    await s3
+      .upload({
+        Bucket: process.env.S3_BUCKET_NAME || "",
+        Key: pdfKey,
+        Body: renderCertificatePdf({
+          certificateId,
+          studentName: certificate.studentName,
+          courseTitle: certificate.courseTitle,
+          teacherName: certificate.teacherName,
+          issuedAt: certificate.issuedAt,
+          verifyUrl: clientUrl(certificateLink(certificateId)),
+        }),
+        ContentType: "application/pdf",
+      })
+      .promise();
+
+    return await Certificate.update(
+      { certificateId },
+      { pdfKey, pdfUrl: `${process.env.CLOUDFRONT_DOMAIN}/${pdfKey}` }
+    );
+  } catch (error) {
+    console.error("Error issuing certificate:", error);
+    return null;
+  }
+};
+
+// What anyone with the certificate's ID may see
+export const toCertificateView = (certificate: any) => ({
+  certificateId: certificate.certificateId,
+  courseId: certificate.courseId,
+  studentName: certificate.studentName,
+  courseTitle: certificate.courseTitle,
+  teacherName: certificate.teacherName,
+  issuedAt: certificate.issuedAt,
+  pdfUrl: certificate.pdfUrl,
+});
@@ -0,0 +1,123 @@
+import Comment from "../models/commentModel";
+import { recordActivityEvent } from "./activityEvents";
+
+export const COMMENT_REACTIONS = [
+  "Like",
+  "Love",
+  "Insightful",
+  "Funny",
+  "Confused",
+];
+export const MAX_COMMENT_LENGTH = 5000;
+
+export const validateCommentText = (text: unknown): string | null => {
+  if (typeof text !== "string" || !text.trim()) {
+    return "Comment text is required";
+  }
+  if (text.trim().length > MAX_COMMENT_LENGTH) {
+    return `Comments can be at most ${MAX_COMMENT_LENGTH} characters`;
+  }
+  return null;
+};
+
+export const findChapter = (
+  course: any,
+  sectionId: string,
+  chapterId: string
+) =>
+  (course?.sections || [])
+    .find((section: any) => section.sectionId === sectionId)
+    ?.chapters?.find((chapter: any) => chapter.chapterId === chapterId);
+
+export const listChapterComments = (chapterId: string) =>
+  Comment.query("chapterId").eq(chapterId).all().exec();
+
+// Count a post or reaction towards the author's discussion participation
+export const recordCommentActivity = (
+  comment: any,
+  userId: string,
+  activityType: "Comment" | "Reply" | "Reaction"
+) =>
+  recordActivityEvent(userId, {
+    type: "DiscussionActivity",
+    courseId: comment.courseId,
+    sectionId: comment.sectionId,
+    chapterId: comment.chapterId,
+    activityType,
+    commentId: comment.commentId,
+  });
+
+/**
+ * A comment as the given user sees it. Reactions are counted by type, and the
+ * text of deleted comments, and of hidden ones for everyone but moderators,
+ * is left out.
+ */
+export const toCommentView = (
+  comment: any,
+  viewer: { userId: string; canModerate: boolean }
+) => {
+  const reactions: Record<string, number> = {};
+  for (const reaction of comment.reactions || []) {
+    reactions[reaction.type] = (reactions[reaction.type] || 0) + 1;
+  }
+  const deleted = !!comment.deletedAt;
+  const hideText = deleted || (comment.hidden && !viewer.canModerate);
+
+  return {
+    commentId: comment.commentId,
+    chapterId: comment.chapterId,
+    parentId: comment.parentId,
+    userId: deleted ? undefined : comment.userId,
+    userName: deleted ? undefined : comment.userName,
+    userImageUrl: deleted ? undefined : comment.userImageUrl,
+    text: hideText ? "" : comment.text,
+    reactions,
+    myReactions: (comment.reactions || [])
+      .filter((reaction: any) => reaction.userId === viewer.userId)
+      .map((reaction: any) => reaction.type),
+    pinned: !!comment.pinned,
+    hidden: !!comment.hidden,
+    deleted,
+    timestamp: comment.timestamp,
+    editedAt: comment.editedAt,
+  };
+};
+
+const byTimestamp = (a: any, b: any) =>
+  (a.timestamp || "").localeCompare(b.timestamp || "");
+
+/**
+ * Nest a chapter's comments under their parents. Pinned top-level comments
+ * come first, everything else is oldest first. Deleted comments, and hidden
+ * ones for everyone but moderators, are only kept as placeholders while they
+ * have replies to show.
+ */
+export const buildCommentThreads = (
+  comments: any[],
+  viewer: { userId: string; canModerate: boolean }
+) => {
+  const children = new Map<string, any[]>();
+  for (const comment of comments) {
+    const key = comment.parentId || "";
+    children.set(key, [...(children.get(key) || []), comment]);
+  }
+
+  const buildLevel = (parentId: string): any[] =>
+    (children.get(parentId) || [])
+      .sort(byTimestamp)
+      .map((comment) => ({
+        ...toCommentView(comment, viewer),
+        replies: buildLevel(comment.commentId),
+      }))
+      .filter(
+        (view) =>
+          view.replies.length > 0 ||
+          (!view.deleted && (!view.hidden || viewer.canModerate))
+      );
+
+  const threads = buildLevel("");
+  return [
+    ...threads.filter((thread) => thread.pinned),
+    ...threads.filter((thread) => !thread.pinned),
+  ];
+};
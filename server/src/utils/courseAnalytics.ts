@@ -0,0 +1,247 @@
+import Quiz from "../models/quizModel";
+import UserCourseProgress from "../models/userCourseProgressModel";
+import { ACCESS_STATUSES, listCourseEnrollments } from "./enrollments";
+import {
+  DISCUSSION_ACTIVITY_TYPES,
+  listCourseDiscussionActivities,
+  listCourseQuizAttempts,
+} from "./activityEvents";
+import { computeQuizResult } from "./quizAttempts";
+import { batchGetByUser } from "./utils";
+
+const DEPARTED_STATUSES = ["Dropped", "Expired"];
+
+const percent = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 10000) / 100 : null;
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round(
+        (values.reduce((sum, value) => sum + value, 0) / values.length) * 100
+      ) / 100
+    : null;
+
+const toDay = (timestamp: string) => timestamp.slice(0, 10);
+
+// Count timestamps per day, oldest day first
+const countByDay = (timestamps: string[]) => {
+  const counts = new Map<string, number>();
+  for (const timestamp of timestamps) {
+    const day = toDay(timestamp);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, count]) => ({ date, count }));
+};
+
+// New and departed students per day, with the running number of students
+const buildEnrollmentTimeline = (enrollments: any[]) => {
+  const joined = new Map(
+    countByDay(enrollments.map((enrollment) => enrollment.enrolledAt)).map(
+      ({ date, count }) => [date, count]
+    )
+  );
+  const left = new Map(
+    countByDay(
+      enrollments
+        .filter((enrollment) => enrollment.endedAt)
+        .map((enrollment) => enrollment.endedAt)
+    ).map(({ date, count }) => [date, count])
+  );
+
+  let total = 0;
+  return [...new Set([...joined.keys(), ...left.keys()])].sort().map((date) => {
+    const enrolled = joined.get(date) || 0;
+    const dropped = left.get(date) || 0;
+    total += enrolled - dropped;
+    return { date, enrolled, dropped, total };
+  });
+};
+
+const isChapterCompleted = (
+  progress: any,
+  sectionId: string,
+  chapterId: string
+) =>
+  !!progress?.sections
+    ?.find((section: any) => section.sectionId === sectionId)
+    ?.chapters?.some(
+      (chapter: any) => chapter.chapterId === chapterId && chapter.completed
+    );
+
+/**
+ * How many students completed each chapter and section, in course order, and
+ * where students who left the course stopped. A student stopped at the first
+ * chapter they had not completed.
+ */
+const buildCompletionFunnel = (
+  course: any,
+  progressRecords: any[],
+  departed: Set<string>
+) => {
+  const chapters = (course.sections || []).flatMap((section: any) =>
+    (section.chapters || []).map((chapter: any) => ({
+      section,
+      chapter,
+    }))
+  );
+  const stoppedAt = new Map<string, number>();
+  for (const progress of progressRecords) {
+    if (!departed.has(progress.userId)) continue;
+    const next = chapters.find(
+      ({ section, chapter }: any) =>
+        !isChapterCompleted(progress, section.sectionId, chapter.chapterId)
+    );
+    if (next) {
+      const id = next.chapter.chapterId;
+      stoppedAt.set(id, (stoppedAt.get(id) || 0) + 1);
+    }
+  }
+
+  const students = progressRecords.length;
+  let previousCompleted = students;
+
+  const sections = (course.sections || []).map((section: any) => {
+    const sectionChapters = (section.chapters || []).map((chapter: any) => {
+      const completed = progressRecords.filter((progress) =>
+        isChapterCompleted(progress, section.sectionId, chapter.chapterId)
+      ).length;
+      // Share of students who finished the previous chapter but not this one
+      const dropOffRate =
+        previousCompleted > 0
+          ? percent(
+              Math.max(previousCompleted - completed, 0),
+              previousCompleted
+            )
+          : null;
+      previousCompleted = completed;
+
+      return {
+        chapterId: chapter.chapterId,
+        title: chapter.title,
+        type: chapter.type,
+        completed,
+        completionRate: percent(completed, students),
+        dropOffRate,
+        stoppedHere: stoppedAt.get(chapter.chapterId) || 0,
+      };
+    });
+
+    const completed = progressRecords.filter((progress) =>
+      (section.chapters || []).every((chapter: any) =>
+        isChapterCompleted(progress, section.sectionId, chapter.chapterId)
+      )
+    ).length;
+
+    return {
+      sectionId: section.sectionId,
+      sectionTitle: section.sectionTitle,
+      completed,
+      completionRate: percent(completed, students),
+      chapters: sectionChapters,
+    };
+  });
+
+  const dropOffPoints = sections
+    .flatMap((section: any) =>
+      section.chapters.map((chapter: any) => ({
+        sectionId: section.sectionId,
+        sectionTitle: section.sectionTitle,
+        chapterId: chapter.chapterId,
+        title: chapter.title,
+        students: chapter.stoppedHere,
+      }))
+    )
+    .filter((point: any) => point.students > 0)
+    .sort((a: any, b: any) => b.students - a.students);
+
+  return { sections, dropOffPoints };
+};
+
+const summarizeQuizzes = (quizzes: any[], userIds: string[], attempts: any[]) =>
+  quizzes.map((quiz) => {
+    const results = userIds
+      .map((userId) =>
+        computeQuizResult(
+          quiz,
+          attempts.filter((attempt) => attempt.userId === userId)
+        )
+      )
+      .filter(Boolean) as any[];
+
+    return {
+      quizId: quiz.quizId,
+      title: quiz.title,
+      students: results.length,
+      averageScore: average(results.map((result) => result.score)),
+      passRate: percent(
+        results.filter((result) => result.passed).length,
+        results.length
+      ),
+    };
+  });
+
+const summarizeDiscussion = (activities: any[]) => {
+  return {
+    total: activities.length,
+    byType: Object.fromEntries(
+      DISCUSSION_ACTIVITY_TYPES.map((type) => [
+        type,
+        activities.filter((activity: any) => activity.activityType === type)
+          .length,
+      ])
+    ),
+    overTime: countByDay(activities.map((activity: any) => activity.timestamp)),
+  };
+};
+
+/**
+ * Course analytics across everyone who has been a student of the course
+ */
+export const analyzeCourse = async (course: any) => {
+  const { courseId } = course;
+  const enrollments = await listCourseEnrollments(courseId);
+  const userIds = enrollments.map((enrollment: any) => enrollment.userId);
+
+  const [courseProgress, quizAttempts, discussionActivities, quizzes] =
+    await Promise.all([
+      batchGetByUser(
+        UserCourseProgress,
+        userIds.map((userId: string) => ({ userId, courseId }))
+      ),
+      listCourseQuizAttempts(courseId),
+      listCourseDiscussionActivities(courseId),
+      Quiz.query("courseId").eq(courseId).using("courseIndex").exec(),
+    ]);
+  const progressRecords = [...courseProgress.values()];
+  const departed = enrollments.filter((enrollment: any) =>
+    DEPARTED_STATUSES.includes(enrollment.status)
+  );
+
+  return {
+    courseId,
+    title: course.title,
+    summary: {
+      students: enrollments.length,
+      active: enrollments.filter((enrollment: any) =>
+        ACCESS_STATUSES.includes(enrollment.status)
+      ).length,
+      completed: enrollments.filter(
+        (enrollment: any) => enrollment.status === "Completed"
+      ).length,
+      dropped: departed.length,
+      averageProgress: average(
+        progressRecords.map((progress) => progress.overallProgress || 0)
+      ),
+    },
+    enrollmentsOverTime: buildEnrollmentTimeline(enrollments),
+    ...buildCompletionFunnel(
+      course,
+      progressRecords,
+      new Set(departed.map((enrollment: any) => enrollment.userId))
+    ),
+    quizzes: summarizeQuizzes(quizzes, userIds, quizAttempts),
+    discussion: summarizeDiscussion(discussionActivities),
+  };
+};
@@ -0,0 +1,147 @@
+import Course from "../models/courseModel";
+import Enrollment from "../models/enrollmentModel";
+import Notification from "../models/notificationModel";
+import { getEmailTransport } from "./emailTransports";
+import { Deadline, renderDigestEmail } from "./emailTemplates";
+import { ACCESS_STATUSES } from "./enrollments";
+import { courseLink, getUsers, toNotificationSettings } from "./notifications";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long the oldest notification waits before a digest goes out
+const DIGEST_PERIODS_MS = {
+  immediate: 0,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+// Deadlines this close are included in a user's digest
+const DEADLINE_WINDOW_MS = 7 * DAY_MS;
+
+const listPendingEmails = () =>
+  Notification.query("emailStatus")
+    .eq("Pending")
+    .using("emailIndex")
+    .all()
+    .exec();
+
+// Pending notifications by user, oldest first
+const groupByUser = (notifications: any[]) => {
+  const byUser = new Map<string, any[]>();
+  for (const notification of notifications) {
+    const pending = byUser.get(notification.userId) || [];
+    pending.push(notification);
+    byUser.set(notification.userId, pending);
+  }
+  for (const pending of byUser.values()) {
+    pending.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+  return byUser;
+};
+
+const markEmailStatus = (
+  notifications: any[],
+  emailStatus: "Sent" | "Skipped"
+) =>
+  Promise.all(
+    notifications.map((notification) =>
+      Notification.update(
+        {
+          userId: notification.userId,
+          notificationId: notification.notificationId,
+        },
+        emailStatus === "Sent"
+          ? { emailStatus, emailedAt: new Date().toISOString() }
+          : { emailStatus }
+      )
+    )
+  );
+
+/**
+ * Courses whose access ends within the deadline window for a student
+ */
+export const getUpcomingDeadlines = async (
+  userId: string,
+  now = new Date()
+): Promise<Deadline[]> => {
+  const enrollments = await Enrollment.query("userId").eq(userId).exec();
+  const ending = enrollments.filter(
+    (enrollment: any) =>
+      ACCESS_STATUSES.includes(enrollment.status) &&
+      enrollment.expiresAt &&
+      new Date(enrollment.expiresAt) > now &&
+      new Date(enrollment.expiresAt).getTime() - now.getTime() <=
+        DEADLINE_WINDOW_MS
+  );
+
+  const deadlines = [];
+  for (const enrollment of ending) {
+    const course = await Course.get(enrollment.courseId);
+    if (!course) continue;
+    deadlines.push({
+      courseTitle: course.title,
+      description: "Your access to this course ends",
+      dueAt: enrollment.expiresAt,
+      link: courseLink(course),
+    });
+  }
+  return deadlines.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+};
+
+/**
+ * Email each user their pending notifications once their chosen frequency
+ * says a digest is due: right away for "immediate", and once the oldest
+ * notification is a day or a week old for "daily" and "weekly". Settings are
+ * read again at send time, so notifications for users who have since turned
+ * email alerts off, or who have no email address, are skipped. Emails that
+ * fail to send stay pending for the next run. Runs on a timer in development
+ * and from the scheduled "sendEmailDigests" action in production.
+ */
+export const sendEmailDigests = async (now = new Date()) => {
+  const byUser = groupByUser(await listPendingEmails());
+  const result = { sent: 0, skipped: 0, failed: 0 };
+  if (byUser.size === 0) return result;
+
+  const transport = getEmailTransport();
+  const users = await getUsers([...byUser.keys()]);
+
+  for (const [userId, pending] of byUser) {
+    const user = users.get(userId);
+    const settings = user ? toNotificationSettings(user) : null;
+    const to = user?.primaryEmailAddress?.emailAddress;
+    if (!settings?.emailAlerts || !to) {
+      await markEmailStatus(pending, "Skipped");
+      result.skipped += pending.length;
+      continue;
+    }
+
+    const frequency = settings.notificationFrequency;
+    const waited = now.getTime() - new Date(pending[0].timestamp).getTime();
+    if (waited < (DIGEST_PERIODS_MS[frequency] ?? DIGEST_PERIODS_MS.daily)) {
+      continue;
+    }
+
+    try {
+      await transport.send(
+        renderDigestEmail({
+          to,
+          firstName: user.firstName,
+          frequency,
+          notifications: pending,
+          deadlines: await getUpcomingDeadlines(userId, now),
+          settingsLink:
+            user.publicMetadata?.userType === "teacher"
+              ? "/teacher/settings"
+              : "/user/settings",
+        })
+      );
+      await markEmailStatus(pending, "Sent");
+      result.sent += 1;
+    } catch (error) {
+      console.error(`Error sending email digest to ${userId}:`, error);
+      result.failed += 1;
+    }
+  }
+
+  return result;
+};
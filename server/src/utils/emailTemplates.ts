@@ -0,0 +1,188 @@
+import { EmailMessage } from "./emailTransports";
+import { clientUrl } from "./utils";
+
+type Frequency = "immediate" | "daily" | "weekly";
+
+export interface Deadline {
+  courseTitle: string;
+  description: string;
+  dueAt: string;
+  link: string;
+}
+
+export interface DigestContent {
+  to: string;
+  firstName?: string | null;
+  frequency: Frequency;
+  notifications: any[];
+  deadlines: Deadline[];
+  settingsLink: string;
+}
+
+// Notification types under each heading, in the order they are shown
+const DIGEST_SECTIONS: { title: string; types: string[] }[] = [
+  { title: "Course updates", types: ["NewChapter", "EnrollmentApproved"] },
+  { title: "Grading results", types: ["EssayGraded"] },
+  { title: "Replies to you", types: ["CommentReply"] },
+];
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+const buildSubject = ({ frequency, notifications }: DigestContent) => {
+  if (frequency === "immediate") {
+    return notifications.length === 1
+      ? notifications[0].title
+      : `${notifications.length} new notifications on EduFlip`;
+  }
+  return `Your ${frequency} EduFlip digest: ${notifications.length} ${
+    notifications.length === 1 ? "update" : "updates"
+  }`;
+};
+
+const buildIntro = ({ frequency, notifications }: DigestContent) =>
+  frequency === "immediate"
+    ? "Here's what just happened on EduFlip."
+    : `Here's your ${frequency} summary of ${notifications.length} ${
+        notifications.length === 1 ? "update" : "updates"
+      } on EduFlip.`;
+
+const groupSections = (notifications: any[]) =>
+  DIGEST_SECTIONS.map((section) => ({
+    title: section.title,
+    items: notifications.filter((notification) =>
+      section.types.includes(notification.type)
+    ),
+  })).filter((section) => section.items.length > 0);
+
+const renderText = (content: DigestContent) => {
+  const lines = [
+    `Hi ${content.firstName || "there"},`,
+    "",
+    buildIntro(content),
+  ];
+
+  for (const section of groupSections(content.notifications)) {
+    lines.push("", section.title.toUpperCase());
+    for (const notification of section.items) {
+      lines.push(`- ${notification.title}`);
+      if (notification.message) lines.push(`  ${notification.message}`);
+      if (notification.link) lines.push(`  ${clientUrl(notification.link)}`);
+    }
+  }
+
+  if (content.deadlines.length > 0) {
+    lines.push("", "UPCOMING DEADLINES");
+    for (const deadline of content.deadlines) {
+      lines.push(
+        `- ${deadline.courseTitle}: ${deadline.description} on ${formatDate(
+          deadline.dueAt
+        )}`,
+        `  ${clientUrl(deadline.link)}`
+      );
+    }
+  }
+
+  lines.push(
+    "",
+    "--",
+    "You get these emails because email alerts are on. Change how often they",
+    `arrive in your notification settings: ${clientUrl(content.settingsLink)}`
+  );
+  return lines.join("\n");
+};
+
+const renderItem = (title: string, detail?: string, link?: string) => `
+  <li style="margin:0 0 12px">
+    <strong>${
+      link
+        ? `<a href="${escapeHtml(
+            clientUrl(link)
+          )}" style="color:#4f46e5;text-decoration:none">${escapeHtml(
+            title
+          )}</a>`
+        : escapeHtml(title)
+    }</strong>
+    ${
+      detail
+        ? `<div style="color:#52525b;margin-top:2px">${escapeHtml(
+            detail
+          )}</div>`
+        : ""
+    }
+  </li>`;
+
+const renderSection = (title: string, items: string[]) => `
+  <h2 style="font-size:16px;margin:24px 0 8px;color:#18181b">${escapeHtml(
+    title
+  )}</h2>
+  <ul style="padding-left:18px;margin:0">${items.join("")}</ul>`;
+
+const renderHtml = (content: DigestContent) => {
+  const sections = groupSections(content.notifications).map((section) =>
+    renderSection(
+      section.title,
+      section.items.map((notification) =>
+        renderItem(notification.title, notification.message, notification.link)
+      )
+    )
+  );
+
+  if (content.deadlines.length > 0) {
+    sections.push(
+      renderSection(
+        "Upcoming deadlines",
+        content.deadlines.map((deadline) =>
+          renderItem(
+            deadline.courseTitle,
+            `${deadline.description} on ${formatDate(deadline.dueAt)}`,
+            deadline.link
+          )
+        )
+      )
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,sans-serif;font-size:14px;line-height:1.5">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+      <p style="margin:0 0 8px">Hi ${escapeHtml(
+        content.firstName || "there"
+      )},</p>
+      <p style="margin:0">${escapeHtml(buildIntro(content))}</p>
+      ${sections.join("")}
+      <p style="margin:32px 0 0;color:#71717a;font-size:12px">
+        You get these emails because email alerts are on. Change how often
+        they arrive in your
+        <a href="${escapeHtml(
+          clientUrl(content.settingsLink)
+        )}" style="color:#71717a">notification settings</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+};
+
+/**
+ * The email for a user's pending notifications and upcoming deadlines, with
+ * matching text and HTML bodies
+ */
+export const renderDigestEmail = (content: DigestContent): EmailMessage => ({
+  to: content.to,
+  subject: buildSubject(content),
+  text: renderText(content),
+  html: renderHtml(content),
+});
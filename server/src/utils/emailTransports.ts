@@ -0,0 +1,285 @@
+import { promises as fs } from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import tls from "tls";
+import { v4 as uuidv4 } from "uuid";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Something that can deliver an email. Transports throw when a message could
+ * not be handed over so the caller can leave it for the next run.
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+const getSender = () =>
+  process.env.EMAIL_FROM || "EduFlip <no-reply@localhost>";
+
+// Addresses without the display name, for the SMTP envelope
+const addressOf = (mailbox: string) =>
+  mailbox.match(/<([^>]+)>/)?.[1] || mailbox;
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+const base64Lines = (value: string) =>
+  Buffer.from(value)
+    .toString("base64")
+    .replace(/.{1,76}/g, "$&\r\n");
+
+// A multipart/alternative message with the text and HTML bodies
+export const buildMimeMessage = (message: EmailMessage, from = getSender()) => {
+  const boundary = `eduflip-${uuidv4()}`;
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${uuidv4()}@${addressOf(from).split("@")[1] || "localhost"}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+};
+
+/**
+ * A line-based SMTP conversation over one socket. Replies may span several
+ * lines ("250-..." continued by a final "250 ...").
+ */
+class SmtpSession {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: ((line: string) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket | tls.TLSSocket) {
+    this.listen();
+  }
+
+  private listen() {
+    this.socket.setTimeout(SMTP_TIMEOUT_MS);
+    this.socket.on("data", (chunk) => {
+      this.buffer += chunk.toString("utf8");
+      let newline;
+      while ((newline = this.buffer.indexOf("\r\n")) !== -1) {
+        this.lines.push(this.buffer.slice(0, newline));
+        this.buffer = this.buffer.slice(newline + 2);
+      }
+      this.flush();
+    });
+    this.socket.on("timeout", () => this.fail(new Error("SMTP timed out")));
+    this.socket.on("error", (error) => this.fail(error));
+    this.socket.on("close", () =>
+      this.fail(new Error("SMTP connection closed"))
+    );
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error;
+    this.socket.destroy();
+    this.flush();
+  }
+
+  private flush() {
+    if (!this.waiting) return;
+    if (this.lines.length > 0) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve(this.lines.shift()!);
+    } else if (this.failure) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve("");
+    }
+  }
+
+  private nextLine() {
+    return new Promise<string>((resolve) => {
+      this.waiting = resolve;
+      this.flush();
+    });
+  }
+
+  async reply(expected: number) {
+    const lines = [];
+    for (;;) {
+      const line = await this.nextLine();
+      if (!line && this.failure) throw this.failure;
+      lines.push(line);
+      if (line.charAt(3) !== "-") break;
+    }
+
+    const code = Number(lines[0].slice(0, 3));
+    if (code !== expected) {
+      throw new Error(`SMTP error: ${lines.join(" ")}`);
+    }
+    return lines.map((line) => line.slice(4));
+  }
+
+  async command(line: string, expected: number) {
+    this.socket.write(`${line}\r\n`);
+    return this.reply(expected);
+  }
+
+  // Hand the socket over to TLS after STARTTLS
+  upgrade(host: string) {
+    this.socket.removeAllListeners();
+    this.socket = tls.connect({ socket: this.socket, servername: host });
+    this.buffer = "";
+    this.lines = [];
+    this.listen();
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * Sends through an SMTP server with STARTTLS when the server offers it and
+ * AUTH PLAIN when credentials are set. For local development, point it at a
+ * mail catcher such as Mailpit (SMTP_HOST=localhost, SMTP_PORT=1025).
+ */
+export const createSmtpTransport = (config: {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}): EmailTransport => ({
+  name: "smtp",
+  async send(message) {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port })
+      : net.connect({ host: config.host, port: config.port });
+    const session = new SmtpSession(socket);
+    const hostname = os.hostname() || "localhost";
+
+    try {
+      await session.reply(220);
+      let extensions = await session.command(`EHLO ${hostname}`, 250);
+      if (
+        !config.secure &&
+        extensions.some((line) => line.toUpperCase() === "STARTTLS")
+      ) {
+        await session.command("STARTTLS", 220);
+        session.upgrade(config.host);
+        extensions = await session.command(`EHLO ${hostname}`, 250);
+      }
+
+      if (config.username) {
+        if (!extensions.some((line) => /^AUTH\b.*\bPLAIN\b/i.test(line))) {
+          throw new Error("SMTP server does not support AUTH PLAIN");
+        }
+        const credentials = Buffer.from(
+          `\0${config.username}\0${config.password || ""}`
+        ).toString("base64");
+        await session.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${addressOf(config.from)}>`, 250);
+      await session.command(`RCPT TO:<${addressOf(message.to)}>`, 250);
+      await session.command("DATA", 354);
+      // Lines starting with a dot are doubled so they do not end the data
+      const data = buildMimeMessage(message, config.from).replace(
+        /^\./gm,
+        ".."
+      );
+      session.write(`${data}\r\n.\r\n`);
+      await session.reply(250);
+      await session.command("QUIT", 221);
+    } finally {
+      session.close();
+    }
+  },
+});
+
+/**
+ * Writes each message as an .eml file that any mail client can open
+ */
+export const createFileTransport = (directory: string): EmailTransport => ({
+  name: "file",
+  async send(message) {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${new Date()
+      .toISOString()
+      .replace(/[:.]/g, "-")}-${uuidv4()}.eml`;
+    await fs.writeFile(
+      path.join(directory, fileName),
+      buildMimeMessage(message)
+    );
+  },
+});
+
+export const createConsoleTransport = (): EmailTransport => ({
+  name: "console",
+  async send(message) {
+    console.log(
+      `Email to ${message.to}: ${message.subject}\n\n${message.text}`
+    );
+  },
+});
+
+/**
+ * The transport picked by EMAIL_TRANSPORT: "smtp", "file" or "console".
+ * Defaults to SMTP when SMTP_HOST is set and to the console otherwise.
+ */
+export const getEmailTransport = (): EmailTransport => {
+  const transport =
+    process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+
+  if (transport === "smtp") {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST is required for the smtp email transport");
+    }
+    const secure = process.env.SMTP_SECURE === "true";
+    return createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      username: process.env.SMTP_USERNAME,
+      password: process.env.SMTP_PASSWORD,
+      from: getSender(),
+    });
+  }
+
+  if (transport === "file") {
+    return createFileTransport(process.env.EMAIL_OUTBOX_DIR || "outbox");
+  }
+
+  if (transport === "console") {
+    return createConsoleTransport();
+  }
+
+  throw new Error(`Unknown email transport: ${transport}`);
+};
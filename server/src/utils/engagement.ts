@@ -0,0 +1,253 @@
+import { Condition } from "dynamoose";
+import DailyActivity from "../models/dailyActivityModel";
+import StudentProgress from "../models/studentProgressModel";
+
+// A heartbeat covers at most this much time, however long ago the last one
+// was, so a tab left open overnight does not count as studying
+export const MAX_HEARTBEAT_SECONDS = 60;
+// Videos can play at up to 2x speed
+export const MAX_HEARTBEAT_VIDEO_SECONDS = 2 * MAX_HEARTBEAT_SECONDS;
+
+export const WEEKLY_GOAL_TYPES = ["Minutes", "Chapters"];
+const MAX_WEEKLY_GOAL = { Minutes: 7 * 24 * 60, Chapters: 1000 };
+
+// A day counts towards the streak after a minute of learning or a completed
+// chapter
+const MIN_ACTIVE_SECONDS = 60;
+const HEATMAP_WEEKS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isValidTimeZone = (timeZone: unknown) => {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// YYYY-MM-DD of an instant in a time zone
+const toLocalDate = (date: Date, timeZone = "UTC") =>
+  new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+
+// The Monday on or before a date
+const startOfWeek = (date: string) =>
+  addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+
+const toMinutes = (seconds: number) => Math.round((seconds || 0) / 60);
+
+const clampSeconds = (value: unknown, max: number) =>
+  Math.min(Math.max(Math.round(Number(value) || 0), 0), max);
+
+// Attempts at crediting a heartbeat while other tabs credit theirs
+const MAX_HEARTBEAT_ATTEMPTS = 3;
+
+/**
+ * Add a heartbeat's time on task to the student's day. The day is taken in
+ * the time zone the client reports, which is remembered for days counted
+ * without a client, such as chapters completed by passing a quiz.
+ *
+ * A heartbeat is credited no more than the time since the day's last one, so
+ * several tabs, or a client reporting too often, cannot count more time than
+ * has actually passed.
+ */
+export const addHeartbeat = async (
+  userId: string,
+  heartbeat: { seconds?: unknown; videoSeconds?: unknown; timeZone?: unknown }
+) => {
+  const now = new Date();
+  const timeZone = isValidTimeZone(heartbeat.timeZone)
+    ? (heartbeat.timeZone as string)
+    : undefined;
+  const key = { userId, date: toLocalDate(now, timeZone) };
+
+  await StudentProgress.update(
+    { userId },
+    { lastActive: now.toISOString(), ...(timeZone ? { timeZone } : {}) }
+  );
+
+  for (let attempt = 1; ; attempt++) {
+    const day = await DailyActivity.get(key);
+    const lastHeartbeatAt: string | undefined = day?.lastHeartbeatAt;
+    const elapsed = lastHeartbeatAt
+      ? Math.max(
+          Math.floor(
+            (now.getTime() - new Date(lastHeartbeatAt).getTime()) / 1000
+          ),
+          0
+        )
+      : MAX_HEARTBEAT_SECONDS;
+
+    // Only credit the time if no other heartbeat was counted in the meantime
+    const condition = lastHeartbeatAt
+      ? new Condition("lastHeartbeatAt").eq(lastHeartbeatAt)
+      : new Condition("lastHeartbeatAt").not().exists();
+
+    try {
+      return await DailyActivity.update(
+        key,
+        {
+          $ADD: {
+            activeSeconds: Math.min(
+              clampSeconds(heartbeat.seconds, MAX_HEARTBEAT_SECONDS),
+              elapsed
+            ),
+            videoSeconds: Math.min(
+              clampSeconds(heartbeat.videoSeconds, MAX_HEARTBEAT_VIDEO_SECONDS),
+              2 * elapsed
+            ),
+          },
+          $SET: { lastHeartbeatAt: now.toISOString() },
+        },
+        { condition }
+      );
+    } catch (error: any) {
+      if (
+        error.name !== "ConditionalCheckFailedException" ||
+        attempt === MAX_HEARTBEAT_ATTEMPTS
+      ) {
+        throw error;
+      }
+    }
+  }
+};
+
+// Count chapters towards the student's day in their last known time zone
+export const recordChaptersCompleted = async (
+  userId: string,
+  count: number
+) => {
+  if (count <= 0) return;
+  const progress = await StudentProgress.get({ userId });
+  await DailyActivity.update(
+    { userId, date: toLocalDate(new Date(), progress?.timeZone) },
+    { $ADD: { chaptersCompleted: count } }
+  );
+};
+
+export const validateWeeklyGoal = (goal: any): string | null => {
+  if (!WEEKLY_GOAL_TYPES.includes(goal?.type)) {
+    return `type must be one of: ${WEEKLY_GOAL_TYPES.join(", ")}`;
+  }
+  const max = MAX_WEEKLY_GOAL[goal.type as keyof typeof MAX_WEEKLY_GOAL];
+  if (!Number.isInteger(goal.target) || goal.target < 1 || goal.target > max) {
+    return `target must be a whole number from 1 to ${max}`;
+  }
+  return null;
+};
+
+const isActiveDay = (day?: any) =>
+  !!day &&
+  ((day.activeSeconds || 0) >= MIN_ACTIVE_SECONDS ||
+    (day.chaptersCompleted || 0) > 0);
+
+// Current and longest runs of consecutive active days. The current streak
+// is not broken until a whole day passes without activity.
+const computeStreaks = (days: Map<string, any>, today: string) => {
+  const activeDates = [...days.keys()]
+    .filter((date) => isActiveDay(days.get(date)))
+    .sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | undefined;
+  for (const date of activeDates) {
+    run = previous && addDays(previous, 1) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  const activeToday = isActiveDay(days.get(today));
+  let current = 0;
+  let date = activeToday ? today : addDays(today, -1);
+  while (isActiveDay(days.get(date))) {
+    current++;
+    date = addDays(date, -1);
+  }
+
+  return { current, longest, activeToday };
+};
+
+/**
+ * Streaks, this week's totals against the weekly goal, and daily activity
+ * for the heatmap, all in the student's time zone
+ */
+export const getEngagementSummary = async (userId: string) => {
+  const progress = await StudentProgress.get({ userId });
+  const timeZone = progress?.timeZone || "UTC";
+  const today = toLocalDate(new Date(), timeZone);
+  const weekStart = startOfWeek(today);
+
+  const records = await DailyActivity.query("userId").eq(userId).all().exec();
+  const days = new Map<string, any>(
+    records.map((record: any) => [record.date, record])
+  );
+
+  const thisWeek = Array.from({ length: 7 }, (_, i) =>
+    days.get(addDays(weekStart, i))
+  ).filter(Boolean);
+  const week = {
+    start: weekStart,
+    minutes: toMinutes(
+      thisWeek.reduce((sum, day) => sum + (day.activeSeconds || 0), 0)
+    ),
+    videoMinutes: toMinutes(
+      thisWeek.reduce((sum, day) => sum + (day.videoSeconds || 0), 0)
+    ),
+    chapters: thisWeek.reduce(
+      (sum, day) => sum + (day.chaptersCompleted || 0),
+      0
+    ),
+  };
+
+  const weeklyGoal = progress?.weeklyGoal;
+  const goalProgress = weeklyGoal
+    ? weeklyGoal.type === "Minutes"
+      ? week.minutes
+      : week.chapters
+    : 0;
+
+  // Whole weeks, oldest first, ending with the current one
+  const heatmapStart = addDays(weekStart, -7 * (HEATMAP_WEEKS - 1));
+  const heatmap = Array.from({ length: HEATMAP_WEEKS * 7 }, (_, i) => {
+    const date = addDays(heatmapStart, i);
+    const day = days.get(date);
+    return {
+      date,
+      minutes: toMinutes(day?.activeSeconds),
+      chapters: day?.chaptersCompleted || 0,
+      future: date > today,
+    };
+  });
+
+  return {
+    timeZone,
+    today,
+    streak: computeStreaks(days, today),
+    week,
+    goal: weeklyGoal
+      ? {
+          type: weeklyGoal.type,
+          target: weeklyGoal.target,
+          progress: goalProgress,
+          percent: Math.min(
+            Math.round((goalProgress / weeklyGoal.target) * 100),
+            100
+          ),
+          achieved: goalProgress >= weeklyGoal.target,
+        }
+      : null,
+    heatmap,
+  };
+};
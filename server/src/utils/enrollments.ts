@@ -0,0 +1,224 @@
+import Course from "../models/courseModel";
+import Enrollment from "../models/enrollmentModel";
+
+export const ENROLLMENT_MODES = ["Open", "Approval", "InviteCode"];
+
+// Statuses that take up a seat, counted in the course's enrollmentCount
+export const SEATED_STATUSES = ["Active", "Completed", "Suspended"];
+
+// Statuses that can open the course content
+export const ACCESS_STATUSES = ["Active", "Completed"];
+
+// Pending and Rejected enrollments are requests, not students
+export const REQUEST_STATUSES = ["Pending", "Rejected"];
+
+const isValidDate = (value: any) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+export const validateEnrollmentPolicy = (policy: any): string | null => {
+  if (!policy || typeof policy !== "object") {
+    return "Enrollment policy is required";
+  }
+
+  const {
+    mode = "Open",
+    inviteCode,
+    capacity,
+    opensAt,
+    closesAt,
+    accessDays,
+  } = policy;
+
+  if (!ENROLLMENT_MODES.includes(mode)) {
+    return `Enrollment mode must be one of: ${ENROLLMENT_MODES.join(", ")}`;
+  }
+
+  if (mode === "InviteCode" && !String(inviteCode || "").trim()) {
+    return "Invite-code enrollment requires an invite code";
+  }
+
+  if (capacity !== undefined && (!Number.isInteger(capacity) || capacity < 0)) {
+    return "Capacity must be a whole number, or 0 for no limit";
+  }
+
+  if (
+    (opensAt && !isValidDate(opensAt)) ||
+    (closesAt && !isValidDate(closesAt))
+  ) {
+    return "Enrollment window dates must be valid dates";
+  }
+
+  if (opensAt && closesAt && Date.parse(opensAt) >= Date.parse(closesAt)) {
+    return "The enrollment window must close after it opens";
+  }
+
+  if (
+    accessDays !== undefined &&
+    (!Number.isInteger(accessDays) || accessDays < 0)
+  ) {
+    return "Access days must be a whole number, or 0 for no expiry";
+  }
+
+  return null;
+};
+
+// Why a user cannot enroll in a course right now, or null when they can.
+// Approval is not checked here since it only changes what happens next.
+export const checkEnrollmentPolicy = (
+  course: any,
+  inviteCode?: string,
+  now = new Date()
+): string | null => {
+  if (course.status !== "Published") {
+    return "This course is not open for enrollment";
+  }
+
+  const policy = course.enrollmentPolicy || {};
+
+  if (policy.opensAt && now < new Date(policy.opensAt)) {
+    return `Enrollment opens on ${new Date(policy.opensAt).toDateString()}`;
+  }
+
+  if (policy.closesAt && now > new Date(policy.closesAt)) {
+    return "Enrollment for this course has closed";
+  }
+
+  if (policy.capacity && (course.enrollmentCount || 0) >= policy.capacity) {
+    return "This course is full";
+  }
+
+  if (
+    policy.mode === "InviteCode" &&
+    String(inviteCode || "").trim() !== policy.inviteCode
+  ) {
+    return "A valid invite code is required to enroll in this course";
+  }
+
+  return null;
+};
+
+// Invite codes are only for the course's teacher
+export const toPublicCourse = (course: any, userId?: string | null) => {
+  if (userId && course.teacherId === userId) return course;
+  if (!course.enrollmentPolicy) return course;
+
+  const { inviteCode, ...policy } = course.enrollmentPolicy;
+  return { ...course, enrollmentPolicy: policy };
+};
+
+// When access ends for a student enrolling now, or undefined for no expiry
+export const getAccessExpiry = (course: any, now = new Date()) => {
+  const days = course.enrollmentPolicy?.accessDays;
+  if (!days) return undefined;
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+};
+
+/**
+ * Move an enrollment to a new status and keep the course's enrollmentCount in
+ * step when the student gains or gives up a seat.
+ */
+export const setEnrollmentStatus = async (
+  enrollment: any,
+  status: string,
+  changes: { expiresAt?: string | null; removedBy?: string | null } = {}
+) => {
+  const wasSeated = SEATED_STATUSES.includes(enrollment.status);
+  const isSeated = SEATED_STATUSES.includes(status);
+
+  enrollment.status = status;
+  if (changes.expiresAt !== undefined) {
+    enrollment.expiresAt = changes.expiresAt || undefined;
+  }
+  if (changes.removedBy !== undefined) {
+    enrollment.removedBy = changes.removedBy || undefined;
+  }
+  if (status === "Dropped" || status === "Expired") {
+    enrollment.endedAt = new Date().toISOString();
+  } else if (isSeated) {
+    enrollment.endedAt = undefined;
+  }
+  await enrollment.save();
+
+  if (wasSeated !== isSeated) {
+    await Course.update(
+      { courseId: enrollment.courseId },
+      { $ADD: { enrollmentCount: isSeated ? 1 : -1 } }
+    );
+  }
+
+  return enrollment;
+};
+
+// Finishing every chapter of a course completes the enrollment
+export const completeEnrollment = async (
+  userId: string,
+  courseId: string,
+  overallProgress: number
+) => {
+  if (overallProgress < 100) return;
+  const enrollment = await Enrollment.get({ userId, courseId });
+  if (enrollment?.status === "Active") {
+    await setEnrollmentStatus(enrollment, "Completed");
+  }
+};
+
+// Enrollments are expired lazily, the first time they are read after
+// their expiresAt has passed
+export const refreshEnrollment = async (enrollment: any, now = new Date()) => {
+  if (
+    enrollment &&
+    ACCESS_STATUSES.includes(enrollment.status) &&
+    enrollment.expiresAt &&
+    now > new Date(enrollment.expiresAt)
+  ) {
+    await setEnrollmentStatus(enrollment, "Expired");
+  }
+  return enrollment;
+};
+
+const ACCESS_DENIED_MESSAGES: Record<string, string> = {
+  Suspended: "Your access to this course has been suspended",
+  Dropped: "You are no longer enrolled in this course",
+  Expired: "Your access to this course has expired",
+  Pending: "Your enrollment request is waiting for approval",
+  Rejected: "Your enrollment request for this course was declined",
+};
+
+/**
+ * Whether a user may open a course's content, with the reason when they may
+ * not. Returns the enrollment so callers do not need to read it again.
+ */
+export const checkCourseAccess = async (userId: string, courseId: string) => {
+  const enrollment = await refreshEnrollment(
+    await Enrollment.get({ userId, courseId })
+  );
+
+  if (!enrollment) {
+    return {
+      allowed: false,
+      message: "You must be enrolled in this course",
+    };
+  }
+
+  if (!ACCESS_STATUSES.includes(enrollment.status)) {
+    return {
+      allowed: false,
+      enrollment,
+      message: ACCESS_DENIED_MESSAGES[enrollment.status],
+    };
+  }
+
+  return { allowed: true, enrollment };
+};
+
+// Everyone who has been a student of a course, read through the courseIndex.
+// Enrollment requests are left out.
+export const listCourseEnrollments = async (courseId: string) => {
+  const enrollments = await Enrollment.query("courseId")
+    .eq(courseId)
+    .using("courseIndex")
+    .exec();
+  return enrollments.filter(
+    (enrollment: any) => !REQUEST_STATUSES.includes(enrollment.status)
+  );
+};
@@ -0,0 +1,407 @@
+import { SCORING_POLICIES } from "./quizQuestions";
+
+// Moodle GIFT text format. Questions are separated by blank lines and look like
+// `::Title:: Question text {=right ~wrong ####explanation}`. Fields GIFT has no
+// syntax for are written as `// key: value` comment lines, which Moodle ignores.
+
+const QUIZ_SETTINGS: Record<string, string> = {
+  "quiz-title": "title",
+  "quiz-description": "description",
+  "quiz-time-limit": "timeLimit",
+  "quiz-passing-score": "passingScore",
+  "quiz-shuffle-questions": "shuffleQuestions",
+  "quiz-shuffle-options": "shuffleOptions",
+  "quiz-max-attempts": "maxAttempts",
+  "quiz-cooldown-minutes": "cooldownMinutes",
+  "quiz-scoring-policy": "scoringPolicy",
+};
+
+const BOOLEAN_SETTINGS = ["shuffleQuestions", "shuffleOptions"];
+const TEXT_SETTINGS = ["title", "description", "scoringPolicy"];
+
+const escapeGift = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/([~=#{}:])/g, "\\$1")
+    .replace(/\n/g, "\\n");
+
+const unescapeGift = (text: string) =>
+  text.replace(/\\(.)/g, (_, char) => (char === "n" ? "\n" : char)).trim();
+
+// Position of the first `token` at or after `from` that is not escaped
+const indexOfUnescaped = (text: string, token: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text.startsWith(token, i)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Split an answer block into its `=` and `~` answers
+const tokenizeAnswers = (body: string) => {
+  const answers: { marker: string; text: string }[] = [];
+  let leading = "";
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    const current = answers[answers.length - 1];
+
+    if (char === "=" || char === "~") {
+      answers.push({ marker: char, text: "" });
+      continue;
+    }
+
+    let piece = char;
+    if (char === "\\") {
+      piece = body.slice(i, i + 2);
+      i++;
+    }
+    if (current) {
+      current.text += piece;
+    } else {
+      leading += piece;
+    }
+  }
+
+  return { leading: leading.trim(), answers };
+};
+
+const parseAnswer = (answer: { marker: string; text: string }) => {
+  let text = answer.text;
+  const feedbackIndex = indexOfUnescaped(text, "#");
+  if (feedbackIndex !== -1) {
+    text = text.slice(0, feedbackIndex);
+  }
+
+  const weight = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+  if (weight) {
+    text = text.slice(weight[0].length);
+  }
+
+  return {
+    marker: answer.marker,
+    weight: weight ? Number(weight[1]) : null,
+    text,
+  };
+};
+
+const parseSetting = (field: string, value: string) => {
+  if (TEXT_SETTINGS.includes(field)) {
+    if (field === "scoringPolicy" && !SCORING_POLICIES.includes(value)) {
+      return {
+        error: `Scoring policy must be one of: ${SCORING_POLICIES.join(", ")}`,
+      };
+    }
+    return { value };
+  }
+
+  if (BOOLEAN_SETTINGS.includes(field)) {
+    if (!["true", "false"].includes(value.toLowerCase())) {
+      return { error: `${field} must be true or false` };
+    }
+    return { value: value.toLowerCase() === "true" };
+  }
+
+  const number = Number(value);
+  if (value === "" || isNaN(number) || number < 0) {
+    return { error: `${field} must be a number of 0 or more` };
+  }
+  return { value: number };
+};
+
+const parseQuestion = (source: string, directives: Record<string, string>) => {
+  const open = indexOfUnescaped(source, "{");
+  if (open === -1) {
+    return { error: "Question is missing its {answer} block" };
+  }
+  const close = indexOfUnescaped(source, "}", open);
+  if (close === -1) {
+    return { error: "Answer block is missing its closing }" };
+  }
+
+  let prefix = source.slice(0, open).trim();
+  if (prefix.startsWith("::")) {
+    const titleEnd = indexOfUnescaped(prefix, "::", 2);
+    if (titleEnd === -1) {
+      return { error: "Question title is missing its closing ::" };
+    }
+    prefix = prefix.slice(titleEnd + 2);
+  }
+  prefix = prefix.replace(/^\s*\[(html|moodle|plain|markdown)\]/, "");
+
+  // Answers in the middle of the text become a blank to fill in
+  const suffix = unescapeGift(source.slice(close + 1));
+  const text = [unescapeGift(prefix), suffix].filter(Boolean).join(" _____ ");
+
+  let body = source.slice(open + 1, close);
+  let explanation = "";
+  const generalFeedback = indexOfUnescaped(body, "####");
+  if (generalFeedback !== -1) {
+    explanation = unescapeGift(body.slice(generalFeedback + 4));
+    body = body.slice(0, generalFeedback);
+  }
+
+  const question: any = { text, correctAnswerExplanation: explanation };
+
+  if (directives.points !== undefined) {
+    const points = Number(directives.points);
+    if (isNaN(points) || points <= 0) {
+      return { error: "Points must be a number greater than 0" };
+    }
+    question.points = points;
+  }
+  if (directives.tags) {
+    question.tags = directives.tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+  if (directives.difficulty) {
+    question.difficulty = directives.difficulty;
+  }
+
+  const trimmed = body.trim();
+  const trueFalse = trimmed.match(/^(T|F|TRUE|FALSE)\s*(#|$)/i);
+
+  if (!trimmed || directives.type === "Essay") {
+    return { question: { ...question, type: "Essay", options: [] } };
+  }
+
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith("T");
+    return {
+      question: {
+        ...question,
+        type: "TrueFalse",
+        options: [
+          { text: "True", isCorrect: isTrue },
+          { text: "False", isCorrect: !isTrue },
+        ],
+      },
+    };
+  }
+
+  if (trimmed.startsWith("#")) {
+    return { error: "Numerical questions are not supported" };
+  }
+
+  const { leading, answers } = tokenizeAnswers(body);
+  if (leading) {
+    return { error: "Every answer must start with = or ~" };
+  }
+
+  const parsed = answers.map(parseAnswer);
+
+  if (directives.type === "Ordering") {
+    return {
+      question: {
+        ...question,
+        type: "Ordering",
+        options: parsed.map((answer) => ({
+          text: unescapeGift(answer.text),
+          isCorrect: false,
+        })),
+      },
+    };
+  }
+
+  if (parsed.some((answer) => answer.text.includes("->"))) {
+    if (parsed.some((answer) => answer.marker !== "=")) {
+      return { error: "Matching answers must all start with =" };
+    }
+    return {
+      question: {
+        ...question,
+        type: "Matching",
+        options: parsed.map((answer) => {
+          const [left, ...right] = answer.text.split("->");
+          return {
+            text: unescapeGift(left),
+            match: unescapeGift(right.join("->")),
+            isCorrect: false,
+          };
+        }),
+      },
+    };
+  }
+
+  if (parsed.some((answer) => answer.weight !== null)) {
+    return {
+      question: {
+        ...question,
+        type: "MultipleSelect",
+        options: parsed.map((answer) => ({
+          text: unescapeGift(answer.text),
+          isCorrect: (answer.weight ?? (answer.marker === "=" ? 100 : 0)) > 0,
+        })),
+      },
+    };
+  }
+
+  if (parsed.every((answer) => answer.marker === "=")) {
+    return {
+      question: {
+        ...question,
+        type: "ShortAnswer",
+        options: [],
+        acceptedAnswers: parsed.map((answer) => unescapeGift(answer.text)),
+      },
+    };
+  }
+
+  if (parsed.filter((answer) => answer.marker === "=").length !== 1) {
+    return {
+      error: "Multiple choice questions need exactly 1 correct answer (=)",
+    };
+  }
+
+  return {
+    question: {
+      ...question,
+      type: "MultipleChoice",
+      options: parsed.map((answer) => ({
+        text: unescapeGift(answer.text),
+        isCorrect: answer.marker === "=",
+      })),
+    },
+  };
+};
+
+export const parseGift = (content: string) => {
+  const settings: Record<string, any> = {};
+  const questions: { line: number; question: any }[] = [];
+  const errors: { line: number; message: string }[] = [];
+
+  let directives: Record<string, string> = {};
+  let source: string[] = [];
+  let startLine = 0;
+
+  const finishQuestion = () => {
+    if (source.length === 0) return;
+
+    const result = parseQuestion(source.join("\n"), directives);
+    if (result.error) {
+      errors.push({ line: startLine, message: result.error });
+    } else {
+      questions.push({ line: startLine, question: result.question });
+    }
+
+    directives = {};
+    source = [];
+  };
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+
+    if (!line) {
+      finishQuestion();
+      return;
+    }
+
+    if (line.startsWith("//")) {
+      const directive = line.match(/^\/\/\s*([\w-]+)\s*:\s*(.*)$/);
+      if (!directive) return;
+
+      const key = directive[1].toLowerCase();
+      const value = directive[2].trim();
+      const field = QUIZ_SETTINGS[key];
+      if (field) {
+        const setting = parseSetting(field, value);
+        if (setting.error) {
+          errors.push({ line: lineNumber, message: setting.error });
+        } else {
+          settings[field] = setting.value;
+        }
+      } else {
+        directives[key] = value;
+      }
+      return;
+    }
+
+    if (line.startsWith("$CATEGORY:")) return;
+
+    if (source.length === 0) {
+      startLine = lineNumber;
+    }
+    source.push(rawLine);
+  });
+  finishQuestion();
+
+  return { settings, questions, errors };
+};
+
+const formatWeight = (weight: number) => String(Number(weight.toFixed(5)));
+
+const exportAnswers = (question: any): string[] => {
+  const options: any[] = question.options || [];
+
+  switch (question.type) {
+    case "MultipleChoice":
+      return options.map(
+        (option) => `${option.isCorrect ? "=" : "~"}${escapeGift(option.text)}`
+      );
+    case "MultipleSelect": {
+      const correctCount = options.filter((option) => option.isCorrect).length;
+      return options.map(
+        (option) =>
+          `~%${option.isCorrect ? formatWeight(100 / correctCount) : "-100"}%` +
+          escapeGift(option.text)
+      );
+    }
+    case "TrueFalse": {
+      const correct = options.find((option) => option.isCorrect);
+      return [/^true$/i.test(correct?.text || "") ? "T" : "F"];
+    }
+    case "ShortAnswer":
+      return (question.acceptedAnswers || []).map(
+        (answer: string) => `=${escapeGift(answer)}`
+      );
+    case "Ordering":
+      return options.map((option) => `=${escapeGift(option.text)}`);
+    case "Matching":
+      return options.map(
+        (option) =>
+          `=${escapeGift(option.text)} -> ${escapeGift(option.match || "")}`
+      );
+    default:
+      return [];
+  }
+};
+
+export const exportGift = (quiz: any) => {
+  const lines: string[] = [];
+
+  for (const [key, field] of Object.entries(QUIZ_SETTINGS)) {
+    const value = quiz[field];
+    if (value !== undefined && value !== null && value !== "") {
+      lines.push(`// ${key}: ${String(value).replace(/\r?\n/g, " ")}`);
+    }
+  }
+
+  for (const question of quiz.questions || []) {
+    lines.push("");
+    lines.push(`// points: ${question.points || 1}`);
+    if (question.tags?.length) {
+      lines.push(`// tags: ${question.tags.join(", ")}`);
+    }
+    if (question.difficulty) {
+      lines.push(`// difficulty: ${question.difficulty}`);
+    }
+    if (question.type === "Ordering" || question.type === "Essay") {
+      lines.push(`// type: ${question.type}`);
+    }
+
+    lines.push(`${escapeGift(question.text)} {`);
+    lines.push(...exportAnswers(question).map((answer) => `  ${answer}`));
+    if (question.correctAnswerExplanation) {
+      lines.push(`  ####${escapeGift(question.correctAnswerExplanation)}`);
+    }
+    lines.push("}");
+  }
+
+  return lines.join("\n") + "\n";
+};
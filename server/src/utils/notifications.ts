@@ -0,0 +1,233 @@
+import { v4 as uuidv4 } from "uuid";
+import { clerkClient } from "../index";
+import Course from "../models/courseModel";
+import Notification from "../models/notificationModel";
+import { ACCESS_STATUSES, listCourseEnrollments } from "./enrollments";
+
+const BATCH_SIZE = 100;
+const EXCERPT_LENGTH = 140;
+
+type NotificationType =
+  | "NewChapter"
+  | "CommentReply"
+  | "EssayGraded"
+  | "EnrollmentApproved";
+
+// Updates about a course follow the courseNotifications setting. The other
+// types are about the user's own work and are always created.
+const COURSE_UPDATE_TYPES: NotificationType[] = ["NewChapter"];
+
+export interface NotificationSettings {
+  courseNotifications: boolean;
+  emailAlerts: boolean;
+  smsAlerts: boolean;
+  notificationFrequency: "immediate" | "daily" | "weekly";
+}
+
+/**
+ * Notification settings from a Clerk user's publicMetadata. Course
+ * notifications are on unless turned off; email and SMS alerts are opt in.
+ */
+export const toNotificationSettings = (user: any): NotificationSettings => {
+  const saved = (user.publicMetadata?.settings || {}) as Record<string, any>;
+  return {
+    courseNotifications: saved.courseNotifications !== false,
+    emailAlerts: !!saved.emailAlerts,
+    smsAlerts: !!saved.smsAlerts,
+    notificationFrequency: saved.notificationFrequency || "daily",
+  };
+};
+
+// Clerk users by ID, read in batches. Users deleted from Clerk are left out.
+export const getUsers = async (userIds: string[]) => {
+  const users = new Map<string, any>();
+  for (let i = 0; i < userIds.length; i += BATCH_SIZE) {
+    const { data } = await clerkClient.users.getUserList({
+      userId: userIds.slice(i, i + BATCH_SIZE),
+      limit: BATCH_SIZE,
+    });
+    for (const user of data) users.set(user.id, user);
+  }
+  return users;
+};
+
+export const getNotificationSettings = async (userIds: string[]) => {
+  const settings = new Map<string, NotificationSettings>();
+  for (const [userId, user] of await getUsers(userIds)) {
+    settings.set(userId, toNotificationSettings(user));
+  }
+  return settings;
+};
+
+export const excerpt = (text: string) =>
+  text.length > EXCERPT_LENGTH
+    ? `${text.slice(0, EXCERPT_LENGTH - 1).trimEnd()}…`
+    : text;
+
+// Where a student picks a course up: the given chapter, else the first one
+export const courseLink = (course: any, chapterId?: string) => {
+  const firstChapterId = course.sections?.[0]?.chapters?.[0]?.chapterId;
+  return chapterId || firstChapterId
+    ? `/user/courses/${course.courseId}/chapters/${chapterId || firstChapterId}`
+    : `/user/courses/${course.courseId}`;
+};
+
+/**
+ * Create a notification for each user whose settings allow it. Failures are
+ * logged rather than thrown so that notifying never fails the request that
+ * caused it.
+ */
+export const notifyUsers = async (
+  userIds: string[],
+  notification: {
+    type: NotificationType;
+    title: string;
+    message?: string;
+    link?: string;
+    courseId?: string;
+  }
+) => {
+  try {
+    const recipients = [...new Set(userIds)];
+    if (recipients.length === 0) return [];
+
+    const settings = await getNotificationSettings(recipients);
+    const timestamp = new Date().toISOString();
+    const created = [];
+    for (const userId of recipients) {
+      const userSettings = settings.get(userId);
+      if (!userSettings) continue;
+      if (
+        COURSE_UPDATE_TYPES.includes(notification.type) &&
+        !userSettings.courseNotifications
+      ) {
+        continue;
+      }
+
+      created.push(
+        await Notification.create({
+          ...notification,
+          userId,
+          notificationId: `${timestamp}#${uuidv4()}`,
+          channels: [
+            "InApp",
+            ...(userSettings.emailAlerts ? ["Email"] : []),
+            ...(userSettings.smsAlerts ? ["Sms"] : []),
+          ],
+          emailStatus: userSettings.emailAlerts ? "Pending" : undefined,
+          read: false,
+          timestamp,
+        })
+      );
+    }
+    return created;
+  } catch (error) {
+    console.error("Error creating notifications:", error);
+    return [];
+  }
+};
+
+export const notifyUser = (
+  userId: string,
+  notification: Parameters<typeof notifyUsers>[1]
+) => notifyUsers([userId], notification);
+
+const chapterIdsOf = (sections: any[] = []) =>
+  sections.flatMap((section: any) =>
+    (section.chapters || []).map((chapter: any) => chapter.chapterId)
+  );
+
+/**
+ * Tell the students who can open a published course about chapters that were
+ * not in it before an update
+ */
+export const notifyNewChapters = async (
+  course: any,
+  previousSections: any[] = []
+) => {
+  if (course.status !== "Published") return [];
+
+  const previous = new Set(chapterIdsOf(previousSections));
+  const added = (course.sections || [])
+    .flatMap((section: any) => section.chapters || [])
+    .filter((chapter: any) => !previous.has(chapter.chapterId));
+  if (added.length === 0) return [];
+
+  const enrollments = await listCourseEnrollments(course.courseId);
+  const students = enrollments
+    .filter((enrollment: any) => ACCESS_STATUSES.includes(enrollment.status))
+    .map((enrollment: any) => enrollment.userId);
+
+  return notifyUsers(students, {
+    type: "NewChapter",
+    title:
+      added.length === 1
+        ? `New chapter in ${course.title}`
+        : `${added.length} new chapters in ${course.title}`,
+    message:
+      added.length === 1
+        ? `"${added[0].title}" is now available.`
+        : `${added
+            .map((chapter: any) => `"${chapter.title}"`)
+            .join(", ")} are now available.`,
+    link: courseLink(course, added[0].chapterId),
+    courseId: course.courseId,
+  });
+};
+
+/**
+ * Tell a student their essay answers were graded, once none are left to
+ * review in the attempt. Links to the quiz's chapter when the course has one.
+ */
+export const notifyEssaysGraded = async (
+  userId: string,
+  quiz: any,
+  result: { score: number; passed?: boolean }
+) => {
+  try {
+    const course = await Course.get(quiz.courseId);
+    const quizChapter = (course?.sections || [])
+      .flatMap((section: any) => section.chapters || [])
+      .find(
+        (chapter: any) =>
+          chapter.type === "Quiz" && chapter.quizId === quiz.quizId
+      );
+
+    return await notifyUser(userId, {
+      type: "EssayGraded",
+      title: `Your ${quiz.title} attempt was graded`,
+      message: `You scored ${Math.round(result.score)}% and ${
+        result.passed ? "passed" : "did not pass"
+      }.`,
+      link: course ? courseLink(course, quizChapter?.chapterId) : undefined,
+      courseId: quiz.courseId,
+    });
+  } catch (error) {
+    console.error("Error creating notifications:", error);
+    return [];
+  }
+};
+
+// A user's latest notifications, newest first. The read filter is applied
+// after DynamoDB's limit, so unread ones are read in full and then cut.
+export const listUserNotifications = async (
+  userId: string,
+  { unreadOnly = false, limit }: { unreadOnly?: boolean; limit: number }
+) => {
+  const query = Notification.query("userId").eq(userId).sort("descending");
+  if (!unreadOnly) return query.limit(limit).exec();
+
+  const unread = await query.where("read").eq(false).all().exec();
+  return unread.slice(0, limit);
+};
+
+export const countUnreadNotifications = async (userId: string) => {
+  const unread = await Notification.query("userId")
+    .eq(userId)
+    .where("read")
+    .eq(false)
+    .all()
+    .count()
+    .exec();
+  return unread.count;
+};
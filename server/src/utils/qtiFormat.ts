@@ -0,0 +1,705 @@
+import { SCORING_POLICIES } from "./quizQuestions";
+
+// IMS QTI 2.1 XML. A quiz is exported as one assessmentTest document with its
+// assessmentItems written inline in the section instead of as separate files
+// in a content package. Import accepts that document or a single item.
+
+const QTI_NAMESPACE = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const MATCH_CORRECT =
+  "http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct";
+const MAP_RESPONSE =
+  "http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response";
+
+type XmlNode = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+  line: number;
+};
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith("#x") || code.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith("#")) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return ENTITIES[code] ?? entity;
+  });
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Element names without their namespace prefix
+const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+const TAG_PATTERN =
+  /<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// A small XML reader for the parts of QTI used here. It keeps line numbers so
+// import errors can point at the element they came from.
+const parseXml = (
+  xml: string
+): { error?: { line: number; message: string }; root?: XmlNode } => {
+  const root: XmlNode = {
+    name: "#document",
+    attributes: {},
+    children: [],
+    text: "",
+    line: 1,
+  };
+  const stack = [root];
+  let line = 1;
+  let i = 0;
+
+  const advance = (to: number) => {
+    line += (xml.slice(i, to).match(/\n/g) || []).length;
+    i = to;
+  };
+  const skipPast = (token: string) => {
+    const end = xml.indexOf(token, i);
+    if (end === -1) return false;
+    advance(end + token.length);
+    return true;
+  };
+
+  while (i < xml.length) {
+    const parent = stack[stack.length - 1];
+
+    if (xml.startsWith("<!--", i)) {
+      if (!skipPast("-->")) {
+        return { error: { line, message: "Comment is missing its -->" } };
+      }
+    } else if (xml.startsWith("<![CDATA[", i)) {
+      const end = xml.indexOf("]]>", i);
+      if (end === -1) {
+        return { error: { line, message: "CDATA section is missing its ]]>" } };
+      }
+      parent.children.push({
+        name: "#text",
+        attributes: {},
+        children: [],
+        text: xml.slice(i + 9, end),
+        line,
+      });
+      advance(end + 3);
+    } else if (xml.startsWith("<?", i) || xml.startsWith("<!", i)) {
+      if (!skipPast(">")) {
+        return { error: { line, message: "Declaration is missing its >" } };
+      }
+    } else if (xml.startsWith("</", i)) {
+      const end = xml.indexOf(">", i);
+      const name = localName(xml.slice(i + 2, end).trim());
+      if (end === -1 || parent.name !== name) {
+        return {
+          error: {
+            line,
+            message:
+              parent === root
+                ? `Unexpected closing tag </${name}>`
+                : `Expected </${parent.name}> but found </${name}>`,
+          },
+        };
+      }
+      stack.pop();
+      advance(end + 1);
+    } else if (xml[i] === "<") {
+      TAG_PATTERN.lastIndex = i;
+      const tag = TAG_PATTERN.exec(xml);
+      if (!tag) {
+        return { error: { line, message: "Malformed tag" } };
+      }
+
+      const node: XmlNode = {
+        name: localName(tag[1]),
+        attributes: {},
+        children: [],
+        text: "",
+        line,
+      };
+      for (const attribute of tag[2].matchAll(ATTRIBUTE_PATTERN)) {
+        node.attributes[localName(attribute[1])] = decodeEntities(
+          attribute[2] ?? attribute[3]
+        );
+      }
+
+      parent.children.push(node);
+      if (!tag[3]) stack.push(node);
+      advance(i + tag[0].length);
+    } else {
+      const end = xml.indexOf("<", i) === -1 ? xml.length : xml.indexOf("<", i);
+      parent.children.push({
+        name: "#text",
+        attributes: {},
+        children: [],
+        text: decodeEntities(xml.slice(i, end)),
+        line,
+      });
+      advance(end);
+    }
+  }
+
+  if (stack.length > 1) {
+    const unclosed = stack[stack.length - 1];
+    return {
+      error: {
+        line: unclosed.line,
+        message: `<${unclosed.name}> is never closed`,
+      },
+    };
+  }
+
+  return { root };
+};
+
+const childrenNamed = (node: XmlNode, name: string) =>
+  node.children.filter((child) => child.name === name);
+
+const childNamed = (node: XmlNode | undefined, name: string) =>
+  node?.children.find((child) => child.name === name);
+
+const findAll = (node: XmlNode, name: string): XmlNode[] =>
+  node.children.flatMap((child) =>
+    child.name === name ? [child] : findAll(child, name)
+  );
+
+const findInteraction = (node: XmlNode): XmlNode | undefined => {
+  for (const child of node.children) {
+    if (child.name.endsWith("Interaction")) return child;
+    const nested = findInteraction(child);
+    if (nested) return nested;
+  }
+  return undefined;
+};
+
+// Text of a node, leaving out the `skip` node if it is inside
+const textContent = (node: XmlNode | undefined, skip?: XmlNode): string => {
+  if (!node || node === skip) return "";
+  if (node.name === "#text") return node.text;
+  return node.children.map((child) => textContent(child, skip)).join("");
+};
+
+const cleanText = (node: XmlNode | undefined, skip?: XmlNode) =>
+  textContent(node, skip).replace(/\s+/g, " ").trim();
+
+const valuesOf = (node: XmlNode | undefined) =>
+  node ? childrenNamed(node, "value").map((value) => cleanText(value)) : [];
+
+// The default value of a declared outcome, e.g. MAXSCORE
+const outcomeValue = (node: XmlNode, identifier: string) => {
+  const outcome = childrenNamed(node, "outcomeDeclaration").find(
+    (declaration) => declaration.attributes.identifier === identifier
+  );
+  return valuesOf(childNamed(outcome, "defaultValue"))[0];
+};
+
+// Question text is the item body without its interaction. Each block element
+// becomes a line of text.
+const itemText = (body: XmlNode, interaction: XmlNode) => {
+  const blocks = body.children
+    .map((child) => cleanText(child, interaction))
+    .filter(Boolean);
+  return blocks.length
+    ? blocks.join("\n")
+    : cleanText(childNamed(interaction, "prompt"));
+};
+
+const parseItem = (item: XmlNode) => {
+  const body = childNamed(item, "itemBody");
+  const interaction = body && findInteraction(body);
+
+  if (!body || !interaction) {
+    return { error: "Item has no itemBody with an interaction" };
+  }
+
+  const responseId = interaction.attributes.responseIdentifier;
+  const response = childrenNamed(item, "responseDeclaration").find(
+    (declaration) => declaration.attributes.identifier === responseId
+  );
+  const correct = valuesOf(childNamed(response, "correctResponse"));
+  const points = Number(outcomeValue(item, "MAXSCORE") || 1);
+  const feedback = childNamed(item, "modalFeedback");
+
+  const question: any = {
+    text: itemText(body, interaction),
+    points: isNaN(points) || points <= 0 ? 1 : points,
+    correctAnswerExplanation: cleanText(feedback),
+  };
+
+  const choices = (name: string, parent = interaction) =>
+    findAll(parent, name).map((choice) => ({
+      identifier: choice.attributes.identifier,
+      text: cleanText(choice),
+    }));
+
+  switch (interaction.name) {
+    case "choiceInteraction": {
+      const options = choices("simpleChoice").map((choice) => ({
+        text: choice.text,
+        isCorrect: correct.includes(choice.identifier),
+      }));
+      const single =
+        interaction.attributes.maxChoices === "1" &&
+        response?.attributes.cardinality !== "multiple";
+      const trueFalse =
+        options.length === 2 &&
+        options.every((option) => /^(true|false)$/i.test(option.text));
+
+      return {
+        question: {
+          ...question,
+          type: single
+            ? trueFalse
+              ? "TrueFalse"
+              : "MultipleChoice"
+            : "MultipleSelect",
+          options,
+        },
+      };
+    }
+    case "textEntryInteraction": {
+      const mapped = findAll(response || item, "mapEntry").map(
+        (entry) => entry.attributes.mapKey
+      );
+      return {
+        question: {
+          ...question,
+          type: "ShortAnswer",
+          options: [],
+          acceptedAnswers: [...new Set([...correct, ...mapped])].filter(
+            Boolean
+          ),
+        },
+      };
+    }
+    case "extendedTextInteraction":
+      return { question: { ...question, type: "Essay", options: [] } };
+    case "orderInteraction": {
+      const options = choices("simpleChoice");
+      const ordered = correct.length
+        ? correct.map((id) => options.find((o) => o.identifier === id))
+        : options;
+      if (ordered.some((option) => !option)) {
+        return { error: "Correct order refers to an unknown choice" };
+      }
+      return {
+        question: {
+          ...question,
+          type: "Ordering",
+          options: ordered.map((option) => ({
+            text: option!.text,
+            isCorrect: false,
+          })),
+        },
+      };
+    }
+    case "matchInteraction": {
+      const [sources, targets] = childrenNamed(
+        interaction,
+        "simpleMatchSet"
+      ).map((set) => choices("simpleAssociableChoice", set));
+      if (!sources || !targets) {
+        return { error: "Match interaction needs 2 simpleMatchSets" };
+      }
+      const pairs = correct.map((value) => value.split(" "));
+      return {
+        question: {
+          ...question,
+          type: "Matching",
+          options: sources.map((choice) => {
+            const pair = pairs.find(([source]) => source === choice.identifier);
+            const target = targets.find((t) => t.identifier === pair?.[1]);
+            return { text: choice.text, match: target?.text, isCorrect: false };
+          }),
+        },
+      };
+    }
+    default:
+      return { error: `Unsupported interaction: ${interaction.name}` };
+  }
+};
+
+const parseSettings = (
+  test: XmlNode,
+  errors: { line: number; message: string }[]
+) => {
+  const settings: Record<string, any> = {};
+  const section = findAll(test, "assessmentSection")[0];
+  const timeLimits = childNamed(test, "timeLimits");
+  const itemSessionControl = findAll(test, "itemSessionControl")[0];
+  const ordering = section && childNamed(section, "ordering");
+  const rubric = section && childNamed(section, "rubricBlock");
+
+  if (test.attributes.title) settings.title = test.attributes.title;
+  if (rubric) settings.description = cleanText(rubric);
+  if (timeLimits?.attributes.maxTime) {
+    settings.timeLimit = Math.round(Number(timeLimits.attributes.maxTime) / 60);
+  }
+  if (ordering) {
+    settings.shuffleQuestions = ordering.attributes.shuffle === "true";
+  }
+  if (itemSessionControl?.attributes.maxAttempts) {
+    settings.maxAttempts = Number(itemSessionControl.attributes.maxAttempts);
+  }
+
+  const passScore = outcomeValue(test, "PASS_SCORE");
+  const cooldown = outcomeValue(test, "COOLDOWN_MINUTES");
+  const scoringPolicy = outcomeValue(test, "SCORING_POLICY");
+  if (passScore !== undefined) settings.passingScore = Number(passScore);
+  if (cooldown !== undefined) settings.cooldownMinutes = Number(cooldown);
+  if (scoringPolicy !== undefined) settings.scoringPolicy = scoringPolicy;
+
+  for (const field of [
+    "timeLimit",
+    "passingScore",
+    "maxAttempts",
+    "cooldownMinutes",
+  ]) {
+    if (
+      settings[field] !== undefined &&
+      (isNaN(settings[field]) || settings[field] < 0)
+    ) {
+      errors.push({
+        line: test.line,
+        message: `${field} must be a number of 0 or more`,
+      });
+      delete settings[field];
+    }
+  }
+  if (
+    settings.scoringPolicy &&
+    !SCORING_POLICIES.includes(settings.scoringPolicy)
+  ) {
+    errors.push({
+      line: test.line,
+      message: `Scoring policy must be one of: ${SCORING_POLICIES.join(", ")}`,
+    });
+    delete settings.scoringPolicy;
+  }
+
+  return settings;
+};
+
+export const parseQti = (content: string) => {
+  const errors: { line: number; message: string }[] = [];
+  const questions: { line: number; question: any }[] = [];
+
+  const { root, error } = parseXml(content);
+  if (error || !root) {
+    return { settings: {}, questions, errors: error ? [error] : errors };
+  }
+
+  const test = findAll(root, "assessmentTest")[0];
+  const settings = test ? parseSettings(test, errors) : {};
+  const items = findAll(root, "assessmentItem");
+  if (items.length === 0) {
+    errors.push({ line: 1, message: "No assessmentItem elements found" });
+  }
+
+  let shuffleOptions = false;
+  for (const item of items) {
+    const result = parseItem(item);
+    if (result.error) {
+      errors.push({ line: item.line, message: result.error });
+    } else {
+      questions.push({ line: item.line, question: result.question });
+    }
+    if (findAll(item, "choiceInteraction")[0]?.attributes.shuffle === "true") {
+      shuffleOptions = true;
+    }
+  }
+  if (test) settings.shuffleOptions = shuffleOptions;
+
+  return { settings, questions, errors };
+};
+
+// Lines of an element. Children are either text or the lines of other
+// elements, which are indented under it.
+const xmlElement = (
+  name: string,
+  attributes: Record<string, any>,
+  children?: string | string[]
+): string[] => {
+  const attributeText = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join("");
+
+  if (children === undefined) {
+    return [`<${name}${attributeText}/>`];
+  }
+  if (typeof children === "string") {
+    return [`<${name}${attributeText}>${escapeXml(children)}</${name}>`];
+  }
+  return [
+    `<${name}${attributeText}>`,
+    ...children.map((line) => `  ${line}`),
+    `</${name}>`,
+  ];
+};
+
+const outcomeDeclaration = (
+  identifier: string,
+  baseType: string,
+  value?: string | number
+) =>
+  xmlElement(
+    "outcomeDeclaration",
+    { identifier, cardinality: "single", baseType },
+    value === undefined
+      ? undefined
+      : xmlElement("defaultValue", {}, xmlElement("value", {}, String(value)))
+  );
+
+const responseDeclaration = (
+  cardinality: string,
+  baseType: string,
+  correct: string[],
+  extra: string[] = []
+) =>
+  xmlElement(
+    "responseDeclaration",
+    { identifier: "RESPONSE", cardinality, baseType },
+    [
+      ...xmlElement(
+        "correctResponse",
+        {},
+        correct.flatMap((value) => xmlElement("value", {}, value))
+      ),
+      ...extra,
+    ]
+  );
+
+const simpleChoices = (options: any[], name = "simpleChoice", prefix = "C") =>
+  options.flatMap((option, index) =>
+    xmlElement(name, { identifier: `${prefix}${index + 1}` }, option.text)
+  );
+
+const exportItem = (question: any, index: number, shuffle: boolean) => {
+  const options: any[] = question.options || [];
+  const choiceId = (option: any) => `C${options.indexOf(option) + 1}`;
+  let response: string[] = [];
+  let interaction: string[] = [];
+  let template = MATCH_CORRECT;
+
+  switch (question.type) {
+    case "MultipleChoice":
+    case "TrueFalse":
+    case "MultipleSelect": {
+      const single = question.type !== "MultipleSelect";
+      response = responseDeclaration(
+        single ? "single" : "multiple",
+        "identifier",
+        options.filter((option) => option.isCorrect).map(choiceId)
+      );
+      interaction = xmlElement(
+        "choiceInteraction",
+        {
+          responseIdentifier: "RESPONSE",
+          shuffle,
+          maxChoices: single ? 1 : 0,
+        },
+        simpleChoices(options)
+      );
+      break;
+    }
+    case "ShortAnswer": {
+      const answers: string[] = question.acceptedAnswers || [];
+      response = responseDeclaration(
+        "single",
+        "string",
+        answers.slice(0, 1),
+        xmlElement(
+          "mapping",
+          { defaultValue: 0 },
+          answers.flatMap((answer) =>
+            xmlElement("mapEntry", {
+              mapKey: answer,
+              mappedValue: question.points || 1,
+            })
+          )
+        )
+      );
+      interaction = xmlElement("textEntryInteraction", {
+        responseIdentifier: "RESPONSE",
+      });
+      template = MAP_RESPONSE;
+      break;
+    }
+    case "Essay":
+      response = xmlElement("responseDeclaration", {
+        identifier: "RESPONSE",
+        cardinality: "single",
+        baseType: "string",
+      });
+      interaction = xmlElement("extendedTextInteraction", {
+        responseIdentifier: "RESPONSE",
+      });
+      break;
+    case "Ordering":
+      response = responseDeclaration(
+        "ordered",
+        "identifier",
+        options.map(choiceId)
+      );
+      interaction = xmlElement(
+        "orderInteraction",
+        { responseIdentifier: "RESPONSE", shuffle: true },
+        simpleChoices(options)
+      );
+      break;
+    case "Matching": {
+      const targets = [
+        ...new Set<string>(options.map((option) => option.match || "")),
+      ];
+      const targetId = (match: string) => `T${targets.indexOf(match) + 1}`;
+      response = responseDeclaration(
+        "multiple",
+        "directedPair",
+        options.map(
+          (option) => `${choiceId(option)} ${targetId(option.match || "")}`
+        )
+      );
+      interaction = xmlElement(
+        "matchInteraction",
+        { responseIdentifier: "RESPONSE", shuffle, maxAssociations: 0 },
+        [
+          ...xmlElement(
+            "simpleMatchSet",
+            {},
+            options.flatMap((option) =>
+              xmlElement(
+                "simpleAssociableChoice",
+                { identifier: choiceId(option), matchMax: 1 },
+                option.text
+              )
+            )
+          ),
+          ...xmlElement(
+            "simpleMatchSet",
+            {},
+            simpleChoices(
+              targets.map((text) => ({ text })),
+              "simpleAssociableChoice",
+              "T"
+            )
+          ),
+        ]
+      );
+      break;
+    }
+  }
+
+  return xmlElement(
+    "assessmentItem",
+    {
+      identifier: `Q${index + 1}`,
+      title: `Question ${index + 1}`,
+      adaptive: false,
+      timeDependent: false,
+    },
+    [
+      ...response,
+      ...outcomeDeclaration("SCORE", "float", 0),
+      ...outcomeDeclaration("MAXSCORE", "float", question.points || 1),
+      ...xmlElement("itemBody", {}, [
+        ...String(question.text)
+          .split(/\r?\n/)
+          .flatMap((line) => xmlElement("p", {}, line)),
+        ...interaction,
+      ]),
+      ...xmlElement("responseProcessing", { template }),
+      ...(question.correctAnswerExplanation
+        ? xmlElement(
+            "modalFeedback",
+            {
+              outcomeIdentifier: "FEEDBACK",
+              identifier: "EXPLANATION",
+              showHide: "show",
+            },
+            question.correctAnswerExplanation
+          )
+        : []),
+    ]
+  );
+};
+
+export const exportQti = (quiz: any) => {
+  const items = (quiz.questions || []).flatMap((question: any, index: number) =>
+    exportItem(question, index, Boolean(quiz.shuffleOptions))
+  );
+
+  const test = xmlElement(
+    "assessmentTest",
+    {
+      xmlns: QTI_NAMESPACE,
+      identifier: `quiz-${quiz.quizId}`,
+      title: quiz.title,
+    },
+    [
+      ...outcomeDeclaration("PASS_SCORE", "float", quiz.passingScore ?? 70),
+      ...outcomeDeclaration(
+        "COOLDOWN_MINUTES",
+        "integer",
+        quiz.cooldownMinutes ?? 0
+      ),
+      ...outcomeDeclaration(
+        "SCORING_POLICY",
+        "identifier",
+        quiz.scoringPolicy || "Best"
+      ),
+      ...(quiz.timeLimit > 0
+        ? xmlElement("timeLimits", { maxTime: quiz.timeLimit * 60 })
+        : []),
+      ...xmlElement(
+        "testPart",
+        {
+          identifier: "part-1",
+          navigationMode: "nonlinear",
+          submissionMode: "simultaneous",
+        },
+        [
+          ...(quiz.maxAttempts > 0
+            ? xmlElement("itemSessionControl", {
+                maxAttempts: quiz.maxAttempts,
+              })
+            : []),
+          ...xmlElement(
+            "assessmentSection",
+            { identifier: "section-1", title: quiz.title, visible: true },
+            [
+              ...xmlElement("ordering", {
+                shuffle: Boolean(quiz.shuffleQuestions),
+              }),
+              ...(quiz.description
+                ? xmlElement(
+                    "rubricBlock",
+                    { view: "candidate" },
+                    xmlElement("p", {}, quiz.description)
+                  )
+                : []),
+              ...items,
+            ]
+          ),
+        ]
+      ),
+    ]
+  );
+
+  return ['<?xml version="1.0" encoding="UTF-8"?>', ...test].join("\n") + "\n";
+};
@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from "uuid";
+import QuestionBank from "../models/questionBankModel";
+import { shuffle } from "./quizAttempts";
+import { DIFFICULTIES } from "./quizQuestions";
+
+const matchesPool = (question: any, pool: any) =>
+  (!pool.difficulty || question.difficulty === pool.difficulty) &&
+  (pool.tags || []).every((tag: string) => (question.tags || []).includes(tag));
+
+// Check a quiz's question pools and give each one an ID. Pools may only draw
+// from the teacher's own banks that are unscoped or scoped to the quiz's course.
+export const processQuestionPools = async (
+  pools: any,
+  teacherId: string | null,
+  courseId: string
+): Promise<{ error?: string; pools?: any[] }> => {
+  if (!Array.isArray(pools)) {
+    return { error: "Question pools must be a list" };
+  }
+
+  for (const pool of pools) {
+    if (!pool?.bankId || !Number.isInteger(pool.count) || pool.count < 1) {
+      return { error: "Each question pool requires a bankId and a count" };
+    }
+    if (pool.difficulty && !DIFFICULTIES.includes(pool.difficulty)) {
+      return { error: `Difficulty must be one of: ${DIFFICULTIES.join(", ")}` };
+    }
+  }
+
+  const bankIds = [...new Set<string>(pools.map((pool: any) => pool.bankId))];
+  const banks = bankIds.length ? await QuestionBank.batchGet(bankIds) : [];
+  for (const bankId of bankIds) {
+    const bank = banks.find((b: any) => b.bankId === bankId);
+    if (!bank) {
+      return { error: `Question bank not found: ${bankId}` };
+    }
+    if (
+      bank.teacherId !== teacherId ||
+      (bank.courseId && bank.courseId !== courseId)
+    ) {
+      return { error: `Question bank cannot be used in this quiz: ${bankId}` };
+    }
+  }
+
+  return {
+    pools: pools.map((pool: any) => ({
+      poolId: pool.poolId || uuidv4(),
+      bankId: pool.bankId,
+      count: pool.count,
+      tags: pool.tags || [],
+      difficulty: pool.difficulty,
+      points: pool.points,
+    })),
+  };
+};
+
+// Questions for one attempt: the quiz's own questions plus a random draw from
+// each pool. A question is never drawn twice for the same attempt, and a pool
+// with too few matching questions gives as many as it has.
+export const assembleAttemptQuestions = async (quiz: any) => {
+  const questions: any[] = [...(quiz.questions || [])];
+  const pools: any[] = quiz.questionPools || [];
+  if (pools.length === 0) return questions;
+
+  const bankIds = [...new Set<string>(pools.map((pool: any) => pool.bankId))];
+  const banks = await QuestionBank.batchGet(bankIds);
+  const used = new Set<string>(
+    questions.map((question: any) => question.questionId)
+  );
+
+  for (const pool of pools) {
+    const bank = banks.find((b: any) => b.bankId === pool.bankId);
+    const candidates = (bank?.questions || []).filter(
+      (question: any) =>
+        !used.has(question.questionId) && matchesPool(question, pool)
+    );
+
+    for (const question of shuffle<any>(candidates).slice(0, pool.count)) {
+      used.add(question.questionId);
+      questions.push({
+        ...question,
+        points: pool.points ?? question.points,
+      });
+    }
+  }
+
+  return questions;
+};
@@ -0,0 +1,148 @@
+import CourseAnswer from "../models/courseAnswerModel";
+import CourseQuestion from "../models/courseQuestionModel";
+import { recordActivityEvent } from "./activityEvents";
+
+export const MAX_QUESTION_TITLE_LENGTH = 200;
+export const MAX_POST_LENGTH = 10000;
+
+export const validateQuestion = (title: unknown, body: unknown) => {
+  if (typeof title !== "string" || !title.trim()) {
+    return "Question title is required";
+  }
+  if (title.trim().length > MAX_QUESTION_TITLE_LENGTH) {
+    return `Question titles can be at most ${MAX_QUESTION_TITLE_LENGTH} characters`;
+  }
+  if (body !== undefined && typeof body !== "string") {
+    return "Question body must be text";
+  }
+  if (body && body.trim().length > MAX_POST_LENGTH) {
+    return `Questions can be at most ${MAX_POST_LENGTH} characters`;
+  }
+  return null;
+};
+
+export const validateAnswerText = (text: unknown) => {
+  if (typeof text !== "string" || !text.trim()) {
+    return "Answer text is required";
+  }
+  if (text.trim().length > MAX_POST_LENGTH) {
+    return `Answers can be at most ${MAX_POST_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Check that a question's section and chapter belong to the course. A
+ * chapter can only be given together with its section.
+ */
+export const validateQuestionPlacement = (
+  course: any,
+  sectionId?: string,
+  chapterId?: string
+) => {
+  if (!sectionId) {
+    return chapterId ? "sectionId is required with chapterId" : null;
+  }
+  const section = (course.sections || []).find(
+    (section: any) => section.sectionId === sectionId
+  );
+  if (!section) return "Section not found in this course";
+  if (
+    chapterId &&
+    !(section.chapters || []).some(
+      (chapter: any) => chapter.chapterId === chapterId
+    )
+  ) {
+    return "Chapter not found in this section";
+  }
+  return null;
+};
+
+export const listCourseQuestions = (courseId: string) =>
+  CourseQuestion.query("courseId").eq(courseId).all().exec();
+
+export const listQuestionAnswers = (questionId: string) =>
+  CourseAnswer.query("questionId").eq(questionId).all().exec();
+
+// Count asking, answering and upvoting towards the student's discussion
+// participation
+export const recordBoardActivity = (
+  question: any,
+  userId: string,
+  activityType: "Question" | "Answer" | "Upvote",
+  answerId?: string
+) =>
+  recordActivityEvent(userId, {
+    type: "DiscussionActivity",
+    courseId: question.courseId,
+    sectionId: question.sectionId,
+    chapterId: question.chapterId,
+    activityType,
+    questionId: question.questionId,
+    answerId,
+  });
+
+export const toQuestionView = (question: any) => ({
+  questionId: question.questionId,
+  courseId: question.courseId,
+  sectionId: question.sectionId,
+  chapterId: question.chapterId,
+  userId: question.userId,
+  userName: question.userName,
+  userImageUrl: question.userImageUrl,
+  title: question.title,
+  body: question.body || "",
+  answerCount: question.answerCount || 0,
+  acceptedAnswerId: question.acceptedAnswerId,
+  timestamp: question.timestamp,
+  editedAt: question.editedAt,
+});
+
+export const toAnswerView = (answer: any, question: any, viewerId: string) => ({
+  answerId: answer.answerId,
+  questionId: answer.questionId,
+  userId: answer.userId,
+  userName: answer.userName,
+  userImageUrl: answer.userImageUrl,
+  text: answer.text,
+  upvotes: (answer.upvotes || []).length,
+  upvotedByMe: (answer.upvotes || []).includes(viewerId),
+  accepted: question.acceptedAnswerId === answer.answerId,
+  timestamp: answer.timestamp,
+  editedAt: answer.editedAt,
+});
+
+/**
+ * A question's answers as the viewer sees them: the accepted answer first,
+ * then the most upvoted, ties oldest first
+ */
+export const buildAnswerList = (
+  answers: any[],
+  question: any,
+  viewerId: string
+) =>
+  answers
+    .map((answer) => toAnswerView(answer, question, viewerId))
+    .sort(
+      (a, b) =>
+        Number(b.accepted) - Number(a.accepted) ||
+        b.upvotes - a.upvotes ||
+        (a.timestamp || "").localeCompare(b.timestamp || "")
+    );
+
+/**
+ * A course's questions, newest first, narrowed to a section or chapter and
+ * optionally to the ones nobody has answered yet
+ */
+export const filterQuestions = (
+  questions: any[],
+  filters: { sectionId?: string; chapterId?: string; unanswered?: boolean }
+) =>
+  questions
+    .filter(
+      (question) =>
+        (!filters.sectionId || question.sectionId === filters.sectionId) &&
+        (!filters.chapterId || question.chapterId === filters.chapterId) &&
+        (!filters.unanswered || !question.answerCount)
+    )
+    .sort((a, b) => (b.timestamp || "").localeCompare(a.timestamp || ""));
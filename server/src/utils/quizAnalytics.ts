@@ -0,0 +1,218 @@
+import QuestionBank from "../models/questionBankModel";
+import { normalizeShortAnswer } from "./quizQuestions";
+import { listCourseQuizAttempts } from "./activityEvents";
+
+// Questions are only flagged once enough students have answered them
+const MIN_RESPONSES_TO_FLAG = 5;
+// Share of attempts in each of the top and bottom scoring groups
+const DISCRIMINATION_GROUP_SIZE = 0.27;
+const CHOICE_TYPES = ["MultipleChoice", "MultipleSelect", "TrueFalse"];
+
+const percent = (count: number, total: number) =>
+  total > 0 ? Math.round((count / total) * 10000) / 100 : null;
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round(
+        (values.reduce((sum, value) => sum + value, 0) / values.length) * 100
+      ) / 100
+    : null;
+
+// Every submitted attempt at a quiz by the given students, read from the
+// course's activity events
+export const collectQuizAttempts = async (quiz: any, userIds: string[]) => {
+  const students = new Set(userIds);
+  return (await listCourseQuizAttempts(quiz.courseId)).filter(
+    (attempt: any) =>
+      attempt.quizId === quiz.quizId && students.has(attempt.userId)
+  );
+};
+
+// The quiz's own questions plus any questions drawn from its banks that
+// students have answered
+export const collectAnalyzedQuestions = async (quiz: any, attempts: any[]) => {
+  const questions: any[] = [...(quiz.questions || [])];
+  const known = new Set(questions.map((question) => question.questionId));
+  const answered = new Set<string>(
+    attempts.flatMap((attempt) =>
+      (attempt.answers || []).map((answer: any) => answer.questionId)
+    )
+  );
+
+  const bankIds = [
+    ...new Set<string>(
+      (quiz.questionPools || []).map((pool: any) => pool.bankId)
+    ),
+  ];
+  if (bankIds.length === 0) return questions;
+
+  const banks = await QuestionBank.batchGet(bankIds);
+  for (const bank of banks) {
+    for (const question of bank.questions || []) {
+      if (
+        answered.has(question.questionId) &&
+        !known.has(question.questionId)
+      ) {
+        known.add(question.questionId);
+        questions.push({ ...question, bankId: bank.bankId });
+      }
+    }
+  }
+
+  return questions;
+};
+
+const optionBreakdown = (question: any, responses: any[]) =>
+  (question.options || []).map((option: any) => {
+    const count = responses.filter((answer) =>
+      (answer.selectedOptionIds || []).includes(option.id)
+    ).length;
+    return {
+      optionId: option.id,
+      text: option.text,
+      isCorrect: !!option.isCorrect,
+      count,
+      percent: percent(count, responses.length),
+    };
+  });
+
+const commonAnswers = (responses: any[]) => {
+  const counts = new Map<string, { count: number; isCorrect: boolean }>();
+  for (const answer of responses) {
+    const text = normalizeShortAnswer(answer.textAnswer || "");
+    if (!text) continue;
+    const entry = counts.get(text) || {
+      count: 0,
+      isCorrect: !!answer.isCorrect,
+    };
+    entry.count += 1;
+    counts.set(text, entry);
+  }
+
+  return Array.from(counts.entries())
+    .map(([answer, entry]) => ({ answer, ...entry }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+};
+
+// Flags for questions that are too hard or look broken: top scorers doing
+// worse than bottom scorers usually means a wrong answer key
+const flagsFor = (
+  question: any,
+  graded: number,
+  percentCorrect: number | null,
+  discrimination: number | null,
+  options: any[]
+) => {
+  if (graded < MIN_RESPONSES_TO_FLAG || percentCorrect === null) return [];
+
+  const flags: string[] = [];
+  if (percentCorrect < 30) flags.push("TooHard");
+  if (percentCorrect > 95) flags.push("TooEasy");
+  if (discrimination !== null && discrimination < 0) {
+    flags.push("NegativeDiscrimination");
+  } else if (discrimination !== null && discrimination < 0.2) {
+    flags.push("LowDiscrimination");
+  }
+
+  const keyCount = Math.max(
+    0,
+    ...options.filter((o: any) => o.isCorrect).map((o: any) => o.count)
+  );
+  if (
+    question.type !== "MultipleSelect" &&
+    options.some((option: any) => !option.isCorrect && option.count > keyCount)
+  ) {
+    flags.push("DistractorOverKey");
+  }
+
+  return flags;
+};
+
+// Item analysis for a quiz: how often each question is answered correctly,
+// which options students pick, how long they take and how well the question
+// separates the top scoring attempts from the bottom scoring ones
+export const analyzeQuiz = (questions: any[], attempts: any[]) => {
+  const ranked = [...attempts].sort((a, b) => (b.score || 0) - (a.score || 0));
+  const groupSize = Math.max(
+    1,
+    Math.floor(ranked.length * DISCRIMINATION_GROUP_SIZE)
+  );
+  const upper = new Set(ranked.slice(0, groupSize));
+  const lower = new Set(ranked.slice(-groupSize));
+
+  const shareCorrect = (responses: { attempt: any; answer: any }[]) =>
+    responses.length > 0
+      ? responses.filter(({ answer }) => answer.isCorrect).length /
+        responses.length
+      : null;
+
+  const questionStats = questions.map((question: any) => {
+    const responses = attempts.flatMap((attempt) => {
+      const answer = (attempt.answers || []).find(
+        (a: any) => a.questionId === question.questionId
+      );
+      return answer ? [{ attempt, answer }] : [];
+    });
+    // Essays waiting for a teacher have no correctness yet
+    const graded = responses.filter(({ answer }) => !answer.pendingReview);
+    const answers = responses.map(({ answer }) => answer);
+
+    const upperShare = shareCorrect(graded.filter((r) => upper.has(r.attempt)));
+    const lowerShare = shareCorrect(graded.filter((r) => lower.has(r.attempt)));
+    const discrimination =
+      ranked.length >= 2 && upperShare !== null && lowerShare !== null
+        ? Math.round((upperShare - lowerShare) * 100) / 100
+        : null;
+
+    const percentCorrect = percent(
+      graded.filter(({ answer }) => answer.isCorrect).length,
+      graded.length
+    );
+    const options = CHOICE_TYPES.includes(question.type)
+      ? optionBreakdown(question, answers)
+      : [];
+
+    return {
+      questionId: question.questionId,
+      text: question.text,
+      type: question.type,
+      points: question.points ?? 1,
+      bankId: question.bankId,
+      responses: responses.length,
+      percentCorrect,
+      averagePoints: average(
+        graded.map(({ answer }) => answer.pointsAwarded || 0)
+      ),
+      averageTimeSpent: average(
+        answers
+          .map((answer) => answer.timeSpent)
+          .filter((time) => typeof time === "number")
+      ),
+      discrimination,
+      unanswered: answers.filter(
+        (answer) =>
+          !(answer.selectedOptionIds || []).length &&
+          !(answer.textAnswer || "").trim() &&
+          !(answer.matches || []).length
+      ).length,
+      options,
+      commonAnswers:
+        question.type === "ShortAnswer" ? commonAnswers(answers) : [],
+      flags: flagsFor(
+        question,
+        graded.length,
+        percentCorrect,
+        discrimination,
+        options
+      ),
+    };
+  });
+
+  return {
+    attempts: attempts.length,
+    students: new Set(attempts.map((attempt) => attempt.userId)).size,
+    averageScore: average(attempts.map((attempt) => attempt.score || 0)),
+    questions: questionStats,
+  };
+};
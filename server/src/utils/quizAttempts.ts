@@ -0,0 +1,633 @@
+import { v4 as uuidv4 } from "uuid";
+import UserCourseProgress from "../models/userCourseProgressModel";
+import Course from "../models/courseModel";
+import {
+  calculateOverallProgress,
+  completedChapterIds,
+  mergeSections,
+} from "./utils";
+import { completeEnrollment } from "./enrollments";
+import { recordChaptersCompleted } from "./engagement";
+import { issueCertificate } from "./certificates";
+import { buildChapterCompletionStatement, emitStatement } from "./xapi";
+import {
+  listUserQuizAttempts,
+  recordActivityEvent,
+  updateQuizAttemptEvent,
+} from "./activityEvents";
+import { normalizeShortAnswer } from "./quizQuestions";
+
+// Allowance for network latency when answers arrive right at the deadline
+export const ATTEMPT_GRACE_PERIOD_MS = 30 * 1000;
+
+const sameIds = (a: string[], b: string[]): boolean => {
+  if (a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every((id) => set.has(id));
+};
+
+export const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Decide the question and option order a student sees for one attempt
+export const buildDeliveryOrder = (quiz: any) => {
+  const questions = quiz.questions || [];
+  const orderedQuestions = quiz.shuffleQuestions
+    ? shuffle(questions)
+    : questions;
+
+  return {
+    questionOrder: orderedQuestions.map((question: any) => question.questionId),
+    optionOrder: orderedQuestions.map((question: any) => {
+      const optionIds = (question.options || []).map(
+        (option: any) => option.id
+      );
+      return {
+        questionId: question.questionId,
+        // Ordering questions are authored in the correct order, so they are
+        // always shuffled
+        optionIds:
+          quiz.shuffleOptions || question.type === "Ordering"
+            ? shuffle(optionIds)
+            : optionIds,
+      };
+    }),
+  };
+};
+
+// The questions an attempt was built from. Attempts keep a snapshot so drawn
+// questions can still be graded after the quiz or its banks change.
+export const getAttemptQuestions = (quiz: any, attempt?: any): any[] =>
+  attempt?.questions?.length ? attempt.questions : quiz.questions || [];
+
+// Attempt details that are safe to show the student
+export const toStudentAttempt = (attempt: any) => {
+  const session = {
+    ...(typeof attempt.toJSON === "function" ? attempt.toJSON() : attempt),
+  };
+  delete session.questions;
+  return session;
+};
+
+// Strip answer keys so the quiz can be shown to students. When an attempt is
+// given, questions and options follow the order delivered for that attempt.
+export const toStudentQuiz = (quiz: any, attempt?: any) => {
+  const questionsById = new Map<string, any>(
+    getAttemptQuestions(quiz, attempt).map((question: any) => [
+      question.questionId,
+      question,
+    ])
+  );
+  const questions: any[] = attempt
+    ? (attempt.questionOrder || [])
+        .map((questionId: string) => questionsById.get(questionId))
+        .filter(Boolean)
+    : quiz.questions || [];
+
+  return {
+    quizId: quiz.quizId,
+    courseId: quiz.courseId,
+    title: quiz.title,
+    description: quiz.description,
+    timeLimit: quiz.timeLimit,
+    passingScore: quiz.passingScore,
+    maxAttempts: quiz.maxAttempts,
+    cooldownMinutes: quiz.cooldownMinutes,
+    scoringPolicy: quiz.scoringPolicy,
+    questions: questions.map((question: any) => {
+      const deliveredOrder: string[] | undefined = attempt?.optionOrder?.find(
+        (order: any) => order.questionId === question.questionId
+      )?.optionIds;
+      // Without an attempt, Ordering options are still shuffled, as the
+      // authored order is the answer key
+      const options = deliveredOrder
+        ? deliveredOrder
+            .map((id) =>
+              (question.options || []).find((option: any) => option.id === id)
+            )
+            .filter(Boolean)
+        : question.type === "Ordering"
+        ? shuffle(question.options || [])
+        : question.options || [];
+
+      return {
+        questionId: question.questionId,
+        text: question.text,
+        type: question.type,
+        points: question.points,
+        options: options.map((option: any) => ({
+          id: option.id,
+          text: option.text,
+        })),
+        ...(question.type === "Matching" && {
+          matchChoices: Array.from(
+            new Set<string>(options.map((option: any) => option.match))
+          ).sort(),
+        }),
+      };
+    }),
+  };
+};
+
+// Fraction of the question's points earned, from 0 to 1
+const creditFor = (
+  question: any,
+  selectedOptionIds: string[],
+  textAnswer: string,
+  matches: { optionId: string; match?: string }[]
+): number => {
+  const options: any[] = question.options || [];
+  const correctOptionIds: string[] = options
+    .filter((option: any) => option.isCorrect)
+    .map((option: any) => option.id);
+
+  switch (question.type) {
+    case "MultipleChoice":
+    case "TrueFalse":
+      return correctOptionIds.length > 0 &&
+        sameIds(selectedOptionIds, correctOptionIds)
+        ? 1
+        : 0;
+    case "MultipleSelect": {
+      // Each wrong pick cancels out a right one
+      if (correctOptionIds.length === 0) return 0;
+      const correct = new Set(correctOptionIds);
+      const selected = new Set(selectedOptionIds);
+      const hits = [...selected].filter((id) => correct.has(id)).length;
+      const misses = selected.size - hits;
+      return Math.max(0, hits - misses) / correct.size;
+    }
+    case "ShortAnswer": {
+      const response = normalizeShortAnswer(textAnswer);
+      return response &&
+        (question.acceptedAnswers || []).some(
+          (accepted: string) => normalizeShortAnswer(accepted) === response
+        )
+        ? 1
+        : 0;
+    }
+    case "Ordering": {
+      // Credit for each option placed in its correct position
+      if (options.length === 0) return 0;
+      const placed = options.filter(
+        (option: any, index: number) => selectedOptionIds[index] === option.id
+      ).length;
+      return placed / options.length;
+    }
+    case "Matching": {
+      if (options.length === 0) return 0;
+      const chosen = new Map(
+        matches.map((pair) => [pair.optionId, pair.match || ""])
+      );
+      const matched = options.filter(
+        (option: any) =>
+          normalizeShortAnswer(chosen.get(option.id) || "") ===
+          normalizeShortAnswer(option.match || "")
+      ).length;
+      return matched / options.length;
+    }
+    default:
+      return 0;
+  }
+};
+
+// Grade one answer. Essays with a response are left for a teacher to review.
+const gradeQuestion = (question: any, answer: any) => {
+  const points = question.points ?? 1;
+  const options: any[] = question.options || [];
+  const selectedOptionIds: string[] = Array.isArray(answer?.selectedOptionIds)
+    ? answer.selectedOptionIds
+    : [];
+  const textAnswer: string =
+    typeof answer?.textAnswer === "string" ? answer.textAnswer : "";
+  const matches: { optionId: string; match?: string }[] = Array.isArray(
+    answer?.matches
+  )
+    ? answer.matches
+    : [];
+  const correctOptionIds: string[] =
+    question.type === "Ordering"
+      ? options.map((option: any) => option.id)
+      : options
+          .filter((option: any) => option.isCorrect)
+          .map((option: any) => option.id);
+
+  const pendingReview =
+    question.type === "Essay" && textAnswer.trim().length > 0;
+  const credit = creditFor(question, selectedOptionIds, textAnswer, matches);
+
+  return {
+    questionId: question.questionId,
+    selectedOptionIds,
+    textAnswer,
+    matches,
+    isCorrect: credit === 1,
+    pointsAwarded: Math.round(credit * points * 100) / 100,
+    points,
+    pendingReview,
+    timeSpent: answer?.timeSpent,
+    correctOptionIds,
+    ...(question.type === "Matching" && {
+      correctMatches: options.map((option: any) => ({
+        optionId: option.id,
+        match: option.match,
+      })),
+    }),
+    ...(question.type === "ShortAnswer" && {
+      acceptedAnswers: question.acceptedAnswers || [],
+    }),
+    correctAnswerExplanation: question.correctAnswerExplanation || "",
+  };
+};
+
+// Total up graded answers. An attempt with essays awaiting review has a
+// provisional score and cannot pass until every essay is graded.
+export const summarizeResults = (
+  quiz: any,
+  results: { points: number; pointsAwarded: number; pendingReview?: boolean }[]
+) => {
+  const totalPoints = results.reduce((sum, result) => sum + result.points, 0);
+  const pointsEarned = results.reduce(
+    (sum, result) => sum + (result.pointsAwarded || 0),
+    0
+  );
+  const pendingReview = results.some((result) => result.pendingReview);
+  const score =
+    totalPoints > 0
+      ? Math.round((pointsEarned / totalPoints) * 10000) / 100
+      : 0;
+
+  return {
+    pointsEarned,
+    totalPoints,
+    score,
+    pendingReview,
+    passed: !pendingReview && score >= (quiz.passingScore ?? 70),
+  };
+};
+
+// Grade submitted answers against the quiz's answer key. When questionOrder is
+// given, only those questions are graded and results follow that order.
+export const gradeQuizSubmission = (
+  quiz: any,
+  answers: any[],
+  questionOrder?: string[]
+) => {
+  const answersByQuestion = new Map<string, any>();
+  for (const answer of answers || []) {
+    if (answer?.questionId) {
+      answersByQuestion.set(answer.questionId, answer);
+    }
+  }
+
+  const questions: any[] = questionOrder
+    ? questionOrder
+        .map((questionId) =>
+          (quiz.questions || []).find(
+            (question: any) => question.questionId === questionId
+          )
+        )
+        .filter(Boolean)
+    : quiz.questions || [];
+
+  const results = questions.map((question: any) =>
+    gradeQuestion(question, answersByQuestion.get(question.questionId))
+  );
+
+  return {
+    results,
+    ...summarizeResults(quiz, results),
+  };
+};
+
+// Build the attempt record stored on a QuizAttempt activity event
+export const buildQuizAttempt = (
+  quiz: any,
+  grade: ReturnType<typeof gradeQuizSubmission>,
+  timeTaken?: number,
+  attemptId: string = uuidv4()
+) => ({
+  attemptId,
+  quizId: quiz.quizId,
+  courseId: quiz.courseId,
+  attemptTimestamp: new Date().toISOString(),
+  score: grade.score,
+  pointsEarned: grade.pointsEarned,
+  totalPoints: grade.totalPoints,
+  passed: grade.passed,
+  pendingReview: grade.pendingReview,
+  answers: grade.results.map((result: any) => ({
+    questionId: result.questionId,
+    selectedOptionIds: result.selectedOptionIds,
+    textAnswer: result.textAnswer,
+    matches: result.matches,
+    isCorrect: result.isCorrect,
+    pointsAwarded: result.pointsAwarded,
+    pendingReview: result.pendingReview,
+    timeSpent: result.timeSpent,
+  })),
+  timeTaken,
+  completed: true,
+});
+
+const byAttemptTime = (a: any, b: any) =>
+  (a.attemptTimestamp || "").localeCompare(b.attemptTimestamp || "");
+
+// Whether a student may start another attempt under the quiz's attempt limit
+// and cooldown, given their previous attempts
+export const checkAttemptPolicy = (
+  quiz: any,
+  previousAttempts: any[],
+  now: number = Date.now()
+) => {
+  const attempts = (previousAttempts || [])
+    .filter((attempt: any) => attempt.quizId === quiz.quizId)
+    .sort(byAttemptTime);
+
+  if (quiz.maxAttempts > 0 && attempts.length >= quiz.maxAttempts) {
+    return {
+      allowed: false,
+      status: 403,
+      message: `You have used all ${quiz.maxAttempts} attempts for this quiz`,
+    };
+  }
+
+  const lastAttempt = attempts[attempts.length - 1];
+  if (quiz.cooldownMinutes > 0 && lastAttempt) {
+    const retryAt =
+      new Date(lastAttempt.attemptTimestamp).getTime() +
+      quiz.cooldownMinutes * 60 * 1000;
+    if (now < retryAt) {
+      return {
+        allowed: false,
+        status: 429,
+        message: "Please wait before attempting this quiz again",
+        retryAt: new Date(retryAt).toISOString(),
+      };
+    }
+  }
+
+  return { allowed: true };
+};
+
+// The score that counts for a quiz under its scoring policy. Attempts with
+// essays awaiting review only count when nothing else has been graded.
+export const computeQuizResult = (quiz: any, attempts: any[]) => {
+  const quizAttempts = (attempts || [])
+    .filter((attempt: any) => attempt.quizId === quiz.quizId)
+    .sort(byAttemptTime);
+  if (quizAttempts.length === 0) return null;
+
+  const graded = quizAttempts.filter((attempt: any) => !attempt.pendingReview);
+  const counted = graded.length > 0 ? graded : quizAttempts;
+  const scoringPolicy = quiz.scoringPolicy || "Best";
+  let score: number;
+  let passed: boolean;
+
+  switch (scoringPolicy) {
+    case "Latest": {
+      const latest = counted[counted.length - 1];
+      score = latest.score;
+      passed = !!latest.passed;
+      break;
+    }
+    case "Average":
+      score =
+        Math.round(
+          (counted.reduce(
+            (sum: number, attempt: any) => sum + attempt.score,
+            0
+          ) /
+            counted.length) *
+            100
+        ) / 100;
+      passed = graded.length > 0 && score >= (quiz.passingScore ?? 70);
+      break;
+    default:
+      score = Math.max(...counted.map((attempt: any) => attempt.score));
+      passed = counted.some((attempt: any) => attempt.passed);
+  }
+
+  return {
+    quizId: quiz.quizId,
+    scoringPolicy,
+    attempts: quizAttempts.length,
+    score,
+    passed,
+    lastAttemptAt: quizAttempts[quizAttempts.length - 1].attemptTimestamp,
+  };
+};
+
+// Store the counted quiz score on the student's course progress. Chapters
+// linked to the quiz are complete only while the counted result is a pass.
+export const syncCourseQuizResult = async (
+  userId: string,
+  quiz: any,
+  attempts: any[]
+) => {
+  const result = computeQuizResult(quiz, attempts);
+  if (!result) return;
+
+  const courseProgress = await UserCourseProgress.get({
+    userId,
+    courseId: quiz.courseId,
+  });
+  if (!courseProgress) return;
+
+  courseProgress.quizResults = [
+    ...(courseProgress.quizResults || []).filter(
+      (quizResult: any) => quizResult.quizId !== quiz.quizId
+    ),
+    result,
+  ];
+
+  const course = await Course.get(quiz.courseId);
+  const linkedSections = (course?.sections || [])
+    .map((section: any) => ({
+      sectionId: section.sectionId,
+      chapters: (section.chapters || [])
+        .filter((chapter: any) => chapter.quizId === quiz.quizId)
+        .map((chapter: any) => ({
+          chapterId: chapter.chapterId,
+          completed: result.passed,
+        })),
+    }))
+    .filter((section: any) => section.chapters.length > 0);
+  const completedBefore = completedChapterIds(courseProgress.sections);
+  if (linkedSections.length > 0) {
+    courseProgress.sections = mergeSections(
+      courseProgress.sections || [],
+      linkedSections
+    );
+    courseProgress.overallProgress = calculateOverallProgress(
+      courseProgress.sections
+    );
+  }
+
+  await courseProgress.save();
+  await completeEnrollment(
+    userId,
+    quiz.courseId,
+    courseProgress.overallProgress
+  );
+  // Passing a quiz can be the last thing a certificate was waiting for
+  if (course) {
+    await issueCertificate(userId, course, courseProgress);
+  }
+
+  // One xAPI statement per chapter the quiz result completed
+  const completedAfter = completedChapterIds(courseProgress.sections);
+  const newlyCompleted = (course?.sections || [])
+    .flatMap((section: any) => section.chapters || [])
+    .filter(
+      (chapter: any) =>
+        completedAfter.has(chapter.chapterId) &&
+        !completedBefore.has(chapter.chapterId)
+    );
+  const completedAt = new Date().toISOString();
+  for (const chapter of newlyCompleted) {
+    await emitStatement(
+      buildChapterCompletionStatement(
+        userId,
+        quiz.courseId,
+        chapter,
+        completedAt
+      )
+    );
+  }
+  await recordChaptersCompleted(userId, newlyCompleted.length);
+};
+
+// Record a graded attempt as an activity event and return all of the
+// student's attempts, including this one
+export const saveQuizAttempt = async (userId: string, attempt: any) => {
+  await recordActivityEvent(
+    userId,
+    {
+      type: "QuizAttempt",
+      courseId: attempt.courseId,
+      quizId: attempt.quizId,
+      attemptId: attempt.attemptId,
+      quizAttempt: attempt,
+    },
+    attempt.attemptTimestamp,
+    attempt.attemptId
+  );
+  return listUserQuizAttempts(userId);
+};
+
+// Server deadline for an attempt, or undefined when the quiz is untimed
+export const getAttemptDeadline = (quiz: any, startedAt: string) =>
+  quiz.timeLimit > 0
+    ? new Date(
+        new Date(startedAt).getTime() + quiz.timeLimit * 60 * 1000
+      ).toISOString()
+    : undefined;
+
+export const isAttemptExpired = (attempt: any, now: number = Date.now()) =>
+  !!attempt.expiresAt &&
+  now > new Date(attempt.expiresAt).getTime() + ATTEMPT_GRACE_PERIOD_MS;
+
+// Keep only answers to questions that were delivered for the attempt. Time
+// reported for a question cannot exceed the time the attempt has been open.
+export const normalizeAnswers = (
+  answers: any[],
+  questionOrder: string[],
+  maxTimeSpent = Infinity
+) => {
+  const delivered = new Set(questionOrder || []);
+  return (answers || [])
+    .filter((answer: any) => answer && delivered.has(answer.questionId))
+    .map((answer: any) => ({
+      questionId: answer.questionId,
+      selectedOptionIds: Array.isArray(answer.selectedOptionIds)
+        ? answer.selectedOptionIds.map(String)
+        : [],
+      textAnswer:
+        typeof answer.textAnswer === "string" ? answer.textAnswer : "",
+      matches: Array.isArray(answer.matches)
+        ? answer.matches
+            .filter((pair: any) => pair?.optionId)
+            .map((pair: any) => ({
+              optionId: String(pair.optionId),
+              match: typeof pair.match === "string" ? pair.match : "",
+            }))
+        : [],
+      timeSpent:
+        typeof answer.timeSpent === "number" && answer.timeSpent >= 0
+          ? Math.min(Math.round(answer.timeSpent), maxTimeSpent)
+          : undefined,
+    }));
+};
+
+// Grade an in-progress attempt, close it and record the result. The time taken
+// is measured by the server and capped at the deadline for timed quizzes.
+export const finalizeQuizAttempt = async (
+  quiz: any,
+  quizAttempt: any,
+  answers: any[],
+  autoSubmitted = false
+) => {
+  const now = Date.now();
+  const endedAt = quizAttempt.expiresAt
+    ? Math.min(now, new Date(quizAttempt.expiresAt).getTime())
+    : now;
+  const timeTaken = Math.max(
+    0,
+    Math.round((endedAt - new Date(quizAttempt.startedAt).getTime()) / 1000)
+  );
+
+  const savedAnswers = normalizeAnswers(
+    answers,
+    quizAttempt.questionOrder,
+    timeTaken
+  );
+  const grade = gradeQuizSubmission(
+    { ...quiz, questions: getAttemptQuestions(quiz, quizAttempt) },
+    savedAnswers,
+    quizAttempt.questionOrder
+  );
+  const attempt = buildQuizAttempt(
+    quiz,
+    grade,
+    timeTaken,
+    quizAttempt.attemptId
+  );
+
+  quizAttempt.answers = attempt.answers;
+  quizAttempt.score = attempt.score;
+  quizAttempt.pointsEarned = attempt.pointsEarned;
+  quizAttempt.totalPoints = attempt.totalPoints;
+  quizAttempt.passed = attempt.passed;
+  quizAttempt.gradingStatus = attempt.pendingReview
+    ? "PendingReview"
+    : "Graded";
+  quizAttempt.status = "Submitted";
+  quizAttempt.submittedAt = new Date(now).toISOString();
+  quizAttempt.timeTaken = timeTaken;
+  quizAttempt.autoSubmitted = autoSubmitted;
+  await quizAttempt.save();
+
+  const attempts = await saveQuizAttempt(quizAttempt.userId, attempt);
+  await syncCourseQuizResult(quizAttempt.userId, quiz, attempts);
+
+  return { attempt, results: grade.results };
+};
+
+// Mirror a regraded attempt onto its activity event and return all of the
+// student's attempts, or undefined when the attempt was never recorded
+export const updateSavedQuizAttempt = async (
+  userId: string,
+  attemptId: string,
+  changes: Record<string, any>
+) => {
+  const event = await updateQuizAttemptEvent(userId, attemptId, changes);
+  if (!event) return;
+  return listUserQuizAttempts(userId);
+};
@@ -0,0 +1,46 @@
+import { exportGift, parseGift } from "./giftFormat";
+import { exportQti, parseQti } from "./qtiFormat";
+import { validateQuestion } from "./quizQuestions";
+
+export const QUIZ_FORMATS = ["gift", "qti"];
+
+// Read a quiz file into its settings and questions. Questions that parse but
+// would not be accepted by addQuestion are reported as errors on their line.
+export const parseQuizFile = (format: string, content: string) => {
+  const parsed = format === "qti" ? parseQti(content) : parseGift(content);
+  const errors = [...parsed.errors];
+  const questions: any[] = [];
+
+  for (const { line, question } of parsed.questions) {
+    const validationError = validateQuestion(question);
+    if (validationError) {
+      errors.push({ line, message: validationError });
+    } else {
+      questions.push({ ...question, line });
+    }
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+
+  return { settings: parsed.settings, questions, errors };
+};
+
+export const exportQuizFile = (quiz: any, format: string) => {
+  const slug =
+    String(quiz.title)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "quiz";
+
+  return format === "qti"
+    ? {
+        filename: `${slug}.xml`,
+        contentType: "application/xml",
+        content: exportQti(quiz),
+      }
+    : {
+        filename: `${slug}.gift.txt`,
+        contentType: "text/plain",
+        content: exportGift(quiz),
+      };
+};
@@ -0,0 +1,110 @@
+import { v4 as uuidv4 } from "uuid";
+
+export const QUESTION_TYPES = [
+  "MultipleChoice",
+  "MultipleSelect",
+  "TrueFalse",
+  "ShortAnswer",
+  "Ordering",
+  "Matching",
+  "Essay",
+];
+
+export const DIFFICULTIES = ["Easy", "Medium", "Hard"];
+
+export const SCORING_POLICIES = ["Best", "Latest", "Average"];
+
+// Case and whitespace insensitive form used to compare short answers
+export const normalizeShortAnswer = (value: string) =>
+  value.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const processOptions = (options: any[]) =>
+  options.map((option: any) => ({
+    ...option,
+    id: option.id || uuidv4(),
+  }));
+
+// Copy of a validated question with only the stored fields, for saving into a
+// quiz or question bank
+export const buildQuestion = (question: any) => ({
+  questionId: question.questionId || uuidv4(),
+  text: question.text,
+  type: question.type,
+  options: question.options ? processOptions(question.options) : [],
+  acceptedAnswers:
+    question.type === "ShortAnswer" ? question.acceptedAnswers : undefined,
+  points: question.points || 1,
+  correctAnswerExplanation: question.correctAnswerExplanation || "",
+  tags: question.tags || [],
+  difficulty: question.difficulty,
+});
+
+// Check that a question has what its type needs to be graded. Returns an error
+// message, or null when the question is valid.
+export const validateQuestion = (question: any): string | null => {
+  const { text, type } = question;
+  const options: any[] = Array.isArray(question.options)
+    ? question.options
+    : [];
+  const correctCount = options.filter((option) => option.isCorrect).length;
+
+  if (!text || !type) {
+    return "Question text and type are required";
+  }
+
+  if (!QUESTION_TYPES.includes(type)) {
+    return `Question type must be one of: ${QUESTION_TYPES.join(", ")}`;
+  }
+
+  if (
+    ["MultipleChoice", "MultipleSelect", "Ordering", "Matching"].includes(
+      type
+    ) &&
+    options.length < 2
+  ) {
+    return "This question type requires at least 2 options";
+  }
+
+  if (question.difficulty && !DIFFICULTIES.includes(question.difficulty)) {
+    return `Difficulty must be one of: ${DIFFICULTIES.join(", ")}`;
+  }
+
+  if (
+    question.tags !== undefined &&
+    (!Array.isArray(question.tags) ||
+      question.tags.some((tag: any) => typeof tag !== "string"))
+  ) {
+    return "Tags must be a list of strings";
+  }
+
+  switch (type) {
+    case "MultipleSelect":
+      if (correctCount < 1) {
+        return "Multiple select questions require at least 1 correct option";
+      }
+      break;
+    case "TrueFalse":
+      if (options.length !== 2 || correctCount !== 1) {
+        return "True/false questions require 2 options with exactly 1 correct";
+      }
+      break;
+    case "ShortAnswer":
+      if (
+        !Array.isArray(question.acceptedAnswers) ||
+        !question.acceptedAnswers.some(
+          (answer: any) =>
+            typeof answer === "string" && normalizeShortAnswer(answer)
+        )
+      ) {
+        return "Short answer questions require at least 1 accepted answer";
+      }
+      break;
+    case "Matching":
+      if (options.some((option) => !option.match)) {
+        return "Every option in a matching question requires a match";
+      }
+      break;
+  }
+
+  return null;
+};
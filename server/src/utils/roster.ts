@@ -0,0 +1,98 @@
+import { clerkClient } from "../index";
+import Quiz from "../models/quizModel";
+import UserCourseProgress from "../models/userCourseProgressModel";
+import { listCourseEnrollments, refreshEnrollment } from "./enrollments";
+import { listCourseQuizAttempts } from "./activityEvents";
+import { computeQuizResult } from "./quizAttempts";
+import { batchGetByUser } from "./utils";
+
+const BATCH_SIZE = 100;
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round(
+        (values.reduce((sum, value) => sum + value, 0) / values.length) * 100
+      ) / 100
+    : null;
+
+// Names and emails from Clerk. Users deleted from Clerk are left out.
+const getUserProfiles = async (userIds: string[]) => {
+  const profiles = new Map<string, { name: string; email: string }>();
+  for (let i = 0; i < userIds.length; i += BATCH_SIZE) {
+    const { data: users } = await clerkClient.users.getUserList({
+      userId: userIds.slice(i, i + BATCH_SIZE),
+      limit: BATCH_SIZE,
+    });
+    for (const user of users) {
+      profiles.set(user.id, {
+        name: [user.firstName, user.lastName].filter(Boolean).join(" "),
+        email: user.primaryEmailAddress?.emailAddress || "",
+      });
+    }
+  }
+  return profiles;
+};
+
+/**
+ * Everyone who has been a student of a course, with their progress and the
+ * counted result of each of the course's quizzes.
+ */
+export const buildCourseRoster = async (courseId: string) => {
+  const enrollments = await listCourseEnrollments(courseId);
+  for (const enrollment of enrollments) {
+    await refreshEnrollment(enrollment);
+  }
+
+  const userIds = enrollments.map((enrollment: any) => enrollment.userId);
+  const quizzes = await Quiz.query("courseId")
+    .eq(courseId)
+    .using("courseIndex")
+    .exec();
+  const [courseProgress, quizAttempts, profiles] = await Promise.all([
+    batchGetByUser(
+      UserCourseProgress,
+      userIds.map((userId: string) => ({ userId, courseId }))
+    ),
+    listCourseQuizAttempts(courseId),
+    getUserProfiles(userIds),
+  ]);
+
+  const students = enrollments.map((enrollment: any) => {
+    const progress = courseProgress.get(enrollment.userId);
+    const attempts = quizAttempts.filter(
+      (attempt: any) => attempt.userId === enrollment.userId
+    );
+    const quizResults = quizzes
+      .map((quiz: any) => computeQuizResult(quiz, attempts))
+      .filter(Boolean) as any[];
+
+    return {
+      userId: enrollment.userId,
+      name: profiles.get(enrollment.userId)?.name || "",
+      email: profiles.get(enrollment.userId)?.email || "",
+      status: enrollment.status,
+      enrolledAt: enrollment.enrolledAt,
+      expiresAt: enrollment.expiresAt,
+      endedAt: enrollment.endedAt,
+      overallProgress: Math.round(progress?.overallProgress || 0),
+      lastAccessedTimestamp: progress?.lastAccessedTimestamp,
+      quizzesTaken: quizResults.length,
+      quizzesPassed: quizResults.filter((result) => result.passed).length,
+      averageQuizScore: average(quizResults.map((result) => result.score)),
+      quizResults: quizResults.map(({ quizId, score, passed, attempts }) => ({
+        quizId,
+        score,
+        passed,
+        attempts,
+      })),
+    };
+  });
+
+  return {
+    quizzes: quizzes.map((quiz: any) => ({
+      quizId: quiz.quizId,
+      title: quiz.title,
+    })),
+    students,
+  };
+};
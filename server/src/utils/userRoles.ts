@@ -0,0 +1,47 @@
+import { v4 as uuidv4 } from "uuid";
+import { clerkClient } from "../index";
+import RoleChange from "../models/roleChangeModel";
+import { USER_ROLES, UserRole } from "../middleware/authMiddleware";
+
+// Set a user's Clerk role and keep an audit record of who changed it. This is
+// the only place that writes publicMetadata.userType. Nothing is written or
+// recorded when the user already has the role.
+export const setUserRole = async ({
+  userId,
+  role,
+  changedBy,
+  reason,
+  applicationId,
+}: {
+  userId: string;
+  role: string;
+  changedBy: string;
+  reason?: string;
+  applicationId?: string;
+}): Promise<{ error?: string; roleChange?: any }> => {
+  if (!USER_ROLES.includes(role as UserRole)) {
+    return { error: `Role must be one of: ${USER_ROLES.join(", ")}` };
+  }
+
+  const user = await clerkClient.users.getUser(userId);
+  const userType = user.publicMetadata?.userType as UserRole;
+  const previousRole = USER_ROLES.includes(userType) ? userType : "student";
+  if (previousRole === role) return {};
+
+  // Clerk merges publicMetadata, so other keys such as settings are kept
+  await clerkClient.users.updateUserMetadata(userId, {
+    publicMetadata: { userType: role },
+  });
+
+  const roleChange = await RoleChange.create({
+    roleChangeId: uuidv4(),
+    userId,
+    previousRole,
+    newRole: role,
+    changedBy,
+    reason,
+    applicationId,
+  });
+
+  return { roleChange };
+};
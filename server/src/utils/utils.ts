@@ -150,3 +150,32 @@ export const calculateOverallProgress = (sections: any[]): number => {
 
   return totalChapters > 0 ? (completedChapters / totalChapters) * 100 : 0;
 };
+
+// IDs of the completed chapters in a student's course progress
+export const completedChapterIds = (sections: any[] = []) =>
+  new Set<string>(
+    sections.flatMap((section: any) =>
+      (section.chapters || [])
+        .filter((chapter: any) => chapter.completed)
+        .map((chapter: any) => chapter.chapterId)
+    )
+  );
+
+// Read records keyed by user in batches of 100, returned by userId
+export const batchGetByUser = async (model: any, keys: any[]) => {
+  const records = new Map<string, any>();
+  for (let i = 0; i < keys.length; i += 100) {
+    const batch = await model.batchGet(keys.slice(i, i + 100));
+    for (const record of batch) records.set(record.userId, record);
+  }
+  return records;
+};
+
+// Absolute URL of a path in the client app, for links sent outside of it
+export const clientUrl = (link: string) =>
+  /^https?:\/\//.test(link)
+    ? link
+    : `${(process.env.CLIENT_URL || "http://localhost:3000").replace(
+        /\/$/,
+        ""
+      )}${link}`;
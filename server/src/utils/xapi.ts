@@ -0,0 +1,387 @@
+import { v4 as uuidv4 } from "uuid";
+import XapiStatement from "../models/xapiStatementModel";
+
+export const XAPI_VERSION = "1.0.3";
+
+const ACTIVITY_BASE_URL = (
+  process.env.XAPI_ACTIVITY_BASE_URL || "http://localhost:3000"
+).replace(/\/$/, "");
+
+const MAX_DELIVERY_ATTEMPTS = 8;
+const DELIVERY_BATCH_SIZE = 50;
+const DELIVERY_TIMEOUT_MS = 5000;
+
+const verb = (id: string, display: string) => ({
+  id,
+  display: { "en-US": display },
+});
+
+export const XAPI_VERBS = {
+  experienced: verb(
+    "http://adlnet.gov/expapi/verbs/experienced",
+    "experienced"
+  ),
+  completed: verb("http://adlnet.gov/expapi/verbs/completed", "completed"),
+  passed: verb("http://adlnet.gov/expapi/verbs/passed", "passed"),
+  failed: verb("http://adlnet.gov/expapi/verbs/failed", "failed"),
+  commented: verb("http://adlnet.gov/expapi/verbs/commented", "commented"),
+  replied: verb("http://id.tincanapi.com/verb/replied", "replied"),
+  // No common vocabulary has a verb for emoji-style reactions
+  reacted: verb(`${ACTIVITY_BASE_URL}/xapi/verbs/reacted`, "reacted to"),
+  asked: verb("http://adlnet.gov/expapi/verbs/asked", "asked"),
+  answered: verb("http://adlnet.gov/expapi/verbs/answered", "answered"),
+  upvoted: verb("http://id.tincanapi.com/verb/voted-up", "voted up"),
+};
+
+const ACTIVITY_TYPES = {
+  course: "http://adlnet.gov/expapi/activities/course",
+  lesson: "http://adlnet.gov/expapi/activities/lesson",
+  assessment: "http://adlnet.gov/expapi/activities/assessment",
+  comment: "http://activitystrea.ms/schema/1.0/comment",
+  question: "http://adlnet.gov/expapi/activities/question",
+  answer: "http://id.tincanapi.com/activitytype/forum-reply",
+};
+
+const DISCUSSION_VERBS: Record<string, keyof typeof XAPI_VERBS> = {
+  Comment: "commented",
+  Reply: "replied",
+  Reaction: "reacted",
+  Question: "asked",
+  Answer: "answered",
+  Upvote: "upvoted",
+};
+
+// The LRS to send statements to, or null to only keep them locally
+const getLrsConfig = () => {
+  const endpoint = process.env.XAPI_LRS_ENDPOINT;
+  if (!endpoint) return null;
+
+  const { XAPI_LRS_USERNAME: username, XAPI_LRS_PASSWORD: password } =
+    process.env;
+  return {
+    url: `${endpoint.replace(/\/$/, "")}/statements`,
+    authorization:
+      username || password
+        ? `Basic ${Buffer.from(`${username || ""}:${password || ""}`).toString(
+            "base64"
+          )}`
+        : undefined,
+  };
+};
+
+// Students are identified by their user ID rather than an email address
+export const buildActor = (userId: string) => ({
+  objectType: "Agent",
+  account: { homePage: ACTIVITY_BASE_URL, name: userId },
+});
+
+const activity = (path: string, type: string, name?: string) => ({
+  objectType: "Activity",
+  id: `${ACTIVITY_BASE_URL}${path}`,
+  definition: {
+    type,
+    ...(name ? { name: { "en-US": name } } : {}),
+  },
+});
+
+const courseContext = (courseId: string) => ({
+  platform: "EduFlip",
+  contextActivities: {
+    parent: [activity(`/courses/${courseId}`, ACTIVITY_TYPES.course)],
+  },
+});
+
+const chapterActivity = (courseId: string, chapterId: string, title?: string) =>
+  activity(
+    `/courses/${courseId}/chapters/${chapterId}`,
+    ACTIVITY_TYPES.lesson,
+    title
+  );
+
+export const buildLessonAccessStatement = (
+  userId: string,
+  access: { courseId: string; chapterId: string },
+  timestamp: string
+) => ({
+  actor: buildActor(userId),
+  verb: XAPI_VERBS.experienced,
+  object: chapterActivity(access.courseId, access.chapterId),
+  context: courseContext(access.courseId),
+  timestamp,
+});
+
+export const buildChapterCompletionStatement = (
+  userId: string,
+  courseId: string,
+  chapter: { chapterId: string; title?: string },
+  timestamp: string
+) => ({
+  actor: buildActor(userId),
+  verb: XAPI_VERBS.completed,
+  object: chapterActivity(courseId, chapter.chapterId, chapter.title),
+  result: { completion: true },
+  context: courseContext(courseId),
+  timestamp,
+});
+
+/**
+ * Passed or failed with the attempt's score. Attempts with essays waiting to
+ * be graded are only completed; a passed or failed statement follows once the
+ * teacher has graded them.
+ */
+export const buildQuizAttemptStatement = (
+  userId: string,
+  attempt: any,
+  quizTitle?: string
+) => {
+  const pending = !!attempt.pendingReview;
+  const hasPoints =
+    attempt.totalPoints > 0 && typeof attempt.pointsEarned === "number";
+
+  return {
+    actor: buildActor(userId),
+    verb: pending
+      ? XAPI_VERBS.completed
+      : attempt.passed
+      ? XAPI_VERBS.passed
+      : XAPI_VERBS.failed,
+    object: activity(
+      `/quizzes/${attempt.quizId}`,
+      ACTIVITY_TYPES.assessment,
+      quizTitle
+    ),
+    result: {
+      completion: attempt.completed !== false,
+      ...(pending
+        ? {}
+        : {
+            success: !!attempt.passed,
+            score: {
+              scaled: Math.min(Math.max((attempt.score || 0) / 100, 0), 1),
+              ...(hasPoints
+                ? {
+                    raw: Math.min(attempt.pointsEarned, attempt.totalPoints),
+                    min: 0,
+                    max: attempt.totalPoints,
+                  }
+                : {}),
+            },
+          }),
+      ...(typeof attempt.timeTaken === "number"
+        ? { duration: `PT${Math.round(attempt.timeTaken)}S` }
+        : {}),
+    },
+    context: courseContext(attempt.courseId),
+    timestamp: attempt.attemptTimestamp,
+  };
+};
+
+export const buildDiscussionStatement = (
+  userId: string,
+  discussion: {
+    courseId: string;
+    chapterId?: string;
+    activityType: string;
+    commentId?: string;
+    questionId?: string;
+    answerId?: string;
+  },
+  timestamp: string
+) => ({
+  actor: buildActor(userId),
+  verb: XAPI_VERBS[DISCUSSION_VERBS[discussion.activityType]],
+  // Answering is about the question, upvoting about the answer
+  object:
+    discussion.questionId && discussion.activityType === "Upvote"
+      ? activity(
+          `/courses/${discussion.courseId}/questions/${discussion.questionId}/answers/${discussion.answerId}`,
+          ACTIVITY_TYPES.answer
+        )
+      : discussion.questionId
+      ? activity(
+          `/courses/${discussion.courseId}/questions/${discussion.questionId}`,
+          ACTIVITY_TYPES.question
+        )
+      : discussion.commentId
+      ? activity(
+          `/courses/${discussion.courseId}/comments/${discussion.commentId}`,
+          ACTIVITY_TYPES.comment
+        )
+      : discussion.chapterId
+      ? chapterActivity(discussion.courseId, discussion.chapterId)
+      : activity(`/courses/${discussion.courseId}`, ACTIVITY_TYPES.course),
+  context: courseContext(discussion.courseId),
+  timestamp,
+});
+
+// The xAPI statement for an ActivityEvent
+export const buildActivityEventStatement = (
+  userId: string,
+  event: Record<string, any>,
+  timestamp: string
+) => {
+  switch (event.type) {
+    case "LessonAccess":
+      return buildLessonAccessStatement(userId, event as any, timestamp);
+    case "QuizAttempt":
+      return buildQuizAttemptStatement(userId, event.quizAttempt);
+    case "DiscussionActivity":
+      return buildDiscussionStatement(userId, event as any, timestamp);
+    default:
+      return null;
+  }
+};
+
+/**
+ * Store a statement and queue it for the LRS. Failures are logged rather than
+ * thrown so that recording learning activity never fails the request that
+ * caused it.
+ */
+export const emitStatement = async (statement: Record<string, any> | null) => {
+  if (!statement) return null;
+
+  try {
+    const stored = new Date().toISOString();
+    const full: Record<string, any> = {
+      id: uuidv4(),
+      ...statement,
+      timestamp: statement.timestamp || stored,
+      version: XAPI_VERSION,
+    };
+    const record = await XapiStatement.create({
+      statementId: full.id,
+      actorId: full.actor.account.name,
+      verbId: full.verb.id,
+      activityId: full.object.id,
+      statement: JSON.stringify(full),
+      stored,
+      deliveryStatus: getLrsConfig() ? "Pending" : "Local",
+      nextAttemptAt: getLrsConfig() ? stored : undefined,
+    });
+
+    // Send right away. Statements that do not make it stay in the outbox
+    // for deliverPendingStatements.
+    if (record.deliveryStatus === "Pending") {
+      deliverStatements([record]).catch((error) =>
+        console.error("Error delivering xAPI statement:", error)
+      );
+    }
+    return full;
+  } catch (error) {
+    console.error("Error storing xAPI statement:", error);
+    return null;
+  }
+};
+
+// Wait 1, 2, 4... minutes between attempts
+const retryDelay = (attempts: number) => 2 ** (attempts - 1) * 60 * 1000;
+
+const markDelivered = (statementIds: string[]) =>
+  Promise.all(
+    statementIds.map((statementId) =>
+      XapiStatement.update(
+        { statementId },
+        {
+          $SET: {
+            deliveryStatus: "Delivered",
+            deliveredAt: new Date().toISOString(),
+          },
+          $REMOVE: ["nextAttemptAt", "lastError"],
+        }
+      )
+    )
+  );
+
+const markFailedAttempt = (records: any[], error: string) =>
+  Promise.all(
+    records.map((record) => {
+      const attempts = (record.deliveryAttempts || 0) + 1;
+      return attempts >= MAX_DELIVERY_ATTEMPTS
+        ? XapiStatement.update(
+            { statementId: record.statementId },
+            {
+              $SET: {
+                deliveryStatus: "Failed",
+                deliveryAttempts: attempts,
+                lastError: error,
+              },
+              $REMOVE: ["nextAttemptAt"],
+            }
+          )
+        : XapiStatement.update(
+            { statementId: record.statementId },
+            {
+              deliveryAttempts: attempts,
+              nextAttemptAt: new Date(
+                Date.now() + retryDelay(attempts)
+              ).toISOString(),
+              lastError: error,
+            }
+          );
+    })
+  );
+
+/**
+ * POST stored statements to the LRS in one request. The LRS answers 409 when
+ * it already has a statement with one of the IDs, which happens when an
+ * earlier attempt got through but was not marked, so that counts as sent.
+ */
+const deliverStatements = async (records: any[]) => {
+  const lrs = getLrsConfig();
+  if (!lrs || records.length === 0) return;
+
+  let error: string;
+  try {
+    const response = await fetch(lrs.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Experience-API-Version": XAPI_VERSION,
+        ...(lrs.authorization ? { Authorization: lrs.authorization } : {}),
+      },
+      body: JSON.stringify(
+        records.map((record) => JSON.parse(record.statement))
+      ),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (response.ok || response.status === 409) {
+      await markDelivered(records.map((record) => record.statementId));
+      return;
+    }
+    error = `LRS responded ${response.status}: ${(await response.text()).slice(
+      0,
+      500
+    )}`;
+  } catch (requestError: any) {
+    error = requestError?.message || String(requestError);
+  }
+  await markFailedAttempt(records, error);
+};
+
+/**
+ * Send every queued statement that is due for another try. Runs on a timer
+ * in development and from the scheduled "deliverXapiStatements" action in
+ * production.
+ */
+export const deliverPendingStatements = async () => {
+  if (!getLrsConfig()) return { attempted: 0, remaining: 0 };
+
+  const due = await XapiStatement.query("deliveryStatus")
+    .eq("Pending")
+    .using("deliveryIndex")
+    .where("nextAttemptAt")
+    .le(new Date().toISOString())
+    .all()
+    .exec();
+
+  for (let i = 0; i < due.length; i += DELIVERY_BATCH_SIZE) {
+    await deliverStatements(due.slice(i, i + DELIVERY_BATCH_SIZE));
+  }
+
+  const remaining = await XapiStatement.query("deliveryStatus")
+    .eq("Pending")
+    .using("deliveryIndex")
+    .count()
+    .exec();
+  return { attempted: due.length, remaining: remaining.count };
+};